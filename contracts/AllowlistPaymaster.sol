@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: GPL-3.0-only
+pragma solidity ^0.8.0;
+pragma abicoder v2;
+
+import "./open-gsn/BasePaymaster.sol";
+import "./open-gsn/interfaces/IRelayHub.sol";
+import "./open-gsn/utils/MinLibBytes.sol";
+
+/**
+ * @title AllowlistPaymaster
+ * @notice Pays only for requests to allowed recipient contracts and functions,
+ * optionally restricted to allowed senders.
+ *
+ * A request is accepted when
+ *  - `request.to` is an allowed target, and
+ *  - all methods of the target are allowed, or the selector of `request.data` is allowed for the target, and
+ *  - the sender allowlist is disabled, or `request.from` is an allowed sender.
+ *
+ * Rejections revert in preRelayedCall, so the RelayHub emits TransactionRejectedByPaymaster
+ * and the paymaster is not charged.
+ */
+contract AllowlistPaymaster is BasePaymaster {
+    mapping(address => bool) public allowedTargets;
+    mapping(address => bool) public allMethodsAllowed;
+    mapping(address => mapping(bytes4 => bool)) public allowedMethods;
+
+    bool public senderAllowlistEnabled;
+    mapping(address => bool) public allowedSenders;
+
+    event TargetAllowed(address indexed target, bool allowed, bool allMethods);
+    event MethodAllowed(address indexed target, bytes4 selector, bool allowed);
+    event SenderAllowed(address indexed sender, bool allowed);
+    event SenderAllowlistEnabled(bool enabled);
+
+    constructor(
+        IRelayHub _relayHub,
+        IForwarder _forwarder
+    ) Ownable(_msgSender()) BasePaymaster() {
+        setRelayHub(_relayHub);
+        setTrustedForwarder(address(_forwarder));
+    }
+
+    /// @param allMethods - accept every function of the target (selectors are not checked)
+    function setTarget(
+        address target,
+        bool allowed,
+        bool allMethods
+    ) external onlyOwner {
+        allowedTargets[target] = allowed;
+        allMethodsAllowed[target] = allowed && allMethods;
+        emit TargetAllowed(target, allowed, allowed && allMethods);
+    }
+
+    function setMethods(
+        address target,
+        bytes4[] calldata selectors,
+        bool allowed
+    ) external onlyOwner {
+        for (uint256 i = 0; i < selectors.length; i++) {
+            allowedMethods[target][selectors[i]] = allowed;
+            emit MethodAllowed(target, selectors[i], allowed);
+        }
+    }
+
+    function setSenders(
+        address[] calldata senders,
+        bool allowed
+    ) external onlyOwner {
+        for (uint256 i = 0; i < senders.length; i++) {
+            allowedSenders[senders[i]] = allowed;
+            emit SenderAllowed(senders[i], allowed);
+        }
+    }
+
+    function setSenderAllowlistEnabled(bool enabled) external onlyOwner {
+        senderAllowlistEnabled = enabled;
+        emit SenderAllowlistEnabled(enabled);
+    }
+
+    function preRelayedCall(
+        GsnTypes.RelayRequest calldata relayRequest,
+        bytes calldata signature,
+        bytes calldata approvalData,
+        uint256 maxPossibleGas
+    )
+        external
+        override
+        relayHubOnly
+        returns (bytes memory context, bool rejectOnRecipientRevert)
+    {
+        (signature, approvalData, maxPossibleGas);
+
+        // checked before _verifyForwarder, which calls isTrustedForwarder on the target
+        address target = relayRequest.request.to;
+        require(allowedTargets[target], "target not allowed");
+
+        _verifyForwarder(relayRequest);
+
+        if (!allMethodsAllowed[target]) {
+            require(relayRequest.request.data.length >= 4, "method not allowed");
+            bytes4 selector = MinLibBytes.readBytes4(
+                relayRequest.request.data,
+                0
+            );
+            require(allowedMethods[target][selector], "method not allowed");
+        }
+
+        if (senderAllowlistEnabled) {
+            require(
+                allowedSenders[relayRequest.request.from],
+                "sender not allowed"
+            );
+        }
+
+        return ("", false);
+    }
+
+    function postRelayedCall(
+        bytes calldata context,
+        bool success,
+        uint256 gasUseWithoutPost,
+        GsnTypes.RelayData calldata relayData
+    ) external override relayHubOnly {
+        (context, success, gasUseWithoutPost, relayData);
+    }
+
+    function versionPaymaster()
+        external
+        pure
+        override
+        returns (string memory)
+    {
+        return "2.2.5+opengsn.allowlist.ipaymaster";
+    }
+}
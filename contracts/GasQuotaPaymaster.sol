@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: GPL-3.0-only
+pragma solidity ^0.8.0;
+pragma abicoder v2;
+
+import "./open-gsn/BasePaymaster.sol";
+import "./open-gsn/interfaces/IRelayHub.sol";
+
+/**
+ * @title GasQuotaPaymaster
+ * @notice Sponsors each sender up to a fixed native charge per rolling time window.
+ *
+ *  - postRelayedCall records RelayHub.calculateCharge(gasUseWithoutPost + gasUsedByPost) for `request.from`.
+ *  - preRelayedCall rejects the request unless the sender's usage in the rolling window plus the
+ *    maximum charge of the request (calculateCharge(maxPossibleGas)) fits in the quota.
+ *
+ * Charges are kept per sender in buckets of `windowDuration / BUCKETS` seconds. A bucket stops counting
+ * once it is more than `windowDuration` old, so a charge is released between `windowDuration` and
+ * `windowDuration + windowDuration / BUCKETS` seconds after it was recorded, and no `windowDuration`
+ * long period is ever charged more than `quota`.
+ *
+ * `windowDuration` is fixed at deployment: the recorded buckets are laid out with its bucket duration
+ * and lifetime, so changing it would misplace or release the outstanding usage. Only `quota` can be changed.
+ */
+contract GasQuotaPaymaster is BasePaymaster {
+    /// @notice number of buckets a window is split into
+    uint256 public constant BUCKETS = 24;
+
+    struct Bucket {
+        uint64 start;
+        uint192 charge;
+    }
+
+    /// @notice native charge (wei) sponsored per sender and window
+    uint256 public quota;
+
+    /// @notice window length in seconds, fixed at deployment
+    uint256 public windowDuration;
+
+    /// @notice gas used by postRelayedCall itself, added to gasUseWithoutPost when computing the charge
+    uint256 public gasUsedByPost;
+
+    /// @dev ring of BUCKETS + 1 buckets, indexed by (bucket start / bucket duration) % (BUCKETS + 1)
+    mapping(address => Bucket[BUCKETS + 1]) private _buckets;
+
+    event QuotaChanged(uint256 quota, uint256 windowDuration);
+    event GasUsedByPostChanged(uint256 gasUsedByPost);
+    event QuotaUsed(address indexed from, uint256 charge, uint256 used);
+
+    constructor(
+        IRelayHub _relayHub,
+        IForwarder _forwarder,
+        uint256 _quota,
+        uint256 _windowDuration,
+        uint256 _gasUsedByPost
+    ) Ownable(_msgSender()) BasePaymaster() {
+        setRelayHub(_relayHub);
+        setTrustedForwarder(address(_forwarder));
+        _setQuota(_quota, _windowDuration);
+        gasUsedByPost = _gasUsedByPost;
+    }
+
+    function setQuota(
+        uint256 _quota,
+        uint256 _windowDuration
+    ) external onlyOwner {
+        require(
+            _windowDuration == windowDuration,
+            "window duration cannot change"
+        );
+        _setQuota(_quota, _windowDuration);
+    }
+
+    function setGasUsedByPost(uint256 _gasUsedByPost) external onlyOwner {
+        gasUsedByPost = _gasUsedByPost;
+        emit GasUsedByPostChanged(_gasUsedByPost);
+    }
+
+    /**
+     * @return used - charge used in the rolling window
+     * @return remaining - charge left in the rolling window
+     * @return resetsAt - earliest timestamp a part of the usage is released (0 if nothing is used)
+     */
+    function remainingQuota(
+        address sender
+    )
+        external
+        view
+        returns (uint256 used, uint256 remaining, uint256 resetsAt)
+    {
+        (used, resetsAt) = _usage(sender);
+        remaining = used < quota ? quota - used : 0;
+    }
+
+    function preRelayedCall(
+        GsnTypes.RelayRequest calldata relayRequest,
+        bytes calldata signature,
+        bytes calldata approvalData,
+        uint256 maxPossibleGas
+    )
+        external
+        override
+        relayHubOnly
+        returns (bytes memory context, bool rejectOnRecipientRevert)
+    {
+        (signature, approvalData);
+
+        _verifyForwarder(relayRequest);
+
+        address from = relayRequest.request.from;
+        (uint256 used, ) = _usage(from);
+        uint256 maxCharge = relayHub.calculateCharge(
+            maxPossibleGas,
+            relayRequest.relayData
+        );
+
+        require(used + maxCharge <= quota, "gas quota exceeded");
+
+        return (abi.encode(from), false);
+    }
+
+    function postRelayedCall(
+        bytes calldata context,
+        bool success,
+        uint256 gasUseWithoutPost,
+        GsnTypes.RelayData calldata relayData
+    ) external override relayHubOnly {
+        (success);
+
+        address from = abi.decode(context, (address));
+
+        uint256 charge = relayHub.calculateCharge(
+            gasUseWithoutPost + gasUsedByPost,
+            relayData
+        );
+
+        _record(from, charge);
+
+        (uint256 used, ) = _usage(from);
+        emit QuotaUsed(from, charge, used);
+    }
+
+    function versionPaymaster()
+        external
+        pure
+        override
+        returns (string memory)
+    {
+        return "2.2.5+opengsn.gasquota.ipaymaster";
+    }
+
+    function _setQuota(uint256 _quota, uint256 _windowDuration) private {
+        require(
+            _windowDuration > 0 && _windowDuration % BUCKETS == 0,
+            "window duration is not a multiple of BUCKETS"
+        );
+        quota = _quota;
+        windowDuration = _windowDuration;
+        emit QuotaChanged(_quota, _windowDuration);
+    }
+
+    /// @dev sums the buckets that started less than `windowDuration + bucketDuration` seconds ago
+    function _usage(
+        address sender
+    ) private view returns (uint256 used, uint256 resetsAt) {
+        Bucket[BUCKETS + 1] storage buckets = _buckets[sender];
+        uint256 lifetime = windowDuration + windowDuration / BUCKETS;
+
+        for (uint256 i = 0; i <= BUCKETS; i++) {
+            Bucket memory bucket = buckets[i];
+            uint256 releasedAt = bucket.start + lifetime;
+
+            if (bucket.charge == 0 || releasedAt <= block.timestamp) {
+                continue;
+            }
+
+            used += bucket.charge;
+
+            if (resetsAt == 0 || releasedAt < resetsAt) {
+                resetsAt = releasedAt;
+            }
+        }
+    }
+
+    /// @dev adds the charge to the bucket of the current block, replacing the released bucket in its slot
+    function _record(address sender, uint256 charge) private {
+        uint256 bucketDuration = windowDuration / BUCKETS;
+        uint256 start = block.timestamp - (block.timestamp % bucketDuration);
+        Bucket storage bucket = _buckets[sender][
+            (start / bucketDuration) % (BUCKETS + 1)
+        ];
+
+        if (bucket.start != start) {
+            bucket.start = uint64(start);
+            bucket.charge = 0;
+        }
+
+        bucket.charge += uint192(charge);
+    }
+}
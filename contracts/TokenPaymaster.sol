@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: GPL-3.0-only
+pragma solidity ^0.8.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import "./open-gsn/BasePaymaster.sol";
+import "./open-gsn/interfaces/IRelayHub.sol";
+
+/**
+ * @title TokenPaymaster
+ * @notice Charges the sender in an ERC20 token (e.g. ClamCoin) for relayed calls,
+ * converted from the native charge at a fixed, owner-managed rate.
+ *
+ *  - preRelayedCall checks the sender's token balance and allowance for the maximum possible charge
+ *    and pre-charges it, so the relayed call itself cannot spend the tokens needed to pay.
+ *  - postRelayedCall computes the actual charge with RelayHub.calculateCharge(gasUseWithoutPost + gasUsedByPost),
+ *    refunds the unused tokens and replenishes the RelayHub deposit with the same native amount from the reserve.
+ *
+ * The native reserve is funded with {depositReserve}; plain transfers are still deposited to the RelayHub.
+ * The paymaster therefore needs a native float in the reserve as well as tokens: when the reserve cannot
+ * cover a charge, the call is still paid from the RelayHub deposit (reverting in postRelayedCall would not
+ * undo the charge), the replenishment is skipped and {DepositReplenishmentSkipped} is emitted.
+ * The owner should watch that event and top up the reserve before the RelayHub deposit runs out.
+ */
+contract TokenPaymaster is BasePaymaster {
+    IERC20 public immutable token;
+
+    /// @notice token units per 1e18 wei of native charge
+    uint256 public tokensPerNative;
+
+    /// @notice gas used by postRelayedCall itself, added to gasUseWithoutPost when computing the charge
+    uint256 public gasUsedByPost;
+
+    event TokensCharged(
+        address indexed from,
+        uint256 nativeCharge,
+        uint256 tokenCharge
+    );
+    /// @notice the reserve could not cover nativeCharge, so the RelayHub deposit was not replenished
+    event DepositReplenishmentSkipped(uint256 nativeCharge, uint256 reserve);
+    event RateChanged(uint256 tokensPerNative);
+    event GasUsedByPostChanged(uint256 gasUsedByPost);
+
+    constructor(
+        IRelayHub _relayHub,
+        IForwarder _forwarder,
+        IERC20 _token,
+        uint256 _tokensPerNative,
+        uint256 _gasUsedByPost
+    ) Ownable(_msgSender()) BasePaymaster() {
+        setRelayHub(_relayHub);
+        setTrustedForwarder(address(_forwarder));
+        token = _token;
+        tokensPerNative = _tokensPerNative;
+        gasUsedByPost = _gasUsedByPost;
+    }
+
+    function setRate(uint256 _tokensPerNative) external onlyOwner {
+        tokensPerNative = _tokensPerNative;
+        emit RateChanged(_tokensPerNative);
+    }
+
+    function setGasUsedByPost(uint256 _gasUsedByPost) external onlyOwner {
+        gasUsedByPost = _gasUsedByPost;
+        emit GasUsedByPostChanged(_gasUsedByPost);
+    }
+
+    /// @notice keeps the native value as the reserve used to replenish the RelayHub deposit
+    function depositReserve() external payable {}
+
+    function withdrawReserve(
+        uint256 amount,
+        address payable target
+    ) external onlyOwner {
+        target.transfer(amount);
+    }
+
+    function withdrawTokens(uint256 amount, address target) external onlyOwner {
+        require(token.transfer(target, amount), "token transfer failed");
+    }
+
+    function nativeToToken(
+        uint256 nativeAmount
+    ) public view returns (uint256) {
+        return (nativeAmount * tokensPerNative) / 1e18;
+    }
+
+    function preRelayedCall(
+        GsnTypes.RelayRequest calldata relayRequest,
+        bytes calldata signature,
+        bytes calldata approvalData,
+        uint256 maxPossibleGas
+    )
+        external
+        override
+        relayHubOnly
+        returns (bytes memory context, bool rejectOnRecipientRevert)
+    {
+        (signature, approvalData);
+
+        _verifyForwarder(relayRequest);
+
+        address from = relayRequest.request.from;
+        uint256 tokenPreCharge = nativeToToken(
+            relayHub.calculateCharge(maxPossibleGas, relayRequest.relayData)
+        );
+
+        require(
+            token.allowance(from, address(this)) >= tokenPreCharge,
+            "insufficient token allowance"
+        );
+        require(
+            token.balanceOf(from) >= tokenPreCharge,
+            "insufficient token balance"
+        );
+        require(
+            token.transferFrom(from, address(this), tokenPreCharge),
+            "token pre-charge failed"
+        );
+
+        return (abi.encode(from, tokenPreCharge), false);
+    }
+
+    function postRelayedCall(
+        bytes calldata context,
+        bool success,
+        uint256 gasUseWithoutPost,
+        GsnTypes.RelayData calldata relayData
+    ) external override relayHubOnly {
+        (success);
+
+        (address from, uint256 tokenPreCharge) = abi.decode(
+            context,
+            (address, uint256)
+        );
+
+        uint256 nativeCharge = relayHub.calculateCharge(
+            gasUseWithoutPost + gasUsedByPost,
+            relayData
+        );
+        uint256 tokenCharge = nativeToToken(nativeCharge);
+
+        if (tokenCharge > tokenPreCharge) {
+            tokenCharge = tokenPreCharge;
+        }
+
+        require(
+            token.transfer(from, tokenPreCharge - tokenCharge),
+            "token refund failed"
+        );
+
+        if (address(this).balance >= nativeCharge) {
+            relayHub.depositFor{value: nativeCharge}(address(this));
+        } else {
+            emit DepositReplenishmentSkipped(
+                nativeCharge,
+                address(this).balance
+            );
+        }
+
+        emit TokensCharged(from, nativeCharge, tokenCharge);
+    }
+
+    function versionPaymaster()
+        external
+        pure
+        override
+        returns (string memory)
+    {
+        return "2.2.5+opengsn.token.ipaymaster";
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: GPL-3.0-only
+pragma solidity ^0.8.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+import "./open-gsn/BasePaymaster.sol";
+import "./open-gsn/interfaces/IRelayHub.sol";
+
+/**
+ * @title VerifyingPaymaster
+ * @notice Pays only for requests approved off-chain by the configured approver key.
+ *
+ * approvalData is `abi.encode(uint256 expiry, bytes signature)`, where signature is an
+ * EIP-191 (eth_sign) signature of {getApprovalHash} and expiry is a unix timestamp.
+ * The approval covers the whole RelayRequest (including the forwarder nonce and RelayData),
+ * so it cannot be reused for another request, paymaster or chain.
+ */
+contract VerifyingPaymaster is BasePaymaster {
+    address public approver;
+
+    event ApproverChanged(address indexed approver);
+
+    constructor(
+        IRelayHub _relayHub,
+        IForwarder _forwarder,
+        address _approver
+    ) Ownable(_msgSender()) BasePaymaster() {
+        setRelayHub(_relayHub);
+        setTrustedForwarder(address(_forwarder));
+        _setApprover(_approver);
+    }
+
+    function setApprover(address _approver) external onlyOwner {
+        _setApprover(_approver);
+    }
+
+    /// @notice hash the approver signs (as an eth_sign message) to approve the request until expiry
+    function getApprovalHash(
+        GsnTypes.RelayRequest calldata relayRequest,
+        uint256 expiry
+    ) public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    block.chainid,
+                    address(this),
+                    keccak256(abi.encode(relayRequest)),
+                    expiry
+                )
+            );
+    }
+
+    function preRelayedCall(
+        GsnTypes.RelayRequest calldata relayRequest,
+        bytes calldata signature,
+        bytes calldata approvalData,
+        uint256 maxPossibleGas
+    )
+        external
+        override
+        relayHubOnly
+        returns (bytes memory context, bool rejectOnRecipientRevert)
+    {
+        (signature, maxPossibleGas);
+
+        _verifyForwarder(relayRequest);
+
+        require(approvalData.length != 0, "missing approval");
+
+        (uint256 expiry, bytes memory approvalSignature) = abi.decode(
+            approvalData,
+            (uint256, bytes)
+        );
+
+        require(block.timestamp <= expiry, "approval expired");
+
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(
+            MessageHashUtils.toEthSignedMessageHash(
+                getApprovalHash(relayRequest, expiry)
+            ),
+            approvalSignature
+        );
+        require(
+            error == ECDSA.RecoverError.NoError && recovered == approver,
+            "invalid approval signature"
+        );
+
+        return ("", false);
+    }
+
+    function postRelayedCall(
+        bytes calldata context,
+        bool success,
+        uint256 gasUseWithoutPost,
+        GsnTypes.RelayData calldata relayData
+    ) external override relayHubOnly {
+        (context, success, gasUseWithoutPost, relayData);
+    }
+
+    function versionPaymaster()
+        external
+        pure
+        override
+        returns (string memory)
+    {
+        return "2.2.5+opengsn.verifying.ipaymaster";
+    }
+
+    function _setApprover(address _approver) private {
+        require(_approver != address(0), "approver is zero address");
+        approver = _approver;
+        emit ApproverChanged(_approver);
+    }
+}
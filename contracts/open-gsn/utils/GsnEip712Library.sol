@@ -85,19 +85,13 @@ library GsnEip712Library {
     }
 
     function execute(GsnTypes.RelayRequest calldata relayRequest, bytes calldata signature) internal returns (bool forwarderSuccess, bool callSuccess, bytes memory ret) {
-        // (bytes memory suffixData) = splitRequest(relayRequest);
-        
+        (bytes memory suffixData) = splitRequest(relayRequest);
         bytes32 _domainSeparator = domainSeparator(relayRequest.relayData.forwarder);
 
-        // /* solhint-disable-next-line avoid-low-level-calls */
-        // (forwarderSuccess, ret) = relayRequest.relayData.forwarder.call(
-        //     abi.encodeWithSelector(IForwarder.execute.selector,
-        //     relayRequest.request, _domainSeparator, RELAY_REQUEST_TYPEHASH, suffixData, signature
-        // ));
         /* solhint-disable-next-line avoid-low-level-calls */
         (forwarderSuccess, ret) = relayRequest.relayData.forwarder.call(
             abi.encodeWithSelector(IForwarder.execute.selector,
-            relayRequest.request, _domainSeparator, FORWARD_REQUEST_TYPEHASH, "", signature
+            relayRequest.request, _domainSeparator, RELAY_REQUEST_TYPEHASH, suffixData, signature
         ));
         if ( forwarderSuccess ) {
 
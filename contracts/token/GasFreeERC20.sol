@@ -5,20 +5,148 @@ pragma solidity ^0.8.9;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Context.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 import {IERC20Errors} from "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
 
 import "hardhat/console.sol";
 /**
  * @title GasFreeERC20
+ * @dev Gasless actions are supported in three ways:
+ * - meta-transactions through the trusted forwarder (ERC-2771)
+ * - approvals by signature (ERC-2612 {permit}), which anyone can submit on behalf of the owner
+ * - transfers by signature (ERC-3009 {transferWithAuthorization}), which do not depend on the forwarder
+ *
+ * The trusted forwarders are a set managed by `FORWARDER_ADMIN_ROLE`, so the token can
+ * be pointed at a redeployed forwarder without redeploying the token.
  */
 
 abstract contract GasFreeERC20 is
     ERC2771Context,
+    AccessControl,
+    EIP712,
+    Nonces,
     IERC20,
     IERC20Metadata,
+    IERC20Permit,
     IERC20Errors
 {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    bytes32 public constant FORWARDER_ADMIN_ROLE =
+        keccak256("FORWARDER_ADMIN_ROLE");
+
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256(
+            "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+        );
+
+    bytes32 private constant TRANSFER_WITH_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+        );
+
+    bytes32 private constant RECEIVE_WITH_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "ReceiveWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+        );
+
+    bytes32 private constant CANCEL_AUTHORIZATION_TYPEHASH =
+        keccak256("CancelAuthorization(address authorizer,bytes32 nonce)");
+
+    mapping(address authorizer => mapping(bytes32 nonce => bool))
+        private _authorizationStates;
+
+    EnumerableSet.AddressSet private _trustedForwarders;
+
+    /**
+     * @dev The most recently added forwarder that is still trusted. See {trustedForwarder}.
+     */
+    address private _latestForwarder;
+
+    /**
+     * @dev Order in which each trusted forwarder was (last) added, used to find the next
+     * {trustedForwarder} when the latest one is removed. The set's own order is not kept
+     * across removals.
+     */
+    mapping(address forwarder => uint256) private _forwarderAddedOrder;
+
+    uint256 private _forwarderAdditions;
+
+    /**
+     * @dev Emitted when `forwarder` is added to the trusted forwarders.
+     */
+    event TrustedForwarderAdded(address indexed forwarder);
+
+    /**
+     * @dev Emitted when `forwarder` is removed from the trusted forwarders.
+     */
+    event TrustedForwarderRemoved(address indexed forwarder);
+
+    /**
+     * @dev Emitted when the authorization of `authorizer` with `nonce` is used.
+     */
+    event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce);
+
+    /**
+     * @dev Emitted when the authorization of `authorizer` with `nonce` is canceled.
+     */
+    event AuthorizationCanceled(
+        address indexed authorizer,
+        bytes32 indexed nonce
+    );
+
+    /**
+     * @dev Permit deadline has expired.
+     */
+    error ERC2612ExpiredSignature(uint256 deadline);
+
+    /**
+     * @dev Mismatched signature.
+     */
+    error ERC2612InvalidSigner(address signer, address owner);
+
+    /**
+     * @dev Authorization is used before `validAfter`.
+     */
+    error ERC3009AuthorizationNotYetValid(uint256 validAfter);
+
+    /**
+     * @dev Authorization is used at or after `validBefore`.
+     */
+    error ERC3009AuthorizationExpired(uint256 validBefore);
+
+    /**
+     * @dev Authorization with `nonce` is already used or canceled.
+     */
+    error ERC3009AuthorizationUsedOrCanceled(address authorizer, bytes32 nonce);
+
+    /**
+     * @dev Mismatched authorization signature.
+     */
+    error ERC3009InvalidSigner(address signer, address authorizer);
+
+    /**
+     * @dev {receiveWithAuthorization} is called by someone other than the payee.
+     */
+    error ERC3009InvalidCaller(address caller, address payee);
+
+    /**
+     * @dev `forwarder` is already trusted, or is the zero address.
+     */
+    error GasFreeERC20InvalidForwarder(address forwarder);
+
+    /**
+     * @dev `forwarder` is not trusted.
+     */
+    error GasFreeERC20UnknownForwarder(address forwarder);
+
     mapping(address account => uint256) private _balances;
 
     mapping(address account => mapping(address spender => uint256))
@@ -30,18 +158,149 @@ abstract contract GasFreeERC20 is
     string private _symbol;
 
     /**
-     * @dev Sets the values for {name} and {symbol}.
+     * @dev Sets the values for {name} and {symbol}, and initializes the {EIP712}
+     * domain separator using `name_` and version `"1"`.
      *
      * All two of these values are immutable: they can only be set once during
      * construction.
+     *
+     * `_trustedForwarder` is the first trusted forwarder, and the deployer is granted
+     * `DEFAULT_ADMIN_ROLE` and `FORWARDER_ADMIN_ROLE`.
      */
     constructor(
         string memory name_,
         string memory symbol_,
         address _trustedForwarder
-    ) ERC2771Context(_trustedForwarder) {
+    ) ERC2771Context(_trustedForwarder) EIP712(name_, "1") {
         _name = name_;
         _symbol = symbol_;
+
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(FORWARDER_ADMIN_ROLE, msg.sender);
+        _addTrustedForwarder(_trustedForwarder);
+    }
+
+    /**
+     * @dev Returns the most recently added forwarder that is still trusted,
+     * or the zero address if there is none. Use {trustedForwarders} for the full set.
+     */
+    function trustedForwarder() public view virtual override returns (address) {
+        return _latestForwarder;
+    }
+
+    /**
+     * @dev Returns all trusted forwarders.
+     */
+    function trustedForwarders() public view virtual returns (address[] memory) {
+        return _trustedForwarders.values();
+    }
+
+    /**
+     * @dev Returns whether `forwarder` is one of the trusted forwarders.
+     */
+    function isTrustedForwarder(
+        address forwarder
+    ) public view virtual override returns (bool) {
+        return _trustedForwarders.contains(forwarder);
+    }
+
+    /**
+     * @dev Trusts `forwarder` in addition to the current trusted forwarders.
+     *
+     * Requirements:
+     *
+     * - the caller must have `FORWARDER_ADMIN_ROLE`.
+     */
+    function addTrustedForwarder(
+        address forwarder
+    ) public virtual onlyRole(FORWARDER_ADMIN_ROLE) {
+        _addTrustedForwarder(forwarder);
+    }
+
+    /**
+     * @dev Stops trusting `forwarder`.
+     *
+     * Requirements:
+     *
+     * - the caller must have `FORWARDER_ADMIN_ROLE`.
+     */
+    function removeTrustedForwarder(
+        address forwarder
+    ) public virtual onlyRole(FORWARDER_ADMIN_ROLE) {
+        if (!_trustedForwarders.remove(forwarder)) {
+            revert GasFreeERC20UnknownForwarder(forwarder);
+        }
+
+        delete _forwarderAddedOrder[forwarder];
+
+        if (forwarder == _latestForwarder) {
+            _latestForwarder = _mostRecentForwarder();
+        }
+
+        emit TrustedForwarderRemoved(forwarder);
+    }
+
+    function _addTrustedForwarder(address forwarder) internal virtual {
+        if (forwarder == address(0) || !_trustedForwarders.add(forwarder)) {
+            revert GasFreeERC20InvalidForwarder(forwarder);
+        }
+
+        _forwarderAddedOrder[forwarder] = ++_forwarderAdditions;
+        _latestForwarder = forwarder;
+        emit TrustedForwarderAdded(forwarder);
+    }
+
+    /**
+     * @dev Returns the trusted forwarder with the highest {_forwarderAddedOrder},
+     * or the zero address if there is none.
+     */
+    function _mostRecentForwarder() private view returns (address latest) {
+        uint256 latestOrder;
+        uint256 length = _trustedForwarders.length();
+
+        for (uint256 i = 0; i < length; ++i) {
+            address forwarder = _trustedForwarders.at(i);
+            uint256 order = _forwarderAddedOrder[forwarder];
+
+            if (order > latestOrder) {
+                latestOrder = order;
+                latest = forwarder;
+            }
+        }
+    }
+
+    /**
+     * @dev See {ERC2771Context-_msgSender}. Role checks of {AccessControl} also use the
+     * sender appended by a trusted forwarder.
+     */
+    function _msgSender()
+        internal
+        view
+        virtual
+        override(Context, ERC2771Context)
+        returns (address)
+    {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData()
+        internal
+        view
+        virtual
+        override(Context, ERC2771Context)
+        returns (bytes calldata)
+    {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        virtual
+        override(Context, ERC2771Context)
+        returns (uint256)
+    {
+        return ERC2771Context._contextSuffixLength();
     }
 
     /**
@@ -160,6 +419,212 @@ abstract contract GasFreeERC20 is
         return true;
     }
 
+    /**
+     * @dev See {IERC20Permit-permit}.
+     *
+     * The signer is recovered from the signature, so the permit can be submitted
+     * by anyone (including a relayer) without going through the trusted forwarder.
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > deadline) {
+            revert ERC2612ExpiredSignature(deadline);
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_TYPEHASH,
+                owner,
+                spender,
+                value,
+                _useNonce(owner),
+                deadline
+            )
+        );
+
+        bytes32 hash = _hashTypedDataV4(structHash);
+
+        address signer = ECDSA.recover(hash, v, r, s);
+        if (signer != owner) {
+            revert ERC2612InvalidSigner(signer, owner);
+        }
+
+        _approve(owner, spender, value);
+    }
+
+    /**
+     * @dev See {IERC20Permit-nonces}.
+     */
+    function nonces(
+        address owner
+    ) public view virtual override(IERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+
+    /**
+     * @dev See {IERC20Permit-DOMAIN_SEPARATOR}.
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view virtual returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev Returns whether the authorization of `authorizer` with `nonce` is used or canceled.
+     */
+    function authorizationState(
+        address authorizer,
+        bytes32 nonce
+    ) public view virtual returns (bool) {
+        return _authorizationStates[authorizer][nonce];
+    }
+
+    /**
+     * @dev Transfers `value` tokens from `from` to `to` with a signed authorization (ERC-3009).
+     *
+     * The authorization uses a random 32-byte `nonce` instead of a sequential one,
+     * so multiple authorizations can be created and submitted in any order.
+     */
+    function transferWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        _useAuthorization(
+            TRANSFER_WITH_AUTHORIZATION_TYPEHASH,
+            from,
+            to,
+            value,
+            validAfter,
+            validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
+        _transfer(from, to, value);
+    }
+
+    /**
+     * @dev Same as {transferWithAuthorization}, but only the payee `to` can submit it.
+     * This prevents front-running when the payee contract executes further logic after receiving.
+     */
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (to != _msgSender()) {
+            revert ERC3009InvalidCaller(_msgSender(), to);
+        }
+        _useAuthorization(
+            RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
+            from,
+            to,
+            value,
+            validAfter,
+            validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
+        _transfer(from, to, value);
+    }
+
+    /**
+     * @dev Cancels an unused authorization of `authorizer` with `nonce`.
+     */
+    function cancelAuthorization(
+        address authorizer,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (_authorizationStates[authorizer][nonce]) {
+            revert ERC3009AuthorizationUsedOrCanceled(authorizer, nonce);
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(CANCEL_AUTHORIZATION_TYPEHASH, authorizer, nonce)
+        );
+
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        if (signer != authorizer) {
+            revert ERC3009InvalidSigner(signer, authorizer);
+        }
+
+        _authorizationStates[authorizer][nonce] = true;
+        emit AuthorizationCanceled(authorizer, nonce);
+    }
+
+    /**
+     * @dev Verifies the validity window and signature of a transfer / receive authorization
+     * and marks its nonce as used.
+     */
+    function _useAuthorization(
+        bytes32 typeHash,
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal {
+        if (block.timestamp <= validAfter) {
+            revert ERC3009AuthorizationNotYetValid(validAfter);
+        }
+        if (block.timestamp >= validBefore) {
+            revert ERC3009AuthorizationExpired(validBefore);
+        }
+        if (_authorizationStates[from][nonce]) {
+            revert ERC3009AuthorizationUsedOrCanceled(from, nonce);
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                typeHash,
+                from,
+                to,
+                value,
+                validAfter,
+                validBefore,
+                nonce
+            )
+        );
+
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), v, r, s);
+        if (signer != from) {
+            revert ERC3009InvalidSigner(signer, from);
+        }
+
+        _authorizationStates[from][nonce] = true;
+        emit AuthorizationUsed(from, nonce);
+    }
+
     /**
      * @dev Moves a `value` amount of tokens from `from` to `to`.
      *
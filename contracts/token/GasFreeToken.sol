@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.9;
+
+import "./GasFreeERC20.sol";
+
+/**
+ * @title GasFreeToken
+ * @dev Branded {GasFreeERC20} deployed by {GasFreeTokenFactory}.
+ *
+ * The whole `initialSupply` and the admin roles go to `owner_` (the creator),
+ * not to the deploying factory.
+ */
+contract GasFreeToken is GasFreeERC20 {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint256 initialSupply,
+        address owner_,
+        address trustedForwarder_
+    ) GasFreeERC20(name_, symbol_, trustedForwarder_) {
+        if (owner_ != msg.sender) {
+            _grantRole(DEFAULT_ADMIN_ROLE, owner_);
+            _grantRole(FORWARDER_ADMIN_ROLE, owner_);
+            _revokeRole(FORWARDER_ADMIN_ROLE, msg.sender);
+            _revokeRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        }
+
+        _mint(owner_, initialSupply);
+    }
+}
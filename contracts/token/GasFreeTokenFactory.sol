@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "./GasFreeToken.sol";
+
+/**
+ * @title GasFreeTokenFactory
+ * @dev Deploys {GasFreeToken}s that trust the same forwarder as the factory.
+ *
+ * The factory is ERC-2771 aware, so a creator without native tokens can create a token
+ * through a relayed meta-transaction. Tokens are deployed with CREATE2 using a salt derived
+ * from the creator and a creator-chosen `salt`, so the address can be predicted before
+ * creation and cannot be taken by another sender.
+ */
+contract GasFreeTokenFactory is ERC2771Context {
+    /**
+     * @dev Whether `token` was created by this factory.
+     */
+    mapping(address token => bool) public isTokenFromFactory;
+
+    event TokenCreated(
+        address indexed token,
+        address indexed creator,
+        string name,
+        string symbol,
+        uint256 initialSupply
+    );
+
+    constructor(
+        address trustedForwarder_
+    ) ERC2771Context(trustedForwarder_) {}
+
+    /**
+     * @dev Creates a {GasFreeToken} owned by the sender, who receives `initialSupply`.
+     * Reverts if the sender already used `salt` with the same parameters.
+     */
+    function createToken(
+        string calldata name_,
+        string calldata symbol_,
+        uint256 initialSupply,
+        bytes32 salt
+    ) external returns (address token) {
+        address creator = _msgSender();
+
+        token = address(
+            new GasFreeToken{salt: _tokenSalt(creator, salt)}(
+                name_,
+                symbol_,
+                initialSupply,
+                creator,
+                trustedForwarder()
+            )
+        );
+
+        isTokenFromFactory[token] = true;
+        emit TokenCreated(token, creator, name_, symbol_, initialSupply);
+    }
+
+    /**
+     * @dev Returns the address {createToken} deploys to for the given creator and parameters.
+     */
+    function predictTokenAddress(
+        address creator,
+        string calldata name_,
+        string calldata symbol_,
+        uint256 initialSupply,
+        bytes32 salt
+    ) external view returns (address) {
+        bytes32 bytecodeHash = keccak256(
+            abi.encodePacked(
+                type(GasFreeToken).creationCode,
+                abi.encode(
+                    name_,
+                    symbol_,
+                    initialSupply,
+                    creator,
+                    trustedForwarder()
+                )
+            )
+        );
+
+        return Create2.computeAddress(_tokenSalt(creator, salt), bytecodeHash);
+    }
+
+    function _tokenSalt(
+        address creator,
+        bytes32 salt
+    ) private pure returns (bytes32) {
+        return keccak256(abi.encode(creator, salt));
+    }
+}
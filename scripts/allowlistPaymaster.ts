@@ -0,0 +1,109 @@
+import { readFileSync } from "fs";
+import { ethers } from "hardhat";
+import {
+  AllowlistPaymasterAdmin,
+  AllowlistPaymasterPolicy,
+} from "../src/operator";
+
+/**
+ * AllowlistPaymaster 의 허용 목록을 관리합니다. (OPERATOR_KEY 가 paymaster owner 여야 합니다)
+ *
+ * @example
+ * PAYMASTER_ADDRESS=0x... ALLOWLIST_ACTION=applyPolicy SPONSORSHIP_POLICY=./policy.json \
+ *   npx hardhat run scripts/allowlistPaymaster.ts --network sepolia
+ *
+ * PAYMASTER_ADDRESS=0x... ALLOWLIST_ACTION=disallowMethods TARGET=0xClamCoin FUNCTIONS="approve(address,uint256)" \
+ *   npx hardhat run scripts/allowlistPaymaster.ts --network sepolia
+ *
+ * 환경 변수
+ * - PAYMASTER_ADDRESS: AllowlistPaymaster 주소
+ * - ALLOWLIST_ACTION:
+ *   - applyPolicy: SPONSORSHIP_POLICY 파일({@link AllowlistPaymasterPolicy})의 항목을 허용
+ *   - allowTarget / disallowTarget: TARGET (ALL_METHODS=true 이면 모든 함수 허용)
+ *   - allowMethods / disallowMethods: TARGET, FUNCTIONS (쉼표로 구분)
+ *   - allowSenders / disallowSenders: SENDERS (쉼표로 구분)
+ *   - enableSenderAllowlist / disableSenderAllowlist
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function requireList(name: string): string[] {
+  return requireEnv(name)
+    .split(",")
+    .map((item) => item.trim());
+}
+
+(async () => {
+  const admin = new AllowlistPaymasterAdmin(
+    requireEnv("PAYMASTER_ADDRESS"),
+    new ethers.Wallet(requireEnv("OPERATOR_KEY"), ethers.provider),
+  );
+
+  const action = requireEnv("ALLOWLIST_ACTION");
+  let txHashes: string[];
+
+  switch (action) {
+    case "applyPolicy": {
+      const policy: AllowlistPaymasterPolicy = JSON.parse(
+        readFileSync(requireEnv("SPONSORSHIP_POLICY"), "utf8"),
+      );
+      txHashes = await admin.applyPolicy(policy);
+      break;
+    }
+    case "allowTarget":
+      txHashes = [
+        await admin.allowTarget(
+          requireEnv("TARGET"),
+          process.env.ALL_METHODS === "true",
+        ),
+      ];
+      break;
+    case "disallowTarget":
+      txHashes = [await admin.disallowTarget(requireEnv("TARGET"))];
+      break;
+    case "allowMethods":
+      txHashes = [
+        await admin.allowMethods(
+          requireEnv("TARGET"),
+          requireList("FUNCTIONS"),
+        ),
+      ];
+      break;
+    case "disallowMethods":
+      txHashes = [
+        await admin.disallowMethods(
+          requireEnv("TARGET"),
+          requireList("FUNCTIONS"),
+        ),
+      ];
+      break;
+    case "allowSenders":
+      txHashes = [await admin.allowSenders(requireList("SENDERS"))];
+      break;
+    case "disallowSenders":
+      txHashes = [await admin.disallowSenders(requireList("SENDERS"))];
+      break;
+    case "enableSenderAllowlist":
+      txHashes = [await admin.setSenderAllowlistEnabled(true)];
+      break;
+    case "disableSenderAllowlist":
+      txHashes = [await admin.setSenderAllowlistEnabled(false)];
+      break;
+    default:
+      throw new Error(`unknown ALLOWLIST_ACTION: ${action}`);
+  }
+
+  console.log(`💎 AllowlistPaymaster ${admin.paymaster.address} : ${action}`);
+
+  for (const txHash of txHashes) {
+    console.log(`\t${txHash}`);
+  }
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
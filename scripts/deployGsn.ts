@@ -0,0 +1,56 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { ethers, network } from "hardhat";
+import {
+  GsnContractName,
+  GsnDeployConfig,
+  GsnDeployer,
+  GsnDeployment,
+} from "../src/deploy";
+import { JsonFileStore } from "../src/store";
+
+/**
+ * 네트워크별 설정으로 GSN 컨트랙트(StakeManager, Penalizer, RelayHub, Forwarder, ZeroPaymaster)를 배포합니다.
+ *
+ * @example
+ * npx hardhat run scripts/deployGsn.ts --network sepolia
+ *
+ * - 설정: deploy/config/<network>.json ({@link GsnDeployConfig})
+ * - 결과: deploy/deployments/<network>.json ({@link GsnDeployment})
+ * - 다시 실행하면 이미 배포된 컨트랙트는 건너뜁니다.
+ */
+(async () => {
+  const [operator] = await ethers.getSigners();
+
+  const config: GsnDeployConfig = JSON.parse(
+    readFileSync(
+      join(__dirname, "..", "deploy", "config", `${network.name}.json`),
+      "utf8",
+    ),
+  );
+
+  const deployer = new GsnDeployer({
+    signer: operator,
+    network: network.name,
+    config,
+    store: new JsonFileStore<GsnDeployment>(
+      join(__dirname, "..", "deploy", "deployments", `${network.name}.json`),
+    ),
+  });
+
+  const { deployment, deployed } = await deployer.deploy();
+
+  console.log(`🚀 GSN Deployment : ${network.name} (${deployment.chainId})`);
+
+  for (const [name, contract] of Object.entries(deployment.contracts)) {
+    const status = deployed.includes(name as GsnContractName)
+      ? "deployed"
+      : "skipped";
+    console.log(`\t💎 ${name} : ${contract.address} (${status})`);
+  }
+
+  console.log(`\tdomainSeparator : ${deployment.domain?.separator}`);
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import { join } from "path";
+import { ethers, network } from "hardhat";
+import { GsnDeployment } from "../src/deploy";
+import { JsonFileStore } from "../src/store";
+
+/**
+ * GasFreeTokenFactory 를 배포합니다. 생성되는 토큰은 factory 와 같은 Forwarder 를 신뢰합니다.
+ *
+ * @example
+ * npx hardhat run scripts/deployTokenFactory.ts --network sepolia
+ *
+ * 환경 변수
+ * - FORWARDER_ADDRESS: factory 와 토큰이 신뢰할 Forwarder 주소
+ *   (기본값: deploy/deployments/<network>.json 의 Forwarder, {@link GsnDeployment})
+ */
+(async () => {
+  const deployment = await new JsonFileStore<GsnDeployment>(
+    join(__dirname, "..", "deploy", "deployments", `${network.name}.json`),
+  ).read();
+
+  const forwarder =
+    process.env.FORWARDER_ADDRESS || deployment?.contracts.Forwarder?.address;
+
+  if (!forwarder) {
+    throw new Error(
+      `FORWARDER_ADDRESS is not set and no Forwarder is deployed on ${network.name}`,
+    );
+  }
+
+  const factory = await (
+    await ethers.getContractFactory("GasFreeTokenFactory")
+  ).deploy(forwarder);
+  await factory.deployed();
+
+  console.log(`🚀 GasFreeTokenFactory : ${factory.address}`);
+  console.log(`\tForwarder : ${forwarder}`);
+  console.log(`\ttransaction : ${factory.deployTransaction.hash}`);
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+import { ethers } from "hardhat";
+import { EventIndexer, EventQuery, IndexerState } from "../src/indexer";
+import { closeServer, HttpError, listenJson } from "../src/server";
+import { JsonFileStore } from "../src/store";
+
+/**
+ * RelayHub / StakeManager / Forwarder 이벤트를 주기적으로 인덱싱하고, 저장된 이벤트를 HTTP 로 조회합니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... FORWARDER_ADDRESSES=0x... \
+ *   npx hardhat run scripts/eventIndexer.ts --network sepolia
+ *
+ * curl -X POST localhost:8093/relayedCalls -d '{"from":"0x..."}'
+ * curl -X POST localhost:8093/paymasterCharges -d '{"paymaster":"0x..."}'
+ * curl -X POST localhost:8093/events -d '{"names":["StakeAdded"],"args":{"relayManager":"0x..."}}'
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - FORWARDER_ADDRESSES: 이벤트를 조회할 Forwarder 주소 목록 (쉼표로 구분, 기본값 없음)
+ * - INDEXER_STORE: 인덱싱 상태 저장 파일 경로 (기본값 indexer/<network>.json)
+ * - FROM_BLOCK: 인덱싱 시작 블록 (기본값 0)
+ * - CONFIRMATIONS: 인덱싱 전 기다릴 확정 블록 수 (기본값 12)
+ * - INDEXER_INTERVAL: 인덱싱 주기 (초, 기본값 15)
+ * - INDEXER_PORT: listen 포트 (기본값 8093)
+ * - INDEXER_HOST: listen 호스트 (기본값 127.0.0.1)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function requireAddress(body: unknown, field: string): string {
+  const value = (body as Record<string, unknown> | undefined)?.[field];
+
+  if (typeof value !== "string" || !ethers.utils.isAddress(value)) {
+    throw new HttpError(400, `${field} must be an address`);
+  }
+  return value;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+  const { name: networkName } = await ethers.provider.getNetwork();
+
+  const indexer = new EventIndexer({
+    relayHub,
+    forwarders: (process.env.FORWARDER_ADDRESSES || "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter((address) => address.length > 0),
+    store: new JsonFileStore<IndexerState>(
+      process.env.INDEXER_STORE || `indexer/${networkName}.json`,
+    ),
+    fromBlock: Number(process.env.FROM_BLOCK || 0),
+    confirmations: Number(process.env.CONFIRMATIONS || 12),
+  });
+
+  const port = Number(process.env.INDEXER_PORT || 8093);
+  const host = process.env.INDEXER_HOST || "127.0.0.1";
+
+  const { server } = await listenJson(
+    {
+      "GET /status": async () => ({
+        indexedBlock: await indexer.getIndexedBlock(),
+      }),
+      "POST /events": async (body) => indexer.query(body as EventQuery),
+      "POST /relayedCalls": async (body) =>
+        indexer.getRelayedCalls(requireAddress(body, "from")),
+      "POST /paymasterCharges": async (body) => {
+        const { paymaster, charges, total } = await indexer.getPaymasterCharges(
+          requireAddress(body, "paymaster"),
+        );
+        return { paymaster, charges, total: total.toString() };
+      },
+    },
+    port,
+    host,
+  );
+
+  console.log(`🚀 Event Indexer : http://${host}:${port}`);
+  console.log(`\tRelayHub : ${relayHub.address}`);
+
+  const sync = async () => {
+    const result = await indexer.sync();
+
+    if (result !== undefined) {
+      console.log(
+        `💎 blocks ${result.fromBlock} ~ ${result.toBlock} : +${result.added} events${result.removed > 0 ? `, -${result.removed} reorged` : ""}`,
+      );
+    }
+  };
+
+  await sync();
+
+  const timer = setInterval(
+    () => sync().catch((error) => console.error(error)),
+    Number(process.env.INDEXER_INTERVAL || 15) * 1000,
+  );
+
+  process.once("SIGINT", () => {
+    clearInterval(timer);
+    closeServer(server).then(() => process.exit(0));
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
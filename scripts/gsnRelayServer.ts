@@ -0,0 +1,83 @@
+import { ethers } from "hardhat";
+import { GsnRelayServer, ManagedTransaction } from "../src/server";
+import { JsonFileStore } from "../src/store";
+
+/** stuck 트랜잭션 확인 주기 (ms) */
+const BUMP_INTERVAL_MS = 30_000;
+
+/**
+ * OpenGSN 호환 Relay Server 를 실행합니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... RELAY_MANAGER_KEY=0x... RELAY_WORKER_KEY=0x... \
+ *   npx hardhat run scripts/gsnRelayServer.ts --network localhost
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - RELAY_MANAGER_KEY: StakeManager 에 stake 된 relayManager 개인키
+ * - RELAY_WORKER_KEY: relayWorker 개인키
+ * - RELAY_SERVER_PORT: listen 포트 (기본값 8090)
+ * - RELAY_SERVER_HOST: listen 호스트 (기본값 127.0.0.1)
+ * - RELAY_SERVER_URL: RelayHub 에 등록할 공개 URL (기본값 http://RELAY_SERVER_HOST:RELAY_SERVER_PORT)
+ * - BASE_RELAY_FEE / PCT_RELAY_FEE: 요구 수수료 (기본값 0)
+ * - WORKER_TARGET_BALANCE: relayWorker 목표 잔액 (ether 단위, 기본값 미충전)
+ * - TRANSACTION_STORE: relayWorker 미확정 트랜잭션 저장 파일 경로 (기본값 메모리)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+
+  const port = Number(process.env.RELAY_SERVER_PORT || 8090);
+  const host = process.env.RELAY_SERVER_HOST || "127.0.0.1";
+
+  const server = new GsnRelayServer({
+    relayHub,
+    relayManager: new ethers.Wallet(requireEnv("RELAY_MANAGER_KEY")),
+    relayWorker: new ethers.Wallet(requireEnv("RELAY_WORKER_KEY")),
+    url: process.env.RELAY_SERVER_URL || undefined,
+    baseRelayFee: process.env.BASE_RELAY_FEE || 0,
+    pctRelayFee: process.env.PCT_RELAY_FEE || 0,
+    workerTargetBalance: process.env.WORKER_TARGET_BALANCE
+      ? ethers.utils.parseEther(process.env.WORKER_TARGET_BALANCE)
+      : undefined,
+    transactionStore: process.env.TRANSACTION_STORE
+      ? new JsonFileStore<ManagedTransaction[]>(process.env.TRANSACTION_STORE)
+      : undefined,
+  });
+
+  await server.listen(port, host);
+  await server.init();
+
+  const ping = await server.ping();
+
+  console.log(`🚀 GSN Relay Server : http://${host}:${port}`);
+  console.log(`\tRelayHub : ${ping.relayHubAddress}`);
+  console.log(`\tRelayManager : ${ping.relayManagerAddress}`);
+  console.log(`\tRelayWorker : ${ping.relayWorkerAddress}`);
+
+  await server.transactionManager.rebroadcastPendingTransactions();
+
+  const bumpTimer = setInterval(() => {
+    server.transactionManager
+      .bumpStuckTransactions()
+      .catch((error) => console.error(error));
+  }, BUMP_INTERVAL_MS);
+
+  process.once("SIGINT", () => {
+    clearInterval(bumpTimer);
+    server.close().then(() => process.exit(0));
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
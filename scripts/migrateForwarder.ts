@@ -0,0 +1,61 @@
+import { ethers } from "hardhat";
+import { TrustedForwarderMigrator } from "../src/operator";
+
+/**
+ * 이미 배포된 GasFreeERC20 토큰들이 새 Forwarder 를 신뢰하도록 변경합니다.
+ * (OPERATOR_KEY 가 각 토큰의 FORWARDER_ADMIN_ROLE 을 가지고 있어야 합니다)
+ *
+ * @example
+ * TOKEN_ADDRESSES=0xClamCoin,0x... FORWARDER_ADDRESS=0xNewForwarder REMOVE_OLD_FORWARDERS=true \
+ *   npx hardhat run scripts/migrateForwarder.ts --network sepolia
+ *
+ * 환경 변수
+ * - TOKEN_ADDRESSES: 토큰 주소 (쉼표로 구분)
+ * - FORWARDER_ADDRESS: 새 Forwarder 주소
+ * - REMOVE_OLD_FORWARDERS: true 이면 새 Forwarder 외의 Forwarder 를 모두 제거 (기본값 false)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const migrator = new TrustedForwarderMigrator(
+    new ethers.Wallet(requireEnv("OPERATOR_KEY"), ethers.provider),
+  );
+
+  const forwarder = requireEnv("FORWARDER_ADDRESS");
+  const tokens = requireEnv("TOKEN_ADDRESSES")
+    .split(",")
+    .map((token) => token.trim());
+
+  if ((await ethers.provider.getCode(forwarder)) === "0x") {
+    throw new Error(`FORWARDER_ADDRESS ${forwarder} is not a contract`);
+  }
+
+  const results = await migrator.migrate(tokens, forwarder, {
+    removeOthers: process.env.REMOVE_OLD_FORWARDERS === "true",
+  });
+
+  for (const result of results) {
+    console.log(`🔀 ${result.token}`);
+
+    if (result.added) {
+      console.log(`\tadded ${forwarder} : ${result.added}`);
+    }
+
+    for (const { forwarder: removed, txHash } of result.removed) {
+      console.log(`\tremoved ${removed} : ${txHash}`);
+    }
+
+    console.log(
+      `\ttrusted forwarders : ${result.trustedForwarders.join(", ")}`,
+    );
+  }
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { ethers } from "hardhat";
+import { PaymasterBalanceReport, PaymasterMonitor } from "../src/operator";
+
+/**
+ * paymaster 들의 RelayHub 예치금을 주기적으로 점검하고, 기준 미만이면 경고를 출력합니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... PAYMASTERS=0xPaymasterA:0.5,0xPaymasterB:0.1 \
+ *   npx hardhat run scripts/monitorPaymasters.ts --network sepolia
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - PAYMASTERS: `주소:경고 기준 잔액(ether)` 목록 (쉼표로 구분)
+ * - MONITOR_INTERVAL: 점검 주기 (초, 기본값 60)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function formatReport(report: PaymasterBalanceReport): string {
+  const remaining =
+    report.remainingCalls !== undefined
+      ? `~${report.remainingCalls} calls (avg ${ethers.utils.formatEther(report.averageCharge!)})`
+      : "no recent relays";
+
+  return `${report.paymaster} : ${ethers.utils.formatEther(report.balance)} / threshold ${ethers.utils.formatEther(report.threshold)} - ${remaining}`;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+
+  const paymasters = Object.fromEntries(
+    requireEnv("PAYMASTERS")
+      .split(",")
+      .map((entry) => {
+        const [address, threshold] = entry.trim().split(":");
+        return [address, ethers.utils.parseEther(threshold || "0")];
+      }),
+  );
+
+  const monitor = new PaymasterMonitor({
+    relayHub,
+    paymasters,
+    onLowBalance: (report) => {
+      console.warn(`⚠️  LOW DEPOSIT ${formatReport(report)}`);
+    },
+  });
+
+  const check = async () => {
+    for (const report of await monitor.check()) {
+      if (!report.low) {
+        console.log(`💎 ${formatReport(report)}`);
+      }
+    }
+  };
+
+  await check();
+
+  const timer = setInterval(
+    () => check().catch((error) => console.error(error)),
+    Number(process.env.MONITOR_INTERVAL || 60) * 1000,
+  );
+
+  process.once("SIGINT", () => {
+    clearInterval(timer);
+    process.exit(0);
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import { ethers } from "hardhat";
+import { RelayManagerOnboarder } from "../src/operator";
+
+/**
+ * relay 운영자 온보딩(owner 설정, RelayHub authorize, stake, relayWorker 추가, 서버 등록)을 수행합니다.
+ * 이미 완료된 단계는 건너뛰므로, 실패한 경우 같은 명령으로 다시 실행하면 됩니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... RELAY_MANAGER_KEY=0x... RELAY_OWNER_KEY=0x... RELAY_WORKER_KEY=0x... \
+ * RELAY_SERVER_URL=https://relay.example.com \
+ *   npx hardhat run scripts/onboardRelay.ts --network sepolia
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - RELAY_MANAGER_KEY: relayManager 개인키
+ * - RELAY_OWNER_KEY: stake 소유자 개인키
+ * - RELAY_WORKER_KEY: relayWorker 개인키 (여러 개는 쉼표로 구분)
+ * - RELAY_SERVER_URL: RelayHub 에 등록할 공개 URL
+ * - STAKE_AMOUNT: 목표 stake (ether 단위, 기본값 RelayHub minimumStake)
+ * - UNSTAKE_DELAY: unstake 지연 블록 수 (기본값 RelayHub minimumUnstakeDelay)
+ * - BASE_RELAY_FEE / PCT_RELAY_FEE: 등록할 수수료 (기본값 0)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+
+  const onboarder = new RelayManagerOnboarder({
+    relayHub,
+    relayManager: new ethers.Wallet(requireEnv("RELAY_MANAGER_KEY")),
+    owner: new ethers.Wallet(requireEnv("RELAY_OWNER_KEY")),
+    relayWorkers: requireEnv("RELAY_WORKER_KEY")
+      .split(",")
+      .map((key) => new ethers.Wallet(key.trim()).address),
+    url: requireEnv("RELAY_SERVER_URL"),
+    stake: process.env.STAKE_AMOUNT
+      ? ethers.utils.parseEther(process.env.STAKE_AMOUNT)
+      : undefined,
+    unstakeDelay: process.env.UNSTAKE_DELAY || undefined,
+    baseRelayFee: process.env.BASE_RELAY_FEE || 0,
+    pctRelayFee: process.env.PCT_RELAY_FEE || 0,
+  });
+
+  console.log(`🚀 Relay Onboarding : ${onboarder.relayManager.address}`);
+
+  for (const { step, status, txHash } of await onboarder.run()) {
+    console.log(`\t${step} : ${status}${txHash ? ` (${txHash})` : ""}`);
+  }
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
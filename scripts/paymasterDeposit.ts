@@ -0,0 +1,61 @@
+import { ethers } from "hardhat";
+import { PaymasterDepositManager } from "../src/operator";
+
+/**
+ * paymaster 의 RelayHub 예치금을 입금 / 출금합니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... PAYMASTER_ADDRESS=0x... PAYMASTER_ACTION=topUp AMOUNT=1 \
+ *   npx hardhat run scripts/paymasterDeposit.ts --network sepolia
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - PAYMASTER_ADDRESS: paymaster 주소
+ * - PAYMASTER_ACTION: deposit (AMOUNT 만큼 입금) / topUp (예치금이 AMOUNT 가 되도록 입금) / withdraw (AMOUNT 만큼 출금)
+ * - AMOUNT: ether 단위 금액
+ * - WITHDRAW_TO: 출금 받을 주소 (기본값 OPERATOR 주소, withdraw 는 OPERATOR 가 paymaster owner 여야 합니다)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+  const signer = new ethers.Wallet(requireEnv("OPERATOR_KEY"));
+  const paymaster = requireEnv("PAYMASTER_ADDRESS");
+  const amount = ethers.utils.parseEther(requireEnv("AMOUNT"));
+
+  const manager = new PaymasterDepositManager({ relayHub, signer });
+
+  const action = requireEnv("PAYMASTER_ACTION");
+  let txHash: string | undefined;
+
+  if (action === "deposit") {
+    txHash = await manager.deposit(paymaster, amount);
+  } else if (action === "topUp") {
+    txHash = await manager.topUp(paymaster, amount);
+  } else if (action === "withdraw") {
+    txHash = await manager.withdraw(
+      paymaster,
+      amount,
+      process.env.WITHDRAW_TO || manager.signer.address,
+    );
+  } else {
+    throw new Error(`unknown PAYMASTER_ACTION: ${action}`);
+  }
+
+  const balance = await manager.balanceOf(paymaster);
+
+  console.log(`💎 Paymaster ${paymaster} : ${action} ${txHash ?? "(skipped)"}`);
+  console.log(`\tdeposit : ${ethers.utils.formatEther(balance)}`);
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+import { ethers } from "hardhat";
+import { RelayDiscovery } from "../src/client";
+import { PenalizerWatchdog } from "../src/operator";
+import { closeServer, HttpError, listenJson } from "../src/server";
+
+/**
+ * 등록된 relayWorker 의 트랜잭션을 감시하여 Penalizer 로 처벌(commit → reveal)합니다.
+ * Relay 가 클라이언트에 반환한 signedTx 는 `POST /audit` 로 보고할 수 있습니다.
+ *
+ * @example
+ * RELAY_HUB_ADDRESS=0x... REPORTER_KEY=0x... \
+ *   npx hardhat run scripts/penalizerWatchdog.ts --network sepolia
+ *
+ * curl -X POST localhost:8094/audit -d '{"signedTx":"0x..."}'
+ *
+ * 환경 변수
+ * - RELAY_HUB_ADDRESS: RelayHub 주소
+ * - REPORTER_KEY: commit / reveal 을 보내는 개인키 (처벌된 stake 의 절반을 보상으로 받음)
+ * - RELAY_HUB_FROM_BLOCK: relayWorker 탐색을 위한 RelayHub 이벤트 조회 시작 블록 (기본값 0)
+ * - FROM_BLOCK: 트랜잭션 감시 시작 블록 (기본값 최신 블록)
+ * - WATCHDOG_INTERVAL: 감시 주기 (초, 기본값 15)
+ * - WATCHDOG_PORT: listen 포트 (기본값 8094)
+ * - WATCHDOG_HOST: listen 호스트 (기본값 127.0.0.1)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const relayHub = await ethers.getContractAt(
+    "RelayHub",
+    requireEnv("RELAY_HUB_ADDRESS"),
+  );
+
+  const watchdog = new PenalizerWatchdog({
+    relayHub,
+    reporter: new ethers.Wallet(requireEnv("REPORTER_KEY")),
+    discovery: new RelayDiscovery({
+      relayHub,
+      fromBlock: Number(process.env.RELAY_HUB_FROM_BLOCK || 0),
+    }),
+    fromBlock: process.env.FROM_BLOCK
+      ? Number(process.env.FROM_BLOCK)
+      : undefined,
+    onOffence: (offence) => console.warn(`🚨 ${offence.description}`),
+    onPenalization: ({ status, offence, reward, error }) =>
+      console.log(
+        `💎 ${offence.type} of ${offence.relayWorker} : ${status}${reward !== undefined ? ` (reward ${ethers.utils.formatEther(reward)})` : ""}${error !== undefined ? ` (${error})` : ""}`,
+      ),
+  });
+
+  const port = Number(process.env.WATCHDOG_PORT || 8094);
+  const host = process.env.WATCHDOG_HOST || "127.0.0.1";
+
+  const { server } = await listenJson(
+    {
+      "GET /status": async () =>
+        watchdog.getPenalizations().map((penalization) => ({
+          ...penalization,
+          reward: penalization.reward?.toString(),
+          offence: {
+            ...penalization.offence,
+            transactions: penalization.offence.transactions.map(
+              ({ hash }) => hash,
+            ),
+          },
+        })),
+      "POST /audit": async (body) => {
+        const signedTx = (body as { signedTx?: unknown } | undefined)?.signedTx;
+
+        if (
+          typeof signedTx !== "string" ||
+          !ethers.utils.isHexString(signedTx)
+        ) {
+          throw new HttpError(400, "signedTx must be a hex string");
+        }
+
+        const offences = await watchdog.audit(signedTx);
+        return {
+          offences: offences.map(({ type, description }) => ({
+            type,
+            description,
+          })),
+        };
+      },
+    },
+    port,
+    host,
+  );
+
+  console.log(`🚀 Penalizer Watchdog : http://${host}:${port}`);
+  console.log(`\tRelayHub : ${relayHub.address}`);
+  console.log(`\tReporter : ${watchdog.reporter.address}`);
+
+  const poll = () =>
+    watchdog
+      .poll()
+      .then(({ errors }) =>
+        errors.forEach(({ transactionHash, error }) =>
+          console.error(`⚠️ skipped ${transactionHash} : ${error}`),
+        ),
+      )
+      .catch((error) => console.error(error));
+
+  await poll();
+
+  const timer = setInterval(
+    poll,
+    Number(process.env.WATCHDOG_INTERVAL || 15) * 1000,
+  );
+
+  process.once("SIGINT", () => {
+    clearInterval(timer);
+    closeServer(server).then(() => process.exit(0));
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
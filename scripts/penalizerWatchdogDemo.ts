@@ -0,0 +1,146 @@
+import { ethers, network } from "hardhat";
+import { GsnDeployer, GsnDeployment } from "../src/deploy";
+import { PenalizerWatchdog, RelayManagerOnboarder } from "../src/operator";
+import { MemoryStore } from "../src/store";
+import hardhatConfig from "../deploy/config/hardhat.json";
+
+/**
+ * hardhat 네트워크에 GSN 을 배포하고, 일부러 위반하는 relayWorker 를 {@link PenalizerWatchdog} 가 처벌하는 과정을 보여줍니다.
+ *
+ * - repeated-nonce: relayWorker 가 nonce 가 같은 두 트랜잭션에 서명하고, 하나는 채굴 / 다른 하나는 watchdog 에 보고됩니다.
+ * - illegal-transaction: relayWorker 가 RelayHub 에 relayCall 이 아닌 호출(calculateCharge)을 보냅니다.
+ *
+ * @example
+ * MISBEHAVIOR=illegal-transaction npx hardhat run scripts/penalizerWatchdogDemo.ts --network hardhat
+ *
+ * 환경 변수
+ * - MISBEHAVIOR: repeated-nonce / illegal-transaction (기본값 repeated-nonce)
+ */
+(async () => {
+  if (network.name !== "hardhat" && network.name !== "localhost") {
+    throw new Error("run the demo on the hardhat network or a hardhat node");
+  }
+
+  const misbehavior = process.env.MISBEHAVIOR || "repeated-nonce";
+  const [operator] = await ethers.getSigners();
+
+  const { relayHub, stakeManager } = await new GsnDeployer({
+    signer: operator,
+    network: network.name,
+    config: hardhatConfig,
+    store: new MemoryStore<GsnDeployment>(),
+  }).deploy();
+
+  const [relayManager, relayOwner, relayWorker, reporter] = Array.from(
+    { length: 4 },
+    () => ethers.Wallet.createRandom().connect(ethers.provider),
+  );
+
+  for (const wallet of [relayManager, relayOwner, relayWorker, reporter]) {
+    await (
+      await operator.sendTransaction({
+        to: wallet.address,
+        value: ethers.utils.parseEther("10"),
+      })
+    ).wait();
+  }
+
+  await new RelayManagerOnboarder({
+    relayHub,
+    relayManager,
+    owner: relayOwner,
+    relayWorkers: [relayWorker.address],
+    url: "http://misbehaving-relay.test",
+    stake: ethers.utils.parseEther("1"),
+  }).run();
+
+  console.log(`🚀 GSN : RelayHub ${relayHub.address}`);
+  console.log(`\tRelayManager : ${relayManager.address} (stake 1.0)`);
+  console.log(`\tRelayWorker : ${relayWorker.address} (${misbehavior})`);
+  console.log(`\tReporter : ${reporter.address}`);
+
+  const watchdog = new PenalizerWatchdog({
+    relayHub,
+    reporter,
+    fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+    onOffence: (offence) => console.warn(`🚨 ${offence.description}`),
+    onPenalization: (penalization) =>
+      console.log(
+        {
+          committed: `💎 committed ${penalization.commitTransactionHash} (reveal after block ${penalization.readyBlock})`,
+          penalized: `💎 penalized ${penalization.revealTransactionHash} : reporter rewarded ${ethers.utils.formatEther(penalization.reward ?? 0)}`,
+          failed: `💎 failed : ${penalization.error}`,
+        }[penalization.status],
+      ),
+  });
+
+  if (misbehavior === "repeated-nonce") {
+    // RelayHub 가 아닌 곳으로 보내면 illegal-transaction 이 되므로, externalGasLimit 이 gasLimit 과 같은
+    // (Penalizer 가 합법으로 보는) relayCall 을 보냅니다. RelayHub 에서는 revert 되지만 채굴됩니다.
+    const gasLimit = 100_000;
+    const signedTx = await relayWorker.signTransaction(
+      await relayWorker.populateTransaction({
+        to: relayHub.address,
+        data: ethers.utils.hexConcat([
+          relayHub.interface.getSighash("relayCall"),
+          ethers.utils.defaultAbiCoder.encode(
+            ["uint256", "uint256", "uint256", "uint256", "uint256"],
+            [0, 0, 0, 0, gasLimit],
+          ),
+        ]),
+        gasLimit,
+      }),
+    );
+    await ethers.provider.sendTransaction(signedTx).catch(() => undefined);
+    const sent = await ethers.provider.getTransaction(
+      ethers.utils.keccak256(signedTx),
+    );
+    await watchdog.poll();
+
+    await watchdog.audit(
+      await relayWorker.signTransaction({
+        type: 2,
+        chainId: sent.chainId,
+        nonce: sent.nonce,
+        to: sent.to,
+        value: 2,
+        data: sent.data,
+        gasLimit: sent.gasLimit,
+        maxFeePerGas: sent.maxFeePerGas,
+        maxPriorityFeePerGas: sent.maxPriorityFeePerGas,
+      }),
+    );
+  } else if (misbehavior === "illegal-transaction") {
+    await (
+      await relayWorker.sendTransaction({
+        to: relayHub.address,
+        data: relayHub.interface.encodeFunctionData("calculateCharge", [
+          100_000,
+          {
+            gasPrice: 1,
+            pctRelayFee: 0,
+            baseRelayFee: 0,
+            relayWorker: relayWorker.address,
+            paymaster: ethers.constants.AddressZero,
+            forwarder: ethers.constants.AddressZero,
+            paymasterData: "0x",
+            clientId: 0,
+          },
+        ]),
+      })
+    ).wait();
+    await watchdog.poll();
+  } else {
+    throw new Error(`unknown MISBEHAVIOR ${misbehavior}`);
+  }
+
+  // reveal 은 commit 의 readyBlock 이후에 채굴되어야 합니다.
+  await network.provider.send("hardhat_mine", ["0x1"]);
+  await watchdog.poll();
+
+  const { stake } = await stakeManager.stakes(relayManager.address);
+  console.log(`\tRelayManager stake : ${ethers.utils.formatEther(stake)}`);
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
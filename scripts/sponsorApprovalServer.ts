@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import { ethers } from "hardhat";
+import {
+  AllowlistSponsorshipPolicy,
+  AllowlistSponsorshipPolicyConfig,
+  SponsorApprovalService,
+} from "../src/server";
+
+/**
+ * VerifyingPaymaster 의 승인 서명(approvalData)을 발급하는 서버를 실행합니다.
+ *
+ * @example
+ * PAYMASTER_ADDRESS=0x... APPROVER_KEY=0x... SPONSORSHIP_POLICY=./policy.json \
+ *   npx hardhat run scripts/sponsorApprovalServer.ts --network localhost
+ *
+ * 환경 변수
+ * - PAYMASTER_ADDRESS: VerifyingPaymaster 주소
+ * - APPROVER_KEY: VerifyingPaymaster 에 등록된 approver 개인키
+ * - SPONSORSHIP_POLICY: {@link AllowlistSponsorshipPolicyConfig} JSON 파일 경로
+ * - APPROVAL_VALID_FOR: 승인 서명의 유효 시간 (초, 기본값 300)
+ * - APPROVAL_SERVER_PORT: listen 포트 (기본값 8092)
+ * - APPROVAL_SERVER_HOST: listen 호스트 (기본값 127.0.0.1)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const paymaster = await ethers.getContractAt(
+    "VerifyingPaymaster",
+    requireEnv("PAYMASTER_ADDRESS"),
+  );
+  const approver = new ethers.Wallet(requireEnv("APPROVER_KEY"));
+
+  if ((await paymaster.approver()) !== approver.address) {
+    throw new Error(
+      `APPROVER_KEY ${approver.address} is not the approver of ${paymaster.address}`,
+    );
+  }
+
+  const policyConfig: AllowlistSponsorshipPolicyConfig = JSON.parse(
+    readFileSync(requireEnv("SPONSORSHIP_POLICY"), "utf8"),
+  );
+
+  const port = Number(process.env.APPROVAL_SERVER_PORT || 8092);
+  const host = process.env.APPROVAL_SERVER_HOST || "127.0.0.1";
+
+  const service = new SponsorApprovalService({
+    approver,
+    paymaster: paymaster.address,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    policy: new AllowlistSponsorshipPolicy(policyConfig),
+    validForSeconds: process.env.APPROVAL_VALID_FOR
+      ? Number(process.env.APPROVAL_VALID_FOR)
+      : undefined,
+  });
+
+  await service.listen(port, host);
+
+  console.log(`🚀 Sponsor Approval Server : http://${host}:${port}`);
+  console.log(`\tPaymaster : ${paymaster.address}`);
+  console.log(`\tApprover : ${approver.address}`);
+
+  process.once("SIGINT", () => {
+    service.close().then(() => process.exit(0));
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import { readFileSync } from "fs";
+import { ethers } from "hardhat";
+import {
+  AllowlistSponsorshipPolicy,
+  AllowlistSponsorshipPolicyConfig,
+  ManagedTransaction,
+  TrustedRelayServer,
+} from "../src/server";
+import { JsonFileStore } from "../src/store";
+
+/** stuck 트랜잭션 확인 주기 (ms) */
+const BUMP_INTERVAL_MS = 30_000;
+
+/**
+ * Trusted Forwarder 방식의 Relay Server 를 실행합니다.
+ *
+ * @example
+ * FORWARDER_ADDRESS=0x... RELAY_WORKER_KEY=0x... SPONSORSHIP_POLICY=./policy.json \
+ *   npx hardhat run scripts/trustedRelayServer.ts --network localhost
+ *
+ * 환경 변수
+ * - FORWARDER_ADDRESS: Forwarder 주소
+ * - RELAY_WORKER_KEY: 가스를 대납할 relayWorker 개인키
+ * - SPONSORSHIP_POLICY: {@link AllowlistSponsorshipPolicyConfig} JSON 파일 경로
+ *   (예: `{ "contracts": { "0xClamCoin": ["transfer(address,uint256)"] }, "senders": ["0x..."] }`)
+ * - RELAY_SERVER_PORT: listen 포트 (기본값 8091)
+ * - RELAY_SERVER_HOST: listen 호스트 (기본값 127.0.0.1)
+ * - TRANSACTION_STORE: relayWorker 미확정 트랜잭션 저장 파일 경로 (기본값 메모리)
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+(async () => {
+  const forwarder = await ethers.getContractAt(
+    "Forwarder",
+    requireEnv("FORWARDER_ADDRESS"),
+  );
+
+  const policyConfig: AllowlistSponsorshipPolicyConfig = JSON.parse(
+    readFileSync(requireEnv("SPONSORSHIP_POLICY"), "utf8"),
+  );
+
+  const port = Number(process.env.RELAY_SERVER_PORT || 8091);
+  const host = process.env.RELAY_SERVER_HOST || "127.0.0.1";
+
+  const server = new TrustedRelayServer({
+    forwarder,
+    relayWorker: new ethers.Wallet(requireEnv("RELAY_WORKER_KEY")),
+    policy: new AllowlistSponsorshipPolicy(policyConfig),
+    transactionStore: process.env.TRANSACTION_STORE
+      ? new JsonFileStore<ManagedTransaction[]>(process.env.TRANSACTION_STORE)
+      : undefined,
+  });
+
+  await server.listen(port, host);
+
+  console.log(`🚀 Trusted Relay Server : http://${host}:${port}`);
+  console.log(`\tForwarder : ${forwarder.address}`);
+  console.log(`\tRelayWorker : ${server.relayWorker.address}`);
+
+  await server.transactionManager.rebroadcastPendingTransactions();
+
+  const bumpTimer = setInterval(() => {
+    server.transactionManager
+      .bumpStuckTransactions()
+      .catch((error) => console.error(error));
+  }, BUMP_INTERVAL_MS);
+
+  process.once("SIGINT", () => {
+    clearInterval(bumpTimer);
+    server.close().then(() => process.exit(0));
+  });
+})().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
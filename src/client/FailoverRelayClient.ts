@@ -0,0 +1,501 @@
+import axios from "axios";
+import { BigNumber, ethers, providers } from "ethers";
+import { IPaymaster__factory, RelayHub } from "../../typechain-types";
+import { getEIP712MessageForRelayRequest } from "./eip712";
+import {
+  MetaTransactionClient,
+  MetaTransactionSigner,
+} from "./MetaTransactionClient";
+import { getRelayCallGasLimits } from "./relayCallGas";
+import { decodeRelayCallResult, RelayCallFailure } from "./relayCallStatus";
+import { RelayCandidate } from "./RelaySelector";
+import { Eip712RelayMessage, SignedRequest } from "./types";
+
+/**
+ * Relay 요청 시도의 결과입니다.
+ *
+ * - relayed: relayCall 트랜잭션이 채굴되고 `TransactionRelayed` 이벤트가 발생함 (대상 호출이 실패하면 reason 에 사유를 기록)
+ * - timeout: `POST /relay` 응답 또는 트랜잭션 채굴을 기다리다 시간이 초과됨
+ * - unreachable: Relay 에 연결할 수 없음
+ * - refused: Relay 가 요청을 거절함 (수수료, relayWorker, 준비 상태 등)
+ * - paymaster-rejected: paymaster 가 거절함 (Relay 의 로컬 시뮬레이션 또는 `TransactionRejectedByPaymaster` 이벤트)
+ * - request-rejected: Forwarder 가 요청을 거절함 (서명, nonce, 유효기간, Relay 의 검증 또는 `RejectedByForwarder`)
+ */
+export type RelayAttemptOutcome =
+  | "relayed"
+  | "timeout"
+  | "unreachable"
+  | "refused"
+  | "paymaster-rejected"
+  | "request-rejected";
+
+/**
+ * 한 Relay 에 대한 요청 시도 기록입니다.
+ *
+ * @param relayWorker - 시도한 요청의 RelayData.relayWorker
+ * @param reason - 실패 사유 (Relay 의 오류 메시지, paymaster revert 사유 등)
+ * @param transactionHash - Relay 가 응답한 relayCall 트랜잭션 해시
+ * @param durationMs - 요청부터 결과 확인까지 걸린 시간
+ */
+export interface RelayAttempt {
+  relayUrl: string;
+  relayManager: string;
+  relayWorker: string;
+  outcome: RelayAttemptOutcome;
+  reason?: string;
+  transactionHash?: string;
+  durationMs: number;
+}
+
+/**
+ * {@link FailoverRelayClient.relay} 결과입니다.
+ *
+ * @param candidate - 요청을 실행한 Relay
+ * @param signed - 실행된 요청 (해당 Relay 의 RelayData 로 서명됨)
+ * @param approvalData - 실행된 요청과 함께 보낸 approvalData
+ * @param failure - 실행되었지만 대상 호출이 실패한 경우의 설명 (예: RelayedCallFailed)
+ * @param attempts - 실패한 시도를 포함한 모든 시도 기록
+ */
+export interface FailoverRelayResult {
+  candidate: RelayCandidate;
+  signed: SignedRequest<Eip712RelayMessage>;
+  approvalData: string;
+  transactionHash: string;
+  receipt: providers.TransactionReceipt;
+  failure?: RelayCallFailure;
+  attempts: RelayAttempt[];
+}
+
+/**
+ * Paymaster 에 전달할 approvalData 입니다.
+ *
+ * - 문자열: 모든 시도에 같은 값을 사용합니다. (RelayData 와 무관한 approvalData)
+ * - 함수: Relay 마다 그 Relay 의 RelayData 로 다시 서명된 요청을 받아 approvalData 를 반환합니다.
+ *   VerifyingPaymaster 처럼 RelayData 를 포함한 요청 전체에 대한 승인이 필요한 경우에 사용합니다.
+ */
+export type ApprovalDataSource =
+  | string
+  | ((
+      signed: SignedRequest<Eip712RelayMessage>,
+      candidate: RelayCandidate,
+    ) => Promise<string>);
+
+/**
+ * {@link FailoverRelayClient.relay} 옵션입니다.
+ *
+ * @param approvalData - 각 시도와 paymaster 승인 시뮬레이션에 사용할 approvalData (기본값 "0x")
+ */
+export interface FailoverRelayOptions {
+  approvalData?: ApprovalDataSource;
+}
+
+/**
+ * {@link FailoverRelayClient} 설정입니다.
+ *
+ * @param client - 요청을 다시 서명할 {@link MetaTransactionClient} (GSN 도메인)
+ * @param relayHub - Relay 가 사용하는 RelayHub (provider 가 연결되어 있어야 함)
+ * @param requestTimeoutMs - `POST /relay` 응답을 기다리는 최대 시간 (기본값 10초)
+ * @param receiptTimeoutMs - relayCall 트랜잭션 채굴을 기다리는 최대 시간 (기본값 60초)
+ * @param maxRelayNonceGap - relayWorker 의 현재 nonce 에 더해 relayMaxNonce 로 허용하는 값 (기본값 3)
+ */
+export interface FailoverRelayClientConfig {
+  client: MetaTransactionClient;
+  relayHub: RelayHub;
+  requestTimeoutMs?: number;
+  receiptTimeoutMs?: number;
+  maxRelayNonceGap?: number;
+}
+
+/**
+ * 모든 Relay 에서 요청이 실행되지 않았을 때 던지는 오류입니다.
+ */
+export class RelayFailoverError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: RelayAttempt[],
+  ) {
+    super(message);
+    this.name = "RelayFailoverError";
+  }
+}
+
+/**
+ * 서명된 요청을 순위가 매겨진 Relay 목록에 차례로 보내고, Relay 에 문제가 있으면 다음 Relay 로 넘어가는 클라이언트입니다.
+ *
+ * 다음 Relay 로 넘어가는 경우
+ * - 응답 / 채굴 시간 초과, 연결 실패, Relay 의 거절
+ * - paymaster 거절 중 다음 Relay 의 RelayData 로 시뮬레이션하면 승인되는 경우 (수수료 등 Relay 에 따른 거절)
+ * - paymaster 거절 중 다음 Relay 의 시뮬레이션 자체가 실패하는 경우 (relayWorker 잔액 부족 등 Relay 에 따른 문제)
+ *
+ * 모든 시도는 처음 서명된 요청의 Forwarder nonce 를 그대로 사용하므로, 시간이 초과된 Relay 가 뒤늦게 제출하더라도
+ * 두 Relay 가 같은 요청을 실행할 수 없습니다. 실패한 시도 이후 nonce 가 이미 사용되었다면 다음 Relay 로 넘어가지 않습니다.
+ *
+ * @example
+ * const { candidates } = await selector.rankRelays(await discovery.getActiveRelays(), options);
+ * const signed = await client.signRequest(user, await client.buildRelayRequest({ from, to, data }, candidates[0].relayData));
+ * const { receipt, attempts } = await new FailoverRelayClient({ client, relayHub }).relay(user, signed, candidates, {
+ *   // Relay 마다 다시 서명된 요청에 대해 승인을 받습니다. (VerifyingPaymaster)
+ *   approvalData: async (signed) => (await requestApproval(signed)).approvalData,
+ * });
+ */
+export class FailoverRelayClient {
+  readonly client: MetaTransactionClient;
+  readonly relayHub: RelayHub;
+
+  private readonly requestTimeoutMs: number;
+  private readonly receiptTimeoutMs: number;
+  private readonly maxRelayNonceGap: number;
+
+  constructor(config: FailoverRelayClientConfig) {
+    this.client = config.client;
+    this.relayHub = config.relayHub;
+    this.requestTimeoutMs = config.requestTimeoutMs ?? 10_000;
+    this.receiptTimeoutMs = config.receiptTimeoutMs ?? 60_000;
+    this.maxRelayNonceGap = config.maxRelayNonceGap ?? 3;
+  }
+
+  /**
+   * `candidates` 순서대로 요청을 보내 처음으로 실행된 결과를 반환합니다.
+   * Relay 마다 해당 Relay 의 RelayData 로 요청을 다시 서명하며, nonce 등 나머지 필드는 바꾸지 않습니다.
+   *
+   * @param signer - 요청을 다시 서명할 요청자 (`signed` 의 from)
+   * @param signed - 서명된 요청 (첫 Relay 의 RelayData 와 같으면 그대로 사용)
+   * @param candidates - 시도할 Relay 목록 ({@link RelaySelector.rankRelays} 의 candidates)
+   * @param options - approvalData 등 요청 옵션 ({@link FailoverRelayOptions})
+   */
+  async relay(
+    signer: MetaTransactionSigner,
+    signed: SignedRequest<Eip712RelayMessage>,
+    candidates: RelayCandidate[],
+    options: FailoverRelayOptions = {},
+  ): Promise<FailoverRelayResult> {
+    const { from, nonce } = signed.eip712Request.message;
+    const attempts: RelayAttempt[] = [];
+
+    let next =
+      candidates.length > 0
+        ? await this.prepare(signer, signed, candidates[0], options, attempts)
+        : undefined;
+
+    for (let index = 0; next !== undefined; index++) {
+      const candidate = candidates[index];
+      const current = next;
+      next = undefined;
+
+      const { attempt, receipt, failure } = await this.attempt(
+        candidate,
+        current.signed,
+        current.approvalData,
+      );
+      attempts.push(attempt);
+
+      if (receipt !== undefined) {
+        return {
+          candidate,
+          signed: current.signed,
+          approvalData: current.approvalData,
+          transactionHash: receipt.transactionHash,
+          receipt,
+          failure,
+          attempts,
+        };
+      }
+
+      if (attempt.outcome === "request-rejected") {
+        throw new RelayFailoverError(
+          `request rejected by ${candidate.relay.url}: ${attempt.reason}`,
+          attempts,
+        );
+      }
+
+      // 시간이 초과된 Relay 가 이미 요청을 실행했을 수 있으므로, nonce 가 사용되었다면 다시 보내지 않습니다.
+      const currentNonce = await this.client.forwarder.getNonce(from);
+
+      if (currentNonce.gt(nonce)) {
+        throw new RelayFailoverError(
+          `nonce ${BigNumber.from(nonce)} of ${from} was used after relaying to ${candidate.relay.url}; not relaying it again`,
+          attempts,
+        );
+      }
+
+      if (index + 1 >= candidates.length) {
+        break;
+      }
+
+      next = await this.prepare(
+        signer,
+        signed,
+        candidates[index + 1],
+        options,
+        attempts,
+      );
+
+      // 시뮬레이션이 실패하면 Relay 에 따른 문제일 수 있으므로 다음 Relay 로 넘어갑니다.
+      if (
+        attempt.outcome === "paymaster-rejected" &&
+        (await this.simulatePaymaster(next.signed, next.approvalData)) === false
+      ) {
+        throw new RelayFailoverError(
+          `request rejected by paymaster regardless of relay: ${attempt.reason}`,
+          attempts,
+        );
+      }
+    }
+
+    throw new RelayFailoverError(
+      `no relay executed the request: ${attempts.map(({ relayUrl, outcome, reason }) => `${relayUrl} (${outcome}${reason !== undefined ? `: ${reason}` : ""})`).join(", ")}`,
+      attempts,
+    );
+  }
+
+  /**
+   * `POST /relay` 로 요청을 보내고 relayCall 트랜잭션의 결과를 확인합니다.
+   * 요청이 실행되었을 때만 receipt 를 반환합니다.
+   */
+  private async attempt(
+    candidate: RelayCandidate,
+    signed: SignedRequest<Eip712RelayMessage>,
+    approvalData: string,
+  ): Promise<{
+    attempt: RelayAttempt;
+    receipt?: providers.TransactionReceipt;
+    failure?: RelayCallFailure;
+  }> {
+    const startedAt = Date.now();
+    const provider = this.relayHub.provider;
+    const { relayWorker } = signed.eip712Request.message.relayData;
+
+    const record = (
+      outcome: RelayAttemptOutcome,
+      details: { reason?: string; transactionHash?: string } = {},
+    ): RelayAttempt => ({
+      relayUrl: candidate.relay.url,
+      relayManager: candidate.relay.relayManager,
+      relayWorker,
+      outcome,
+      ...details,
+      durationMs: Date.now() - startedAt,
+    });
+
+    let signedTx: string;
+
+    try {
+      const request = this.client.toRelayTransactionRequest(signed, {
+        relayHubAddress: this.relayHub.address,
+        relayMaxNonce:
+          (await provider.getTransactionCount(relayWorker)) +
+          this.maxRelayNonceGap,
+        approvalData,
+      });
+      const { data } = await axios.post<{ signedTx?: string; error?: string }>(
+        `${candidate.relay.url.replace(/\/$/, "")}/relay`,
+        request,
+        { timeout: this.requestTimeoutMs },
+      );
+
+      if (data.signedTx === undefined) {
+        return {
+          attempt: record(classifyRefusal(data.error), { reason: data.error }),
+        };
+      }
+
+      signedTx = data.signedTx;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response === undefined) {
+        return {
+          attempt: record(
+            error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+              ? "timeout"
+              : "unreachable",
+            { reason: error.message },
+          ),
+        };
+      }
+
+      const reason = axios.isAxiosError(error)
+        ? (error.response?.data?.error ?? error.message)
+        : (error as Error).message;
+
+      return { attempt: record(classifyRefusal(reason), { reason }) };
+    }
+
+    const transactionHash = ethers.utils.parseTransaction(signedTx).hash!;
+    let receipt: providers.TransactionReceipt;
+
+    try {
+      receipt = await provider.waitForTransaction(
+        transactionHash,
+        1,
+        this.receiptTimeoutMs,
+      );
+    } catch (error) {
+      return {
+        attempt: record("timeout", {
+          reason: (error as Error).message,
+          transactionHash,
+        }),
+      };
+    }
+
+    const result = decodeRelayCallResult(this.relayHub, receipt);
+
+    if (result?.paymasterAccepted) {
+      return {
+        attempt: record("relayed", {
+          reason: result.failure?.message,
+          transactionHash,
+        }),
+        receipt,
+        failure: result.failure,
+      };
+    }
+
+    if (result?.failure !== undefined) {
+      return {
+        attempt: record(
+          result.failure.source === "forwarder"
+            ? "request-rejected"
+            : "paymaster-rejected",
+          { reason: result.failure.message, transactionHash },
+        ),
+      };
+    }
+
+    return {
+      attempt: record("refused", {
+        reason: "relayCall transaction reverted",
+        transactionHash,
+      }),
+    };
+  }
+
+  /**
+   * candidate 로 보낼 요청과 approvalData 를 준비합니다.
+   * approvalData 를 받지 못하면 (승인 거절 등) 다음 Relay 로 넘어가지 않고 오류를 던집니다.
+   */
+  private async prepare(
+    signer: MetaTransactionSigner,
+    signed: SignedRequest<Eip712RelayMessage>,
+    candidate: RelayCandidate,
+    options: FailoverRelayOptions,
+    attempts: RelayAttempt[],
+  ): Promise<{
+    signed: SignedRequest<Eip712RelayMessage>;
+    approvalData: string;
+  }> {
+    const resigned = await this.signFor(signer, signed, candidate);
+    const source = options.approvalData ?? "0x";
+
+    if (typeof source === "string") {
+      return { signed: resigned, approvalData: source };
+    }
+
+    try {
+      return {
+        signed: resigned,
+        approvalData: await source(resigned, candidate),
+      };
+    } catch (error) {
+      throw new RelayFailoverError(
+        `no approvalData for ${candidate.relay.url}: ${(error as Error).message}`,
+        attempts,
+      );
+    }
+  }
+
+  /** `signed` 의 RelayData 를 candidate 의 RelayData 로 바꾸어 다시 서명합니다. (이미 같으면 그대로 반환) */
+  private async signFor(
+    signer: MetaTransactionSigner,
+    signed: SignedRequest<Eip712RelayMessage>,
+    candidate: RelayCandidate,
+  ): Promise<SignedRequest<Eip712RelayMessage>> {
+    const hash = ({ domain, types, message }: typeof signed.eip712Request) =>
+      ethers.utils._TypedDataEncoder.hash(domain, types, message);
+    const eip712Request = getEIP712MessageForRelayRequest(
+      signed.eip712Request,
+      candidate.relayData,
+    );
+
+    if (hash(eip712Request) === hash(signed.eip712Request)) {
+      return signed;
+    }
+
+    return this.client.signRequest(signer, eip712Request);
+  }
+
+  /**
+   * candidate 의 relayWorker 로 relayCall 을 시뮬레이션하여 paymaster 가 승인하는지 확인합니다.
+   * (Relay 마다 달라지는 수수료 / gasPrice / relayWorker 로 인한 거절인지 판단)
+   *
+   * externalGasLimit 은 {@link GsnRelayServer} 와 같이 maxPossibleGas 로 계산합니다.
+   *
+   * @returns relayCall 이 반환한 paymasterAccepted. 시뮬레이션 자체가 실패하면 (relayWorker 잔액 부족, 노드의 eth_call 가스 제한 등) undefined
+   */
+  private async simulatePaymaster(
+    signed: SignedRequest<Eip712RelayMessage>,
+    approvalData: string,
+  ): Promise<boolean | undefined> {
+    const provider = this.relayHub.provider;
+    const { relayData } = signed.eip712Request.message;
+
+    try {
+      const [hubConfig, gasAndDataLimits] = await Promise.all([
+        this.relayHub.getConfiguration(),
+        IPaymaster__factory.connect(
+          relayData.paymaster,
+          provider,
+        ).getGasAndDataLimits(),
+      ]);
+      const payload = this.client.toRelayCallPayload(signed, {
+        maxAcceptanceBudget: gasAndDataLimits.acceptanceBudget,
+        externalGasLimit: 0,
+        approvalData,
+      });
+      const { externalGasLimit } = getRelayCallGasLimits(
+        this.relayHub.interface.encodeFunctionData("relayCall", [
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          0,
+        ]),
+        payload.relayRequest.request.gas,
+        hubConfig,
+        gasAndDataLimits,
+      );
+
+      // signer 가 연결된 RelayHub 는 from 을 지정할 수 없으므로 provider 로 호출합니다.
+      const [paymasterAccepted] = await this.relayHub
+        .connect(provider)
+        .callStatic.relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          externalGasLimit,
+          {
+            from: relayData.relayWorker,
+            gasLimit: externalGasLimit,
+            gasPrice: BigNumber.from(relayData.gasPrice),
+          },
+        );
+
+      return paymasterAccepted;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/** Relay 의 오류 메시지를 {@link RelayAttemptOutcome} 으로 분류합니다. ({@link GsnRelayServer.relay} 의 오류 형식) */
+function classifyRefusal(reason: string | undefined): RelayAttemptOutcome {
+  if (reason?.startsWith("paymaster rejected")) {
+    return "paymaster-rejected";
+  }
+
+  if (reason?.startsWith("forward request rejected")) {
+    return "request-rejected";
+  }
+
+  return "refused";
+}
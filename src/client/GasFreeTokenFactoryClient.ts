@@ -0,0 +1,152 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import {
+  GasFreeToken__factory,
+  GasFreeTokenFactory,
+} from "../../typechain-types";
+
+/**
+ * {@link GasFreeTokenFactory.createToken} 의 입력값입니다.
+ *
+ * @param initialSupply - 생성자에게 발행할 토큰 양 (최소 단위)
+ * @param salt - 생성자가 고르는 32 바이트 값 (생성자 주소와 함께 CREATE2 salt 가 됩니다)
+ */
+export interface CreateTokenOptions {
+  name: string;
+  symbol: string;
+  initialSupply: BigNumberish;
+  salt: string;
+}
+
+/**
+ * `TokenCreated` 이벤트로 확인한 토큰 생성 결과입니다.
+ */
+export interface CreatedToken {
+  token: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  initialSupply: BigNumber;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * {@link GasFreeTokenFactoryClient.waitForTokenCreated} 의 옵션입니다.
+ *
+ * @param fromBlock - 이벤트 조회 시작 블록 (기본값 0)
+ * @param timeoutMs - 이벤트를 기다리는 최대 시간 (기본값 60초)
+ * @param pollIntervalMs - 이벤트 조회 간격 (기본값 1초)
+ */
+export interface WaitForTokenOptions {
+  fromBlock?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+/**
+ * {@link GasFreeTokenFactory} 로 생성할 토큰의 주소를 예측하고, 생성 호출 데이터와 생성 이벤트를 다루는 클라이언트입니다.
+ * 생성 호출은 factory 를 대상으로 하는 메타 트랜잭션 (`to: factory.address, data: encodeCreateToken(...)`) 으로 제출합니다.
+ *
+ * @example
+ * const factoryClient = new GasFreeTokenFactoryClient(factory);
+ * const token = await factoryClient.predictTokenAddress(creator.address, options);
+ * const signed = await client.createSignedRequest(creator, { to: factory.address, data: factoryClient.encodeCreateToken(options) });
+ * // ... relay
+ * await factoryClient.waitForTokenCreated(token);
+ */
+export class GasFreeTokenFactoryClient {
+  constructor(readonly factory: GasFreeTokenFactory) {}
+
+  /**
+   * `createToken` 이 배포할 주소를 오프체인에서 계산합니다.
+   * (factory 의 `predictTokenAddress` 와 같은 값이며, factory 의 trusted forwarder 만 조회합니다)
+   */
+  async predictTokenAddress(
+    creator: string,
+    options: CreateTokenOptions,
+  ): Promise<string> {
+    const forwarder = await this.factory.trustedForwarder();
+    const initCode = new GasFreeToken__factory().getDeployTransaction(
+      options.name,
+      options.symbol,
+      options.initialSupply,
+      creator,
+      forwarder,
+    ).data!;
+
+    return ethers.utils.getCreate2Address(
+      this.factory.address,
+      ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(
+          ["address", "bytes32"],
+          [creator, options.salt],
+        ),
+      ),
+      ethers.utils.keccak256(initCode),
+    );
+  }
+
+  /** `createToken(name, symbol, initialSupply, salt)` 호출 데이터 */
+  encodeCreateToken(options: CreateTokenOptions): string {
+    return this.factory.interface.encodeFunctionData("createToken", [
+      options.name,
+      options.symbol,
+      options.initialSupply,
+      options.salt,
+    ]);
+  }
+
+  /**
+   * `token` 의 `TokenCreated` 이벤트를 조회합니다. 아직 생성되지 않았으면 undefined 를 반환합니다.
+   */
+  async findTokenCreated(
+    token: string,
+    fromBlock = 0,
+  ): Promise<CreatedToken | undefined> {
+    const [event] = await this.factory.queryFilter(
+      this.factory.filters.TokenCreated(token),
+      fromBlock,
+    );
+
+    if (event === undefined) {
+      return undefined;
+    }
+
+    return {
+      token: event.args.token,
+      creator: event.args.creator,
+      name: event.args.name,
+      symbol: event.args.symbol,
+      initialSupply: event.args.initialSupply,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    };
+  }
+
+  /**
+   * `token` 의 `TokenCreated` 이벤트가 나타날 때까지 조회를 반복합니다.
+   * relay 된 생성 트랜잭션은 클라이언트가 해시를 모를 수 있으므로, 예측한 주소로 생성 여부를 확인합니다.
+   */
+  async waitForTokenCreated(
+    token: string,
+    options: WaitForTokenOptions = {},
+  ): Promise<CreatedToken> {
+    const deadline = Date.now() + (options.timeoutMs ?? 60_000);
+
+    for (;;) {
+      const created = await this.findTokenCreated(token, options.fromBlock);
+
+      if (created !== undefined) {
+        return created;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`token ${token} was not created`);
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, options.pollIntervalMs ?? 1_000),
+      );
+    }
+  }
+}
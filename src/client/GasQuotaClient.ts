@@ -0,0 +1,58 @@
+import { BigNumber, providers } from "ethers";
+import {
+  GasQuotaPaymaster,
+  GasQuotaPaymaster__factory,
+} from "../../typechain-types";
+
+/**
+ * {@link GasQuotaClient.getQuota} 의 결과입니다.
+ *
+ * @param quota - 기간(window) 당 대납 한도 (RelayHub.calculateCharge 기준 wei)
+ * @param used - 최근 기간(rolling window)에 사용한 양
+ * @param remaining - 최근 기간에 남은 양. 요청의 최대 비용(calculateCharge(maxPossibleGas))이 이보다 크면 거절됩니다.
+ * @param windowDuration - 기간 길이 (초)
+ * @param resetsAt - 사용량의 일부가 기간을 벗어나 remaining 이 늘어나는 가장 이른 시각 (사용량이 없으면 undefined)
+ */
+export interface GasQuota {
+  quota: BigNumber;
+  used: BigNumber;
+  remaining: BigNumber;
+  windowDuration: number;
+  resetsAt?: Date;
+}
+
+/**
+ * {@link GasQuotaPaymaster} 에서 요청자별로 남은 대납 한도를 조회합니다.
+ *
+ * 사용량은 windowDuration / 24 초 단위로 기록되며, 각 기록은 windowDuration 이 지난 다음 단위가 시작될 때 한도에서 빠집니다.
+ *
+ * @example
+ * const quotaClient = new GasQuotaClient(paymasterAddress, provider);
+ * const { remaining, resetsAt } = await quotaClient.getQuota(user.address);
+ */
+export class GasQuotaClient {
+  readonly paymaster: GasQuotaPaymaster;
+
+  constructor(paymaster: string, provider: providers.Provider) {
+    this.paymaster = GasQuotaPaymaster__factory.connect(paymaster, provider);
+  }
+
+  async getQuota(sender: string): Promise<GasQuota> {
+    const [quota, windowDuration, { used, remaining, resetsAt }] =
+      await Promise.all([
+        this.paymaster.quota(),
+        this.paymaster.windowDuration(),
+        this.paymaster.remainingQuota(sender),
+      ]);
+
+    return {
+      quota,
+      used,
+      remaining,
+      windowDuration: windowDuration.toNumber(),
+      resetsAt: resetsAt.isZero()
+        ? undefined
+        : new Date(resetsAt.toNumber() * 1000),
+    };
+  }
+}
@@ -0,0 +1,353 @@
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BigNumber, BigNumberish, ethers, Signer } from "ethers";
+import { RelayTransactionRequest } from "@opengsn/common/dist/types/RelayTransactionRequest";
+import { Forwarder } from "../../typechain-types";
+import { BatchCall, encodeBatchCalls } from "./batch";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  RELAY_REQUEST_TYPE_NAME,
+  getEIP712MessageForGasFreeTransaction,
+  getEIP712MessageForRelayRequest,
+  getForwarderExecutePayload,
+} from "./eip712";
+import {
+  Eip712Message,
+  Eip712RelayMessage,
+  Eip712Request,
+  ForwarderExecutePayload,
+  RelayCallPayload,
+  RelayData,
+  SignedRequest,
+} from "./types";
+
+/**
+ * EIP-712 `_signTypedData` 를 지원하는 ethers Signer 입니다. (Wallet, JsonRpcSigner 등)
+ */
+export type MetaTransactionSigner = Signer & TypedDataSigner;
+
+/**
+ * {@link MetaTransactionClient.buildRequest} 의 입력값입니다.
+ *
+ * @param from - 요청자(서명자) 지갑 주소
+ * @param to - 호출 대상 스마트 컨트랙트 주소
+ * @param data - 호출할 함수와 파라미터가 ABI 인코딩된 바이트 데이터
+ * @param value - 함께 전송할 Native Token 양 (기본값 0)
+ * @param gas - 대상 호출에 허용할 가스량 (미지정 시 provider 로 추정)
+ * @param validUntil - 요청이 유효한 마지막 블록 넘버 (validForBlocks 보다 우선)
+ * @param validForBlocks - 현재 블록으로부터 요청이 유효한 블록 수
+ */
+export interface BuildRequestOptions {
+  from: string;
+  to: string;
+  data: string;
+  value?: BigNumberish;
+  gas?: BigNumberish;
+  validUntil?: BigNumberish;
+  validForBlocks?: number;
+}
+
+/**
+ * {@link MetaTransactionClient.buildBatchRequest} 의 입력값입니다.
+ * `to` / `data` 대신 묶어서 실행할 호출 목록을 받습니다.
+ *
+ * @param calls - 순서대로 실행할 호출 (하나라도 revert 하면 전체가 revert 합니다)
+ */
+export type BuildBatchRequestOptions = Omit<
+  BuildRequestOptions,
+  "to" | "data" | "value"
+> & { calls: BatchCall[] };
+
+/**
+ * {@link MetaTransactionClient.toRelayCallPayload} 의 relayCall 트랜잭션 옵션입니다.
+ *
+ * @param maxAcceptanceBudget - paymaster acceptanceBudget 허용 최대값
+ * @param externalGasLimit - relayCall 트랜잭션에 지정할 gasLimit
+ * @param approvalData - Paymaster 에 전달할 데이터 (기본값 "0x")
+ */
+export interface RelayCallOptions {
+  maxAcceptanceBudget: BigNumberish;
+  externalGasLimit: BigNumberish;
+  approvalData?: string;
+}
+
+/**
+ * {@link MetaTransactionClient.toRelayTransactionRequest} 의 Relay Server 요청 옵션입니다.
+ *
+ * @param relayHubAddress - Relay Server 가 사용하는 RelayHub 주소 (`/getaddr` 의 relayHubAddress)
+ * @param relayMaxNonce - relayWorker 가 사용할 수 있는 최대 트랜잭션 nonce
+ * @param approvalData - Paymaster 에 전달할 데이터 (기본값 "0x")
+ */
+export interface RelayTransactionOptions {
+  relayHubAddress: string;
+  relayMaxNonce: number;
+  approvalData?: string;
+}
+
+/**
+ * Forwarder 기반 메타트랜잭션 요청을 생성 / 서명하고,
+ * {@link Forwarder.execute} (Trusted Forwarder) 또는 {@link RelayHub.relayCall} (GSN) 에
+ * 제출 가능한 형태로 변환하는 클라이언트입니다.
+ *
+ * GSN 방식에서는 {@link buildRelayRequest} 로 RelayData 까지 서명하여,
+ * relayWorker / paymaster / 수수료가 서명 이후 변조될 수 없도록 합니다.
+ *
+ * @example
+ * const client = new MetaTransactionClient(forwarder, "Trusted Relay Transaction", "1");
+ * const signed = await client.createSignedRequest(user, { from, to, data });
+ * const payload = client.toForwarderExecutePayload(signed);
+ */
+export class MetaTransactionClient {
+  /**
+   * @param forwarder - 요청을 검증 / 실행할 Forwarder (provider 가 연결되어 있어야 함)
+   * @param domainName - Forwarder 에 등록된 도메인 이름
+   * @param domainVersion - Forwarder 에 등록된 도메인 버전
+   */
+  constructor(
+    readonly forwarder: Forwarder,
+    readonly domainName: string,
+    readonly domainVersion: string,
+  ) {}
+
+  /**
+   * nonce(Forwarder.getNonce), chainId, 가스 추정값, validUntil 을 채워
+   * 서명 가능한 {@link Eip712Request} 를 생성합니다.
+   */
+  async buildRequest(options: BuildRequestOptions): Promise<Eip712Request> {
+    const provider = this.forwarder.provider;
+
+    const value = BigNumber.from(options.value ?? 0);
+
+    const [nonce, network, gas, validUntil] = await Promise.all([
+      this.forwarder.getNonce(options.from),
+      provider.getNetwork(),
+      options.gas !== undefined
+        ? BigNumber.from(options.gas)
+        : provider.estimateGas({
+            from: options.from,
+            to: options.to,
+            data: options.data,
+            value,
+          }),
+      this.resolveValidUntil(options),
+    ]);
+
+    return getEIP712MessageForGasFreeTransaction(
+      this.domainName,
+      this.domainVersion,
+      network.chainId,
+      this.forwarder.address,
+      options.data,
+      options.from,
+      options.to,
+      gas,
+      nonce,
+      value,
+      validUntil,
+    );
+  }
+
+  /**
+   * {@link buildRequest} 결과에 relay 서버가 제시한 {@link RelayData} 를 더해
+   * GSN `RelayRequest` 타입의 서명 요청을 생성합니다.
+   *
+   * RelayHub 는 GsnEip712Library 에 고정된 도메인("GSN Relayed Transaction", "2")으로만 검증하므로,
+   * 다른 도메인으로 생성된 클라이언트에서는 오류를 던집니다.
+   */
+  async buildRelayRequest(
+    options: BuildRequestOptions,
+    relayData: RelayData,
+  ): Promise<Eip712Request<Eip712RelayMessage>> {
+    if (
+      this.domainName !== GSN_DOMAIN_NAME ||
+      this.domainVersion !== GSN_DOMAIN_VERSION
+    ) {
+      throw new Error(
+        `RelayRequest must be signed with domain "${GSN_DOMAIN_NAME}" version "${GSN_DOMAIN_VERSION}"`,
+      );
+    }
+
+    if (
+      relayData.forwarder.toLowerCase() !== this.forwarder.address.toLowerCase()
+    ) {
+      throw new Error(
+        `relayData.forwarder ${relayData.forwarder} is not ${this.forwarder.address}`,
+      );
+    }
+
+    const forwardRequest = await this.buildRequest(options);
+    return getEIP712MessageForRelayRequest(forwardRequest, relayData);
+  }
+
+  /**
+   * 요청에 서명합니다. 서명자 주소가 `message.from` 과 다르면 오류를 던집니다.
+   */
+  async signRequest<M extends Eip712Message>(
+    signer: MetaTransactionSigner,
+    eip712Request: Eip712Request<M>,
+  ): Promise<SignedRequest<M>> {
+    const signerAddress = await signer.getAddress();
+
+    if (
+      signerAddress.toLowerCase() !== eip712Request.message.from.toLowerCase()
+    ) {
+      throw new Error(
+        `signer ${signerAddress} is not request.from ${eip712Request.message.from}`,
+      );
+    }
+
+    const signature = await signer._signTypedData(
+      eip712Request.domain,
+      eip712Request.types,
+      { ...eip712Request.message },
+    );
+
+    return { eip712Request, signature };
+  }
+
+  /**
+   * {@link buildRequest} 와 {@link signRequest} 를 한 번에 수행합니다.
+   * `from` 을 지정하지 않으면 서명자 주소를 사용합니다.
+   */
+  async createSignedRequest(
+    signer: MetaTransactionSigner,
+    options: Omit<BuildRequestOptions, "from"> & { from?: string },
+  ): Promise<SignedRequest> {
+    const from = options.from ?? (await signer.getAddress());
+    const eip712Request = await this.buildRequest({ ...options, from });
+    return this.signRequest(signer, eip712Request);
+  }
+
+  /**
+   * 여러 호출을 `BatchForwarder.sendBatch` 하나로 묶은 서명 요청을 생성합니다.
+   * 클라이언트의 forwarder 가 BatchForwarder 여야 하며, 요청의 `to` 는 BatchForwarder 자신입니다.
+   * 각 호출의 대상은 BatchForwarder 를 trusted forwarder 로 신뢰해야 `_msgSender()` 가 요청자로 유지됩니다.
+   *
+   * @example
+   * const client = new MetaTransactionClient(Forwarder__factory.connect(batchForwarder.address, provider), ...);
+   * const request = await client.buildBatchRequest({ from, calls: [{ to: clamCoin.address, data: approveData }, ...] });
+   */
+  async buildBatchRequest(
+    options: BuildBatchRequestOptions,
+  ): Promise<Eip712Request> {
+    const { calls, ...requestOptions } = options;
+
+    return this.buildRequest({
+      ...requestOptions,
+      to: this.forwarder.address,
+      data: encodeBatchCalls(calls),
+    });
+  }
+
+  /**
+   * {@link buildBatchRequest} 와 {@link signRequest} 를 한 번에 수행합니다.
+   * `from` 을 지정하지 않으면 서명자 주소를 사용합니다.
+   */
+  async createSignedBatchRequest(
+    signer: MetaTransactionSigner,
+    options: Omit<BuildBatchRequestOptions, "from"> & { from?: string },
+  ): Promise<SignedRequest> {
+    const from = options.from ?? (await signer.getAddress());
+    const eip712Request = await this.buildBatchRequest({ ...options, from });
+    return this.signRequest(signer, eip712Request);
+  }
+
+  /**
+   * 서명된 요청을 {@link Forwarder.execute} 인자로 변환합니다.
+   * RelayRequest 서명의 경우 RelayData 해시가 suffixData 로 전달됩니다.
+   */
+  toForwarderExecutePayload(signed: SignedRequest): ForwarderExecutePayload {
+    return getForwarderExecutePayload(signed);
+  }
+
+  /**
+   * {@link buildRelayRequest} 로 생성 / 서명된 요청을 {@link RelayHub.relayCall} 인자로 변환합니다.
+   * RelayData 는 서명에 포함된 값을 그대로 사용합니다.
+   */
+  toRelayCallPayload(
+    signed: SignedRequest<Eip712RelayMessage>,
+    options: RelayCallOptions,
+  ): RelayCallPayload {
+    if (signed.eip712Request.primaryType !== RELAY_REQUEST_TYPE_NAME) {
+      throw new Error(
+        `relayCall requires a signed ${RELAY_REQUEST_TYPE_NAME}, got ${signed.eip712Request.primaryType}`,
+      );
+    }
+
+    const { relayData, ...request } = signed.eip712Request.message;
+
+    return {
+      maxAcceptanceBudget: options.maxAcceptanceBudget,
+      relayRequest: {
+        request,
+        relayData,
+      },
+      signature: signed.signature,
+      approvalData: options.approvalData ?? "0x",
+      externalGasLimit: options.externalGasLimit,
+    };
+  }
+  /**
+   * {@link buildRelayRequest} 로 생성 / 서명된 요청을
+   * OpenGSN Relay Server 의 `POST /relay` 요청 본문으로 변환합니다. (숫자 필드는 10진수 문자열)
+   */
+  toRelayTransactionRequest(
+    signed: SignedRequest<Eip712RelayMessage>,
+    options: RelayTransactionOptions,
+  ): RelayTransactionRequest {
+    const { relayRequest, signature, approvalData } = this.toRelayCallPayload(
+      signed,
+      {
+        maxAcceptanceBudget: 0,
+        externalGasLimit: 0,
+        approvalData: options.approvalData,
+      },
+    );
+    const { request, relayData } = relayRequest;
+    const toIntString = (value: BigNumberish) =>
+      BigNumber.from(value).toString();
+
+    return {
+      relayRequest: {
+        request: {
+          from: request.from,
+          to: request.to,
+          data: request.data,
+          value: toIntString(request.value),
+          nonce: toIntString(request.nonce),
+          gas: toIntString(request.gas),
+          validUntil: toIntString(request.validUntil),
+        },
+        relayData: {
+          gasPrice: toIntString(relayData.gasPrice),
+          pctRelayFee: toIntString(relayData.pctRelayFee),
+          baseRelayFee: toIntString(relayData.baseRelayFee),
+          relayWorker: relayData.relayWorker,
+          paymaster: relayData.paymaster,
+          paymasterData: ethers.utils.hexlify(relayData.paymasterData),
+          clientId: toIntString(relayData.clientId),
+          forwarder: relayData.forwarder,
+        },
+      },
+      metadata: {
+        approvalData,
+        relayHubAddress: options.relayHubAddress,
+        relayMaxNonce: options.relayMaxNonce,
+        signature,
+      },
+    };
+  }
+
+  private async resolveValidUntil(
+    options: BuildRequestOptions,
+  ): Promise<BigNumberish | undefined> {
+    if (options.validUntil !== undefined) {
+      return options.validUntil;
+    }
+    if (options.validForBlocks !== undefined) {
+      const blockNumber = await this.forwarder.provider.getBlockNumber();
+      return blockNumber + options.validForBlocks;
+    }
+    return undefined;
+  }
+}
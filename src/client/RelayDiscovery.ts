@@ -0,0 +1,157 @@
+import { ethers } from "ethers";
+import { RelayHub, StakeManager__factory } from "../../typechain-types";
+import { RegisteredRelay } from "./RelaySelector";
+
+/**
+ * 활성 상태인 Relay 와 그 relayWorker 목록입니다. ({@link RelaySelector} 에 그대로 전달할 수 있습니다)
+ *
+ * @param workers - `RelayWorkersAdded` 이벤트로 추가된 relayWorker
+ * @param registeredBlock - 가장 최근 `RelayServerRegistered` 이벤트의 블록
+ */
+export interface DiscoveredRelay extends RegisteredRelay {
+  workers: string[];
+  registeredBlock: number;
+}
+
+/**
+ * {@link RelayDiscovery} 설정입니다.
+ *
+ * @param relayHub - 이벤트를 조회할 RelayHub (provider 가 연결되어 있어야 함)
+ * @param fromBlock - 이벤트 조회 시작 블록 (RelayHub 배포 블록, 기본값 0)
+ * @param maxBlockRange - eth_getLogs 한 번에 조회할 최대 블록 수 (기본값 10,000)
+ */
+export interface RelayDiscoveryConfig {
+  relayHub: RelayHub;
+  fromBlock?: number;
+  maxBlockRange?: number;
+}
+
+/**
+ * RelayHub 의 `RelayServerRegistered` / `RelayWorkersAdded` 이벤트로 Relay 를 찾습니다.
+ *
+ * 조회한 블록 구간의 이벤트는 캐시하며, 다음 조회에서는 새 블록만 조회합니다.
+ * stake 상태는 이벤트 없이도 바뀔 수 있으므로 {@link getActiveRelays} 마다 다시 확인하여,
+ * `isRelayManagerStaked` 가 false 이거나 StakeManager 에서 RelayHub 승인이 해제된 relayManager 를 제외합니다.
+ *
+ * @example
+ * const discovery = new RelayDiscovery({ relayHub, fromBlock: deploymentBlock });
+ * const relays = await discovery.getActiveRelays();
+ * const { relayData } = await new RelaySelector({ relayHub }).selectRelay(relays, options);
+ */
+export class RelayDiscovery {
+  readonly relayHub: RelayHub;
+
+  private readonly fromBlock: number;
+  private readonly maxBlockRange: number;
+
+  /** 이벤트를 조회한 마지막 블록 */
+  private scannedToBlock: number;
+
+  private readonly registrations = new Map<
+    string,
+    Omit<DiscoveredRelay, "workers">
+  >();
+  private readonly workers = new Map<string, Set<string>>();
+
+  constructor(config: RelayDiscoveryConfig) {
+    this.relayHub = config.relayHub;
+    this.fromBlock = config.fromBlock ?? 0;
+    this.maxBlockRange = config.maxBlockRange ?? 10_000;
+    this.scannedToBlock = this.fromBlock - 1;
+  }
+
+  /** 이벤트를 조회한 마지막 블록 (아직 조회하지 않았으면 fromBlock - 1) */
+  get lastScannedBlock(): number {
+    return this.scannedToBlock;
+  }
+
+  /**
+   * 마지막으로 조회한 블록 이후부터 `toBlock` 까지의 이벤트를 maxBlockRange 단위로 조회하여 캐시에 더합니다.
+   *
+   * @returns 새로 조회한 블록 구간 (새 블록이 없으면 undefined)
+   */
+  async scan(
+    toBlock?: number,
+  ): Promise<{ fromBlock: number; toBlock: number } | undefined> {
+    const latest = toBlock ?? (await this.relayHub.provider.getBlockNumber());
+    const fromBlock = this.scannedToBlock + 1;
+
+    if (fromBlock > latest) {
+      return undefined;
+    }
+
+    for (let start = fromBlock; start <= latest; start += this.maxBlockRange) {
+      const end = Math.min(start + this.maxBlockRange - 1, latest);
+
+      const [registered, workersAdded] = await Promise.all([
+        this.relayHub.queryFilter(
+          this.relayHub.filters.RelayServerRegistered(),
+          start,
+          end,
+        ),
+        this.relayHub.queryFilter(
+          this.relayHub.filters.RelayWorkersAdded(),
+          start,
+          end,
+        ),
+      ]);
+
+      // 이벤트는 오래된 순서이므로 나중 등록이 이전 등록을 덮어씁니다.
+      for (const { args, blockNumber } of registered) {
+        this.registrations.set(args.relayManager, {
+          relayManager: args.relayManager,
+          url: args.relayUrl,
+          baseRelayFee: args.baseRelayFee,
+          pctRelayFee: args.pctRelayFee,
+          registeredBlock: blockNumber,
+        });
+      }
+
+      for (const { args } of workersAdded) {
+        const workers = this.workers.get(args.relayManager) ?? new Set();
+        args.newRelayWorkers.forEach((worker) => workers.add(worker));
+        this.workers.set(args.relayManager, workers);
+      }
+
+      this.scannedToBlock = end;
+    }
+
+    return { fromBlock, toBlock: latest };
+  }
+
+  /**
+   * 새 블록의 이벤트를 조회한 뒤, 등록된 Relay 중 stake 되어 있고 RelayHub 승인이 유지된 Relay 를 반환합니다.
+   */
+  async getActiveRelays(): Promise<DiscoveredRelay[]> {
+    await this.scan();
+
+    const stakeManager = StakeManager__factory.connect(
+      await this.relayHub.stakeManager(),
+      this.relayHub.provider,
+    );
+
+    const relays = await Promise.all(
+      [...this.registrations.values()].map(async (registration) => {
+        const { relayManager } = registration;
+
+        const [staked, removalBlock] = await Promise.all([
+          this.relayHub.isRelayManagerStaked(relayManager),
+          stakeManager.authorizedHubs(relayManager, this.relayHub.address),
+        ]);
+
+        if (!staked || !removalBlock.eq(ethers.constants.MaxUint256)) {
+          return undefined;
+        }
+
+        return {
+          ...registration,
+          workers: [...(this.workers.get(relayManager) ?? [])],
+        };
+      }),
+    );
+
+    return relays.filter(
+      (relay): relay is DiscoveredRelay => relay !== undefined,
+    );
+  }
+}
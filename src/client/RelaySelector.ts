@@ -0,0 +1,279 @@
+import axios from "axios";
+import { BigNumber, BigNumberish, BytesLike } from "ethers";
+import { PingResponse } from "@opengsn/common/dist/PingResponse";
+import { RelayHub } from "../../typechain-types";
+import { RelayData } from "./types";
+
+/**
+ * RelayHub 에 등록된 Relay Server 입니다. (가장 최근 `RelayServerRegistered` 이벤트)
+ *
+ * @param baseRelayFee - 등록된 건당 고정 수수료 (wei)
+ * @param pctRelayFee - 등록된 가스 비용 대비 수수료 비율 (%)
+ */
+export interface RegisteredRelay {
+  relayManager: string;
+  url: string;
+  baseRelayFee: BigNumber;
+  pctRelayFee: BigNumber;
+}
+
+/**
+ * 요청을 받을 수 있는 Relay 와, 그 Relay 로 보낼 {@link RelayData} 입니다.
+ *
+ * @param relayData - Relay 가 등록한 수수료와 `/getaddr` 의 relayWorker 로 채운 RelayData
+ * @param charge - gasEstimate 에 대한 RelayHub.calculateCharge (wei)
+ */
+export interface RelayCandidate {
+  relay: RegisteredRelay;
+  ping: PingResponse;
+  relayData: RelayData;
+  charge: BigNumber;
+}
+
+/**
+ * 요청을 받을 수 없는 Relay 와 그 이유입니다.
+ */
+export interface UnavailableRelay {
+  relay: RegisteredRelay;
+  reason: string;
+}
+
+/**
+ * {@link RelaySelector.rankRelays} 결과입니다.
+ *
+ * @param candidates - charge 오름차순으로 정렬된 요청 가능한 Relay
+ */
+export interface RelayRanking {
+  candidates: RelayCandidate[];
+  unavailable: UnavailableRelay[];
+}
+
+/**
+ * {@link RelaySelector.rankRelays} 의 입력값입니다.
+ *
+ * @param gasEstimate - 수수료 비교에 사용할 가스량 (예: maxPossibleGas 또는 대상 호출 가스 추정값)
+ * @param gasPrice - 제시할 gasPrice (기본값: 노드의 eth_gasPrice, Relay 의 minGasPrice 보다 낮으면 minGasPrice)
+ * @param paymaster / forwarder / paymasterData / clientId - RelayData 의 나머지 필드
+ */
+export interface RelaySelectionOptions {
+  gasEstimate: BigNumberish;
+  gasPrice?: BigNumberish;
+  paymaster: string;
+  forwarder: string;
+  paymasterData?: BytesLike;
+  clientId?: BigNumberish;
+}
+
+/**
+ * {@link RelaySelector} 설정입니다.
+ *
+ * @param relayHub - Relay 가 등록된 RelayHub (provider 가 연결되어 있어야 함)
+ * @param pingTimeoutMs - `/getaddr` 응답을 기다리는 최대 시간 (기본값 5초)
+ */
+export interface RelaySelectorConfig {
+  relayHub: RelayHub;
+  pingTimeoutMs?: number;
+}
+
+/**
+ * {@link getRegisteredRelays} 의 조회 구간입니다.
+ *
+ * @param fromBlock - 이벤트 조회 시작 블록 (RelayHub 배포 블록, 기본값 0)
+ * @param toBlock - 이벤트 조회 마지막 블록 (기본값: 최신 블록)
+ * @param maxBlockRange - eth_getLogs 한 번에 조회할 최대 블록 수 (기본값 10,000)
+ * @param relayManager - 지정하면 해당 relayManager 의 등록만 조회합니다
+ */
+export interface RegisteredRelaysQuery {
+  fromBlock?: number;
+  toBlock?: number;
+  maxBlockRange?: number;
+  relayManager?: string;
+}
+
+/**
+ * RelayHub 에 등록된 각 Relay 의 가장 최근 등록 정보(URL, 수수료)를 조회합니다.
+ *
+ * 노드의 eth_getLogs 블록 구간 제한을 넘지 않도록 maxBlockRange 단위로 나누어 조회합니다.
+ * 매번 전체 구간을 다시 조회하므로, 반복해서 Relay 목록이 필요하면 이벤트를 캐시하는 {@link RelayDiscovery} 를 사용합니다.
+ */
+export async function getRegisteredRelays(
+  relayHub: RelayHub,
+  query: RegisteredRelaysQuery = {},
+): Promise<RegisteredRelay[]> {
+  const fromBlock = query.fromBlock ?? 0;
+  const toBlock = query.toBlock ?? (await relayHub.provider.getBlockNumber());
+  const maxBlockRange = query.maxBlockRange ?? 10_000;
+
+  const latest = new Map<string, RegisteredRelay>();
+
+  for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+    const events = await relayHub.queryFilter(
+      relayHub.filters.RelayServerRegistered(query.relayManager),
+      start,
+      Math.min(start + maxBlockRange - 1, toBlock),
+    );
+
+    // 이벤트는 오래된 순서이므로 나중 등록이 이전 등록을 덮어씁니다.
+    for (const { args } of events) {
+      latest.set(args.relayManager, {
+        relayManager: args.relayManager,
+        url: args.relayUrl,
+        baseRelayFee: args.baseRelayFee,
+        pctRelayFee: args.pctRelayFee,
+      });
+    }
+  }
+
+  return [...latest.values()];
+}
+
+/**
+ * 등록된 Relay 들을 같은 gasEstimate 에 대해 청구할 수수료(RelayHub.calculateCharge)로 정렬하고,
+ * 가장 저렴하면서 정상인 Relay 를 선택합니다.
+ *
+ * 정상 여부는 `/getaddr` 응답으로 판단합니다.
+ * - 응답이 있고 `ready` 이며, RelayHub / relayManager / chainId 가 등록 정보와 같아야 합니다.
+ * - relayWorker 가 RelayHub 에 해당 relayManager 의 worker 로 등록되어 있어야 합니다.
+ *
+ * @example
+ * const selector = new RelaySelector({ relayHub });
+ * const { relayData } = await selector.selectRelay(await getRegisteredRelays(relayHub), {
+ *   gasEstimate, paymaster: paymaster.address, forwarder: forwarder.address,
+ * });
+ * const request = await client.buildRelayRequest({ from, to, data }, relayData);
+ */
+export class RelaySelector {
+  readonly relayHub: RelayHub;
+
+  private readonly pingTimeoutMs: number;
+
+  constructor(config: RelaySelectorConfig) {
+    this.relayHub = config.relayHub;
+    this.pingTimeoutMs = config.pingTimeoutMs ?? 5_000;
+  }
+
+  async rankRelays(
+    relays: RegisteredRelay[],
+    options: RelaySelectionOptions,
+  ): Promise<RelayRanking> {
+    const provider = this.relayHub.provider;
+    const [network, gasPrice] = await Promise.all([
+      provider.getNetwork(),
+      options.gasPrice !== undefined
+        ? BigNumber.from(options.gasPrice)
+        : provider.getGasPrice(),
+    ]);
+
+    const results = await Promise.all(
+      relays.map(async (relay): Promise<RelayCandidate | UnavailableRelay> => {
+        try {
+          const ping = await this.getPing(relay.url);
+          await this.checkPing(relay, ping, network.chainId.toString());
+
+          const minGasPrice = BigNumber.from(ping.minGasPrice);
+          const relayData: RelayData = {
+            gasPrice: gasPrice.lt(minGasPrice) ? minGasPrice : gasPrice,
+            pctRelayFee: relay.pctRelayFee,
+            baseRelayFee: relay.baseRelayFee,
+            relayWorker: ping.relayWorkerAddress,
+            paymaster: options.paymaster,
+            forwarder: options.forwarder,
+            paymasterData: options.paymasterData ?? "0x",
+            clientId: options.clientId ?? 1,
+          };
+          const charge = await this.relayHub.calculateCharge(
+            options.gasEstimate,
+            relayData,
+          );
+
+          return { relay, ping, relayData, charge };
+        } catch (error) {
+          return { relay, reason: (error as Error).message };
+        }
+      }),
+    );
+
+    const candidates: RelayCandidate[] = [];
+    const unavailable: UnavailableRelay[] = [];
+
+    for (const result of results) {
+      if ("reason" in result) {
+        unavailable.push(result);
+      } else {
+        candidates.push(result);
+      }
+    }
+
+    candidates.sort((a, b) =>
+      a.charge.eq(b.charge) ? 0 : a.charge.lt(b.charge) ? -1 : 1,
+    );
+
+    return { candidates, unavailable };
+  }
+
+  /**
+   * {@link rankRelays} 에서 가장 저렴한 Relay 를 반환합니다. 정상인 Relay 가 없으면 오류를 던집니다.
+   */
+  async selectRelay(
+    relays: RegisteredRelay[],
+    options: RelaySelectionOptions,
+  ): Promise<RelayCandidate> {
+    const { candidates, unavailable } = await this.rankRelays(relays, options);
+
+    if (candidates.length === 0) {
+      throw new Error(
+        `no available relay: ${unavailable.map(({ relay, reason }) => `${relay.url} (${reason})`).join(", ")}`,
+      );
+    }
+
+    return candidates[0];
+  }
+
+  private async getPing(url: string): Promise<PingResponse> {
+    const { data } = await axios.get<PingResponse>(
+      `${url.replace(/\/$/, "")}/getaddr`,
+      { timeout: this.pingTimeoutMs },
+    );
+
+    return data;
+  }
+
+  private async checkPing(
+    relay: RegisteredRelay,
+    ping: PingResponse,
+    chainId: string,
+  ): Promise<void> {
+    if (!ping.ready) {
+      throw new Error("relay is not ready");
+    }
+
+    if (
+      ping.relayHubAddress.toLowerCase() !== this.relayHub.address.toLowerCase()
+    ) {
+      throw new Error(`relay uses another RelayHub ${ping.relayHubAddress}`);
+    }
+
+    if (
+      ping.relayManagerAddress.toLowerCase() !==
+      relay.relayManager.toLowerCase()
+    ) {
+      throw new Error(
+        `relayManager ${ping.relayManagerAddress} is not ${relay.relayManager}`,
+      );
+    }
+
+    if (ping.chainId !== undefined && ping.chainId !== chainId) {
+      throw new Error(`relay is on chain ${ping.chainId}`);
+    }
+
+    const workerManager = await this.relayHub.workerToManager(
+      ping.relayWorkerAddress,
+    );
+
+    if (workerManager.toLowerCase() !== relay.relayManager.toLowerCase()) {
+      throw new Error(
+        `relayWorker ${ping.relayWorkerAddress} is not a worker of ${relay.relayManager}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { BigNumber, ethers } from "ethers";
+import {
+  RelayHub,
+  TokenPaymaster,
+  TokenPaymaster__factory,
+} from "../../typechain-types";
+import { Eip712RelayMessage, Eip712Request } from "./types";
+
+/** 서명 전 relayCall calldata 크기를 계산할 때 사용하는 65 바이트 서명 자리값 */
+const PLACEHOLDER_SIGNATURE = ethers.utils.hexlify(new Uint8Array(65).fill(1));
+
+/**
+ * {@link TokenPaymasterQuoter.quote} 의 결과입니다.
+ *
+ * @param maxPossibleGas - RelayHub 가 paymaster 에 전달할 수 있는 maxPossibleGas 의 상한
+ * @param nativeCharge - maxPossibleGas 에 대한 RelayHub.calculateCharge (wei)
+ * @param tokenCharge - nativeCharge 를 paymaster 환율로 환산한 토큰 양
+ *                      (preRelayedCall 이 선차감하는 양으로, 사용자는 이 이상의 잔액과 allowance 가 필요합니다)
+ */
+export interface TokenChargeQuote {
+  maxPossibleGas: BigNumber;
+  nativeCharge: BigNumber;
+  tokenCharge: BigNumber;
+}
+
+/**
+ * {@link TokenPaymaster} 로 relay 할 요청의 토큰 수수료를 서명 전에 조회합니다.
+ *
+ * TokenPaymaster 는 maxPossibleGas 기준 수수료를 preRelayedCall 에서 선차감하고,
+ * postRelayedCall 에서 실제 사용한 가스 기준 수수료를 제외한 나머지를 환불합니다.
+ * 따라서 견적은 실제로 차감될 수 있는 최대 토큰 양입니다.
+ *
+ * @example
+ * const quoter = new TokenPaymasterQuoter(relayHub, tokenPaymaster.address);
+ * const eip712Request = await client.buildRelayRequest(options, relayData);
+ * const { tokenCharge } = await quoter.quote(eip712Request);
+ * await clamCoin.connect(user).approve(tokenPaymaster.address, tokenCharge);
+ */
+export class TokenPaymasterQuoter {
+  readonly paymaster: TokenPaymaster;
+
+  /**
+   * @param relayHub - paymaster 가 사용하는 RelayHub (provider 가 연결되어 있어야 함)
+   * @param paymaster - TokenPaymaster 주소
+   */
+  constructor(
+    readonly relayHub: RelayHub,
+    paymaster: string,
+  ) {
+    this.paymaster = TokenPaymaster__factory.connect(
+      paymaster,
+      relayHub.provider,
+    );
+  }
+
+  /**
+   * {@link MetaTransactionClient.buildRelayRequest} 로 생성한 (서명 전) 요청의 토큰 수수료를 조회합니다.
+   * maxPossibleGas 는 RelayHub.verifyGasAndDataLimits 와 같은 방식으로 계산하되, relayWorker 와 무관한 상한값을 사용합니다.
+   */
+  async quote(
+    eip712Request: Eip712Request<Eip712RelayMessage>,
+  ): Promise<TokenChargeQuote> {
+    const { relayData, ...request } = eip712Request.message;
+
+    if (
+      relayData.paymaster.toLowerCase() !== this.paymaster.address.toLowerCase()
+    ) {
+      throw new Error(
+        `relayData.paymaster ${relayData.paymaster} is not ${this.paymaster.address}`,
+      );
+    }
+
+    const [hubConfig, gasAndDataLimits] = await Promise.all([
+      this.relayHub.getConfiguration(),
+      this.paymaster.getGasAndDataLimits(),
+    ]);
+
+    const msgData = ethers.utils.arrayify(
+      this.relayHub.interface.encodeFunctionData("relayCall", [
+        gasAndDataLimits.acceptanceBudget,
+        { request, relayData },
+        PLACEHOLDER_SIGNATURE,
+        "0x",
+        0,
+      ]),
+    );
+    // externalCallDataCost 는 relayWorker 의 gasLimit 에 따라 달라지므로
+    // RelayHub 가 허용하는 최대값 (바이트당 G_NONZERO 미만 여유 포함) 을 사용합니다.
+    const externalCallDataCost = (await this.relayHub.G_NONZERO())
+      .add(1)
+      .mul(msgData.length)
+      .sub(1);
+
+    const maxPossibleGas = hubConfig.gasOverhead
+      .add(gasAndDataLimits.preRelayedCallGasLimit)
+      .add(gasAndDataLimits.postRelayedCallGasLimit)
+      .add(request.gas)
+      .add(hubConfig.dataGasCostPerByte.mul(msgData.length))
+      .add(externalCallDataCost);
+
+    const nativeCharge = await this.relayHub.calculateCharge(
+      maxPossibleGas,
+      relayData,
+    );
+    const tokenCharge = await this.paymaster.nativeToToken(nativeCharge);
+
+    return { maxPossibleGas, nativeCharge, tokenCharge };
+  }
+}
@@ -0,0 +1,293 @@
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BigNumber, BigNumberish, ethers, Signer } from "ethers";
+import { GasFreeERC20 } from "../../typechain-types";
+import { getTokenDomain } from "./permit";
+import { EIP712Domain, MessageTypes } from "./types";
+
+/** EIP-3009 전송 승인 구조체 이름 */
+export const TRANSFER_WITH_AUTHORIZATION_TYPE_NAME =
+  "TransferWithAuthorization";
+export const RECEIVE_WITH_AUTHORIZATION_TYPE_NAME = "ReceiveWithAuthorization";
+
+/** EIP-3009 승인 취소 구조체 이름 */
+export const CANCEL_AUTHORIZATION_TYPE_NAME = "CancelAuthorization";
+
+export type TransferAuthorizationTypeName =
+  | typeof TRANSFER_WITH_AUTHORIZATION_TYPE_NAME
+  | typeof RECEIVE_WITH_AUTHORIZATION_TYPE_NAME;
+
+const TRANSFER_AUTHORIZATION_FIELDS = [
+  { name: "from", type: "address" },
+  { name: "to", type: "address" },
+  { name: "value", type: "uint256" },
+  { name: "validAfter", type: "uint256" },
+  { name: "validBefore", type: "uint256" },
+  { name: "nonce", type: "bytes32" },
+];
+
+/** 전송 승인 구조체의 EIP-712 필드 정의입니다. (GasFreeERC20 의 TYPEHASH 와 동일) */
+export const TRANSFER_AUTHORIZATION_TYPES: Record<
+  TransferAuthorizationTypeName,
+  MessageTypes
+> = {
+  TransferWithAuthorization: {
+    TransferWithAuthorization: TRANSFER_AUTHORIZATION_FIELDS,
+  },
+  ReceiveWithAuthorization: {
+    ReceiveWithAuthorization: TRANSFER_AUTHORIZATION_FIELDS,
+  },
+};
+
+export const CANCEL_AUTHORIZATION_TYPES: MessageTypes = {
+  CancelAuthorization: [
+    { name: "authorizer", type: "address" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * EIP-3009 전송 승인 메시지입니다.
+ *
+ * @param from - 토큰 보유자 (서명자)
+ * @param to - 토큰을 받을 주소
+ * @param value - 전송할 토큰 양
+ * @param validAfter - 이 시각 이후부터 유효 (unix timestamp, 초)
+ * @param validBefore - 이 시각 이전까지 유효 (unix timestamp, 초)
+ * @param nonce - 임의의 32 바이트 값 (순서와 무관하게 한 번만 사용 가능)
+ */
+export interface TransferAuthorizationMessage {
+  from: string;
+  to: string;
+  value: BigNumber;
+  validAfter: BigNumber;
+  validBefore: BigNumber;
+  nonce: string;
+}
+
+/**
+ * EIP-3009 승인 취소 메시지입니다.
+ *
+ * @param authorizer - 취소할 승인의 서명자
+ * @param nonce - 취소할 승인의 nonce
+ */
+export interface CancelAuthorizationMessage {
+  authorizer: string;
+  nonce: string;
+}
+
+/**
+ * 서명 가능한 EIP-3009 요청입니다.
+ *
+ * @param domain - 토큰의 EIP-712 도메인 (`eip712Domain()`)
+ */
+export interface AuthorizationRequest<
+  P extends string = string,
+  M = TransferAuthorizationMessage | CancelAuthorizationMessage,
+> {
+  domain: EIP712Domain;
+  types: MessageTypes;
+  primaryType: P;
+  message: M;
+}
+
+export type TransferAuthorizationRequest = AuthorizationRequest<
+  TransferAuthorizationTypeName,
+  TransferAuthorizationMessage
+>;
+
+export type CancelAuthorizationRequest = AuthorizationRequest<
+  typeof CANCEL_AUTHORIZATION_TYPE_NAME,
+  CancelAuthorizationMessage
+>;
+
+/**
+ * 서명된 EIP-3009 요청입니다.
+ */
+export interface SignedAuthorization<
+  R extends AuthorizationRequest = AuthorizationRequest,
+> {
+  authorization: R;
+  signature: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * {@link buildTransferAuthorization} 의 옵션입니다.
+ *
+ * @param validAfter - 기본값 0 (즉시 유효)
+ * @param validBefore - 기본값: 현재 시각 + 1시간
+ * @param nonce - 기본값: 임의의 32 바이트
+ * @param primaryType - 기본값 TransferWithAuthorization
+ *   (ReceiveWithAuthorization 은 `to` 만 제출할 수 있습니다)
+ */
+export interface TransferAuthorizationOptions {
+  validAfter?: BigNumberish;
+  validBefore?: BigNumberish;
+  nonce?: string;
+  primaryType?: TransferAuthorizationTypeName;
+}
+
+/** 기본 validBefore 에 더하는 시간 (초) */
+const DEFAULT_VALID_FOR_SECONDS = 60 * 60;
+
+/**
+ * 서명 가능한 {@link TransferAuthorizationRequest} 를 생성합니다.
+ *
+ * @param token - EIP-3009 를 구현한 {@link GasFreeERC20} (provider 가 연결되어 있어야 함)
+ *
+ * @example
+ * const authorization = await buildTransferAuthorization(clamCoin, user.address, to, amount);
+ * const signed = await signAuthorization(user, authorization);
+ * await clamCoin.transferWithAuthorization(...toTransferWithAuthorizationArgs(signed));
+ */
+export async function buildTransferAuthorization(
+  token: GasFreeERC20,
+  from: string,
+  to: string,
+  value: BigNumberish,
+  options: TransferAuthorizationOptions = {},
+): Promise<TransferAuthorizationRequest> {
+  const primaryType =
+    options.primaryType ?? TRANSFER_WITH_AUTHORIZATION_TYPE_NAME;
+
+  return {
+    domain: await getTokenDomain(token),
+    types: TRANSFER_AUTHORIZATION_TYPES[primaryType],
+    primaryType,
+    message: {
+      from,
+      to,
+      value: BigNumber.from(value),
+      validAfter: BigNumber.from(options.validAfter ?? 0),
+      validBefore: BigNumber.from(
+        options.validBefore ??
+          Math.floor(Date.now() / 1000) + DEFAULT_VALID_FOR_SECONDS,
+      ),
+      nonce:
+        options.nonce ?? ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+    },
+  };
+}
+
+/**
+ * 서명 가능한 {@link CancelAuthorizationRequest} 를 생성합니다.
+ */
+export async function buildCancelAuthorization(
+  token: GasFreeERC20,
+  authorizer: string,
+  nonce: string,
+): Promise<CancelAuthorizationRequest> {
+  return {
+    domain: await getTokenDomain(token),
+    types: CANCEL_AUTHORIZATION_TYPES,
+    primaryType: CANCEL_AUTHORIZATION_TYPE_NAME,
+    message: { authorizer, nonce },
+  };
+}
+
+/**
+ * EIP-3009 요청에 서명합니다. 서명자 주소가 `from` (취소의 경우 `authorizer`) 과 다르면 오류를 던집니다.
+ */
+export async function signAuthorization<R extends AuthorizationRequest>(
+  signer: Signer & TypedDataSigner,
+  authorization: R,
+): Promise<SignedAuthorization<R>> {
+  const signerAddress = await signer.getAddress();
+  const authorizer =
+    "authorizer" in authorization.message
+      ? authorization.message.authorizer
+      : authorization.message.from;
+
+  if (signerAddress.toLowerCase() !== authorizer.toLowerCase()) {
+    throw new Error(`signer ${signerAddress} is not authorizer ${authorizer}`);
+  }
+
+  const signature = await signer._signTypedData(
+    authorization.domain,
+    authorization.types,
+    authorization.message,
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+
+  return { authorization, signature, v, r, s };
+}
+
+/**
+ * 서명된 전송 승인을 `transferWithAuthorization` / `receiveWithAuthorization` 인자로 변환합니다.
+ */
+export function toTransferWithAuthorizationArgs(
+  signed: SignedAuthorization<TransferAuthorizationRequest>,
+): [
+  string,
+  string,
+  BigNumber,
+  BigNumber,
+  BigNumber,
+  string,
+  number,
+  string,
+  string,
+] {
+  const { from, to, value, validAfter, validBefore, nonce } =
+    signed.authorization.message;
+
+  return [
+    from,
+    to,
+    value,
+    validAfter,
+    validBefore,
+    nonce,
+    signed.v,
+    signed.r,
+    signed.s,
+  ];
+}
+
+/**
+ * 서명된 승인 취소를 `cancelAuthorization` 인자로 변환합니다.
+ */
+export function toCancelAuthorizationArgs(
+  signed: SignedAuthorization<CancelAuthorizationRequest>,
+): [string, string, number, string, string] {
+  const { authorizer, nonce } = signed.authorization.message;
+
+  return [authorizer, nonce, signed.v, signed.r, signed.s];
+}
+
+/**
+ * Trusted Relay Server 의 `POST /relayAuthorization` 요청 본문입니다.
+ *
+ * @param token - EIP-3009 를 구현한 토큰 주소
+ * @param authorization - 서명된 TransferWithAuthorization 메시지
+ * @param signature - 보유자의 EIP-712 서명
+ */
+export interface TransferAuthorizationPayload {
+  token: string;
+  authorization: TransferAuthorizationMessage;
+  signature: string;
+}
+
+/**
+ * 서명된 TransferWithAuthorization 을 Trusted Relay Server 요청 본문으로 변환합니다.
+ * ReceiveWithAuthorization 은 `to` 만 제출할 수 있으므로 relay 할 수 없습니다.
+ */
+export function toTransferAuthorizationPayload(
+  signed: SignedAuthorization<TransferAuthorizationRequest>,
+): TransferAuthorizationPayload {
+  if (
+    signed.authorization.primaryType !== TRANSFER_WITH_AUTHORIZATION_TYPE_NAME
+  ) {
+    throw new Error(
+      `only ${TRANSFER_WITH_AUTHORIZATION_TYPE_NAME} can be relayed, got ${signed.authorization.primaryType}`,
+    );
+  }
+
+  return {
+    token: signed.authorization.domain.verifyingContract,
+    authorization: signed.authorization.message,
+    signature: signed.signature,
+  };
+}
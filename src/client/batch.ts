@@ -0,0 +1,29 @@
+import { BatchForwarder__factory } from "../../typechain-types";
+
+/**
+ * {@link BatchForwarder.sendBatch} 로 묶어서 실행할 호출입니다.
+ *
+ * @param to - 호출 대상 컨트랙트 (BatchForwarder 를 trusted forwarder 로 신뢰해야 합니다)
+ * @param data - 호출할 함수와 파라미터가 ABI 인코딩된 바이트 데이터
+ */
+export interface BatchCall {
+  to: string;
+  data: string;
+}
+
+const batchForwarderInterface = BatchForwarder__factory.createInterface();
+
+/**
+ * 호출 목록을 `BatchForwarder.sendBatch(targets, encodedFunctions)` calldata 로 인코딩합니다.
+ * 호출은 순서대로 실행되며, 하나라도 revert 하면 전체가 revert 합니다.
+ */
+export function encodeBatchCalls(calls: BatchCall[]): string {
+  if (calls.length === 0) {
+    throw new Error("batch has no calls");
+  }
+
+  return batchForwarderInterface.encodeFunctionData("sendBatch", [
+    calls.map((call) => call.to),
+    calls.map((call) => call.data),
+  ]);
+}
@@ -0,0 +1,269 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { RelayRequest } from "@opengsn/common/dist/EIP712/RelayRequest";
+import {
+  EIP712Domain,
+  Eip712Message,
+  Eip712RelayMessage,
+  Eip712Request,
+  ForwarderExecutePayload,
+  MessageTypes,
+  RelayData,
+  SignedRequest,
+} from "./types";
+
+/** Forwarder.GENERIC_PARAMS 와 동일한 ForwardRequest 의 공통 필드 */
+export const GENERIC_PARAMS =
+  "address from,address to,uint256 value,uint256 gas,uint256 nonce,bytes data,uint256 validUntil";
+
+/** Forwarder 생성자에서 등록되는 기본 요청 타입 이름 */
+export const FORWARD_REQUEST_TYPE_NAME = "ForwardRequest";
+
+/** GsnEip712Library 가 RelayRequest 실행 시 사용하는 요청 타입 이름 */
+export const RELAY_REQUEST_TYPE_NAME = "RelayRequest";
+
+/** GsnEip712Library.RELAYDATA_TYPE 과 동일한 RelayData 타입 문자열 */
+export const RELAY_DATA_TYPE =
+  "RelayData(uint256 gasPrice,uint256 pctRelayFee,uint256 baseRelayFee,address relayWorker,address paymaster,address forwarder,bytes paymasterData,uint256 clientId)";
+
+/**
+ * Forwarder.registerRequestType(RELAY_REQUEST_TYPE_NAME, RELAY_REQUEST_SUFFIX) 로 등록할 suffix 입니다.
+ * (GsnEip712Library.RELAY_REQUEST_SUFFIX 와 동일)
+ */
+export const RELAY_REQUEST_SUFFIX = `RelayData relayData)${RELAY_DATA_TYPE}`;
+
+/**
+ * GsnEip712Library.domainSeparator 에 고정된 도메인 이름 / 버전입니다.
+ * RelayHub.relayCall 로 실행되는 요청은 반드시 이 도메인으로 서명되어야 합니다.
+ */
+export const GSN_DOMAIN_NAME = "GSN Relayed Transaction";
+export const GSN_DOMAIN_VERSION = "2";
+
+/** validUntil 을 지정하지 않았을 때 사용하는 값 (사실상 만료 없음) */
+export const MAX_VALID_UNTIL = ethers.constants.MaxUint256;
+
+/**
+ * ForwardRequest 구조체의 EIP-712 필드 정의입니다.
+ * 필드 순서는 {@link GENERIC_PARAMS} 와 동일해야 합니다.
+ */
+export const FORWARD_REQUEST_TYPES: MessageTypes = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "validUntil", type: "uint256" },
+  ],
+};
+
+/**
+ * GSN RelayRequest 구조체의 EIP-712 필드 정의입니다.
+ * ForwardRequest 필드 뒤에 `RelayData relayData` 가 붙으며, Forwarder 는 이를 suffixData 로 검증합니다.
+ */
+export const RELAY_REQUEST_TYPES: MessageTypes = {
+  RelayRequest: [
+    ...FORWARD_REQUEST_TYPES.ForwardRequest,
+    { name: "relayData", type: "RelayData" },
+  ],
+  RelayData: [
+    { name: "gasPrice", type: "uint256" },
+    { name: "pctRelayFee", type: "uint256" },
+    { name: "baseRelayFee", type: "uint256" },
+    { name: "relayWorker", type: "address" },
+    { name: "paymaster", type: "address" },
+    { name: "forwarder", type: "address" },
+    { name: "paymasterData", type: "bytes" },
+    { name: "clientId", type: "uint256" },
+  ],
+};
+
+/**
+ * Forwarder.registerDomainSeparator 가 등록하는 값과 동일한 도메인 해시를 계산합니다.
+ *
+ * @param domain - {@link EIP712Domain}
+ * @returns domainSeparator (bytes32 hex string)
+ */
+export function getDomainSeparator(domain: EIP712Domain): string {
+  return ethers.utils._TypedDataEncoder.hashDomain(domain);
+}
+
+/**
+ * 주어진 타입 정의에서 `primaryType` 의 타입 해시를 계산합니다.
+ * Forwarder.registerRequestType 으로 등록된 값과 비교할 수 있습니다.
+ *
+ * @param types - {@link MessageTypes}
+ * @param primaryType - 최상위 구조체 이름 (예: "ForwardRequest")
+ * @returns requestTypeHash (bytes32 hex string)
+ */
+export function getRequestTypeHash(
+  types: MessageTypes,
+  primaryType: string,
+): string {
+  const typeString = ethers.utils._TypedDataEncoder
+    .from(types)
+    .encodeType(primaryType);
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(typeString));
+}
+
+/**
+ * 가스 프리 트랜잭션(Gasless Transaction)을 위한 EIP-712 서명 요청 객체를 생성하는 함수입니다.
+ *
+ * 이 함수는 Forwarder 컨트랙트와 RelayHub에 전달할 메타트랜잭션 서명을 위해 필요한
+ * `domain`, `types`, `primaryType`, `message`를 포함한 `Eip712Request` 구조를 만듭니다.
+ *
+ * @param domainName - EIP-712 도메인 이름 (예: "GSN Relayed Transaction")
+ * @param domainVersion - 도메인 버전 (예: "2")
+ * @param chainId - 체인 ID (예: 1, 5 등)
+ * @param forwarderAddress - Forwarder 스마트 컨트랙트 주소 (도메인 내 verifyingContract 필드)
+ * @param data - 호출할 함수 및 파라미터가 ABI 인코딩된 바이트 데이터 (hex string)
+ * @param from - 서명자(트랜잭션 발신자) 지갑 주소
+ * @param to - 호출 대상 스마트 컨트랙트 주소
+ * @param gas - 트랜잭션에 허용할 최대 가스량 (BigNumber)
+ * @param nonce - Forwarder에서 관리하는 사용자 nonce (BigNumber)
+ * @param value - 전송할 NativeToken(ex: ETH, BNB, AVAX) 양, 기본값 0 (BigNumber, optional)
+ * @param validUntil - 요청이 유효한 마지막 블록 넘버, 기본값 {@link MAX_VALID_UNTIL} (optional)
+ *
+ * @returns Eip712Request - {@link Eip712Request} EIP-712 메시지 서명 요청 전체 객체
+ *
+ * @example
+ * const eip712Request = getEIP712MessageForGasFreeTransaction(
+ *   "GSN Relayed Transaction",
+ *   "2",
+ *   5,
+ *   "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC",
+ *   "0xabcdef...",
+ *   "0x1234...abcd",
+ *   "0xabcd...1234",
+ *   BigNumber.from("210000"),
+ *   BigNumber.from("1"),
+ * );
+ */
+export function getEIP712MessageForGasFreeTransaction(
+  domainName: string,
+  domainVersion: string,
+  chainId: number,
+  forwarderAddress: string,
+  data: string,
+  from: string,
+  to: string,
+  gas: BigNumber,
+  nonce: BigNumber,
+  value?: BigNumber,
+  validUntil?: BigNumberish,
+): Eip712Request {
+  return {
+    domain: {
+      name: domainName,
+      version: domainVersion,
+      chainId: chainId,
+      verifyingContract: forwarderAddress,
+    },
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: FORWARD_REQUEST_TYPE_NAME,
+    message: {
+      from: from,
+      to: to,
+      value: value ?? BigNumber.from(0),
+      gas: gas.toHexString(),
+      nonce: nonce.toHexString(),
+      data,
+      validUntil: BigNumber.from(validUntil ?? MAX_VALID_UNTIL).toHexString(),
+    },
+  };
+}
+
+/**
+ * {@link getEIP712MessageForGasFreeTransaction} 로 만든 ForwardRequest 서명 요청을
+ * RelayData 까지 서명 대상에 포함하는 GSN RelayRequest 서명 요청으로 변환합니다.
+ *
+ * @param forwardRequest - ForwardRequest 타입의 {@link Eip712Request}
+ * @param relayData - relay 서버가 제시한 {@link RelayData}
+ * @returns Eip712Request - primaryType 이 "RelayRequest" 인 서명 요청
+ */
+export function getEIP712MessageForRelayRequest(
+  forwardRequest: Eip712Request,
+  relayData: RelayData,
+): Eip712Request<Eip712RelayMessage> {
+  return {
+    domain: forwardRequest.domain,
+    types: RELAY_REQUEST_TYPES,
+    primaryType: RELAY_REQUEST_TYPE_NAME,
+    message: { ...forwardRequest.message, relayData },
+  };
+}
+
+/**
+ * RelayRequest 서명에서 Forwarder 로 전달되는 suffixData 를 계산합니다.
+ * (GsnEip712Library.splitRequest 와 동일: abi.encode(hashRelayData(relayData)))
+ *
+ * @param relayData - 서명에 포함된 {@link RelayData}
+ * @returns suffixData (hex string)
+ */
+export function getRelayRequestSuffixData(relayData: RelayData): string {
+  return ethers.utils.defaultAbiCoder.encode(
+    ["bytes32"],
+    [
+      ethers.utils._TypedDataEncoder.hashStruct(
+        "RelayData",
+        { RelayData: RELAY_REQUEST_TYPES.RelayData },
+        relayData,
+      ),
+    ],
+  );
+}
+
+/**
+ * HTTP 등으로 수신한 GSN RelayRequest 를 서명 검증이 가능한 {@link Eip712Request} 로 복원합니다.
+ * 도메인은 GsnEip712Library.domainSeparator 와 동일하게 relayData.forwarder 를 verifyingContract 로 사용합니다.
+ *
+ * @param relayRequest - OpenGSN HTTP API `/relay` 의 relayRequest (숫자 필드는 문자열)
+ * @param chainId - 체인 ID
+ * @returns Eip712Request - primaryType 이 "RelayRequest" 인 서명 요청
+ */
+export function getEIP712MessageFromRelayRequest(
+  relayRequest: RelayRequest,
+  chainId: number,
+): Eip712Request<Eip712RelayMessage> {
+  const { request, relayData } = relayRequest;
+
+  const forwardRequest = getEIP712MessageForGasFreeTransaction(
+    GSN_DOMAIN_NAME,
+    GSN_DOMAIN_VERSION,
+    chainId,
+    relayData.forwarder,
+    request.data,
+    request.from,
+    request.to,
+    BigNumber.from(request.gas),
+    BigNumber.from(request.nonce),
+    BigNumber.from(request.value),
+    request.validUntil,
+  );
+
+  return getEIP712MessageForRelayRequest(forwardRequest, relayData);
+}
+
+/**
+ * 서명된 요청을 {@link Forwarder.execute} 인자로 변환합니다.
+ * RelayRequest 서명의 경우 RelayData 해시가 suffixData 로 전달됩니다.
+ *
+ * @param signed - {@link SignedRequest}
+ * @returns ForwarderExecutePayload - {@link ForwarderExecutePayload}
+ */
+export function getForwarderExecutePayload(
+  signed: SignedRequest,
+): ForwarderExecutePayload {
+  const { domain, types, primaryType, message } = signed.eip712Request;
+  const { relayData, ...request } = message as Partial<Eip712RelayMessage> &
+    Eip712Message;
+
+  return {
+    request,
+    domainSeparator: getDomainSeparator(domain),
+    requestTypeHash: getRequestTypeHash(types, primaryType),
+    suffixData:
+      relayData !== undefined ? getRelayRequestSuffixData(relayData) : "0x",
+    signature: signed.signature,
+  };
+}
@@ -0,0 +1,14 @@
+export * from "./types";
+export * from "./eip712";
+export * from "./permit";
+export * from "./authorization";
+export * from "./batch";
+export * from "./MetaTransactionClient";
+export * from "./TokenPaymasterQuoter";
+export * from "./RelaySelector";
+export * from "./RelayDiscovery";
+export * from "./relayCallStatus";
+export * from "./relayCallGas";
+export * from "./FailoverRelayClient";
+export * from "./GasQuotaClient";
+export * from "./GasFreeTokenFactoryClient";
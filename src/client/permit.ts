@@ -0,0 +1,147 @@
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BigNumber, BigNumberish, ethers, Signer } from "ethers";
+import { GasFreeERC20 } from "../../typechain-types";
+import { EIP712Domain, MessageTypes } from "./types";
+
+/** EIP-2612 Permit 구조체 이름 */
+export const PERMIT_TYPE_NAME = "Permit";
+
+/** EIP-2612 Permit 구조체의 EIP-712 필드 정의입니다. (GasFreeERC20.PERMIT_TYPEHASH 와 동일) */
+export const PERMIT_TYPES: MessageTypes = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-2612 Permit 메시지입니다.
+ *
+ * @param owner - 토큰 보유자 (서명자)
+ * @param spender - allowance 를 받을 주소
+ * @param value - 허용할 토큰 양
+ * @param nonce - 토큰의 `nonces(owner)`
+ * @param deadline - 서명이 유효한 마지막 시각 (unix timestamp, 초)
+ */
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+  nonce: BigNumber;
+  deadline: BigNumber;
+}
+
+/**
+ * 서명 가능한 EIP-2612 Permit 요청입니다.
+ *
+ * @param domain - 토큰의 EIP-712 도메인 (`eip712Domain()`)
+ */
+export interface PermitRequest {
+  domain: EIP712Domain;
+  types: MessageTypes;
+  primaryType: typeof PERMIT_TYPE_NAME;
+  message: PermitMessage;
+}
+
+/**
+ * 서명된 Permit 입니다. `permit(owner, spender, value, deadline, v, r, s)` 인자로 사용합니다.
+ */
+export interface SignedPermit {
+  message: PermitMessage;
+  signature: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * 토큰의 EIP-712 도메인과 현재 nonce 로 서명 가능한 {@link PermitRequest} 를 생성합니다.
+ *
+ * @param token - EIP-2612 를 구현한 {@link GasFreeERC20} (provider 가 연결되어 있어야 함)
+ * @param deadline - 서명이 유효한 마지막 시각 (unix timestamp, 초)
+ *
+ * @example
+ * const permit = await buildPermit(clamCoin, user.address, spender, amount, deadline);
+ * const signed = await signPermit(user, permit);
+ * await clamCoin.permit(...toPermitArgs(signed));
+ */
+export async function buildPermit(
+  token: GasFreeERC20,
+  owner: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+): Promise<PermitRequest> {
+  const [domain, nonce] = await Promise.all([
+    getTokenDomain(token),
+    token.nonces(owner),
+  ]);
+
+  return {
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: PERMIT_TYPE_NAME,
+    message: {
+      owner,
+      spender,
+      value: BigNumber.from(value),
+      nonce,
+      deadline: BigNumber.from(deadline),
+    },
+  };
+}
+
+/**
+ * Permit 에 서명합니다. 서명자 주소가 `message.owner` 와 다르면 오류를 던집니다.
+ */
+export async function signPermit(
+  signer: Signer & TypedDataSigner,
+  permit: PermitRequest,
+): Promise<SignedPermit> {
+  const signerAddress = await signer.getAddress();
+
+  if (signerAddress.toLowerCase() !== permit.message.owner.toLowerCase()) {
+    throw new Error(
+      `signer ${signerAddress} is not permit.owner ${permit.message.owner}`,
+    );
+  }
+
+  const signature = await signer._signTypedData(
+    permit.domain,
+    permit.types,
+    permit.message,
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+
+  return { message: permit.message, signature, v, r, s };
+}
+
+/**
+ * 서명된 Permit 을 `GasFreeERC20.permit` 인자로 변환합니다.
+ */
+export function toPermitArgs(
+  signed: SignedPermit,
+): [string, string, BigNumber, BigNumber, number, string, string] {
+  const { owner, spender, value, deadline } = signed.message;
+
+  return [owner, spender, value, deadline, signed.v, signed.r, signed.s];
+}
+
+/**
+ * 토큰의 EIP-712 도메인을 조회합니다. (ERC-5267 `eip712Domain()`)
+ */
+export async function getTokenDomain(
+  token: GasFreeERC20,
+): Promise<EIP712Domain> {
+  const domain = await token.eip712Domain();
+
+  return {
+    name: domain.name,
+    version: domain.version,
+    chainId: domain.chainId.toNumber(),
+    verifyingContract: domain.verifyingContract,
+  };
+}
@@ -0,0 +1,67 @@
+import { BigNumber, BigNumberish, BytesLike, ethers } from "ethers";
+
+/**
+ * OpenGSN RelayServer 의 GAS_RESERVE 와 동일한 값입니다.
+ * RelayHub 가 innerRelayCall 전후로 소비하는 가스를 위해 externalGasLimit 에 추가로 더합니다.
+ */
+export const RELAY_GAS_RESERVE = 100_000;
+
+/**
+ * {@link getRelayCallGasLimits} 가 사용하는 RelayHub 설정 (`RelayHub.getConfiguration()`) 입니다.
+ */
+export interface RelayHubGasConfig {
+  gasOverhead: BigNumberish;
+  dataGasCostPerByte: BigNumberish;
+  gasReserve: BigNumberish;
+}
+
+/**
+ * {@link getRelayCallGasLimits} 가 사용하는 paymaster 가스 한도 (`IPaymaster.getGasAndDataLimits()`) 입니다.
+ */
+export interface PaymasterGasLimits {
+  preRelayedCallGasLimit: BigNumberish;
+  postRelayedCallGasLimit: BigNumberish;
+}
+
+/**
+ * relayCall 의 가스 한도입니다.
+ *
+ * @param maxPossibleGas - RelayHub.verifyGasAndDataLimits 가 계산하는 maxPossibleGas
+ * @param externalGasLimit - relayCall 트랜잭션에 지정할 gasLimit (maxPossibleGas + RelayHub gasReserve + {@link RELAY_GAS_RESERVE})
+ */
+export interface RelayCallGasLimits {
+  maxPossibleGas: BigNumber;
+  externalGasLimit: BigNumber;
+}
+
+/**
+ * OpenGSN RelayServer 와 같은 방식으로 relayCall 의 maxPossibleGas / externalGasLimit 을 계산합니다.
+ *
+ * @param relayCallData - externalGasLimit 을 0 으로 인코딩한 relayCall calldata (calldata 비용 계산용)
+ * @param requestGas - RelayRequest.request.gas
+ */
+export function getRelayCallGasLimits(
+  relayCallData: BytesLike,
+  requestGas: BigNumberish,
+  hubConfig: RelayHubGasConfig,
+  gasAndDataLimits: PaymasterGasLimits,
+): RelayCallGasLimits {
+  const msgData = ethers.utils.arrayify(relayCallData);
+  const calldataCost = msgData.reduce(
+    (gas, byte) => gas + (byte === 0 ? 4 : 16),
+    0,
+  );
+  const maxPossibleGas = BigNumber.from(hubConfig.gasOverhead)
+    .add(gasAndDataLimits.preRelayedCallGasLimit)
+    .add(gasAndDataLimits.postRelayedCallGasLimit)
+    .add(requestGas)
+    .add(BigNumber.from(hubConfig.dataGasCostPerByte).mul(msgData.length))
+    .add(calldataCost);
+
+  return {
+    maxPossibleGas,
+    externalGasLimit: maxPossibleGas
+      .add(hubConfig.gasReserve)
+      .add(RELAY_GAS_RESERVE),
+  };
+}
@@ -0,0 +1,297 @@
+import { BytesLike, ethers, providers } from "ethers";
+import {
+  AllowlistPaymaster__factory,
+  BatchForwarder__factory,
+  ClamCoin__factory,
+  Forwarder__factory,
+  GasFreeToken__factory,
+  GasFreeTokenFactory__factory,
+  GasQuotaPaymaster__factory,
+  Penalizer__factory,
+  RelayHub,
+  RelayHub__factory,
+  TokenPaymaster__factory,
+  VerifyingPaymaster__factory,
+  ZeroPaymaster__factory,
+} from "../../typechain-types";
+
+/** `IRelayHub.RelayCallStatus` 와 같은 순서의 값입니다. */
+export enum RelayCallStatus {
+  OK,
+  RelayedCallFailed,
+  RejectedByPreRelayed,
+  RejectedByForwarder,
+  RejectedByRecipientRevert,
+  PostRelayedFailed,
+  PaymasterBalanceChanged,
+}
+
+/**
+ * relayed call 실패의 원인이 된 컨트랙트입니다.
+ *
+ * - forwarder: Forwarder.execute 가 요청을 거절함 (서명, nonce, 도메인, 가스)
+ * - paymaster: preRelayedCall / postRelayedCall 이 revert 하거나 paymaster 잔액이 줄어듦
+ * - recipient: 요청 대상 컨트랙트의 호출이 revert 함
+ */
+export type RelayCallFailureSource = "forwarder" | "paymaster" | "recipient";
+
+/** RelayCallStatus 별 실패 원인과 설명 (OK 제외) */
+export const RELAY_CALL_FAILURES: Record<
+  Exclude<RelayCallStatus, RelayCallStatus.OK>,
+  { source: RelayCallFailureSource; description: string }
+> = {
+  [RelayCallStatus.RelayedCallFailed]: {
+    source: "recipient",
+    description: "recipient call reverted",
+  },
+  [RelayCallStatus.RejectedByPreRelayed]: {
+    source: "paymaster",
+    description: "paymaster rejected in preRelayedCall",
+  },
+  [RelayCallStatus.RejectedByForwarder]: {
+    source: "forwarder",
+    description: "forwarder rejected the request",
+  },
+  [RelayCallStatus.RejectedByRecipientRevert]: {
+    source: "recipient",
+    description: "recipient call reverted and paymaster rejected the request",
+  },
+  [RelayCallStatus.PostRelayedFailed]: {
+    source: "paymaster",
+    description: "paymaster postRelayedCall reverted",
+  },
+  [RelayCallStatus.PaymasterBalanceChanged]: {
+    source: "paymaster",
+    description: "paymaster balance decreased during the relayed call",
+  },
+};
+
+/** Solidity `Panic(uint256)` 코드 */
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to zero-initialized function",
+};
+
+/**
+ * 프로젝트 컨트랙트 ABI 의 custom error 를 모은 Interface 입니다.
+ * 같은 selector 의 error 는 한 번만 포함합니다.
+ */
+const errorsInterface = new ethers.utils.Interface(
+  Array.from(
+    new Map(
+      [
+        GasFreeToken__factory,
+        ClamCoin__factory,
+        GasFreeTokenFactory__factory,
+        Forwarder__factory,
+        BatchForwarder__factory,
+        RelayHub__factory,
+        Penalizer__factory,
+        ZeroPaymaster__factory,
+        TokenPaymaster__factory,
+        VerifyingPaymaster__factory,
+        GasQuotaPaymaster__factory,
+        AllowlistPaymaster__factory,
+      ]
+        .flatMap((factory) => Object.values(factory.createInterface().errors))
+        .map((fragment) => [fragment.format(), fragment] as const),
+    ).values(),
+  ),
+);
+
+/**
+ * 디코딩한 revert 데이터입니다.
+ *
+ * @param data - revert 데이터 (hex)
+ * @param name - error 이름 (`Error`, `Panic`, custom error 이름, 알 수 없으면 undefined)
+ * @param args - error 인자 (이름 → 문자열 값)
+ * @param message - 사람이 읽을 수 있는 설명
+ */
+export interface DecodedRevert {
+  data: string;
+  name?: string;
+  args: Record<string, string>;
+  message: string;
+}
+
+/**
+ * revert 데이터를 디코딩합니다.
+ * `Error(string)`, `Panic(uint256)` 과 프로젝트 컨트랙트의 custom error 를 지원하며,
+ * RelayHub 가 잘라낸 데이터처럼 디코딩할 수 없으면 원본 hex 를 메시지로 사용합니다.
+ *
+ * @example
+ * decodeRevertData(event.args.returnValue).message;
+ * // "ERC20InsufficientBalance(sender: 0x..., balance: 0, needed: 1000000000000000000)"
+ */
+export function decodeRevertData(data: BytesLike): DecodedRevert {
+  const hex = ethers.utils.hexlify(data);
+
+  if (ethers.utils.hexDataLength(hex) === 0) {
+    return { data: hex, args: {}, message: "reverted without reason" };
+  }
+
+  const selector = ethers.utils.hexDataSlice(hex, 0, 4);
+
+  try {
+    if (selector === ethers.utils.id("Error(string)").slice(0, 10)) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(
+        ["string"],
+        ethers.utils.hexDataSlice(hex, 4),
+      );
+      return { data: hex, name: "Error", args: { reason }, message: reason };
+    }
+
+    if (selector === ethers.utils.id("Panic(uint256)").slice(0, 10)) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(
+        ["uint256"],
+        ethers.utils.hexDataSlice(hex, 4),
+      );
+      return {
+        data: hex,
+        name: "Panic",
+        args: { code: code.toHexString() },
+        message: `panic ${code.toHexString()} (${PANIC_REASONS[code.toNumber()] ?? "unknown panic code"})`,
+      };
+    }
+
+    const { name, args, errorFragment } = errorsInterface.parseError(hex);
+    const named = Object.fromEntries(
+      errorFragment.inputs.map((input, index) => [
+        input.name || String(index),
+        String(args[index]),
+      ]),
+    );
+
+    return {
+      data: hex,
+      name,
+      args: named,
+      message: `${name}(${Object.entries(named)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(", ")})`,
+    };
+  } catch {
+    return { data: hex, args: {}, message: `unknown revert data ${hex}` };
+  }
+}
+
+/**
+ * 실패한 relayed call 의 설명입니다.
+ *
+ * @param status - RelayCallStatus (`TransactionResult` 이벤트 없이 거절되어 알 수 없으면 undefined)
+ * @param source - 실패의 원인이 된 컨트랙트
+ * @param revert - 디코딩한 revert 데이터
+ * @param message - `<status 설명>: <revert 설명>`
+ */
+export interface RelayCallFailure {
+  status?: RelayCallStatus;
+  source: RelayCallFailureSource;
+  revert: DecodedRevert;
+  message: string;
+}
+
+/**
+ * RelayCallStatus 와 revert 데이터로 실패를 설명합니다. OK 이면 undefined 를 반환합니다.
+ *
+ * @param returnValue - `TransactionResult.returnValue` 또는 `TransactionRejectedByPaymaster.reason`
+ */
+export function describeRelayCallFailure(
+  status: RelayCallStatus,
+  returnValue: BytesLike = "0x",
+): RelayCallFailure | undefined {
+  if (status === RelayCallStatus.OK) {
+    return undefined;
+  }
+
+  const { source, description } = RELAY_CALL_FAILURES[status] ?? {
+    source: "paymaster",
+    description: `unknown relay call status ${status}`,
+  };
+  const revert = decodeRevertData(returnValue);
+
+  return {
+    status,
+    source,
+    revert,
+    message:
+      status === RelayCallStatus.PaymasterBalanceChanged
+        ? description
+        : `${description}: ${revert.message}`,
+  };
+}
+
+/**
+ * relayCall 트랜잭션의 결과입니다.
+ *
+ * @param paymasterAccepted - `TransactionRelayed` 가 발생했는지 여부 (paymaster 가 가스비를 지불함)
+ * @param status - RelayCallStatus (거절 사유 없이 거절되면 undefined)
+ * @param failure - 실패 설명 (OK 이면 undefined)
+ */
+export interface RelayCallResult {
+  paymasterAccepted: boolean;
+  status?: RelayCallStatus;
+  failure?: RelayCallFailure;
+}
+
+/**
+ * relayCall 트랜잭션 receipt 의 RelayHub 이벤트로 결과를 디코딩합니다.
+ * RelayHub 이벤트가 없으면 (relayCall 자체가 revert 하면) undefined 를 반환합니다.
+ */
+export function decodeRelayCallResult(
+  relayHub: RelayHub,
+  receipt: providers.TransactionReceipt,
+): RelayCallResult | undefined {
+  const events = receipt.logs
+    .filter(
+      (log) => log.address.toLowerCase() === relayHub.address.toLowerCase(),
+    )
+    .map((log) => relayHub.interface.parseLog(log));
+  const result = events.find(({ name }) => name === "TransactionResult");
+  const relayed = events.find(({ name }) => name === "TransactionRelayed");
+  const rejected = events.find(
+    ({ name }) => name === "TransactionRejectedByPaymaster",
+  );
+
+  if (relayed !== undefined) {
+    const status: RelayCallStatus = relayed.args.status;
+
+    return {
+      paymasterAccepted: true,
+      status,
+      failure: describeRelayCallFailure(status, result?.args.returnValue),
+    };
+  }
+
+  if (rejected === undefined) {
+    return undefined;
+  }
+
+  // 거절 사유가 비어 있으면 TransactionResult 가 발생하지 않아 status 를 알 수 없습니다.
+  if (result === undefined) {
+    const revert = decodeRevertData(rejected.args.reason);
+
+    return {
+      paymasterAccepted: false,
+      failure: {
+        source: "paymaster",
+        revert,
+        message: `paymaster rejected the request: ${revert.message}`,
+      },
+    };
+  }
+
+  const status: RelayCallStatus = result.args.status;
+
+  return {
+    paymasterAccepted: false,
+    status,
+    failure: describeRelayCallFailure(status, rejected.args.reason),
+  };
+}
@@ -0,0 +1,210 @@
+import { BigNumber, BigNumberish, BytesLike } from "ethers";
+
+/**
+ * EIP-712 서명을 위한 구조체의 필드 정보를 정의하는 인터페이스입니다.
+ *
+ * 이 인터페이스는 `types` 객체를 정의할 때 사용되며, 각 필드는 EIP-712 메시지 구조에서 사용되는
+ * Solidity 타입과 이름으로 구성됩니다.
+ *
+ * @param name - 서명 구조체의 필드 이름입니다. (Solidity 멤버 변수 이름과 일치)
+ * @param type - 필드의 데이터 타입입니다. Solidity 타입이어야 합니다.
+ *               예: "address", "uint256", "bytes32", "string" 등
+ *
+ * @example
+ * const personType: MessageTypeProperty[] = [
+ *   { name: "name", type: "string" },
+ *   { name: "wallet", type: "address" }
+ * ];
+ */
+export interface MessageTypeProperty {
+  name: string;
+  type: string;
+}
+
+/**
+ * EIP-712 타입 정의 전체를 표현하는 인터페이스입니다.
+ *
+ * 이 객체는 EIP-712 구조화된 데이터 서명을 구성할 때 `types` 필드에 사용됩니다.
+ * 각 키는 구조체 이름이며, 값은 해당 구조체의 필드 배열입니다.
+ *
+ * `EIP712Domain` 은 ethers 의 `_signTypedData` 가 domain 으로부터 직접 구성하므로 포함하지 않습니다.
+ *
+ * @param [additionalProperties] {@link MessageTypeProperty} 배열로, 각 구조체의 필드를 정의합니다.
+ *
+ * @remarks * 구조체는 Forwarder 에 등록되어 있어야 합니다. {@link Forwarder.registerRequestType}
+ * @example
+ * const types: MessageTypes = {
+ *   Person: [
+ *     { name: "name", type: "string" },
+ *     { name: "wallet", type: "address" }
+ *   ],
+ * };
+ */
+export interface MessageTypes {
+  /**
+   * 구조체 이름을 키로 하고, 해당 구조체의 필드 배열을 값으로 갖습니다.
+   * 각 키는 EIP-712 메시지에 사용될 타입명입니다.
+   */
+  [additionalProperties: string]: MessageTypeProperty[];
+}
+
+/**
+ * EIP-712 도메인 구분자(Domain Separator)를 구성하는 인터페이스입니다.
+ * 이 구조체는 EIP-712 메시지 서명의 `domain` 필드로 사용됩니다.
+ *
+ * 각 필드는 도메인 고유성을 보장하기 위한 요소이며,
+ * 메시지 위조나 체인 간 충돌을 방지하는 데 사용됩니다.
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-712
+ *
+ * @param name - 서명을 사용하는 애플리케이션 또는 프로토콜의 이름입니다.
+ * @param version - 메시지 형식의 버전입니다.
+ * @param chainId - 현재 서명이 유효한 체인 ID입니다. (예: 1은 Mainnet)
+ * @param verifyingContract - 서명 메시지를 검증하는 스마트 컨트랙트 주소입니다.
+ *
+ * @remarks * 도메인은 Forwarder 에 등록되어 있어야 합니다. {@link Forwarder.registerDomainSeparator}
+ * @example
+ * const domain: EIP712Domain = {
+ *   name: "MyDapp",
+ *   version: "1",
+ *   chainId: 1,
+ *   verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+ * };
+ */
+export interface EIP712Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+/**
+ * EIP-712 메타트랜잭션 메시지의 구조를 나타내는 인터페이스입니다.
+ * 이 구조는 Forwarder와 RelayHub 등에서 서명 검증 및 relayCall 호출에 사용됩니다.
+ *
+ * @param from - 트랜잭션을 의뢰한 사용자 지갑 주소 (서명자)
+ * @param to - 호출 대상 스마트 컨트랙트 주소
+ * @param value - 이더 전송량 (단위: wei), 보통 0
+ * @param gas - 실행 시 소비할 최대 가스량 (hex string, 예: '0x5208')
+ * @param nonce - forwarder에서 사용하는 사용자 nonce 값 (hex string)
+ * @param data - 호출할 함수와 파라미터가 ABI 인코딩된 바이트 데이터
+ * @param validUntil - 이 트랜잭션이 유효한 마지막 블록 넘버 (hex string, 0 은 무기한)
+ *
+ * @example
+ * const message: Eip712Message = {
+ *   from: "0x1234...abcd",
+ *   to: "0xabcd...1234",
+ *   value: BigNumber.from("0"),
+ *   gas: "0x5208", // 21000
+ *   nonce: "0x01",
+ *   data: "0xabcdef...",
+ *   validUntil: "0xffffffff"
+ * };
+ */
+export interface Eip712Message {
+  from: string;
+  to: string;
+  value: BigNumber;
+  gas: string;
+  nonce: string;
+  data: string;
+  validUntil: string;
+}
+
+/**
+ * EIP-712 형식의 전체 서명 요청 객체를 정의하는 인터페이스입니다.
+ * 이 구조는 `eth_signTypedData_v4`나 GSN, Forwarder 등에서 서명 및 실행 요청의 표준 형식으로 사용됩니다.
+ *
+ * @param domain - {@link EIP712Domain} 메시지에 포함된 도메인 정보로, 체인 ID, verifying contract 등 도메인 고유성 식별자
+ * @param types - {@link MessageTypes} 전체 타입 정의 집합으로, 각 구조체 이름과 그에 해당하는 필드 배열로 구성됨
+ * @param primaryType - 최상위 구조체 타입 이름. 서명 시 사용되는 주 구조체 명칭 (예: "ForwardRequest")
+ * @param message - {@link Eip712Message} 실제 서명 대상 메시지. from, to, data, gas 등 메타 트랜잭션의 실행 정보 포함
+ *                  (GSN RelayRequest 의 경우 {@link Eip712RelayMessage})
+ */
+export interface Eip712Request<M extends Eip712Message = Eip712Message> {
+  domain: EIP712Domain;
+  types: MessageTypes;
+  primaryType: string;
+  message: M;
+}
+
+/**
+ * Relay 서버(RelayHub 의 relayWorker)가 채우는 `GsnTypes.RelayData` 구조체입니다.
+ *
+ * @param gasPrice - relayWorker 가 제출할 트랜잭션의 gasPrice (tx.gasprice 이하여야 함)
+ * @param pctRelayFee - 실제 가스 비용에 더해지는 Relay 수수료 (%)
+ * @param baseRelayFee - 건당 고정 Relay 수수료 (wei)
+ * @param relayWorker - relayCall 을 제출할 relayWorker EOA
+ * @param paymaster - 가스비를 부담할 Paymaster 주소
+ * @param forwarder - 요청을 검증 / 실행할 Forwarder 주소
+ * @param paymasterData - Paymaster 에 전달할 추가 데이터
+ * @param clientId - 클라이언트 식별자
+ */
+export interface RelayData {
+  gasPrice: BigNumberish;
+  pctRelayFee: BigNumberish;
+  baseRelayFee: BigNumberish;
+  relayWorker: string;
+  paymaster: string;
+  forwarder: string;
+  paymasterData: BytesLike;
+  clientId: BigNumberish;
+}
+
+/**
+ * GSN `RelayRequest` 타입의 EIP-712 메시지입니다.
+ * ForwardRequest 필드에 {@link RelayData} 가 더해져, relayWorker / paymaster / 수수료까지 서명에 포함됩니다.
+ *
+ * @param relayData - relay 서버가 제시한 {@link RelayData}
+ */
+export interface Eip712RelayMessage extends Eip712Message {
+  relayData: RelayData;
+}
+
+/**
+ * 사용자가 서명을 마친 메타트랜잭션 요청입니다.
+ *
+ * @param eip712Request - 서명 대상이 된 {@link Eip712Request}
+ * @param signature - `eip712Request` 에 대한 사용자 EIP-712 서명
+ */
+export interface SignedRequest<M extends Eip712Message = Eip712Message> {
+  eip712Request: Eip712Request<M>;
+  signature: string;
+}
+
+/**
+ * {@link Forwarder.execute} 에 그대로 전달할 수 있는 인자 묶음입니다. (Trusted Forwarder 방식)
+ *
+ * @param request - ForwardRequest 구조체
+ * @param domainSeparator - 서명에 사용된 도메인 해시 (Forwarder 에 등록되어 있어야 함)
+ * @param requestTypeHash - 서명에 사용된 요청 타입 해시 (Forwarder 에 등록되어 있어야 함)
+ * @param suffixData - ForwardRequest 이후 확장 필드의 인코딩 값
+ * @param signature - 사용자 서명
+ */
+export interface ForwarderExecutePayload {
+  request: Eip712Message;
+  domainSeparator: string;
+  requestTypeHash: string;
+  suffixData: string;
+  signature: string;
+}
+
+/**
+ * {@link RelayHub.relayCall} 에 그대로 전달할 수 있는 인자 묶음입니다. (GSN 방식)
+ *
+ * @param maxAcceptanceBudget - paymaster.getGasAndDataLimits().acceptanceBudget 의 허용 최대값
+ * @param relayRequest - ForwardRequest 와 RelayData 로 구성된 요청
+ * @param signature - 사용자 서명
+ * @param approvalData - Paymaster 의 preRelayedCall 로 전달되는 데이터
+ * @param externalGasLimit - relayCall 트랜잭션에 지정할 gasLimit
+ */
+export interface RelayCallPayload {
+  maxAcceptanceBudget: BigNumberish;
+  relayRequest: {
+    request: Eip712Message;
+    relayData: RelayData;
+  };
+  signature: string;
+  approvalData: string;
+  externalGasLimit: BigNumberish;
+}
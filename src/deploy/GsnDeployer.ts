@@ -0,0 +1,301 @@
+import { BigNumber, Contract, ContractFactory, ethers, Signer } from "ethers";
+import {
+  Forwarder,
+  Forwarder__factory,
+  Penalizer,
+  Penalizer__factory,
+  RelayHub,
+  RelayHub__factory,
+  StakeManager,
+  StakeManager__factory,
+  ZeroPaymaster,
+  ZeroPaymaster__factory,
+} from "../../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  getDomainSeparator,
+  getRequestTypeHash,
+  RELAY_REQUEST_SUFFIX,
+  RELAY_REQUEST_TYPE_NAME,
+  RELAY_REQUEST_TYPES,
+} from "../client";
+import { Store } from "../store";
+
+/**
+ * RelayHub 생성자 파라미터입니다. (네트워크별 설정 파일의 `relayHub`)
+ *
+ * 가스 값은 10진수, ether 단위 값(maximumRecipientDeposit, minimumStake)은 문자열로 지정합니다.
+ *
+ * @param maxWorkerCount - relayManager 당 최대 relayWorker 수
+ * @param gasReserve - relayCall 이 innerRelayCall 이후를 위해 남겨두는 가스
+ * @param postOverhead - paymaster postRelayedCall 이후 RelayHub 가 소비하는 가스
+ * @param gasOverhead - relayCall 자체 오버헤드
+ * @param maximumRecipientDeposit - paymaster 최대 예치금 (ether)
+ * @param minimumUnstakeDelay - 최소 unstake 지연 블록 수
+ * @param minimumStake - relayManager 최소 stake (ether)
+ * @param dataGasCostPerByte - calldata 바이트당 가스
+ * @param externalCallDataCostOverhead - 트랜잭션 기본 비용 보정값 (OpenGSN 기본값 22,402)
+ */
+export interface RelayHubDeployConfig {
+  maxWorkerCount: number;
+  gasReserve: number;
+  postOverhead: number;
+  gasOverhead: number;
+  maximumRecipientDeposit: string;
+  minimumUnstakeDelay: number;
+  minimumStake: string;
+  dataGasCostPerByte: number;
+  externalCallDataCostOverhead: number;
+}
+
+/**
+ * 네트워크별 GSN 배포 설정입니다. (`deploy/config/<network>.json`)
+ *
+ * @param relayHub - {@link RelayHubDeployConfig}
+ * @param forwarder - Forwarder 에 등록할 EIP-712 도메인 (기본값: GSN 도메인)
+ */
+export interface GsnDeployConfig {
+  relayHub: RelayHubDeployConfig;
+  forwarder?: {
+    domainName?: string;
+    domainVersion?: string;
+  };
+}
+
+export type GsnContractName =
+  | "StakeManager"
+  | "Penalizer"
+  | "RelayHub"
+  | "Forwarder"
+  | "ZeroPaymaster";
+
+/**
+ * 배포된 컨트랙트 기록입니다.
+ *
+ * @param address - 컨트랙트 주소
+ * @param args - 생성자 인자 (문자열). 다시 실행할 때 인자가 바뀌었으면 새로 배포합니다.
+ * @param transactionHash - 배포 트랜잭션 해시
+ */
+export interface DeployedContract {
+  address: string;
+  args: string[];
+  transactionHash: string;
+}
+
+/**
+ * 네트워크별 배포 결과입니다. (`deployments/<network>.json`)
+ *
+ * @param network - hardhat 네트워크 이름
+ * @param chainId - 체인 ID
+ * @param contracts - 컨트랙트 이름 => {@link DeployedContract}
+ * @param domain - Forwarder 에 등록된 EIP-712 도메인과 domainSeparator
+ * @param requestTypeHash - Forwarder 에 등록된 GSN RelayRequest 타입 해시
+ */
+export interface GsnDeployment {
+  network: string;
+  chainId: number;
+  contracts: Partial<Record<GsnContractName, DeployedContract>>;
+  domain?: {
+    name: string;
+    version: string;
+    separator: string;
+  };
+  requestTypeHash?: string;
+}
+
+/**
+ * {@link GsnDeployer.deploy} 결과입니다.
+ *
+ * @param deployment - 저장된 {@link GsnDeployment}
+ * @param deployed - 이번 실행에서 새로 배포된 컨트랙트 이름
+ */
+export interface GsnDeployResult {
+  deployment: GsnDeployment;
+  deployed: GsnContractName[];
+  stakeManager: StakeManager;
+  penalizer: Penalizer;
+  relayHub: RelayHub;
+  forwarder: Forwarder;
+  zeroPaymaster: ZeroPaymaster;
+}
+
+/**
+ * {@link GsnDeployer} 설정입니다.
+ *
+ * @param signer - 배포자 (provider 가 연결되어 있어야 합니다)
+ * @param network - hardhat 네트워크 이름 (배포 기록에 남깁니다)
+ * @param config - {@link GsnDeployConfig}
+ * @param store - 배포 기록 저장소 (예: `new JsonFileStore("deployments/sepolia.json")`)
+ */
+export interface GsnDeployerConfig {
+  signer: Signer;
+  network: string;
+  config: GsnDeployConfig;
+  store: Store<GsnDeployment>;
+}
+
+/**
+ * StakeManager → Penalizer → RelayHub → Forwarder → ZeroPaymaster 순서로 GSN 컨트랙트를 배포하고,
+ * Forwarder 에 EIP-712 도메인과 GSN RelayRequest 타입을 등록합니다.
+ *
+ * 배포 기록이 있고 해당 주소에 코드가 존재하며 생성자 인자가 같으면 배포를 건너뛰므로,
+ * 중간에 실패하더라도 다시 실행하면 이어서 배포합니다.
+ * (의존하는 컨트랙트가 새로 배포되면 생성자 인자가 바뀌므로 함께 다시 배포됩니다)
+ *
+ * @example
+ * const deployer = new GsnDeployer({ signer, network: "sepolia", config, store });
+ * const { relayHub, forwarder } = await deployer.deploy();
+ */
+export class GsnDeployer {
+  readonly signer: Signer;
+  readonly network: string;
+  readonly config: GsnDeployConfig;
+
+  private readonly store: Store<GsnDeployment>;
+
+  constructor(config: GsnDeployerConfig) {
+    this.signer = config.signer;
+    this.network = config.network;
+    this.config = config.config;
+    this.store = config.store;
+  }
+
+  async deploy(): Promise<GsnDeployResult> {
+    const chainId = await this.signer.getChainId();
+    const stored = await this.store.read();
+
+    if (stored !== undefined && stored.chainId !== chainId) {
+      throw new Error(
+        `deployment chainId ${stored.chainId} does not match network chainId ${chainId}`,
+      );
+    }
+
+    const deployment: GsnDeployment = stored ?? {
+      network: this.network,
+      chainId,
+      contracts: {},
+    };
+    const deployed: GsnContractName[] = [];
+
+    const deployContract = async <T extends Contract>(
+      name: GsnContractName,
+      factory: ContractFactory,
+      args: (string | BigNumber | number)[],
+    ): Promise<T> => {
+      const record = deployment.contracts[name];
+      const argStrings = args.map((arg) => arg.toString());
+
+      if (
+        record !== undefined &&
+        JSON.stringify(record.args) === JSON.stringify(argStrings) &&
+        (await this.signer.provider!.getCode(record.address)) !== "0x"
+      ) {
+        return factory.attach(record.address) as T;
+      }
+
+      const contract = await factory.deploy(...args);
+      await contract.deployed();
+
+      deployment.contracts[name] = {
+        address: contract.address,
+        args: argStrings,
+        transactionHash: contract.deployTransaction.hash,
+      };
+      deployed.push(name);
+      await this.store.write(deployment);
+
+      return contract as T;
+    };
+
+    const hubConfig = this.config.relayHub;
+
+    const stakeManager = await deployContract<StakeManager>(
+      "StakeManager",
+      new StakeManager__factory(this.signer),
+      [],
+    );
+
+    const penalizer = await deployContract<Penalizer>(
+      "Penalizer",
+      new Penalizer__factory(this.signer),
+      [],
+    );
+
+    const relayHub = await deployContract<RelayHub>(
+      "RelayHub",
+      new RelayHub__factory(this.signer),
+      [
+        stakeManager.address,
+        penalizer.address,
+        hubConfig.maxWorkerCount,
+        hubConfig.gasReserve,
+        hubConfig.postOverhead,
+        hubConfig.gasOverhead,
+        ethers.utils.parseEther(hubConfig.maximumRecipientDeposit),
+        hubConfig.minimumUnstakeDelay,
+        ethers.utils.parseEther(hubConfig.minimumStake),
+        hubConfig.dataGasCostPerByte,
+        hubConfig.externalCallDataCostOverhead,
+      ],
+    );
+
+    const forwarder = await deployContract<Forwarder>(
+      "Forwarder",
+      new Forwarder__factory(this.signer),
+      [],
+    );
+
+    // #region Forwarder 도메인 / RelayRequest 타입 등록
+    const domain = {
+      name: this.config.forwarder?.domainName ?? GSN_DOMAIN_NAME,
+      version: this.config.forwarder?.domainVersion ?? GSN_DOMAIN_VERSION,
+    };
+    const separator = getDomainSeparator({
+      ...domain,
+      chainId,
+      verifyingContract: forwarder.address,
+    });
+
+    if (!(await forwarder.domains(separator))) {
+      await (
+        await forwarder.registerDomainSeparator(domain.name, domain.version)
+      ).wait();
+    }
+
+    const requestTypeHash = getRequestTypeHash(
+      RELAY_REQUEST_TYPES,
+      RELAY_REQUEST_TYPE_NAME,
+    );
+
+    if (!(await forwarder.typeHashes(requestTypeHash))) {
+      await (
+        await forwarder.registerRequestType(
+          RELAY_REQUEST_TYPE_NAME,
+          RELAY_REQUEST_SUFFIX,
+        )
+      ).wait();
+    }
+
+    deployment.domain = { ...domain, separator };
+    deployment.requestTypeHash = requestTypeHash;
+    await this.store.write(deployment);
+    // #endregion
+
+    const zeroPaymaster = await deployContract<ZeroPaymaster>(
+      "ZeroPaymaster",
+      new ZeroPaymaster__factory(this.signer),
+      [relayHub.address, forwarder.address],
+    );
+
+    return {
+      deployment,
+      deployed,
+      stakeManager,
+      penalizer,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+    };
+  }
+}
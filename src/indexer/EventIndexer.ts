@@ -0,0 +1,453 @@
+import { BigNumber, ethers, providers } from "ethers";
+import {
+  Forwarder__factory,
+  RelayHub,
+  RelayHub__factory,
+  StakeManager__factory,
+} from "../../typechain-types";
+import { MemoryStore, Store } from "../store";
+
+/** 인덱싱하는 컨트랙트 종류 */
+export type IndexedContract = "RelayHub" | "StakeManager" | "Forwarder";
+
+/** 컨트랙트 종류별로 인덱싱하는 이벤트 */
+export const INDEXED_EVENTS: Record<IndexedContract, string[]> = {
+  RelayHub: [
+    "TransactionRelayed",
+    "TransactionRejectedByPaymaster",
+    "TransactionResult",
+    "Deposited",
+    "Withdrawn",
+    "RelayServerRegistered",
+  ],
+  StakeManager: [
+    "StakeAdded",
+    "StakeUnlocked",
+    "StakeWithdrawn",
+    "StakePenalized",
+  ],
+  Forwarder: ["DomainRegistered", "RequestTypeRegistered"],
+};
+
+/** JSON 으로 저장할 수 있는 이벤트 인자 값 (uint 는 10진수 문자열) */
+export type IndexedValue = string | number | boolean | IndexedValue[];
+
+/**
+ * 디코딩된 이벤트입니다.
+ *
+ * @param args - 이벤트 인자 이름 => 값
+ */
+export interface IndexedEvent {
+  contract: IndexedContract;
+  address: string;
+  name: string;
+  args: Record<string, IndexedValue>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * 인덱싱을 마친 블록의 해시입니다. (reorg 감지에 사용)
+ */
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * {@link EventIndexer} 가 저장소에 기록하는 상태입니다.
+ *
+ * @param indexedToBlock - 이벤트 인덱싱을 마친 마지막 블록
+ * @param checkpoints - 최근 인덱싱 구간 끝 블록의 해시 (오래된 순)
+ * @param events - 블록 / 로그 순서로 정렬된 이벤트
+ */
+export interface IndexerState {
+  chainId: number;
+  indexedToBlock: number;
+  checkpoints: IndexerCheckpoint[];
+  events: IndexedEvent[];
+}
+
+/**
+ * {@link EventIndexer.sync} 결과입니다.
+ *
+ * @param fromBlock / toBlock - 새로 인덱싱한 블록 구간
+ * @param added - 새로 저장한 이벤트 수
+ * @param removed - reorg 로 제거한 이벤트 수
+ */
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  removed: number;
+}
+
+/**
+ * {@link EventIndexer.query} 조건입니다. 지정한 조건을 모두 만족하는 이벤트를 반환합니다.
+ *
+ * @param names - 이벤트 이름 중 하나
+ * @param args - 인자 이름 => 값 (대소문자를 구분하지 않음)
+ */
+export interface EventQuery {
+  contract?: IndexedContract;
+  address?: string;
+  names?: string[];
+  args?: Record<string, string>;
+  transactionHash?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * relay 된 호출입니다.
+ *
+ * @param relayed - `TransactionRelayed` 이벤트
+ * @param result - 같은 트랜잭션의 `TransactionResult` 이벤트 (반환값 / revert 데이터가 있는 경우)
+ */
+export interface RelayedCall {
+  relayed: IndexedEvent;
+  result?: IndexedEvent;
+}
+
+/**
+ * paymaster 가 대납한 charge 입니다.
+ *
+ * @param charges - 해당 paymaster 의 `TransactionRelayed` 이벤트
+ * @param total - charge 합계 (wei)
+ */
+export interface PaymasterCharges {
+  paymaster: string;
+  charges: IndexedEvent[];
+  total: BigNumber;
+}
+
+/**
+ * {@link EventIndexer} 설정입니다.
+ *
+ * @param relayHub - 이벤트를 조회할 RelayHub (provider 가 연결되어 있어야 함)
+ * @param stakeManager - StakeManager 주소 (기본값: relayHub.stakeManager())
+ * @param forwarders - 이벤트를 조회할 Forwarder 주소 목록
+ * @param store - 인덱싱 상태 저장소 (기본값: 메모리. 재시작 후에도 유지하려면 JsonFileStore 사용)
+ * @param fromBlock - 인덱싱 시작 블록 (RelayHub 배포 블록, 기본값 0)
+ * @param confirmations - 최신 블록으로부터 이 블록 수만큼 확정된 블록까지만 인덱싱합니다. (기본값 12)
+ * @param maxBlockRange - eth_getLogs 한 번에 조회할 최대 블록 수 (기본값 2,000)
+ * @param maxCheckpoints - reorg 감지를 위해 보관할 체크포인트 수 (기본값 128)
+ */
+export interface EventIndexerConfig {
+  relayHub: RelayHub;
+  stakeManager?: string;
+  forwarders?: string[];
+  store?: Store<IndexerState>;
+  fromBlock?: number;
+  confirmations?: number;
+  maxBlockRange?: number;
+  maxCheckpoints?: number;
+}
+
+const CONTRACT_INTERFACES: Record<IndexedContract, ethers.utils.Interface> = {
+  RelayHub: RelayHub__factory.createInterface(),
+  StakeManager: StakeManager__factory.createInterface(),
+  Forwarder: Forwarder__factory.createInterface(),
+};
+
+/**
+ * RelayHub / StakeManager / Forwarder 이벤트를 블록 순서대로 조회 / 디코딩하여 저장소에 기록하고,
+ * 저장된 이벤트를 조회하는 API 를 제공합니다.
+ *
+ * - `confirmations` 만큼 확정된 블록까지만 인덱싱하므로, 그보다 얕은 reorg 는 저장된 이벤트에 영향을 주지 않습니다.
+ * - 인덱싱 구간의 끝 블록 해시를 체크포인트로 저장하고, 동기화할 때마다 체인과 비교합니다.
+ *   다르면 일치하는 체크포인트 이후의 이벤트를 제거하고 그 블록부터 다시 인덱싱합니다.
+ *
+ * @example
+ * const indexer = new EventIndexer({ relayHub, forwarders: [forwarder.address], store: new JsonFileStore("./indexer.json") });
+ * await indexer.sync();
+ * const calls = await indexer.getRelayedCalls(user.address);
+ * const { total } = await indexer.getPaymasterCharges(paymaster.address);
+ */
+export class EventIndexer {
+  readonly relayHub: RelayHub;
+
+  private readonly store: Store<IndexerState>;
+  private readonly forwarders: string[];
+  private readonly fromBlock: number;
+  private readonly confirmations: number;
+  private readonly maxBlockRange: number;
+  private readonly maxCheckpoints: number;
+
+  private stakeManager?: string;
+  private state?: IndexerState;
+
+  constructor(config: EventIndexerConfig) {
+    this.relayHub = config.relayHub;
+    this.stakeManager = config.stakeManager;
+    this.forwarders = config.forwarders ?? [];
+    this.store = config.store ?? new MemoryStore<IndexerState>();
+    this.fromBlock = config.fromBlock ?? 0;
+    this.confirmations = config.confirmations ?? 12;
+    this.maxBlockRange = config.maxBlockRange ?? 2_000;
+    this.maxCheckpoints = config.maxCheckpoints ?? 128;
+  }
+
+  /** 이벤트 인덱싱을 마친 마지막 블록 */
+  async getIndexedBlock(): Promise<number> {
+    return (await this.load()).indexedToBlock;
+  }
+
+  /**
+   * reorg 를 확인한 뒤, 확정된 블록까지 새 이벤트를 인덱싱하고 저장소에 기록합니다.
+   *
+   * @returns 새로 인덱싱한 구간 (새로 확정된 블록도, 제거된 이벤트도 없으면 undefined)
+   */
+  async sync(): Promise<IndexerSyncResult | undefined> {
+    const state = await this.load();
+    const removed = await this.rollbackReorg(state);
+
+    const provider = this.relayHub.provider;
+    const target = (await provider.getBlockNumber()) - this.confirmations;
+    const fromBlock = state.indexedToBlock + 1;
+
+    if (fromBlock > target) {
+      if (removed > 0) {
+        await this.store.write(state);
+        return { fromBlock, toBlock: state.indexedToBlock, added: 0, removed };
+      }
+      return undefined;
+    }
+
+    const sources = await this.getSources();
+    let added = 0;
+
+    for (let start = fromBlock; start <= target; start += this.maxBlockRange) {
+      const end = Math.min(start + this.maxBlockRange - 1, target);
+      const { hash: blockHash } = await provider.getBlock(end);
+
+      const events = (
+        await Promise.all(
+          sources.map(({ contract, address }) =>
+            this.getEvents(contract, address, start, end),
+          ),
+        )
+      )
+        .flat()
+        .sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+        );
+
+      state.events.push(...events);
+      state.indexedToBlock = end;
+      state.checkpoints = [
+        ...state.checkpoints,
+        { blockNumber: end, blockHash },
+      ].slice(-this.maxCheckpoints);
+      added += events.length;
+
+      await this.store.write(state);
+    }
+
+    return { fromBlock, toBlock: target, added, removed };
+  }
+
+  /** 조건을 모두 만족하는 이벤트를 블록 / 로그 순서로 반환합니다. */
+  async query(filter: EventQuery = {}): Promise<IndexedEvent[]> {
+    const { events } = await this.load();
+
+    return events.filter(
+      (event) =>
+        (filter.contract === undefined || event.contract === filter.contract) &&
+        (filter.address === undefined ||
+          isSame(event.address, filter.address)) &&
+        (filter.names === undefined || filter.names.includes(event.name)) &&
+        (filter.transactionHash === undefined ||
+          isSame(event.transactionHash, filter.transactionHash)) &&
+        (filter.fromBlock === undefined ||
+          event.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || event.blockNumber <= filter.toBlock) &&
+        Object.entries(filter.args ?? {}).every(
+          ([name, value]) =>
+            event.args[name] !== undefined &&
+            isSame(String(event.args[name]), value),
+        ),
+    );
+  }
+
+  /** `from` 이 요청한 relay 호출 (`TransactionRelayed`) 과 그 결과를 반환합니다. */
+  async getRelayedCalls(from: string): Promise<RelayedCall[]> {
+    const results = await this.query({
+      contract: "RelayHub",
+      names: ["TransactionResult"],
+    });
+    const relayed = await this.query({
+      contract: "RelayHub",
+      names: ["TransactionRelayed"],
+      args: { from },
+    });
+
+    return relayed.map((event) => ({
+      relayed: event,
+      result: results.find(
+        (result) =>
+          result.transactionHash === event.transactionHash &&
+          result.logIndex < event.logIndex,
+      ),
+    }));
+  }
+
+  /** paymaster 가 대납한 relay 호출 (`TransactionRelayed`) 과 charge 합계를 반환합니다. */
+  async getPaymasterCharges(paymaster: string): Promise<PaymasterCharges> {
+    const charges = await this.query({
+      contract: "RelayHub",
+      names: ["TransactionRelayed"],
+      args: { paymaster },
+    });
+
+    return {
+      paymaster,
+      charges,
+      total: charges.reduce(
+        (total, { args }) => total.add(args.charge as string),
+        BigNumber.from(0),
+      ),
+    };
+  }
+
+  /**
+   * 체크포인트가 체인과 다르면 일치하는 체크포인트 이후의 이벤트를 제거하고 인덱싱 위치를 되돌립니다.
+   *
+   * @returns 제거한 이벤트 수
+   */
+  private async rollbackReorg(state: IndexerState): Promise<number> {
+    const provider = this.relayHub.provider;
+    let reorged = false;
+
+    while (state.checkpoints.length > 0) {
+      const { blockNumber, blockHash } =
+        state.checkpoints[state.checkpoints.length - 1];
+      const block = await provider.getBlock(blockNumber);
+
+      if (block?.hash === blockHash) {
+        break;
+      }
+
+      state.checkpoints.pop();
+      reorged = true;
+    }
+
+    if (!reorged) {
+      return 0;
+    }
+
+    // 일치하는 체크포인트가 없으면 처음부터 다시 인덱싱합니다.
+    const rollbackTo =
+      state.checkpoints[state.checkpoints.length - 1]?.blockNumber ??
+      this.fromBlock - 1;
+    const count = state.events.length;
+
+    state.events = state.events.filter(
+      ({ blockNumber }) => blockNumber <= rollbackTo,
+    );
+    state.indexedToBlock = rollbackTo;
+
+    return count - state.events.length;
+  }
+
+  private async getEvents(
+    contract: IndexedContract,
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<IndexedEvent[]> {
+    const contractInterface = CONTRACT_INTERFACES[contract];
+    const logs = await this.relayHub.provider.getLogs({
+      address,
+      fromBlock,
+      toBlock,
+      topics: [
+        INDEXED_EVENTS[contract].map((name) =>
+          contractInterface.getEventTopic(name),
+        ),
+      ],
+    });
+
+    return logs.map((log) => toIndexedEvent(contract, contractInterface, log));
+  }
+
+  private async getSources(): Promise<
+    { contract: IndexedContract; address: string }[]
+  > {
+    this.stakeManager ??= await this.relayHub.stakeManager();
+
+    return [
+      { contract: "RelayHub", address: this.relayHub.address },
+      { contract: "StakeManager", address: this.stakeManager },
+      ...this.forwarders.map((address) => ({
+        contract: "Forwarder" as const,
+        address,
+      })),
+    ];
+  }
+
+  /** 저장된 상태를 읽습니다. 다른 체인의 상태이면 오류를 던집니다. */
+  private async load(): Promise<IndexerState> {
+    if (this.state !== undefined) {
+      return this.state;
+    }
+
+    const { chainId } = await this.relayHub.provider.getNetwork();
+    const stored = await this.store.read();
+
+    if (stored !== undefined && stored.chainId !== chainId) {
+      throw new Error(
+        `indexer store belongs to chain ${stored.chainId}, provider is on chain ${chainId}`,
+      );
+    }
+
+    this.state = stored ?? {
+      chainId,
+      indexedToBlock: this.fromBlock - 1,
+      checkpoints: [],
+      events: [],
+    };
+
+    return this.state;
+  }
+}
+
+function toIndexedEvent(
+  contract: IndexedContract,
+  contractInterface: ethers.utils.Interface,
+  log: providers.Log,
+): IndexedEvent {
+  const { name, args, eventFragment } = contractInterface.parseLog(log);
+
+  return {
+    contract,
+    address: log.address,
+    name,
+    args: Object.fromEntries(
+      eventFragment.inputs.map((input, index) => [
+        input.name,
+        toIndexedValue(args[index]),
+      ]),
+    ),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  };
+}
+
+function toIndexedValue(value: unknown): IndexedValue {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toIndexedValue);
+  }
+  return value as IndexedValue;
+}
+
+function isSame(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
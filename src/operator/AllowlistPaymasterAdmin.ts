@@ -0,0 +1,138 @@
+import { ContractTransaction, Wallet } from "ethers";
+import {
+  AllowlistPaymaster,
+  AllowlistPaymaster__factory,
+} from "../../typechain-types";
+import { AllowlistSponsorshipPolicyConfig, toSelector } from "../server";
+
+/**
+ * {@link AllowlistPaymaster} 에 적용할 허용 목록입니다.
+ * Trusted Relay Server 의 {@link AllowlistSponsorshipPolicyConfig} 와 같은 형식이므로 같은 정책 파일을 사용할 수 있습니다.
+ *
+ * @param contracts - 허용할 컨트랙트 주소와 함수 목록 (selector 또는 시그니처, 생략 시 모든 함수)
+ * @param senders - 허용할 요청자 주소 (생략 시 요청자 제한 없음)
+ */
+export type AllowlistPaymasterPolicy = Pick<
+  AllowlistSponsorshipPolicyConfig,
+  "contracts" | "senders"
+>;
+
+/**
+ * {@link AllowlistPaymaster} 의 허용 목록을 관리합니다. (signer 는 paymaster owner 여야 합니다)
+ *
+ * @example
+ * const admin = new AllowlistPaymasterAdmin(paymasterAddress, owner.connect(provider));
+ * await admin.applyPolicy({ contracts: { [clamCoin.address]: ["transfer(address,uint256)"] } });
+ */
+export class AllowlistPaymasterAdmin {
+  readonly paymaster: AllowlistPaymaster;
+
+  constructor(paymaster: string, signer: Wallet) {
+    this.paymaster = AllowlistPaymaster__factory.connect(paymaster, signer);
+  }
+
+  /**
+   * 컨트랙트를 허용합니다.
+   *
+   * @param allMethods - true 이면 함수(selector)를 검사하지 않습니다.
+   */
+  async allowTarget(target: string, allMethods = false): Promise<string> {
+    return wait(await this.paymaster.setTarget(target, true, allMethods));
+  }
+
+  async disallowTarget(target: string): Promise<string> {
+    return wait(await this.paymaster.setTarget(target, false, false));
+  }
+
+  /** @param functions - selector(`0xa9059cbb`) 또는 시그니처(`transfer(address,uint256)`) */
+  async allowMethods(target: string, functions: string[]): Promise<string> {
+    return wait(
+      await this.paymaster.setMethods(target, functions.map(toSelector), true),
+    );
+  }
+
+  async disallowMethods(target: string, functions: string[]): Promise<string> {
+    return wait(
+      await this.paymaster.setMethods(target, functions.map(toSelector), false),
+    );
+  }
+
+  async allowSenders(senders: string[]): Promise<string> {
+    return wait(await this.paymaster.setSenders(senders, true));
+  }
+
+  async disallowSenders(senders: string[]): Promise<string> {
+    return wait(await this.paymaster.setSenders(senders, false));
+  }
+
+  async setSenderAllowlistEnabled(enabled: boolean): Promise<string> {
+    return wait(await this.paymaster.setSenderAllowlistEnabled(enabled));
+  }
+
+  /**
+   * 정책의 컨트랙트 / 함수 / 요청자를 허용 상태로 만듭니다.
+   * 현재 상태를 조회하여 바뀌어야 하는 항목만 트랜잭션을 제출하며, 정책에 없는 항목은 변경하지 않습니다.
+   *
+   * @returns 제출한 트랜잭션 해시 목록
+   */
+  async applyPolicy(policy: AllowlistPaymasterPolicy): Promise<string[]> {
+    const txHashes: string[] = [];
+
+    for (const [target, functions] of Object.entries(policy.contracts)) {
+      const allMethods = functions === undefined;
+
+      const [allowed, allMethodsAllowed] = await Promise.all([
+        this.paymaster.allowedTargets(target),
+        this.paymaster.allMethodsAllowed(target),
+      ]);
+
+      if (!allowed || allMethodsAllowed !== allMethods) {
+        txHashes.push(await this.allowTarget(target, allMethods));
+      }
+
+      const missing: string[] = [];
+
+      for (const selector of (functions ?? []).map(toSelector)) {
+        if (!(await this.paymaster.allowedMethods(target, selector))) {
+          missing.push(selector);
+        }
+      }
+
+      if (missing.length > 0) {
+        txHashes.push(await this.allowMethods(target, missing));
+      }
+    }
+
+    if (policy.senders !== undefined) {
+      const missing: string[] = [];
+
+      for (const sender of policy.senders) {
+        if (!(await this.paymaster.allowedSenders(sender))) {
+          missing.push(sender);
+        }
+      }
+
+      if (missing.length > 0) {
+        txHashes.push(await this.allowSenders(missing));
+      }
+    }
+
+    const senderAllowlistEnabled = policy.senders !== undefined;
+
+    if (
+      (await this.paymaster.senderAllowlistEnabled()) !== senderAllowlistEnabled
+    ) {
+      txHashes.push(
+        await this.setSenderAllowlistEnabled(senderAllowlistEnabled),
+      );
+    }
+
+    return txHashes;
+  }
+}
+
+async function wait(transaction: ContractTransaction): Promise<string> {
+  await transaction.wait();
+
+  return transaction.hash;
+}
@@ -0,0 +1,122 @@
+import { BigNumber, BigNumberish, Wallet } from "ethers";
+import { BasePaymaster__factory, RelayHub } from "../../typechain-types";
+
+/**
+ * {@link PaymasterDepositManager} 설정입니다.
+ *
+ * @param relayHub - paymaster 예치금을 관리하는 {@link RelayHub} (provider 가 연결되어 있어야 합니다)
+ * @param signer - 예치금을 입금하는 EOA / 출금 시에는 paymaster 의 owner 여야 합니다.
+ */
+export interface PaymasterDepositManagerConfig {
+  relayHub: RelayHub;
+  signer: Wallet;
+}
+
+/**
+ * RelayHub 에 예치된 paymaster 잔액(가스비 대납 자금)을 입금 / 출금합니다.
+ *
+ * - 입금: RelayHub.depositFor (한 번에 maximumRecipientDeposit 을 넘을 수 없습니다)
+ * - 출금: BasePaymaster.withdrawRelayHubDepositTo (paymaster owner 만 가능)
+ *
+ * @example
+ * const manager = new PaymasterDepositManager({ relayHub, signer: owner });
+ * await manager.topUp(paymaster, ethers.utils.parseEther("1"));
+ * await manager.withdraw(paymaster, ethers.utils.parseEther("0.5"), owner.address);
+ */
+export class PaymasterDepositManager {
+  readonly relayHub: RelayHub;
+  readonly signer: Wallet;
+
+  constructor(config: PaymasterDepositManagerConfig) {
+    this.relayHub = config.relayHub;
+    this.signer = config.signer.connect(config.relayHub.provider);
+  }
+
+  /** paymaster 의 RelayHub 예치금 */
+  async balanceOf(paymaster: string): Promise<BigNumber> {
+    return this.relayHub.balanceOf(paymaster);
+  }
+
+  /**
+   * paymaster 에 amount 만큼 입금합니다.
+   *
+   * @returns 입금 트랜잭션 해시
+   */
+  async deposit(paymaster: string, amount: BigNumberish): Promise<string> {
+    const value = BigNumber.from(amount);
+    const { maximumRecipientDeposit } = await this.relayHub.getConfiguration();
+
+    if (value.lte(0)) {
+      throw new Error(`deposit amount must be positive: ${value}`);
+    }
+
+    if (value.gt(maximumRecipientDeposit)) {
+      throw new Error(
+        `deposit ${value} exceeds maximumRecipientDeposit ${maximumRecipientDeposit}`,
+      );
+    }
+
+    const depositTx = await this.relayHub
+      .connect(this.signer)
+      .depositFor(paymaster, { value });
+    await depositTx.wait();
+
+    return depositTx.hash;
+  }
+
+  /**
+   * paymaster 예치금이 targetBalance 가 되도록 부족한 만큼 입금합니다.
+   * targetBalance 는 maximumRecipientDeposit 을 넘을 수 없습니다.
+   *
+   * @returns 입금 트랜잭션 해시 (이미 targetBalance 이상이면 undefined)
+   */
+  async topUp(
+    paymaster: string,
+    targetBalance: BigNumberish,
+  ): Promise<string | undefined> {
+    const target = BigNumber.from(targetBalance);
+    const { maximumRecipientDeposit } = await this.relayHub.getConfiguration();
+
+    if (target.gt(maximumRecipientDeposit)) {
+      throw new Error(
+        `target balance ${target} exceeds maximumRecipientDeposit ${maximumRecipientDeposit}`,
+      );
+    }
+
+    const balance = await this.balanceOf(paymaster);
+
+    if (balance.gte(target)) {
+      return undefined;
+    }
+
+    return this.deposit(paymaster, target.sub(balance));
+  }
+
+  /**
+   * paymaster 예치금에서 amount 만큼 destination 으로 출금합니다. (signer 가 paymaster owner 여야 합니다)
+   *
+   * @returns 출금 트랜잭션 해시
+   */
+  async withdraw(
+    paymaster: string,
+    amount: BigNumberish,
+    destination: string,
+  ): Promise<string> {
+    const value = BigNumber.from(amount);
+    const balance = await this.balanceOf(paymaster);
+
+    if (value.gt(balance)) {
+      throw new Error(
+        `withdraw ${value} exceeds paymaster ${paymaster} deposit ${balance}`,
+      );
+    }
+
+    const withdrawTx = await BasePaymaster__factory.connect(
+      paymaster,
+      this.signer,
+    ).withdrawRelayHubDepositTo(value, destination);
+    await withdrawTx.wait();
+
+    return withdrawTx.hash;
+  }
+}
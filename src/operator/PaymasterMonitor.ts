@@ -0,0 +1,130 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { RelayHub } from "../../typechain-types";
+
+/** 평균 charge 계산에 사용하는 최근 TransactionRelayed 이벤트 수 */
+const DEFAULT_SAMPLE_SIZE = 20;
+
+/** TransactionRelayed 이벤트를 조회할 최근 블록 수 */
+const DEFAULT_LOOKBACK_BLOCKS = 10_000;
+
+/**
+ * paymaster 예치금 점검 결과입니다.
+ *
+ * @param paymaster - paymaster 주소
+ * @param balance - RelayHub 예치금 (wei)
+ * @param threshold - 경고 기준 잔액 (wei)
+ * @param low - balance 가 threshold 미만인지 여부
+ * @param sampleCount - 평균 계산에 사용한 TransactionRelayed 이벤트 수
+ * @param averageCharge - 최근 relay 1건당 평균 charge (wei, 이벤트가 없으면 undefined)
+ * @param remainingCalls - 남은 예치금으로 대납 가능한 평균 relay 횟수 (이벤트가 없으면 undefined)
+ */
+export interface PaymasterBalanceReport {
+  paymaster: string;
+  balance: BigNumber;
+  threshold: BigNumber;
+  low: boolean;
+  sampleCount: number;
+  averageCharge?: BigNumber;
+  remainingCalls?: number;
+}
+
+/**
+ * {@link PaymasterMonitor} 설정입니다.
+ *
+ * @param relayHub - {@link RelayHub} (provider 가 연결되어 있어야 합니다)
+ * @param paymasters - paymaster 주소 => 경고 기준 잔액 (wei)
+ * @param sampleSize - 평균 charge 계산에 사용할 최근 이벤트 수
+ * @param lookbackBlocks - TransactionRelayed 이벤트를 조회할 최근 블록 수
+ * @param onLowBalance - 잔액이 기준 미만인 paymaster 마다 호출됩니다. (알림 연동)
+ */
+export interface PaymasterMonitorConfig {
+  relayHub: RelayHub;
+  paymasters: Record<string, BigNumberish>;
+  sampleSize?: number;
+  lookbackBlocks?: number;
+  onLowBalance?: (report: PaymasterBalanceReport) => void | Promise<void>;
+}
+
+/**
+ * paymaster 들의 RelayHub 예치금을 기준 잔액과 비교하고,
+ * 최근 TransactionRelayed 이벤트의 charge 로 남은 예치금이 감당할 수 있는 relay 횟수를 추정합니다.
+ *
+ * @example
+ * const monitor = new PaymasterMonitor({
+ *   relayHub,
+ *   paymasters: { [paymaster.address]: ethers.utils.parseEther("0.1") },
+ *   onLowBalance: (report) => console.warn(`${report.paymaster} is low`),
+ * });
+ * setInterval(() => monitor.check(), 60_000);
+ */
+export class PaymasterMonitor {
+  readonly relayHub: RelayHub;
+
+  private readonly paymasters: Record<string, BigNumberish>;
+  private readonly sampleSize: number;
+  private readonly lookbackBlocks: number;
+  private readonly onLowBalance?: PaymasterMonitorConfig["onLowBalance"];
+
+  constructor(config: PaymasterMonitorConfig) {
+    this.relayHub = config.relayHub;
+    this.paymasters = config.paymasters;
+    this.sampleSize = config.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+    this.lookbackBlocks = config.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+    this.onLowBalance = config.onLowBalance;
+  }
+
+  /**
+   * 모든 paymaster 를 점검합니다. 기준 미만인 paymaster 는 onLowBalance 로 알립니다.
+   *
+   * @returns paymaster 별 {@link PaymasterBalanceReport}
+   */
+  async check(): Promise<PaymasterBalanceReport[]> {
+    const latestBlock = await this.relayHub.provider.getBlockNumber();
+    const events = await this.relayHub.queryFilter(
+      this.relayHub.filters.TransactionRelayed(),
+      Math.max(0, latestBlock - this.lookbackBlocks),
+      latestBlock,
+    );
+
+    const reports: PaymasterBalanceReport[] = [];
+
+    for (const [paymaster, threshold] of Object.entries(this.paymasters)) {
+      const charges = events
+        .filter(
+          (event) =>
+            event.args.paymaster.toLowerCase() === paymaster.toLowerCase(),
+        )
+        .slice(-this.sampleSize)
+        .map((event) => event.args.charge);
+
+      const balance = await this.relayHub.balanceOf(paymaster);
+      const averageCharge =
+        charges.length > 0
+          ? charges
+              .reduce((sum, charge) => sum.add(charge), BigNumber.from(0))
+              .div(charges.length)
+          : undefined;
+
+      const report: PaymasterBalanceReport = {
+        paymaster,
+        balance,
+        threshold: BigNumber.from(threshold),
+        low: balance.lt(threshold),
+        sampleCount: charges.length,
+        averageCharge,
+        remainingCalls:
+          averageCharge !== undefined && !averageCharge.isZero()
+            ? balance.div(averageCharge).toNumber()
+            : undefined,
+      };
+
+      if (report.low) {
+        await this.onLowBalance?.(report);
+      }
+
+      reports.push(report);
+    }
+
+    return reports;
+  }
+}
@@ -0,0 +1,551 @@
+import { BigNumber, ethers, Wallet } from "ethers";
+import {
+  Penalizer,
+  Penalizer__factory,
+  RelayHub,
+  StakeManager__factory,
+} from "../../typechain-types";
+import { decodeRevertData, RelayDiscovery } from "../client";
+import {
+  isSamePenalizerPayload,
+  SignedRawTransaction,
+  toSignedRawTransaction,
+} from "./rawTransaction";
+
+/** 한 번의 poll 에서 조회하는 최대 블록 수 */
+const DEFAULT_MAX_BLOCK_RANGE = 100;
+
+/** relayWorker 의 채굴된 nonce 보다 이만큼 작은 nonce 까지 관찰한 트랜잭션을 보관합니다. (늦게 보고된 서명 트랜잭션 / reorg 대비) */
+const DEFAULT_NONCE_RETENTION = 100;
+
+/** audit 으로 보고되어 보관 중인 트랜잭션의 최대 수 */
+const DEFAULT_MAX_AUDITED_TRANSACTIONS = 10_000;
+
+/**
+ * Penalizer 가 처벌하는 relayWorker 의 위반입니다.
+ *
+ * - repeated-nonce: 같은 nonce 로 내용(data, gasLimit, to, value)이 다른 두 트랜잭션에 서명함 (`penalizeRepeatedNonce`)
+ * - illegal-transaction: RelayHub 가 아닌 주소로 트랜잭션을 보내거나, RelayHub 에 relayCall 이 아닌 호출 또는 gasLimit 이 externalGasLimit 과 다른 relayCall 을 보냄 (`penalizeIllegalTransaction`)
+ */
+export type RelayOffenceType = "repeated-nonce" | "illegal-transaction";
+
+/**
+ * relayWorker 가 서명한 트랜잭션입니다.
+ *
+ * @param blockNumber - 채굴된 블록 (보고된 서명 트랜잭션이면 undefined)
+ */
+export interface WorkerTransaction extends SignedRawTransaction {
+  blockNumber?: number;
+}
+
+/**
+ * 발견한 위반입니다.
+ *
+ * @param transactions - 위반 증거 (repeated-nonce 는 먼저 관찰한 트랜잭션부터 2개)
+ * @param description - 사람이 읽을 수 있는 설명
+ */
+export interface RelayOffence {
+  type: RelayOffenceType;
+  relayWorker: string;
+  relayManager: string;
+  transactions: WorkerTransaction[];
+  description: string;
+}
+
+/**
+ * 위반에 대한 commit / reveal 진행 상태입니다.
+ *
+ * - committed: commit 트랜잭션이 채굴되어 readyBlock 이후의 reveal 을 기다림
+ * - penalized: reveal 트랜잭션으로 relayManager 의 stake 가 처벌됨
+ * - failed: 처벌 시뮬레이션, commit 또는 reveal 이 실패함
+ *
+ * @param revealData - reveal 할 Penalizer 호출 데이터 (commitHash 의 원본)
+ * @param readyBlock - 이 블록 이후에 채굴되는 reveal 만 허용됨
+ * @param reward - reporter 가 받은 stake 보상 (wei, penalized 인 경우)
+ * @param error - 실패 사유 (failed 인 경우)
+ */
+export interface Penalization {
+  offence: RelayOffence;
+  status: "committed" | "penalized" | "failed";
+  revealData: string;
+  commitHash?: string;
+  commitTransactionHash?: string;
+  readyBlock?: number;
+  revealTransactionHash?: string;
+  reward?: BigNumber;
+  error?: string;
+}
+
+/**
+ * {@link PenalizerWatchdog.poll} 결과입니다.
+ *
+ * @param fromBlock / toBlock - 이번에 조회한 블록 구간 (새 블록이 없으면 undefined)
+ * @param offences - 이번에 발견한 위반
+ * @param revealed - 이번에 reveal 을 시도한 처벌 (penalized 또는 failed)
+ * @param errors - 검사 중 오류가 발생하여 건너뛴 트랜잭션
+ */
+export interface PenalizerWatchdogPollResult {
+  fromBlock?: number;
+  toBlock?: number;
+  offences: RelayOffence[];
+  revealed: Penalization[];
+  errors: { transactionHash: string; error: string }[];
+}
+
+/**
+ * {@link PenalizerWatchdog} 설정입니다.
+ *
+ * @param relayHub - 감시할 {@link RelayHub} (provider 가 연결되어 있어야 합니다)
+ * @param reporter - commit / reveal 을 서명하는 EOA. Penalizer 는 reveal 의 msg.sender 에게 stake 보상을 보냅니다.
+ * @param discovery - 감시할 relayWorker 를 찾는 {@link RelayDiscovery} (기본값: relayHub 의 0 번 블록부터)
+ * @param fromBlock - 트랜잭션 조회 시작 블록 (기본값: 첫 poll 의 최신 블록)
+ * @param maxBlockRange - 한 번의 poll 에서 조회하는 최대 블록 수 (기본값 100)
+ * @param nonceRetention - relayWorker 의 채굴된 nonce 보다 이만큼 작은 nonce 까지 관찰한 트랜잭션을 보관합니다. (기본값 100)
+ * @param maxAuditedTransactions - audit 으로 보고되어 보관하는 트랜잭션의 최대 수. 넘으면 오래된 것부터 버립니다. (기본값 10,000)
+ * @param onOffence - 위반을 발견할 때마다 호출됩니다. (알림 연동)
+ * @param onPenalization - commit / reveal 결과가 바뀔 때마다 호출됩니다.
+ */
+export interface PenalizerWatchdogConfig {
+  relayHub: RelayHub;
+  reporter: Wallet;
+  discovery?: RelayDiscovery;
+  fromBlock?: number;
+  maxBlockRange?: number;
+  nonceRetention?: number;
+  maxAuditedTransactions?: number;
+  onOffence?: (offence: RelayOffence) => void | Promise<void>;
+  onPenalization?: (penalization: Penalization) => void | Promise<void>;
+}
+
+/**
+ * 등록된 relayWorker 가 보낸 트랜잭션을 감시하여 Penalizer 가 처벌하는 위반을 찾고,
+ * commit → (penalizeBlockDelay 이후) reveal 순서로 처벌합니다.
+ *
+ * - 블록의 트랜잭션과 {@link PenalizerWatchdog.audit} 로 보고된 서명 트랜잭션(예: Relay 가 클라이언트에 반환한 signedTx)을 함께 비교합니다.
+ * - gasPrice 만 다른 같은 nonce 의 트랜잭션 (재전송) 은 Penalizer 와 마찬가지로 위반이 아닙니다.
+ * - commit 전에 msg.sender 가 address(0) 인 eth_call 로 처벌이 성공하는지 먼저 확인합니다. (commitRevealOnly 는 address(0) 를 검사하지 않습니다)
+ * - relayWorker 마다 한 번만 처벌합니다. 시뮬레이션이 실패한 위반은 failed 로 기록하고 다음 위반을 기다립니다.
+ * - relayWorker 는 RelayHub 의 relayCall 만 보낼 수 있으므로, RelayHub 가 아닌 주소로 보낸 트랜잭션(송금 포함)도 위반입니다.
+ * - Penalizer 는 RelayHub 의 relayCall 이 아닌 호출에서도 externalGasLimit 인자를 읽으므로, calldata 가 164 byte 미만인 RelayHub 호출은 처벌할 수 없어 위반으로 보지 않습니다.
+ *
+ * @example
+ * const watchdog = new PenalizerWatchdog({ relayHub, reporter, onOffence: (offence) => console.warn(offence.description) });
+ * setInterval(() => watchdog.poll(), 15_000);
+ * await watchdog.audit(signedTx);
+ */
+export class PenalizerWatchdog {
+  readonly relayHub: RelayHub;
+  readonly reporter: Wallet;
+
+  private readonly discovery: RelayDiscovery;
+  private readonly maxBlockRange: number;
+  private readonly nonceRetention: number;
+  private readonly maxAuditedTransactions: number;
+  private readonly onOffence?: PenalizerWatchdogConfig["onOffence"];
+  private readonly onPenalization?: PenalizerWatchdogConfig["onPenalization"];
+
+  private penalizer?: Penalizer;
+  private nextBlock?: number;
+
+  /** relayWorker => relayManager (소문자 주소) */
+  private workers = new Map<string, string>();
+  /** relayWorker (소문자 주소) => nonce => 처음 관찰한 트랜잭션 */
+  private readonly observed = new Map<string, Map<string, WorkerTransaction>>();
+  /** relayWorker (소문자 주소) => 블록에서 관찰한 가장 큰 nonce + 1 */
+  private readonly minedNonces = new Map<string, BigNumber>();
+  /** audit 으로 보고되어 보관 중인 `<relayWorker>:<nonce>` (보고된 순서) */
+  private readonly audited = new Set<string>();
+  /** 처벌을 시작한 relayWorker (소문자 주소) */
+  private readonly reported = new Set<string>();
+  private readonly penalizations: Penalization[] = [];
+
+  constructor(config: PenalizerWatchdogConfig) {
+    this.relayHub = config.relayHub;
+    this.reporter = config.reporter.connect(config.relayHub.provider);
+    this.discovery =
+      config.discovery ?? new RelayDiscovery({ relayHub: config.relayHub });
+    this.nextBlock = config.fromBlock;
+    this.maxBlockRange = config.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.nonceRetention = config.nonceRetention ?? DEFAULT_NONCE_RETENTION;
+    this.maxAuditedTransactions =
+      config.maxAuditedTransactions ?? DEFAULT_MAX_AUDITED_TRANSACTIONS;
+    this.onOffence = config.onOffence;
+    this.onPenalization = config.onPenalization;
+  }
+
+  /** 지금까지의 처벌 기록 */
+  getPenalizations(): Penalization[] {
+    return [...this.penalizations];
+  }
+
+  /**
+   * 새 블록의 relayWorker 트랜잭션을 검사하여 위반을 commit 하고,
+   * readyBlock 이 지난 commit 을 reveal 합니다.
+   */
+  async poll(): Promise<PenalizerWatchdogPollResult> {
+    const provider = this.relayHub.provider;
+    const latestBlock = await provider.getBlockNumber();
+    const fromBlock = this.nextBlock ?? latestBlock;
+    const toBlock = Math.min(latestBlock, fromBlock + this.maxBlockRange - 1);
+    const offences: RelayOffence[] = [];
+    const errors: PenalizerWatchdogPollResult["errors"] = [];
+
+    if (fromBlock <= toBlock) {
+      await this.refreshWorkers();
+
+      for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+        const block = await provider.getBlockWithTransactions(blockNumber);
+
+        // 한 트랜잭션의 오류로 같은 블록을 계속 다시 조회하지 않도록 건너뜁니다.
+        for (const transaction of block.transactions) {
+          try {
+            offences.push(...(await this.observe(transaction)));
+          } catch (error) {
+            errors.push({
+              transactionHash: transaction.hash,
+              error: (error as Error).message,
+            });
+          }
+        }
+      }
+      this.nextBlock = toBlock + 1;
+    }
+
+    return {
+      fromBlock: fromBlock <= toBlock ? fromBlock : undefined,
+      toBlock: fromBlock <= toBlock ? toBlock : undefined,
+      offences,
+      revealed: await this.revealReady(latestBlock),
+      errors,
+    };
+  }
+
+  /**
+   * 채굴되지 않았을 수 있는 relayWorker 의 서명 트랜잭션을 검사합니다.
+   * 같은 nonce 로 이미 관찰한 트랜잭션과 내용이 다르면 처벌을 commit 합니다.
+   *
+   * @param signedTx - RLP 인코딩된 서명 트랜잭션
+   * @returns 발견한 위반 (등록된 relayWorker 의 트랜잭션이 아니면 빈 배열)
+   */
+  async audit(signedTx: string): Promise<RelayOffence[]> {
+    const transaction = ethers.utils.parseTransaction(signedTx);
+
+    if (
+      transaction.from !== undefined &&
+      !this.workers.has(transaction.from.toLowerCase())
+    ) {
+      await this.refreshWorkers();
+    }
+
+    return this.observe(transaction);
+  }
+
+  /** stake 된 Relay 의 relayWorker 목록을 갱신합니다. */
+  private async refreshWorkers(): Promise<void> {
+    const workers = new Map<string, string>();
+
+    for (const relay of await this.discovery.getActiveRelays()) {
+      for (const worker of relay.workers) {
+        workers.set(worker.toLowerCase(), relay.relayManager);
+      }
+    }
+    this.workers = workers;
+  }
+
+  private async observe(
+    transaction: ethers.Transaction & { blockNumber?: number },
+  ): Promise<RelayOffence[]> {
+    const relayWorker = transaction.from?.toLowerCase();
+    const relayManager =
+      relayWorker !== undefined ? this.workers.get(relayWorker) : undefined;
+
+    if (relayWorker === undefined || relayManager === undefined) {
+      return [];
+    }
+
+    const observed = toWorkerTransaction(transaction);
+
+    // 서명에서 relayWorker 를 복구할 수 없으면 Penalizer 에 제출할 수 없습니다.
+    if (observed === undefined || observed.from.toLowerCase() !== relayWorker) {
+      return [];
+    }
+
+    const { nonce } = observed.decoded;
+    const offences: RelayOffence[] = [];
+    const previous = this.observed.get(relayWorker)?.get(nonce.toString());
+
+    if (previous === undefined) {
+      this.remember(relayWorker, observed);
+    } else if (!isSamePenalizerPayload(previous.decoded, observed.decoded)) {
+      offences.push({
+        type: "repeated-nonce",
+        relayWorker: observed.from,
+        relayManager,
+        transactions: [previous, observed],
+        description: `relay worker ${observed.from} signed different transactions ${previous.hash} and ${observed.hash} with nonce ${nonce}`,
+      });
+    }
+
+    if (observed.blockNumber !== undefined) {
+      this.prune(relayWorker, nonce.add(1));
+    }
+
+    if (this.isIllegal(observed)) {
+      offences.push({
+        type: "illegal-transaction",
+        relayWorker: observed.from,
+        relayManager,
+        transactions: [observed],
+        description: `relay worker ${observed.from} sent ${observed.hash} that is not a legal relayCall to RelayHub`,
+      });
+    }
+
+    if (offences.length === 0 || this.reported.has(relayWorker)) {
+      return offences;
+    }
+
+    for (const offence of offences) {
+      await this.onOffence?.(offence);
+    }
+
+    // Penalizer 가 처리할 수 없는 증거 (시뮬레이션 실패) 이면 다음 위반을 기다립니다.
+    for (const offence of offences) {
+      if ((await this.commit(offence)).status === "committed") {
+        this.reported.add(relayWorker);
+        break;
+      }
+    }
+
+    return offences;
+  }
+
+  /**
+   * 같은 nonce 의 트랜잭션과 비교하기 위해 처음 관찰한 트랜잭션을 보관합니다.
+   * audit 으로 보고된 트랜잭션은 maxAuditedTransactions 를 넘으면 오래된 것부터 버립니다.
+   */
+  private remember(relayWorker: string, transaction: WorkerTransaction): void {
+    const nonce = transaction.decoded.nonce.toString();
+    const transactions =
+      this.observed.get(relayWorker) ?? new Map<string, WorkerTransaction>();
+
+    transactions.set(nonce, transaction);
+    this.observed.set(relayWorker, transactions);
+
+    if (transaction.blockNumber !== undefined) {
+      return;
+    }
+
+    this.audited.add(`${relayWorker}:${nonce}`);
+
+    if (this.audited.size > this.maxAuditedTransactions) {
+      const [oldest] = this.audited;
+      const [worker, oldestNonce] = oldest.split(":");
+
+      this.audited.delete(oldest);
+      this.observed.get(worker)?.delete(oldestNonce);
+    }
+  }
+
+  /** 채굴된 nonce 보다 nonceRetention 이상 작은 nonce 의 트랜잭션을 버립니다. */
+  private prune(relayWorker: string, minedNonce: BigNumber): void {
+    const previous = this.minedNonces.get(relayWorker);
+
+    if (previous !== undefined && minedNonce.lte(previous)) {
+      return;
+    }
+
+    this.minedNonces.set(relayWorker, minedNonce);
+
+    for (const nonce of [...(this.observed.get(relayWorker)?.keys() ?? [])]) {
+      if (BigNumber.from(nonce).add(this.nonceRetention).lt(minedNonce)) {
+        this.observed.get(relayWorker)!.delete(nonce);
+        this.audited.delete(`${relayWorker}:${nonce}`);
+      }
+    }
+  }
+
+  /** Penalizer._penalizeIllegalTransaction 과 같은 조건으로 위반 여부를 판단합니다. */
+  private isIllegal({
+    decoded: { to, data, gasLimit },
+  }: WorkerTransaction): boolean {
+    if (to.toLowerCase() !== this.relayHub.address.toLowerCase()) {
+      return true;
+    }
+
+    // Penalizer 는 selector 와 관계없이 externalGasLimit 인자를 읽으므로, 인자가 없는 호출은 처벌할 수 없습니다.
+    if (ethers.utils.hexDataLength(data) < 4 + 32 * 5) {
+      return false;
+    }
+
+    if (
+      ethers.utils.hexDataSlice(data, 0, 4) !==
+      this.relayHub.interface.getSighash("relayCall")
+    ) {
+      return true;
+    }
+
+    // relayCall 의 5번째 인자 (externalGasLimit)
+    const externalGasLimit = BigNumber.from(
+      ethers.utils.hexDataSlice(data, 4 + 32 * 4, 4 + 32 * 5),
+    );
+
+    return !externalGasLimit.eq(gasLimit);
+  }
+
+  /** 처벌을 시뮬레이션한 뒤 commit 트랜잭션을 보냅니다. */
+  private async commit(offence: RelayOffence): Promise<Penalization> {
+    const penalizer = await this.getPenalizer();
+    const randomValue = BigNumber.from(ethers.utils.randomBytes(32));
+    const [first, second] = offence.transactions;
+    const method =
+      offence.type === "repeated-nonce"
+        ? "penalizeRepeatedNonce"
+        : "penalizeIllegalTransaction";
+    const revealData =
+      method === "penalizeRepeatedNonce"
+        ? penalizer.interface.encodeFunctionData(method, [
+            first.unsignedTx,
+            first.signature,
+            second.unsignedTx,
+            second.signature,
+            this.relayHub.address,
+            randomValue,
+          ])
+        : penalizer.interface.encodeFunctionData(method, [
+            first.unsignedTx,
+            first.signature,
+            this.relayHub.address,
+            randomValue,
+          ]);
+    const penalization: Penalization = {
+      offence,
+      status: "committed",
+      revealData,
+    };
+    this.penalizations.push(penalization);
+
+    try {
+      const result = await this.relayHub.provider.call({
+        from: ethers.constants.AddressZero,
+        to: penalizer.address,
+        data: revealData,
+      });
+
+      // revert 데이터를 반환하는 provider 도 있으므로 결과를 디코딩하여 revert 를 확인합니다.
+      // typechain 은 함수 이름별 overload 만 선언하므로 ethers Interface 로 디코딩합니다.
+      const penalizerInterface: ethers.utils.Interface = penalizer.interface;
+      penalizerInterface.decodeFunctionResult(method, result);
+    } catch (error) {
+      await this.fail(penalization, error);
+      return penalization;
+    }
+
+    try {
+      const commitHash = ethers.utils.solidityKeccak256(
+        ["bytes32", "address"],
+        [ethers.utils.keccak256(revealData), this.reporter.address],
+      );
+      const receipt = await (
+        await penalizer.connect(this.reporter).commit(commitHash)
+      ).wait();
+      const [committed] = receipt.logs
+        .filter(
+          (log) =>
+            log.address.toLowerCase() === penalizer.address.toLowerCase(),
+        )
+        .map((log) => penalizer.interface.parseLog(log));
+
+      penalization.commitHash = commitHash;
+      penalization.commitTransactionHash = receipt.transactionHash;
+      penalization.readyBlock = committed.args.readyBlockNumber.toNumber();
+    } catch (error) {
+      await this.fail(penalization, error);
+      return penalization;
+    }
+
+    await this.onPenalization?.(penalization);
+    return penalization;
+  }
+
+  /** readyBlock 이 지난 commit 을 reveal 합니다. (reveal 은 readyBlock 보다 뒤의 블록에 채굴되어야 합니다) */
+  private async revealReady(latestBlock: number): Promise<Penalization[]> {
+    const ready = this.penalizations.filter(
+      ({ status, readyBlock }) =>
+        status === "committed" &&
+        readyBlock !== undefined &&
+        readyBlock <= latestBlock,
+    );
+    const stakeManager = StakeManager__factory.connect(
+      await this.relayHub.stakeManager(),
+      this.relayHub.provider,
+    );
+
+    for (const penalization of ready) {
+      try {
+        const receipt = await (
+          await this.reporter.sendTransaction({
+            to: (await this.getPenalizer()).address,
+            data: penalization.revealData,
+          })
+        ).wait();
+        const [penalized] = receipt.logs
+          .filter(
+            (log) =>
+              log.address.toLowerCase() === stakeManager.address.toLowerCase(),
+          )
+          .map((log) => stakeManager.interface.parseLog(log))
+          .filter(({ name }) => name === "StakePenalized");
+
+        penalization.status = "penalized";
+        penalization.revealTransactionHash = receipt.transactionHash;
+        penalization.reward = penalized?.args.reward;
+      } catch (error) {
+        await this.fail(penalization, error);
+        continue;
+      }
+
+      await this.onPenalization?.(penalization);
+    }
+
+    return ready;
+  }
+
+  private async fail(
+    penalization: Penalization,
+    error: unknown,
+  ): Promise<void> {
+    const { data, message } = error as { data?: string; message: string };
+
+    penalization.status = "failed";
+    penalization.error =
+      typeof data === "string" ? decodeRevertData(data).message : message;
+
+    await this.onPenalization?.(penalization);
+  }
+
+  private async getPenalizer(): Promise<Penalizer> {
+    this.penalizer ??= Penalizer__factory.connect(
+      await this.relayHub.penalizer(),
+      this.relayHub.provider,
+    );
+
+    return this.penalizer;
+  }
+}
+
+/**
+ * 서명된 트랜잭션을 Penalizer 인자 (서명하지 않은 RLP 트랜잭션, 65 byte 서명) 로 변환합니다.
+ * 서명이 없거나 다시 직렬화한 트랜잭션이 원본과 다르면 undefined 를 반환합니다.
+ */
+function toWorkerTransaction(
+  transaction: ethers.Transaction & { blockNumber?: number },
+): WorkerTransaction | undefined {
+  try {
+    return {
+      ...toSignedRawTransaction(transaction),
+      blockNumber: transaction.blockNumber ?? undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
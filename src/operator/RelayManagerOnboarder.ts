@@ -0,0 +1,260 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractTransaction,
+  ethers,
+  Wallet,
+} from "ethers";
+import {
+  RelayHub,
+  StakeManager,
+  StakeManager__factory,
+} from "../../typechain-types";
+import { getRegisteredRelays } from "../client";
+
+export type OnboardingStepName =
+  | "setRelayManagerOwner"
+  | "authorizeHub"
+  | "stakeForRelayManager"
+  | "addRelayWorkers"
+  | "registerRelayServer";
+
+/**
+ * 온보딩 단계별 실행 결과입니다.
+ *
+ * @param step - {@link OnboardingStepName}
+ * @param status - "done": 이번 실행에서 트랜잭션을 제출함 / "skipped": 이미 완료된 상태
+ * @param txHash - 제출한 트랜잭션 해시 (status 가 "done" 인 경우)
+ */
+export interface OnboardingStepResult {
+  step: OnboardingStepName;
+  status: "done" | "skipped";
+  txHash?: string;
+}
+
+/**
+ * {@link RelayManagerOnboarder} 설정입니다.
+ *
+ * @param relayHub - 등록할 {@link RelayHub} (provider 가 연결되어 있어야 합니다)
+ * @param relayManager - relayManager EOA (setRelayManagerOwner / addRelayWorkers / registerRelayServer 서명)
+ * @param owner - stake 소유자 EOA (authorizeHubByOwner / stakeForRelayManager 서명)
+ * @param relayWorkers - relayManager 에 추가할 relayWorker 주소
+ * @param url - RelayHub.registerRelayServer 로 등록할 서버 URL
+ * @param stake - 목표 stake (wei, 기본값: RelayHub minimumStake)
+ * @param unstakeDelay - unstake 지연 블록 수 (기본값: RelayHub minimumUnstakeDelay)
+ * @param baseRelayFee - 등록할 고정 수수료 (wei, 기본값 0)
+ * @param pctRelayFee - 등록할 수수료 비율 (%, 기본값 0)
+ * @param fromBlock - RelayServerRegistered 조회 시작 블록 (RelayHub 배포 블록, 기본값 0)
+ * @param maxBlockRange - RelayServerRegistered 를 eth_getLogs 한 번에 조회할 최대 블록 수 (기본값 10,000)
+ */
+export interface RelayManagerOnboarderConfig {
+  relayHub: RelayHub;
+  relayManager: Wallet;
+  owner: Wallet;
+  relayWorkers: string[];
+  url: string;
+  stake?: BigNumberish;
+  unstakeDelay?: BigNumberish;
+  baseRelayFee?: BigNumberish;
+  pctRelayFee?: BigNumberish;
+  fromBlock?: number;
+  maxBlockRange?: number;
+}
+
+/**
+ * relay 운영자 온보딩 절차(setRelayManagerOwner → authorizeHubByOwner → stakeForRelayManager
+ * → addRelayWorkers → registerRelayServer)를 수행합니다.
+ *
+ * 각 단계 전에 StakeManager.stakes / authorizedHubs, RelayHub.workerToManager 와
+ * RelayServerRegistered 이벤트를 조회하여 이미 완료된 단계는 건너뛰므로,
+ * 중간에 실패하더라도 같은 설정으로 다시 실행하면 남은 단계만 수행합니다.
+ *
+ * @example
+ * const onboarder = new RelayManagerOnboarder({ relayHub, relayManager, owner, relayWorkers: [worker], url });
+ * const steps = await onboarder.run();
+ */
+export class RelayManagerOnboarder {
+  readonly relayHub: RelayHub;
+  readonly relayManager: Wallet;
+  readonly owner: Wallet;
+
+  constructor(readonly config: RelayManagerOnboarderConfig) {
+    const provider = config.relayHub.provider;
+
+    this.relayHub = config.relayHub;
+    this.relayManager = config.relayManager.connect(provider);
+    this.owner = config.owner.connect(provider);
+  }
+
+  /**
+   * 누락된 온보딩 단계를 순서대로 수행합니다.
+   *
+   * @returns 단계별 {@link OnboardingStepResult}
+   */
+  async run(): Promise<OnboardingStepResult[]> {
+    const stakeManager = StakeManager__factory.connect(
+      await this.relayHub.stakeManager(),
+      this.relayHub.provider,
+    );
+    const hubConfig = await this.relayHub.getConfiguration();
+
+    return [
+      await this.setRelayManagerOwner(stakeManager),
+      await this.authorizeHub(stakeManager),
+      await this.stakeForRelayManager(
+        stakeManager,
+        BigNumber.from(this.config.stake ?? hubConfig.minimumStake),
+        BigNumber.from(
+          this.config.unstakeDelay ?? hubConfig.minimumUnstakeDelay,
+        ),
+      ),
+      await this.addRelayWorkers(),
+      await this.registerRelayServer(),
+    ];
+  }
+
+  private async setRelayManagerOwner(
+    stakeManager: StakeManager,
+  ): Promise<OnboardingStepResult> {
+    const { owner } = await stakeManager.stakes(this.relayManager.address);
+
+    if (owner === this.owner.address) {
+      return skipped("setRelayManagerOwner");
+    }
+
+    if (owner !== ethers.constants.AddressZero) {
+      throw new Error(
+        `relay manager ${this.relayManager.address} is already owned by ${owner}`,
+      );
+    }
+
+    return done(
+      "setRelayManagerOwner",
+      await stakeManager
+        .connect(this.relayManager)
+        .setRelayManagerOwner(this.owner.address),
+    );
+  }
+
+  private async authorizeHub(
+    stakeManager: StakeManager,
+  ): Promise<OnboardingStepResult> {
+    const removalBlock = await stakeManager.authorizedHubs(
+      this.relayManager.address,
+      this.relayHub.address,
+    );
+
+    if (removalBlock.eq(ethers.constants.MaxUint256)) {
+      return skipped("authorizeHub");
+    }
+
+    return done(
+      "authorizeHub",
+      await stakeManager
+        .connect(this.owner)
+        .authorizeHubByOwner(this.relayManager.address, this.relayHub.address),
+    );
+  }
+
+  private async stakeForRelayManager(
+    stakeManager: StakeManager,
+    stake: BigNumber,
+    unstakeDelay: BigNumber,
+  ): Promise<OnboardingStepResult> {
+    const info = await stakeManager.stakes(this.relayManager.address);
+
+    if (!info.withdrawBlock.isZero()) {
+      throw new Error(
+        `stake of relay manager ${this.relayManager.address} is unlocked (withdrawBlock ${info.withdrawBlock})`,
+      );
+    }
+
+    if (info.stake.gte(stake) && info.unstakeDelay.gte(unstakeDelay)) {
+      return skipped("stakeForRelayManager");
+    }
+
+    // stakeForRelayManager 는 unstakeDelay 를 줄일 수 없으므로 기존 값보다 작게 요청하지 않습니다.
+    const nextUnstakeDelay = unstakeDelay.gt(info.unstakeDelay)
+      ? unstakeDelay
+      : info.unstakeDelay;
+
+    return done(
+      "stakeForRelayManager",
+      await stakeManager
+        .connect(this.owner)
+        .stakeForRelayManager(this.relayManager.address, nextUnstakeDelay, {
+          value: stake.gt(info.stake) ? stake.sub(info.stake) : 0,
+        }),
+    );
+  }
+
+  private async addRelayWorkers(): Promise<OnboardingStepResult> {
+    const missing: string[] = [];
+
+    for (const worker of this.config.relayWorkers) {
+      const manager = await this.relayHub.workerToManager(worker);
+
+      if (manager === ethers.constants.AddressZero) {
+        missing.push(worker);
+      } else if (manager !== this.relayManager.address) {
+        throw new Error(
+          `relay worker ${worker} belongs to another manager ${manager}`,
+        );
+      }
+    }
+
+    if (missing.length === 0) {
+      return skipped("addRelayWorkers");
+    }
+
+    return done(
+      "addRelayWorkers",
+      await this.relayHub.connect(this.relayManager).addRelayWorkers(missing),
+    );
+  }
+
+  /**
+   * RelayHub 는 등록 정보를 저장하지 않으므로, 가장 최근 RelayServerRegistered 이벤트의
+   * 수수료 / URL 이 설정과 같으면 등록된 것으로 간주합니다.
+   * 이벤트는 {@link getRegisteredRelays} 로 fromBlock 부터 maxBlockRange 단위로 나누어 조회합니다.
+   */
+  private async registerRelayServer(): Promise<OnboardingStepResult> {
+    const baseRelayFee = BigNumber.from(this.config.baseRelayFee ?? 0);
+    const pctRelayFee = BigNumber.from(this.config.pctRelayFee ?? 0);
+
+    const [latest] = await getRegisteredRelays(this.relayHub, {
+      fromBlock: this.config.fromBlock,
+      maxBlockRange: this.config.maxBlockRange,
+      relayManager: this.relayManager.address,
+    });
+
+    if (
+      latest !== undefined &&
+      latest.baseRelayFee.eq(baseRelayFee) &&
+      latest.pctRelayFee.eq(pctRelayFee) &&
+      latest.url === this.config.url
+    ) {
+      return skipped("registerRelayServer");
+    }
+
+    return done(
+      "registerRelayServer",
+      await this.relayHub
+        .connect(this.relayManager)
+        .registerRelayServer(baseRelayFee, pctRelayFee, this.config.url),
+    );
+  }
+}
+
+function skipped(step: OnboardingStepName): OnboardingStepResult {
+  return { step, status: "skipped" };
+}
+
+async function done(
+  step: OnboardingStepName,
+  transaction: ContractTransaction,
+): Promise<OnboardingStepResult> {
+  await transaction.wait();
+
+  return { step, status: "done", txHash: transaction.hash };
+}
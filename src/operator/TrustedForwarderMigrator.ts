@@ -0,0 +1,105 @@
+import { ContractTransaction, Wallet } from "ethers";
+import { GasFreeERC20, GasFreeERC20__factory } from "../../typechain-types";
+
+/**
+ * 토큰 하나의 Forwarder 이전 결과입니다.
+ *
+ * @param added - addTrustedForwarder 트랜잭션 해시 (이미 신뢰 중이면 undefined)
+ * @param removed - 제거한 이전 Forwarder 와 removeTrustedForwarder 트랜잭션 해시
+ * @param trustedForwarders - 이전 후 신뢰 중인 Forwarder 목록
+ */
+export interface ForwarderMigrationResult {
+  token: string;
+  added?: string;
+  removed: { forwarder: string; txHash: string }[];
+  trustedForwarders: string[];
+}
+
+/**
+ * 이미 배포된 {@link GasFreeERC20} 토큰들이 새 Forwarder 를 신뢰하도록 변경합니다.
+ * (signer 는 각 토큰의 `FORWARDER_ADMIN_ROLE` 을 가지고 있어야 합니다)
+ *
+ * 새 Forwarder 를 먼저 추가한 뒤 이전 Forwarder 를 제거하므로, 이전 중에도 메타 트랜잭션이 끊기지 않습니다.
+ *
+ * @example
+ * const migrator = new TrustedForwarderMigrator(admin.connect(provider));
+ * await migrator.migrate([clamCoin.address], newForwarder.address, { removeOthers: true });
+ */
+export class TrustedForwarderMigrator {
+  constructor(readonly signer: Wallet) {}
+
+  /**
+   * @param removeOthers - true 이면 새 Forwarder 외의 Forwarder 를 모두 제거합니다.
+   *   (false 이면 이전 Forwarder 로 서명된 요청도 계속 처리됩니다)
+   */
+  async migrate(
+    tokens: string[],
+    forwarder: string,
+    options: { removeOthers?: boolean } = {},
+  ): Promise<ForwarderMigrationResult[]> {
+    const results: ForwarderMigrationResult[] = [];
+
+    // 같은 signer 의 nonce 충돌을 피하기 위해 토큰을 순서대로 처리합니다.
+    for (const token of tokens) {
+      results.push(
+        await this.migrateToken(
+          GasFreeERC20__factory.connect(token, this.signer),
+          forwarder,
+          options.removeOthers ?? false,
+        ),
+      );
+    }
+
+    return results;
+  }
+
+  private async migrateToken(
+    token: GasFreeERC20,
+    forwarder: string,
+    removeOthers: boolean,
+  ): Promise<ForwarderMigrationResult> {
+    const hasRole = await token.hasRole(
+      await token.FORWARDER_ADMIN_ROLE(),
+      this.signer.address,
+    );
+
+    if (!hasRole) {
+      throw new Error(
+        `${this.signer.address} does not have FORWARDER_ADMIN_ROLE of ${token.address}`,
+      );
+    }
+
+    const result: ForwarderMigrationResult = {
+      token: token.address,
+      removed: [],
+      trustedForwarders: [],
+    };
+
+    if (!(await token.isTrustedForwarder(forwarder))) {
+      result.added = await wait(await token.addTrustedForwarder(forwarder));
+    }
+
+    if (removeOthers) {
+      for (const previous of await token.trustedForwarders()) {
+        if (previous.toLowerCase() === forwarder.toLowerCase()) {
+          continue;
+        }
+
+        result.removed.push({
+          forwarder: previous,
+          txHash: await wait(await token.removeTrustedForwarder(previous)),
+        });
+      }
+    }
+
+    result.trustedForwarders = await token.trustedForwarders();
+
+    return result;
+  }
+}
+
+async function wait(transaction: ContractTransaction): Promise<string> {
+  await transaction.wait();
+
+  return transaction.hash;
+}
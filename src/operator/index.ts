@@ -0,0 +1,7 @@
+export * from "./RelayManagerOnboarder";
+export * from "./PaymasterDepositManager";
+export * from "./PaymasterMonitor";
+export * from "./AllowlistPaymasterAdmin";
+export * from "./TrustedForwarderMigrator";
+export * from "./PenalizerWatchdog";
+export * from "./rawTransaction";
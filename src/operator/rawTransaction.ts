@@ -0,0 +1,210 @@
+import { BigNumber, BytesLike, ethers, providers } from "ethers";
+
+/**
+ * `Penalizer.decodeTransaction` 이 반환하는 값 (`IPenalizer.Transaction`) 입니다.
+ * 컨트랙트 생성 트랜잭션의 to 는 RLPReader 와 같이 address(0) 입니다.
+ */
+export interface PenalizerTransaction {
+  nonce: BigNumber;
+  gasLimit: BigNumber;
+  to: string;
+  value: BigNumber;
+  data: string;
+}
+
+/**
+ * 노드에서 가져온 서명 트랜잭션과 Penalizer 에 제출할 증거입니다.
+ *
+ * @param raw - 서명된 RLP 트랜잭션 (keccak256(raw) 가 hash 와 같음)
+ * @param unsignedTx - 서명 대상 RLP 트랜잭션 (Penalizer 의 unsignedTx 인자)
+ * @param signature - keccak256(unsignedTx) 에 대한 65 byte 서명 r ‖ s ‖ v (v 는 27 / 28)
+ * @param from - unsignedTx 와 signature 로 복구한 서명자
+ * @param decoded - unsignedTx 를 `Penalizer.decodeTransaction` 과 같이 디코딩한 값
+ */
+export interface SignedRawTransaction {
+  hash: string;
+  type: number;
+  from: string;
+  raw: string;
+  unsignedTx: string;
+  signature: string;
+  decoded: PenalizerTransaction;
+}
+
+/** 각 트랜잭션 타입의 RLP 목록에서 (nonce, gasLimit, to, value, data) 의 위치 */
+const FIELD_INDEXES: Record<number, [number, number, number, number, number]> =
+  {
+    // rlp([nonce, gasPrice, gasLimit, to, value, data, ...])
+    0: [0, 2, 3, 4, 5],
+    // 0x01 || rlp([chainId, nonce, gasPrice, gasLimit, to, value, data, accessList])
+    1: [1, 3, 4, 5, 6],
+    // 0x02 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList])
+    2: [1, 4, 5, 6, 7],
+  };
+
+/**
+ * `Penalizer.isTransactionTypeValid` 와 같이 첫 byte 로 legacy (0xc0 ~ 0xfe), type-1, type-2 트랜잭션인지 확인합니다.
+ */
+export function isTransactionTypeValid(rawTransaction: BytesLike): boolean {
+  const bytes = ethers.utils.arrayify(rawTransaction);
+
+  if (bytes.length === 0) {
+    return false;
+  }
+
+  return (
+    (bytes[0] >= 0xc0 && bytes[0] <= 0xfe) || bytes[0] === 1 || bytes[0] === 2
+  );
+}
+
+/**
+ * `Penalizer.decodeTransaction` 과 같이 (서명되지 않은 또는 서명된) RLP 트랜잭션에서
+ * nonce, gasLimit, to, value, data 를 읽습니다. RLP 목록이 아니면 오류를 던집니다. (Penalizer 는 revert)
+ */
+export function decodeTransaction(
+  rawTransaction: BytesLike,
+): PenalizerTransaction {
+  const bytes = ethers.utils.arrayify(rawTransaction);
+  // Penalizer 와 같이 type-1, type-2 가 아니면 legacy 로 디코딩합니다.
+  const type = bytes[0] === 1 || bytes[0] === 2 ? bytes[0] : 0;
+  const fields = ethers.utils.RLP.decode(type === 0 ? bytes : bytes.slice(1));
+
+  if (!Array.isArray(fields)) {
+    throw new Error("transaction is not an RLP list");
+  }
+
+  const [nonce, gasLimit, to, value, data] = FIELD_INDEXES[type].map(
+    (index) => fields[index],
+  );
+
+  return {
+    nonce: toUint(nonce),
+    gasLimit: toUint(gasLimit),
+    to: ethers.utils.getAddress(
+      ethers.utils.hexZeroPad(toUint(to).toHexString(), 20),
+    ),
+    value: toUint(value),
+    data,
+  };
+}
+
+/** RLPReader.toUint 와 같이 빈 값 (0x80) 을 0 으로 읽습니다. */
+function toUint(item: string): BigNumber {
+  return BigNumber.from(item === "0x" ? 0 : item);
+}
+
+/**
+ * `_penalizeRepeatedNonce` 가 비교하는 `abi.encodePacked(data, gasLimit, to, value)` 가 같은지 확인합니다.
+ * 같으면 Penalizer 는 "tx is equal" 로 revert 합니다. (gasPrice, chainId 등은 비교하지 않습니다)
+ */
+export function isSamePenalizerPayload(
+  a: PenalizerTransaction,
+  b: PenalizerTransaction,
+): boolean {
+  const pack = ({ data, gasLimit, to, value }: PenalizerTransaction) =>
+    ethers.utils.solidityKeccak256(
+      ["bytes", "uint256", "address", "uint256"],
+      [data, gasLimit, to, value],
+    );
+
+  return pack(a) === pack(b);
+}
+
+/**
+ * 서명된 트랜잭션(ethers `Transaction`, `TransactionResponse`)에서 서명 대상 payload 와 65 byte 서명을 만듭니다.
+ * 다시 직렬화한 서명 트랜잭션의 해시가 원래 해시와 다르거나 서명자가 from 과 다르면 오류를 던지므로,
+ * 반환된 증거는 Penalizer 에서 "Different signer" 로 revert 하지 않습니다.
+ */
+export function toSignedRawTransaction(
+  transaction: ethers.Transaction,
+): SignedRawTransaction {
+  const { hash, from, r, s, v } = transaction;
+
+  if (r === undefined || s === undefined || v === undefined) {
+    throw new Error("transaction is not signed");
+  }
+
+  const type = transaction.type ?? 0;
+  const unsigned: ethers.UnsignedTransaction = {
+    type,
+    chainId: transaction.chainId,
+    nonce: transaction.nonce,
+    gasLimit: transaction.gasLimit,
+    to: transaction.to ?? undefined,
+    value: transaction.value,
+    data: transaction.data,
+    ...(type === 2
+      ? {
+          maxFeePerGas: transaction.maxFeePerGas,
+          maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+        }
+      : { gasPrice: transaction.gasPrice }),
+    ...(type !== 0 ? { accessList: transaction.accessList ?? [] } : {}),
+  };
+  const signature = ethers.utils.joinSignature({ r, s, v });
+  const unsignedTx = ethers.utils.serializeTransaction(unsigned);
+  const raw = ethers.utils.serializeTransaction(unsigned, signature);
+  const signer = ethers.utils.recoverAddress(
+    ethers.utils.keccak256(unsignedTx),
+    signature,
+  );
+
+  if (hash !== undefined && ethers.utils.keccak256(raw) !== hash) {
+    throw new Error(`re-serialized transaction does not match ${hash}`);
+  }
+
+  if (from !== undefined && signer !== ethers.utils.getAddress(from)) {
+    throw new Error(`transaction ${hash} is signed by ${signer}, not ${from}`);
+  }
+
+  return {
+    hash: ethers.utils.keccak256(raw),
+    type,
+    from: signer,
+    raw,
+    unsignedTx,
+    signature,
+    decoded: decodeTransaction(unsignedTx),
+  };
+}
+
+/**
+ * 서명된 RLP 트랜잭션 (예: Relay 가 반환한 signedTx) 을 {@link SignedRawTransaction} 으로 변환합니다.
+ */
+export function parseSignedRawTransaction(
+  raw: BytesLike,
+): SignedRawTransaction {
+  return toSignedRawTransaction(ethers.utils.parseTransaction(raw));
+}
+
+/**
+ * 노드에서 트랜잭션을 가져와 {@link SignedRawTransaction} 으로 변환합니다.
+ * `eth_getRawTransactionByHash` 를 지원하지 않는 노드에서는 `eth_getTransactionByHash` 의 필드로 다시 직렬화합니다.
+ */
+export async function getSignedRawTransaction(
+  provider: providers.Provider,
+  hash: string,
+): Promise<SignedRawTransaction> {
+  if (provider instanceof providers.JsonRpcProvider) {
+    try {
+      const raw: string | null = await provider.send(
+        "eth_getRawTransactionByHash",
+        [hash],
+      );
+
+      if (raw !== null && ethers.utils.isHexString(raw) && raw !== "0x") {
+        return parseSignedRawTransaction(raw);
+      }
+    } catch {
+      // eth_getRawTransactionByHash 를 지원하지 않는 노드
+    }
+  }
+
+  const transaction = await provider.getTransaction(hash);
+
+  if (transaction === null) {
+    throw new Error(`transaction ${hash} not found`);
+  }
+
+  return toSignedRawTransaction(transaction);
+}
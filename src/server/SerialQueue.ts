@@ -0,0 +1,17 @@
+/**
+ * 작업을 등록된 순서대로 하나씩 실행하는 큐입니다.
+ *
+ * 같은 EOA 로 여러 트랜잭션을 동시에 제출할 때, nonce 조회 ~ 전송 구간이 겹치지 않도록 사용합니다.
+ * 앞선 작업이 실패해도 이후 작업은 계속 실행됩니다.
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+
+    this.tail = result.catch(() => undefined);
+
+    return result;
+  }
+}
@@ -0,0 +1,338 @@
+import { BigNumber, BigNumberish, ethers, Wallet } from "ethers";
+import { MemoryStore, Store } from "../store";
+import { SerialQueue } from "./SerialQueue";
+
+/** 대부분의 노드(geth 등)가 같은 nonce 의 교체 트랜잭션에 요구하는 최소 gasPrice 인상률(10%)보다 큰 기본값 */
+const DEFAULT_GAS_PRICE_BUMP_PERCENT = 12;
+
+/** 이 시간(ms) 이상 채굴되지 않은 트랜잭션을 stuck 으로 간주합니다. */
+const DEFAULT_STUCK_TIMEOUT_MS = 60_000;
+
+/** 같은 nonce 가 이미 채굴되었거나 같은 트랜잭션이 이미 노드에 있을 때의 오류 (ethers NONCE_EXPIRED, geth / hardhat 메시지) */
+const STALE_BROADCAST_ERROR =
+  /nonce (is )?too low|nonce_expired|already known|known transaction/i;
+
+/**
+ * relayWorker 가 제출할 트랜잭션 내용입니다.
+ *
+ * Penalizer.penalizeRepeatedNonce 는 같은 nonce 로 서명된 두 트랜잭션의
+ * (data, gasLimit, to, value) 가 다르면 relayManager 를 slash 합니다.
+ * 따라서 한 번 서명된 nonce 에 대해서는 이 값들이 절대 바뀌지 않아야 합니다.
+ */
+export interface TransactionPayload {
+  to: string;
+  data: string;
+  gasLimit: BigNumberish;
+  value?: BigNumberish;
+}
+
+/**
+ * {@link TransactionManager} 가 관리 / 영속화하는 미확정 트랜잭션입니다.
+ *
+ * @param from - relayWorker 주소
+ * @param nonce - relayWorker nonce
+ * @param to / data / gasLimit / value - 최초 서명 이후 변경되지 않는 내용
+ * @param gasPrice - 가장 최근에 서명된 버전의 gasPrice
+ * @param chainId - 체인 ID
+ * @param signedTx - 가장 최근에 서명된 버전 (legacy, RLP 인코딩)
+ * @param hashes - 지금까지 브로드캐스트한 모든 버전의 트랜잭션 해시
+ * @param submittedAt - 가장 최근 버전을 브로드캐스트한 시각 (ms)
+ */
+export interface ManagedTransaction {
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  gasLimit: string;
+  value: string;
+  gasPrice: string;
+  chainId: number;
+  signedTx: string;
+  hashes: string[];
+  submittedAt: number;
+}
+
+/**
+ * {@link TransactionManager} 설정입니다.
+ *
+ * @param signer - 트랜잭션을 서명 / 제출할 relayWorker (provider 가 연결되어 있어야 합니다)
+ * @param store - 미확정 트랜잭션 저장소 (기본값: 메모리. 재시작 후에도 nonce 를 보존하려면 JsonFileStore 사용)
+ * @param gasPriceBumpPercent - stuck 트랜잭션 교체 시 gasPrice 인상률 (%)
+ * @param maxGasPrice - 교체 시 gasPrice 의 상한
+ * @param stuckTimeoutMs - 이 시간 이상 채굴되지 않으면 {@link TransactionManager.bumpStuckTransactions} 에서 교체
+ */
+export interface TransactionManagerConfig {
+  signer: Wallet;
+  store?: Store<ManagedTransaction[]>;
+  gasPriceBumpPercent?: number;
+  maxGasPrice?: BigNumberish;
+  stuckTimeoutMs?: number;
+}
+
+/**
+ * relayWorker EOA 의 트랜잭션을 큐에 넣어 순서대로 nonce 를 할당하고,
+ * 채굴되지 않은 트랜잭션을 영속화 / 재전송 / gasPrice 인상(교체)하는 관리자입니다.
+ *
+ * 같은 nonce 로는 최초 서명된 (to, data, gasLimit, value) 와 동일하고 gasPrice 만 높은 트랜잭션만 서명하므로,
+ * 교체 과정에서 Penalizer.penalizeRepeatedNonce 로 처벌 가능한 트랜잭션 쌍이 만들어지지 않습니다.
+ *
+ * @example
+ * const manager = new TransactionManager({ signer: relayWorker, store: new JsonFileStore("./worker.json") });
+ * const tx = await manager.send({ to, data, gasLimit }, gasPrice);
+ * setInterval(() => manager.bumpStuckTransactions(), 30_000);
+ */
+export class TransactionManager {
+  readonly signer: Wallet;
+
+  private readonly store: Store<ManagedTransaction[]>;
+
+  private readonly gasPriceBumpPercent: number;
+
+  private readonly maxGasPrice?: BigNumber;
+
+  private readonly stuckTimeoutMs: number;
+
+  private readonly queue = new SerialQueue();
+
+  /** nonce => 미확정 트랜잭션 */
+  private pending?: Map<number, ManagedTransaction>;
+
+  private nextNonce = 0;
+
+  constructor(config: TransactionManagerConfig) {
+    this.signer = config.signer;
+    this.store = config.store ?? new MemoryStore();
+    this.gasPriceBumpPercent =
+      config.gasPriceBumpPercent ?? DEFAULT_GAS_PRICE_BUMP_PERCENT;
+    this.maxGasPrice =
+      config.maxGasPrice !== undefined
+        ? BigNumber.from(config.maxGasPrice)
+        : undefined;
+    this.stuckTimeoutMs = config.stuckTimeoutMs ?? DEFAULT_STUCK_TIMEOUT_MS;
+  }
+
+  /** 채굴이 확인되지 않은 트랜잭션 목록 (nonce 오름차순) */
+  async getPendingTransactions(): Promise<ManagedTransaction[]> {
+    return this.queue.run(async () => {
+      await this.load();
+      return this.sortedPending();
+    });
+  }
+
+  /**
+   * 다음 nonce 로 트랜잭션을 서명 / 저장한 뒤 브로드캐스트합니다.
+   *
+   * 브로드캐스트가 실패해도 (RPC timeout 등) 서명된 트랜잭션은 이미 전파되었을 수 있으므로 기록과 nonce 를 되돌리지 않고 오류를 던집니다.
+   * 기록된 트랜잭션은 노드가 거부한 경우에도 {@link TransactionManager.rebroadcastPendingTransactions} / {@link TransactionManager.bumpStuckTransactions} 에서 같은 내용으로만 재전송됩니다.
+   *
+   * @param maxNonce - 할당될 nonce 의 상한 (GSN RelayRequest 의 relayMaxNonce)
+   */
+  async send(
+    payload: TransactionPayload,
+    gasPrice: BigNumberish,
+    maxNonce?: number,
+  ): Promise<ManagedTransaction> {
+    return this.queue.run(async () => {
+      await this.load();
+
+      const nonce = this.nextNonce;
+
+      if (maxNonce !== undefined && nonce > maxNonce) {
+        throw new Error(
+          `relay worker nonce ${nonce} exceeds max nonce ${maxNonce}`,
+        );
+      }
+
+      const { chainId } = await this.signer.provider.getNetwork();
+
+      const transaction = await this.sign({
+        from: this.signer.address,
+        nonce,
+        to: payload.to,
+        data: payload.data,
+        gasLimit: BigNumber.from(payload.gasLimit).toString(),
+        value: BigNumber.from(payload.value ?? 0).toString(),
+        gasPrice: BigNumber.from(gasPrice).toString(),
+        chainId,
+        signedTx: "",
+        hashes: [],
+        submittedAt: Date.now(),
+      });
+
+      // 서명된 트랜잭션은 브로드캐스트 전에 저장하여, 재시작 후에도 같은 nonce 를 다른 내용으로 서명하지 않도록 합니다.
+      this.nextNonce = nonce + 1;
+      await this.save(transaction);
+
+      await this.broadcast(transaction.signedTx);
+
+      return transaction;
+    });
+  }
+
+  /**
+   * 채굴된 트랜잭션을 목록에서 제거하고, stuckTimeoutMs 이상 채굴되지 않은 트랜잭션을
+   * 같은 내용 / 높은 gasPrice 의 트랜잭션으로 교체합니다.
+   *
+   * 원래 트랜잭션이 이미 채굴되었거나 (nonce too low) 교체 트랜잭션이 이미 노드에 있으면 (already known) 건너뜁니다.
+   * 그 외의 브로드캐스트 오류 (잔액 부족, replacement underpriced, RPC 장애 등) 는 해당 트랜잭션의 기록을
+   * 마지막으로 브로드캐스트한 버전으로 되돌린 뒤 그대로 던집니다. (이후 nonce 는 교체하지 않습니다)
+   *
+   * @returns 교체된 트랜잭션 목록
+   */
+  async bumpStuckTransactions(now = Date.now()): Promise<ManagedTransaction[]> {
+    return this.queue.run(async () => {
+      await this.load();
+      await this.removeMined();
+
+      const bumped: ManagedTransaction[] = [];
+
+      for (const transaction of this.sortedPending()) {
+        if (now - transaction.submittedAt < this.stuckTimeoutMs) {
+          continue;
+        }
+
+        let gasPrice = BigNumber.from(transaction.gasPrice)
+          .mul(100 + this.gasPriceBumpPercent)
+          .div(100);
+
+        if (this.maxGasPrice !== undefined && gasPrice.gt(this.maxGasPrice)) {
+          gasPrice = this.maxGasPrice;
+        }
+
+        if (gasPrice.lte(transaction.gasPrice)) {
+          continue;
+        }
+
+        const replacement = await this.sign({
+          ...transaction,
+          gasPrice: gasPrice.toString(),
+          submittedAt: now,
+        });
+
+        await this.save(replacement);
+
+        try {
+          await this.broadcast(replacement.signedTx);
+        } catch (error) {
+          // 교체 직전에 원래 트랜잭션이 채굴된 경우 등은 다음 트랜잭션을 계속 교체합니다.
+          if (isStaleBroadcastError(error)) {
+            continue;
+          }
+
+          // 내용이 같으므로 이전 버전으로 되돌려도 안전합니다. (교체 트랜잭션의 해시는 hashes 에 남겨 둡니다)
+          await this.save({ ...transaction, hashes: replacement.hashes });
+          throw error;
+        }
+
+        bumped.push(replacement);
+      }
+
+      return bumped;
+    });
+  }
+
+  /**
+   * 저장된 미확정 트랜잭션을 (마지막 버전 그대로) 다시 브로드캐스트합니다.
+   * 노드 재시작이나 일시적인 거부 (잔액 부족 등) 로 전파되지 않은 nonce 도 같은 내용으로만 다시 보냅니다.
+   */
+  async rebroadcastPendingTransactions(): Promise<void> {
+    return this.queue.run(async () => {
+      await this.load();
+      await this.removeMined();
+
+      for (const transaction of this.sortedPending()) {
+        await this.broadcast(transaction.signedTx).catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * 저장소의 미확정 트랜잭션을 읽고, 노드의 pending nonce 와 비교하여 다음 nonce 를 결정합니다.
+   */
+  private async load(): Promise<void> {
+    if (this.pending !== undefined) {
+      return;
+    }
+
+    const stored = (await this.store.read()) ?? [];
+    const pending = new Map(
+      stored
+        .filter(
+          (transaction) =>
+            transaction.from.toLowerCase() ===
+            this.signer.address.toLowerCase(),
+        )
+        .map((transaction) => [transaction.nonce, transaction]),
+    );
+    const networkNonce = await this.signer.getTransactionCount("pending");
+    const storedNonce = Math.max(-1, ...pending.keys()) + 1;
+
+    this.pending = pending;
+    this.nextNonce = Math.max(networkNonce, storedNonce);
+  }
+
+  /** 채굴된(같은 nonce 의 어떤 버전이든) 트랜잭션을 목록에서 제거합니다. */
+  private async removeMined(): Promise<void> {
+    const minedNonce = await this.signer.getTransactionCount("latest");
+    let changed = false;
+
+    for (const nonce of [...this.pending!.keys()]) {
+      if (nonce < minedNonce) {
+        this.pending!.delete(nonce);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * 저장된 내용으로 트랜잭션을 서명합니다.
+   * nonce / to / data / gasLimit / value 는 항상 기존 기록에서 가져오므로 교체 시에도 바뀌지 않습니다.
+   */
+  private async sign(
+    transaction: ManagedTransaction,
+  ): Promise<ManagedTransaction> {
+    const signedTx = await this.signer.signTransaction({
+      type: 0,
+      chainId: transaction.chainId,
+      nonce: transaction.nonce,
+      to: transaction.to,
+      data: transaction.data,
+      gasLimit: BigNumber.from(transaction.gasLimit),
+      value: BigNumber.from(transaction.value),
+      gasPrice: BigNumber.from(transaction.gasPrice),
+    });
+
+    return {
+      ...transaction,
+      signedTx,
+      hashes: [...transaction.hashes, ethers.utils.keccak256(signedTx)],
+    };
+  }
+
+  private async broadcast(signedTx: string): Promise<void> {
+    await this.signer.provider.sendTransaction(signedTx);
+  }
+
+  private async save(transaction: ManagedTransaction): Promise<void> {
+    this.pending!.set(transaction.nonce, transaction);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.write(this.sortedPending());
+  }
+
+  private sortedPending(): ManagedTransaction[] {
+    return [...this.pending!.values()].sort((a, b) => a.nonce - b.nonce);
+  }
+}
+
+function isStaleBroadcastError(error: unknown): boolean {
+  const { code, message } = error as { code?: string; message?: string };
+
+  return code === "NONCE_EXPIRED" || STALE_BROADCAST_ERROR.test(message ?? "");
+}
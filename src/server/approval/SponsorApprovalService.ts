@@ -0,0 +1,213 @@
+import { Server } from "http";
+import { BigNumber, BigNumberish, ethers, Wallet } from "ethers";
+import { RelayCallPayload } from "../../client";
+import { closeServer, HttpError, listenJson } from "../http";
+import { SponsorshipPolicy } from "../trusted";
+
+/** 승인 서명의 기본 유효 시간 (초) */
+const DEFAULT_VALID_FOR_SECONDS = 5 * 60;
+
+/** `abi.encode(GsnTypes.RelayRequest)` 의 ABI 타입 */
+const RELAY_REQUEST_ABI_TYPE =
+  "tuple(" +
+  "tuple(address from,address to,uint256 value,uint256 gas,uint256 nonce,bytes data,uint256 validUntil) request," +
+  "tuple(uint256 gasPrice,uint256 pctRelayFee,uint256 baseRelayFee,address relayWorker,address paymaster,address forwarder,bytes paymasterData,uint256 clientId) relayData" +
+  ")";
+
+/** {@link RelayHub.relayCall} 의 relayRequest 인자 (ForwardRequest + RelayData) */
+export type RelayRequest = RelayCallPayload["relayRequest"];
+
+/**
+ * {@link SponsorApprovalService.approve} 의 결과입니다.
+ *
+ * @param approvalData - relayCall 의 approvalData 로 전달할 `abi.encode(expiry, signature)`
+ * @param expiry - 승인이 유효한 마지막 시각 (unix timestamp, 초)
+ */
+export interface SponsorApproval {
+  approvalData: string;
+  expiry: number;
+}
+
+/**
+ * {@link SponsorApprovalService} 설정입니다.
+ *
+ * @param approver - VerifyingPaymaster 에 등록된 승인 서명 키
+ * @param paymaster - VerifyingPaymaster 주소
+ * @param chainId - VerifyingPaymaster 가 배포된 체인 ID
+ * @param policy - 승인 여부를 결정하는 {@link SponsorshipPolicy} (백엔드 비즈니스 검사)
+ * @param validForSeconds - 승인 서명의 유효 시간 (기본값 300초)
+ */
+export interface SponsorApprovalServiceConfig {
+  approver: Wallet;
+  paymaster: string;
+  chainId: number;
+  policy: SponsorshipPolicy;
+  validForSeconds?: number;
+}
+
+/**
+ * {@link VerifyingPaymaster.getApprovalHash} 와 같은 승인 해시를 계산합니다.
+ */
+export function getApprovalHash(
+  chainId: BigNumberish,
+  paymaster: string,
+  relayRequest: RelayRequest,
+  expiry: BigNumberish,
+): string {
+  const coder = ethers.utils.defaultAbiCoder;
+
+  return ethers.utils.keccak256(
+    coder.encode(
+      ["uint256", "address", "bytes32", "uint256"],
+      [
+        chainId,
+        paymaster,
+        ethers.utils.keccak256(
+          coder.encode([RELAY_REQUEST_ABI_TYPE], [relayRequest]),
+        ),
+        expiry,
+      ],
+    ),
+  );
+}
+
+/**
+ * VerifyingPaymaster 가 요구하는 승인 서명(approvalData)을 발급하는 서비스입니다.
+ *
+ * 요청이 {@link SponsorshipPolicy} 를 통과하면 요청 전체(RelayRequest)와 만료 시각에 대해 approver 키로 서명합니다.
+ * 후원 여부는 백엔드 정책으로만 결정되므로, 정책을 바꿔도 컨트랙트를 다시 배포할 필요가 없습니다.
+ *
+ * @example
+ * const service = new SponsorApprovalService({ approver, paymaster, chainId, policy });
+ * await service.listen(8092);
+ * // POST /approve  body: payload.relayRequest  =>  { approvalData, expiry }
+ */
+export class SponsorApprovalService {
+  readonly approver: Wallet;
+  readonly paymaster: string;
+  readonly chainId: number;
+  readonly policy: SponsorshipPolicy;
+  readonly validForSeconds: number;
+
+  private server?: Server;
+
+  constructor(config: SponsorApprovalServiceConfig) {
+    this.approver = config.approver;
+    this.paymaster = config.paymaster;
+    this.chainId = config.chainId;
+    this.policy = config.policy;
+    this.validForSeconds = config.validForSeconds ?? DEFAULT_VALID_FOR_SECONDS;
+  }
+
+  /**
+   * 요청을 검사하고 승인 서명을 발급합니다. 후원 대상이 아니면 오류를 던집니다.
+   *
+   * @param now - 만료 시각 계산 기준 (unix timestamp, 초)
+   */
+  async approve(
+    relayRequest: RelayRequest,
+    now = Math.floor(Date.now() / 1000),
+  ): Promise<SponsorApproval> {
+    if (
+      relayRequest.relayData.paymaster.toLowerCase() !==
+      this.paymaster.toLowerCase()
+    ) {
+      throw new Error(
+        `relayData.paymaster ${relayRequest.relayData.paymaster} is not ${this.paymaster}`,
+      );
+    }
+
+    const decision = await this.policy.evaluate(relayRequest.request);
+
+    if (!decision.sponsored) {
+      throw new Error(`request is not sponsored: ${decision.reason}`);
+    }
+
+    const expiry = now + this.validForSeconds;
+    const signature = await this.approver.signMessage(
+      ethers.utils.arrayify(
+        getApprovalHash(this.chainId, this.paymaster, relayRequest, expiry),
+      ),
+    );
+
+    return {
+      approvalData: ethers.utils.defaultAbiCoder.encode(
+        ["uint256", "bytes"],
+        [expiry, signature],
+      ),
+      expiry,
+    };
+  }
+
+  /**
+   * HTTP 서버를 시작합니다.
+   *
+   * @param port - 0 이면 임의의 포트를 사용합니다.
+   * @returns 실제로 listen 중인 포트
+   */
+  async listen(port: number, host = "127.0.0.1"): Promise<number> {
+    const listening = await listenJson(
+      {
+        "POST /approve": async (body) => this.approve(toRelayRequest(body)),
+      },
+      port,
+      host,
+    );
+
+    this.server = listening.server;
+
+    return listening.port;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+
+    if (server === undefined) {
+      return;
+    }
+
+    this.server = undefined;
+
+    await closeServer(server);
+  }
+}
+
+/**
+ * JSON 본문을 {@link RelayRequest} 로 변환합니다.
+ * 숫자 필드는 10진수 / 16진수 문자열 또는 ethers BigNumber 의 JSON 형식을 허용합니다.
+ */
+function toRelayRequest(body: unknown): RelayRequest {
+  const relayRequest = body as RelayRequest | undefined;
+  const request = relayRequest?.request;
+  const relayData = relayRequest?.relayData;
+
+  const fields = [
+    request?.from,
+    request?.to,
+    request?.gas,
+    request?.nonce,
+    request?.data,
+    request?.validUntil,
+    relayData?.relayWorker,
+    relayData?.paymaster,
+    relayData?.forwarder,
+  ];
+
+  if (
+    request === undefined ||
+    request.value === undefined ||
+    relayData === undefined ||
+    fields.some((field) => typeof field !== "string")
+  ) {
+    throw new HttpError(400, "invalid relay request");
+  }
+
+  try {
+    return {
+      request: { ...request, value: BigNumber.from(request.value) },
+      relayData,
+    };
+  } catch {
+    throw new HttpError(400, "invalid relay request value");
+  }
+}
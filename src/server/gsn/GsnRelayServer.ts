@@ -0,0 +1,390 @@
+import { Server } from "http";
+import { BigNumber, BigNumberish, ethers, Wallet } from "ethers";
+import { PingResponse } from "@opengsn/common/dist/PingResponse";
+import { RelayTransactionRequest } from "@opengsn/common/dist/types/RelayTransactionRequest";
+import { gsnRuntimeVersion } from "@opengsn/common/dist/Version";
+import {
+  Forwarder__factory,
+  IPaymaster__factory,
+  IStakeManager__factory,
+  RelayHub,
+} from "../../../typechain-types";
+import {
+  decodeRevertData,
+  getEIP712MessageFromRelayRequest,
+  getForwarderExecutePayload,
+  getRelayCallGasLimits,
+} from "../../client";
+import { Store } from "../../store";
+import { ForwardRequestValidator } from "../../validation";
+import { closeServer, HttpError, listenJson } from "../http";
+import { ManagedTransaction, TransactionManager } from "../TransactionManager";
+
+/** OpenGSN RelayServer 의 기본 maxAcceptanceBudget */
+const DEFAULT_MAX_ACCEPTANCE_BUDGET = 285_252;
+
+/**
+ * {@link GsnRelayServer} 설정입니다.
+ *
+ * @param relayHub - 요청을 제출할 {@link RelayHub} (provider 가 연결되어 있어야 합니다)
+ * @param relayManager - StakeManager 에 stake 된 relayManager EOA
+ * @param relayWorker - relayCall 트랜잭션을 서명 / 제출하는 relayWorker EOA
+ * @param url - RelayHub.registerRelayServer 로 등록할 서버 URL (미지정 시 {@link GsnRelayServer.listen} 중인 주소)
+ * @param baseRelayFee - 요청마다 요구하는 고정 수수료 (wei, 기본값 0)
+ * @param pctRelayFee - 가스 비용에 대해 요구하는 수수료 비율 (%, 기본값 0)
+ * @param minGasPrice - 허용하는 최소 gasPrice (기본값: 노드의 eth_gasPrice)
+ * @param maxAcceptanceBudget - 허용하는 paymaster acceptanceBudget 의 상한
+ * @param workerTargetBalance - {@link GsnRelayServer.init} 시 relayManager 가 relayWorker 에 충전할 목표 잔액 (wei)
+ * @param transactionStore - relayWorker 미확정 트랜잭션 저장소 ({@link TransactionManager})
+ */
+export interface GsnRelayServerConfig {
+  relayHub: RelayHub;
+  relayManager: Wallet;
+  relayWorker: Wallet;
+  url?: string;
+  baseRelayFee?: BigNumberish;
+  pctRelayFee?: BigNumberish;
+  minGasPrice?: BigNumberish;
+  maxAcceptanceBudget?: BigNumberish;
+  workerTargetBalance?: BigNumberish;
+  transactionStore?: Store<ManagedTransaction[]>;
+}
+
+/**
+ * OpenGSN HTTP API (`GET /getaddr`, `POST /relay`) 를 제공하는 Relay Server 입니다.
+ *
+ * `@opengsn/provider` 의 RelayClient 는 이 서버에 서명된 RelayRequest 를 전송하며,
+ * 서버는 요청을 오프체인에서 검증한 뒤 relayWorker 로 {@link RelayHub.relayCall} 트랜잭션을 제출하고
+ * 서명된 트랜잭션(`signedTx`)을 응답합니다.
+ *
+ * relayManager 는 서버 시작 전에 StakeManager 에 stake 되고 RelayHub 에 authorize 되어 있어야 합니다.
+ *
+ * @example
+ * const server = new GsnRelayServer({ relayHub, relayManager, relayWorker, url });
+ * await server.init();
+ * await server.listen(8090);
+ */
+export class GsnRelayServer {
+  readonly relayHub: RelayHub;
+  readonly relayManager: Wallet;
+  readonly relayWorker: Wallet;
+
+  /** relayWorker 트랜잭션의 nonce 할당 / 영속화 / gasPrice 인상 */
+  readonly transactionManager: TransactionManager;
+
+  private readonly baseRelayFee: BigNumber;
+  private readonly pctRelayFee: BigNumber;
+  private readonly maxAcceptanceBudget: BigNumber;
+
+  private registered = false;
+
+  private server?: Server;
+
+  private listeningUrl?: string;
+
+  constructor(readonly config: GsnRelayServerConfig) {
+    const provider = config.relayHub.provider;
+
+    this.relayHub = config.relayHub;
+    this.relayManager = config.relayManager.connect(provider);
+    this.relayWorker = config.relayWorker.connect(provider);
+    this.transactionManager = new TransactionManager({
+      signer: this.relayWorker,
+      store: config.transactionStore,
+    });
+    this.baseRelayFee = BigNumber.from(config.baseRelayFee ?? 0);
+    this.pctRelayFee = BigNumber.from(config.pctRelayFee ?? 0);
+    this.maxAcceptanceBudget = BigNumber.from(
+      config.maxAcceptanceBudget ?? DEFAULT_MAX_ACCEPTANCE_BUDGET,
+    );
+  }
+
+  /**
+   * relayWorker 를 RelayHub 에 추가하고 서버를 등록합니다. (RelayServerRegistered 이벤트)
+   * workerTargetBalance 가 설정되어 있으면 relayWorker 잔액을 충전합니다.
+   */
+  async init(): Promise<void> {
+    const manager = this.relayManager.address;
+    const worker = this.relayWorker.address;
+    const url = this.config.url ?? this.listeningUrl;
+
+    if (url === undefined) {
+      throw new Error("relay server url is not configured");
+    }
+
+    if (!(await this.relayHub.isRelayManagerStaked(manager))) {
+      throw new Error(`relay manager ${manager} is not staked`);
+    }
+
+    const workerManager = await this.relayHub.workerToManager(worker);
+
+    if (workerManager === ethers.constants.AddressZero) {
+      const addWorkerTx = await this.relayHub
+        .connect(this.relayManager)
+        .addRelayWorkers([worker]);
+      await addWorkerTx.wait();
+    } else if (workerManager !== manager) {
+      throw new Error(
+        `relay worker ${worker} belongs to another manager ${workerManager}`,
+      );
+    }
+
+    if (this.config.workerTargetBalance !== undefined) {
+      const balance = await this.relayWorker.getBalance();
+      const target = BigNumber.from(this.config.workerTargetBalance);
+
+      if (balance.lt(target)) {
+        const fundTx = await this.relayManager.sendTransaction({
+          to: worker,
+          value: target.sub(balance),
+        });
+        await fundTx.wait();
+      }
+    }
+
+    const registerTx = await this.relayHub
+      .connect(this.relayManager)
+      .registerRelayServer(this.baseRelayFee, this.pctRelayFee, url);
+    await registerTx.wait();
+
+    this.registered = true;
+  }
+
+  /** `GET /getaddr` 응답 */
+  async ping(): Promise<PingResponse> {
+    const provider = this.relayHub.provider;
+    const manager = this.relayManager.address;
+
+    const [network, minGasPrice, staked, stakeManagerAddress] =
+      await Promise.all([
+        provider.getNetwork(),
+        this.getMinGasPrice(),
+        this.relayHub.isRelayManagerStaked(manager),
+        this.relayHub.stakeManager(),
+      ]);
+
+    const stakeInfo = await IStakeManager__factory.connect(
+      stakeManagerAddress,
+      provider,
+    ).getStakeInfo(manager);
+
+    return {
+      relayWorkerAddress: this.relayWorker.address,
+      relayManagerAddress: manager,
+      relayHubAddress: this.relayHub.address,
+      ownerAddress: stakeInfo.owner,
+      minGasPrice: minGasPrice.toString(),
+      maxAcceptanceBudget: this.maxAcceptanceBudget.toString(),
+      networkId: network.chainId.toString(),
+      chainId: network.chainId.toString(),
+      ready: this.registered && staked,
+      version: gsnRuntimeVersion,
+    };
+  }
+
+  /**
+   * `POST /relay` 요청을 검증하고 relayCall 트랜잭션을 제출합니다.
+   * 검증에 실패하면 트랜잭션을 제출하지 않고 오류를 던집니다.
+   *
+   * @returns signedTx - 제출한 relayCall 트랜잭션 (RLP 인코딩, legacy)
+   */
+  async relay(request: RelayTransactionRequest): Promise<{ signedTx: string }> {
+    const { relayRequest, metadata } = request;
+    const { relayData } = relayRequest;
+    const provider = this.relayHub.provider;
+
+    if (!this.registered) {
+      throw new Error("relay server is not ready");
+    }
+
+    if (!isSameAddress(metadata.relayHubAddress, this.relayHub.address)) {
+      throw new Error(
+        `wrong hub address: relay server uses ${this.relayHub.address}, request uses ${metadata.relayHubAddress}`,
+      );
+    }
+
+    if (!isSameAddress(relayData.relayWorker, this.relayWorker.address)) {
+      throw new Error(
+        `wrong worker address: ${relayData.relayWorker}, expected ${this.relayWorker.address}`,
+      );
+    }
+
+    if (BigNumber.from(relayData.baseRelayFee).lt(this.baseRelayFee)) {
+      throw new Error(
+        `baseRelayFee ${relayData.baseRelayFee} is lower than ${this.baseRelayFee}`,
+      );
+    }
+
+    if (BigNumber.from(relayData.pctRelayFee).lt(this.pctRelayFee)) {
+      throw new Error(
+        `pctRelayFee ${relayData.pctRelayFee} is lower than ${this.pctRelayFee}`,
+      );
+    }
+
+    const minGasPrice = await this.getMinGasPrice();
+
+    if (BigNumber.from(relayData.gasPrice).lt(minGasPrice)) {
+      throw new Error(
+        `gasPrice ${relayData.gasPrice} is lower than minGasPrice ${minGasPrice}`,
+      );
+    }
+
+    const [hubConfig, gasAndDataLimits, network, block] = await Promise.all([
+      this.relayHub.getConfiguration(),
+      IPaymaster__factory.connect(
+        relayData.paymaster,
+        provider,
+      ).getGasAndDataLimits(),
+      provider.getNetwork(),
+      provider.getBlock("latest"),
+    ]);
+
+    if (gasAndDataLimits.acceptanceBudget.gt(this.maxAcceptanceBudget)) {
+      throw new Error(
+        `paymaster acceptance budget ${gasAndDataLimits.acceptanceBudget} exceeds ${this.maxAcceptanceBudget}`,
+      );
+    }
+
+    // #region externalGasLimit 계산 (RelayHub.verifyGasAndDataLimits 의 maxPossibleGas)
+    const { externalGasLimit } = getRelayCallGasLimits(
+      this.encodeRelayCall(request, 0),
+      relayRequest.request.gas,
+      hubConfig,
+      gasAndDataLimits,
+    );
+
+    if (externalGasLimit.gt(block.gasLimit)) {
+      throw new Error(
+        `request requires ${externalGasLimit} gas, block gas limit is ${block.gasLimit}`,
+      );
+    }
+    // #endregion
+
+    // #region Forwarder 검증 (서명, nonce, 유효기간)
+    const forwarderPayload = getForwarderExecutePayload({
+      eip712Request: getEIP712MessageFromRelayRequest(
+        relayRequest,
+        network.chainId,
+      ),
+      signature: metadata.signature,
+    });
+    const validation = await new ForwardRequestValidator(
+      Forwarder__factory.connect(relayData.forwarder, provider),
+    ).validate(forwarderPayload, { gasLimit: externalGasLimit });
+
+    if (!validation.valid) {
+      throw new Error(
+        `forward request rejected: ${validation.rejections.map((rejection) => rejection.message).join(", ")}`,
+      );
+    }
+    // #endregion
+
+    const data = this.encodeRelayCall(request, externalGasLimit);
+
+    // #region RelayHub.relayCall 시뮬레이션 (paymaster 승인 여부)
+    const [paymasterAccepted, returnValue] = await this.relayHub
+      .connect(this.relayWorker)
+      .callStatic.relayCall(
+        this.maxAcceptanceBudget,
+        relayRequest,
+        metadata.signature,
+        metadata.approvalData,
+        externalGasLimit,
+        { gasLimit: externalGasLimit, gasPrice: relayData.gasPrice },
+      );
+
+    if (!paymasterAccepted) {
+      throw new Error(
+        `paymaster rejected in local view call: ${decodeRevertData(returnValue).message}`,
+      );
+    }
+    // #endregion
+
+    // RelayClient 의 RelayedTransactionValidator 는 legacy 트랜잭션만 디코딩할 수 있습니다.
+    const { signedTx } = await this.transactionManager.send(
+      { to: this.relayHub.address, data, gasLimit: externalGasLimit },
+      relayData.gasPrice,
+      metadata.relayMaxNonce,
+    );
+
+    return { signedTx };
+  }
+
+  /**
+   * OpenGSN HTTP API 를 제공하는 HTTP 서버를 시작합니다.
+   *
+   * @param port - 0 이면 임의의 포트를 사용합니다.
+   * @returns 실제로 listen 중인 포트
+   */
+  async listen(port: number, host = "127.0.0.1"): Promise<number> {
+    const listening = await listenJson(
+      {
+        "GET /getaddr": async () => this.ping(),
+        "POST /relay": async (body) => {
+          if (!isRelayTransactionRequest(body)) {
+            throw new HttpError(400, "invalid relay request");
+          }
+          return this.relay(body);
+        },
+      },
+      port,
+      host,
+    );
+
+    this.server = listening.server;
+    this.listeningUrl = `http://${host}:${listening.port}`;
+
+    return listening.port;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+
+    if (server === undefined) {
+      return;
+    }
+
+    this.server = undefined;
+    this.listeningUrl = undefined;
+
+    await closeServer(server);
+  }
+
+  private async getMinGasPrice(): Promise<BigNumber> {
+    return this.config.minGasPrice !== undefined
+      ? BigNumber.from(this.config.minGasPrice)
+      : this.relayHub.provider.getGasPrice();
+  }
+
+  private encodeRelayCall(
+    request: RelayTransactionRequest,
+    externalGasLimit: BigNumberish,
+  ): string {
+    return this.relayHub.interface.encodeFunctionData("relayCall", [
+      this.maxAcceptanceBudget,
+      request.relayRequest,
+      request.metadata.signature,
+      request.metadata.approvalData,
+      externalGasLimit,
+    ]);
+  }
+}
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isRelayTransactionRequest(
+  body: unknown,
+): body is RelayTransactionRequest {
+  const request = body as RelayTransactionRequest | undefined;
+
+  return (
+    typeof request?.relayRequest?.request === "object" &&
+    typeof request.relayRequest.relayData === "object" &&
+    typeof request.metadata?.signature === "string" &&
+    typeof request.metadata.approvalData === "string" &&
+    typeof request.metadata.relayHubAddress === "string" &&
+    typeof request.metadata.relayMaxNonce === "number"
+  );
+}
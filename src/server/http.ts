@@ -0,0 +1,133 @@
+import {
+  createServer,
+  IncomingMessage,
+  RequestListener,
+  Server,
+  ServerResponse,
+} from "http";
+import { AddressInfo } from "net";
+
+/** 요청 본문의 최대 크기 (byte) */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * HTTP 상태 코드를 지정하여 응답해야 하는 오류입니다.
+ * (잘못된 경로, 파싱할 수 없는 요청 본문 등)
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * JSON 라우트 핸들러입니다.
+ *
+ * @param body - JSON 으로 파싱된 요청 본문 (GET 요청은 undefined)
+ * @returns 응답 본문으로 직렬화할 값
+ */
+export type JsonRouteHandler = (body: unknown) => Promise<unknown>;
+
+/**
+ * `"<METHOD> <path>"` 형식의 키로 구성된 라우트 테이블입니다.
+ *
+ * @example
+ * { "GET /getaddr": async () => ping, "POST /relay": async (body) => relay(body) }
+ */
+export type JsonRoutes = Record<string, JsonRouteHandler>;
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  const json = JSON.stringify(body);
+
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, "request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf8");
+
+  if (text.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "request body is not valid JSON");
+  }
+}
+
+/**
+ * {@link JsonRoutes} 로 요청을 처리하는 `http.createServer` 용 리스너를 생성합니다.
+ *
+ * OpenGSN RelayServer 와 동일하게 핸들러에서 발생한 오류는 상태 코드 200 의 `{ error }` 응답으로 전달하며,
+ * {@link HttpError} 만 해당 상태 코드로 응답합니다.
+ */
+export function createJsonRequestListener(routes: JsonRoutes): RequestListener {
+  return (req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    const handler = routes[`${req.method} ${path}`];
+
+    (async () => {
+      if (handler === undefined) {
+        throw new HttpError(404, `${req.method} ${path} not found`);
+      }
+
+      const body = req.method === "GET" ? undefined : await readJsonBody(req);
+
+      sendJson(res, 200, await handler(body));
+    })().catch((error: Error) => {
+      const status = error instanceof HttpError ? error.status : 200;
+      sendJson(res, status, { error: error.message });
+    });
+  };
+}
+
+/**
+ * {@link JsonRoutes} 를 처리하는 HTTP 서버를 시작합니다.
+ *
+ * @param port - 0 이면 임의의 포트를 사용합니다.
+ * @returns 시작된 서버와 실제로 listen 중인 포트
+ */
+export async function listenJson(
+  routes: JsonRoutes,
+  port: number,
+  host: string,
+): Promise<{ server: Server; port: number }> {
+  const server = createServer(createJsonRequestListener(routes));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  return { server, port: (server.address() as AddressInfo).port };
+}
+
+export async function closeServer(server: Server): Promise<void> {
+  await new Promise<void>((resolve, reject) =>
+    server.close((error) => (error ? reject(error) : resolve())),
+  );
+}
@@ -0,0 +1,6 @@
+export * from "./http";
+export * from "./SerialQueue";
+export * from "./TransactionManager";
+export * from "./approval";
+export * from "./gsn";
+export * from "./trusted";
@@ -0,0 +1,125 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { Eip712Message } from "../../client";
+
+/**
+ * 후원(가스 대납) 여부 판단 결과입니다.
+ *
+ * @param sponsored - 가스를 대납할지 여부
+ * @param reason - 거절 사유 (sponsored 가 false 인 경우)
+ */
+export interface SponsorshipDecision {
+  sponsored: boolean;
+  reason?: string;
+}
+
+/**
+ * Trusted Relay Server 가 어떤 ForwardRequest 의 가스를 대납할지 결정하는 정책입니다.
+ *
+ * 서명 / nonce 등 Forwarder 검증 이전에 호출되며, 요청 내용(from, to, data, value, gas)만으로 판단합니다.
+ */
+export interface SponsorshipPolicy {
+  evaluate(
+    request: Eip712Message,
+  ): SponsorshipDecision | Promise<SponsorshipDecision>;
+}
+
+/**
+ * {@link AllowlistSponsorshipPolicy} 설정입니다.
+ *
+ * @param contracts - 후원 대상 컨트랙트 주소와 허용할 함수 목록.
+ *   함수는 selector(`0xa9059cbb`) 또는 시그니처(`transfer(address,uint256)`)로 지정하며,
+ *   목록을 생략하면 해당 컨트랙트의 모든 함수를 허용합니다.
+ * @param senders - 후원 대상 요청자 주소 (생략 시 모든 요청자)
+ * @param maxGas - 요청당 허용하는 최대 gas (생략 시 제한 없음)
+ * @param maxValue - 요청당 허용하는 최대 value (기본값 0, relayWorker 가 value 를 함께 전송하므로)
+ */
+export interface AllowlistSponsorshipPolicyConfig {
+  contracts: Record<string, string[] | undefined>;
+  senders?: string[];
+  maxGas?: BigNumberish;
+  maxValue?: BigNumberish;
+}
+
+/**
+ * 허용된 컨트랙트 / 함수 / 요청자의 요청만 후원하는 {@link SponsorshipPolicy} 입니다.
+ *
+ * @example
+ * new AllowlistSponsorshipPolicy({
+ *   contracts: { [clamCoin.address]: ["transfer(address,uint256)"] },
+ *   senders: [user.address],
+ * });
+ */
+export class AllowlistSponsorshipPolicy implements SponsorshipPolicy {
+  /** 소문자 컨트랙트 주소 => 허용 selector 목록 (undefined 면 전체 허용) */
+  private readonly contracts = new Map<string, Set<string> | undefined>();
+
+  private readonly senders?: Set<string>;
+
+  private readonly maxGas?: BigNumber;
+
+  private readonly maxValue: BigNumber;
+
+  constructor(config: AllowlistSponsorshipPolicyConfig) {
+    for (const [address, functions] of Object.entries(config.contracts)) {
+      this.contracts.set(
+        address.toLowerCase(),
+        functions && new Set(functions.map(toSelector)),
+      );
+    }
+
+    this.senders =
+      config.senders &&
+      new Set(config.senders.map((sender) => sender.toLowerCase()));
+    this.maxGas =
+      config.maxGas !== undefined ? BigNumber.from(config.maxGas) : undefined;
+    this.maxValue = BigNumber.from(config.maxValue ?? 0);
+  }
+
+  evaluate(request: Eip712Message): SponsorshipDecision {
+    const to = request.to.toLowerCase();
+
+    if (!this.contracts.has(to)) {
+      return reject(`contract ${request.to} is not sponsored`);
+    }
+
+    const selectors = this.contracts.get(to);
+    const selector =
+      ethers.utils.hexDataLength(request.data) >= 4
+        ? ethers.utils.hexDataSlice(request.data, 0, 4)
+        : "0x";
+
+    if (selectors !== undefined && !selectors.has(selector)) {
+      return reject(`function ${selector} of ${request.to} is not sponsored`);
+    }
+
+    if (
+      this.senders !== undefined &&
+      !this.senders.has(request.from.toLowerCase())
+    ) {
+      return reject(`sender ${request.from} is not sponsored`);
+    }
+
+    if (this.maxGas !== undefined && this.maxGas.lt(request.gas)) {
+      return reject(
+        `gas ${BigNumber.from(request.gas)} exceeds ${this.maxGas}`,
+      );
+    }
+
+    if (this.maxValue.lt(request.value)) {
+      return reject(`value ${request.value} exceeds ${this.maxValue}`);
+    }
+
+    return { sponsored: true };
+  }
+}
+
+function reject(reason: string): SponsorshipDecision {
+  return { sponsored: false, reason };
+}
+
+/** 함수 시그니처 또는 selector 를 소문자 selector 로 변환합니다. */
+export function toSelector(fn: string): string {
+  return ethers.utils.isHexString(fn, 4)
+    ? fn.toLowerCase()
+    : ethers.utils.id(fn).slice(0, 10);
+}
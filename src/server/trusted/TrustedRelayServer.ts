@@ -0,0 +1,336 @@
+import { Server } from "http";
+import { BigNumber, ethers, Wallet } from "ethers";
+import { Forwarder, GasFreeERC20__factory } from "../../../typechain-types";
+import {
+  decodeRevertData,
+  ForwarderExecutePayload,
+  TransferAuthorizationPayload,
+} from "../../client";
+import { Store } from "../../store";
+import { ForwardRequestValidator } from "../../validation";
+import { closeServer, HttpError, listenJson } from "../http";
+import { ManagedTransaction, TransactionManager } from "../TransactionManager";
+import { SponsorshipPolicy } from "./SponsorshipPolicy";
+
+/** Forwarder.execute / transferWithAuthorization 가스 추정값에 더하는 여유분 (%) */
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+/**
+ * {@link TrustedRelayServer} 설정입니다.
+ *
+ * @param forwarder - 요청을 실행할 {@link Forwarder} (provider 가 연결되어 있어야 합니다)
+ * @param relayWorker - Forwarder.execute 트랜잭션을 제출하고 가스를 대납하는 EOA
+ * @param policy - 가스 대납 여부를 결정하는 {@link SponsorshipPolicy}
+ * @param transactionStore - relayWorker 미확정 트랜잭션 저장소 ({@link TransactionManager})
+ */
+export interface TrustedRelayServerConfig {
+  forwarder: Forwarder;
+  relayWorker: Wallet;
+  policy: SponsorshipPolicy;
+  transactionStore?: Store<ManagedTransaction[]>;
+}
+
+/**
+ * Trusted Forwarder 방식의 Relay Server 입니다.
+ *
+ * `POST /relay` 로 서명된 ForwardRequest ({@link ForwarderExecutePayload}) 를 받아
+ * 후원 정책과 오프체인 검증을 통과한 요청만 relayWorker 로 {@link Forwarder.execute} 를 직접 호출하고,
+ * 트랜잭션 해시를 응답합니다. (README 의 "Trusted Forwarder" 참고)
+ *
+ * Forwarder 대신 `POST /relayAuthorization` 으로 EIP-3009 TransferWithAuthorization
+ * ({@link TransferAuthorizationPayload}) 을 받아 토큰의 transferWithAuthorization 을 직접 호출할 수도 있습니다.
+ *
+ * @example
+ * const server = new TrustedRelayServer({ forwarder, relayWorker, policy });
+ * await server.listen(8091);
+ * // POST /relay  body: client.toForwarderExecutePayload(signed)  =>  { txHash }
+ */
+export class TrustedRelayServer {
+  readonly forwarder: Forwarder;
+  readonly relayWorker: Wallet;
+  readonly policy: SponsorshipPolicy;
+
+  /** relayWorker 트랜잭션의 nonce 할당 / 영속화 / gasPrice 인상 */
+  readonly transactionManager: TransactionManager;
+
+  private readonly validator: ForwardRequestValidator;
+
+  private server?: Server;
+
+  constructor(config: TrustedRelayServerConfig) {
+    this.forwarder = config.forwarder;
+    this.relayWorker = config.relayWorker.connect(config.forwarder.provider);
+    this.policy = config.policy;
+    this.transactionManager = new TransactionManager({
+      signer: this.relayWorker,
+      store: config.transactionStore,
+    });
+    this.validator = new ForwardRequestValidator(config.forwarder);
+  }
+
+  /** `GET /getaddr` 응답 */
+  async ping(): Promise<{
+    relayWorkerAddress: string;
+    forwarderAddress: string;
+    chainId: string;
+  }> {
+    const network = await this.forwarder.provider.getNetwork();
+
+    return {
+      relayWorkerAddress: this.relayWorker.address,
+      forwarderAddress: this.forwarder.address,
+      chainId: network.chainId.toString(),
+    };
+  }
+
+  /**
+   * `POST /relay` 요청을 검증하고 Forwarder.execute 트랜잭션을 제출합니다.
+   * 후원 대상이 아니거나 검증에 실패하면 트랜잭션을 제출하지 않고 오류를 던집니다.
+   *
+   * @returns txHash - 제출한 Forwarder.execute 트랜잭션 해시
+   */
+  async relay(payload: ForwarderExecutePayload): Promise<{ txHash: string }> {
+    const { request } = payload;
+
+    const decision = await this.policy.evaluate(request);
+
+    if (!decision.sponsored) {
+      throw new Error(`request is not sponsored: ${decision.reason}`);
+    }
+
+    const validation = await this.validator.validate(payload);
+
+    if (!validation.valid) {
+      throw new Error(
+        `forward request rejected: ${validation.rejections.map((rejection) => rejection.message).join(", ")}`,
+      );
+    }
+
+    const forwarder = this.forwarder.connect(this.relayWorker);
+    const args = [
+      request,
+      payload.domainSeparator,
+      payload.requestTypeHash,
+      payload.suffixData,
+      payload.signature,
+    ] as const;
+
+    // #region Forwarder.execute 시뮬레이션 (대상 호출 성공 여부)
+    const [success, returnValue] = await forwarder.callStatic.execute(...args, {
+      value: request.value,
+    });
+
+    if (!success) {
+      throw new Error(
+        `target call reverted: ${decodeRevertData(returnValue).message}`,
+      );
+    }
+    // #endregion
+
+    const gasLimit = (
+      await forwarder.estimateGas.execute(...args, { value: request.value })
+    )
+      .mul(100 + GAS_LIMIT_MARGIN_PERCENT)
+      .div(100);
+
+    const [{ data }, gasPrice] = await Promise.all([
+      forwarder.populateTransaction.execute(...args),
+      this.forwarder.provider.getGasPrice(),
+    ]);
+
+    const transaction = await this.transactionManager.send(
+      {
+        to: this.forwarder.address,
+        data: data!,
+        gasLimit,
+        value: request.value,
+      },
+      gasPrice,
+    );
+
+    return { txHash: transaction.hashes[0] };
+  }
+
+  /**
+   * `POST /relayAuthorization` 요청을 검증하고 토큰의 transferWithAuthorization 트랜잭션을 제출합니다.
+   * Forwarder 를 거치지 않으며, 후원 정책은 `{ from, to: token, data: transferWithAuthorization calldata }` 로 평가합니다.
+   * (정책의 gas 는 시뮬레이션으로 추정한 값입니다)
+   *
+   * @returns txHash - 제출한 transferWithAuthorization 트랜잭션 해시
+   */
+  async relayAuthorization(
+    payload: TransferAuthorizationPayload,
+  ): Promise<{ txHash: string }> {
+    const { authorization } = payload;
+    const token = GasFreeERC20__factory.connect(
+      payload.token,
+      this.relayWorker,
+    );
+    const { v, r, s } = ethers.utils.splitSignature(payload.signature);
+
+    const args = [
+      authorization.from,
+      authorization.to,
+      authorization.value,
+      authorization.validAfter,
+      authorization.validBefore,
+      authorization.nonce,
+      v,
+      r,
+      s,
+    ] as const;
+
+    // #region transferWithAuthorization 시뮬레이션 (유효기간, nonce, 서명, 잔액)
+    try {
+      await token.callStatic.transferWithAuthorization(...args);
+    } catch (error) {
+      const { data, message } = error as { data?: string; message: string };
+      throw new Error(
+        `authorization rejected: ${typeof data === "string" ? decodeRevertData(data).message : message}`,
+      );
+    }
+    // #endregion
+
+    const [estimatedGas, { data }] = await Promise.all([
+      token.estimateGas.transferWithAuthorization(...args),
+      token.populateTransaction.transferWithAuthorization(...args),
+    ]);
+
+    const decision = await this.policy.evaluate({
+      from: authorization.from,
+      to: token.address,
+      value: BigNumber.from(0),
+      gas: estimatedGas.toString(),
+      nonce: authorization.nonce,
+      data: data!,
+      validUntil: BigNumber.from(authorization.validBefore).toString(),
+    });
+
+    if (!decision.sponsored) {
+      throw new Error(`request is not sponsored: ${decision.reason}`);
+    }
+
+    const transaction = await this.transactionManager.send(
+      {
+        to: token.address,
+        data: data!,
+        gasLimit: estimatedGas.mul(100 + GAS_LIMIT_MARGIN_PERCENT).div(100),
+      },
+      await this.forwarder.provider.getGasPrice(),
+    );
+
+    return { txHash: transaction.hashes[0] };
+  }
+
+  /**
+   * HTTP 서버를 시작합니다.
+   *
+   * @param port - 0 이면 임의의 포트를 사용합니다.
+   * @returns 실제로 listen 중인 포트
+   */
+  async listen(port: number, host = "127.0.0.1"): Promise<number> {
+    const listening = await listenJson(
+      {
+        "GET /getaddr": async () => this.ping(),
+        "POST /relay": async (body) => this.relay(toExecutePayload(body)),
+        "POST /relayAuthorization": async (body) =>
+          this.relayAuthorization(toAuthorizationPayload(body)),
+      },
+      port,
+      host,
+    );
+
+    this.server = listening.server;
+
+    return listening.port;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+
+    if (server === undefined) {
+      return;
+    }
+
+    this.server = undefined;
+
+    await closeServer(server);
+  }
+}
+
+/**
+ * JSON 본문을 {@link ForwarderExecutePayload} 로 변환합니다.
+ * value 는 10진수 / 16진수 문자열 또는 ethers BigNumber 의 JSON 형식을 허용합니다.
+ */
+function toExecutePayload(body: unknown): ForwarderExecutePayload {
+  const payload = body as ForwarderExecutePayload | undefined;
+  const request = payload?.request;
+
+  const fields = [
+    request?.from,
+    request?.to,
+    request?.gas,
+    request?.nonce,
+    request?.data,
+    request?.validUntil,
+    payload?.domainSeparator,
+    payload?.requestTypeHash,
+    payload?.suffixData,
+    payload?.signature,
+  ];
+
+  if (
+    request === undefined ||
+    request.value === undefined ||
+    fields.some((field) => typeof field !== "string")
+  ) {
+    throw new HttpError(400, "invalid forward request");
+  }
+
+  try {
+    return {
+      ...payload!,
+      request: { ...request, value: BigNumber.from(request.value) },
+    };
+  } catch {
+    throw new HttpError(400, "invalid forward request value");
+  }
+}
+
+/**
+ * JSON 본문을 {@link TransferAuthorizationPayload} 로 변환합니다.
+ * 숫자 필드는 10진수 / 16진수 문자열 또는 ethers BigNumber 의 JSON 형식을 허용합니다.
+ */
+function toAuthorizationPayload(body: unknown): TransferAuthorizationPayload {
+  const payload = body as TransferAuthorizationPayload | undefined;
+  const authorization = payload?.authorization;
+
+  const fields = [
+    payload?.token,
+    payload?.signature,
+    authorization?.from,
+    authorization?.to,
+    authorization?.nonce,
+  ];
+
+  if (
+    authorization === undefined ||
+    fields.some((field) => typeof field !== "string")
+  ) {
+    throw new HttpError(400, "invalid transfer authorization");
+  }
+
+  try {
+    return {
+      ...payload!,
+      authorization: {
+        ...authorization,
+        value: BigNumber.from(authorization.value),
+        validAfter: BigNumber.from(authorization.validAfter),
+        validBefore: BigNumber.from(authorization.validBefore),
+      },
+    };
+  } catch {
+    throw new HttpError(400, "invalid transfer authorization value");
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./SponsorshipPolicy";
+export * from "./TrustedRelayServer";
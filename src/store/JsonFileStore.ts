@@ -0,0 +1,31 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { Store } from "./Store";
+
+/**
+ * 값을 JSON 파일로 영속화하는 {@link Store} 입니다.
+ *
+ * 임시 파일에 기록한 뒤 rename 하므로, 기록 중 프로세스가 종료되어도 이전 값이 손상되지 않습니다.
+ */
+export class JsonFileStore<T> implements Store<T> {
+  constructor(readonly path: string) {}
+
+  async read(): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(value: T): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(value, null, 2));
+    await fs.rename(tmpPath, this.path);
+  }
+}
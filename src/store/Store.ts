@@ -0,0 +1,25 @@
+/**
+ * 단일 값을 영속화하는 저장소입니다.
+ */
+export interface Store<T> {
+  /** 저장된 값을 읽습니다. 저장된 값이 없으면 undefined 를 반환합니다. */
+  read(): Promise<T | undefined>;
+
+  /** 값을 저장합니다. (기존 값을 덮어씁니다) */
+  write(value: T): Promise<void>;
+}
+
+/**
+ * 프로세스 메모리에만 값을 보관하는 {@link Store} 입니다. (테스트 / 영속화가 필요 없는 경우)
+ */
+export class MemoryStore<T> implements Store<T> {
+  constructor(private value?: T) {}
+
+  async read(): Promise<T | undefined> {
+    return this.value;
+  }
+
+  async write(value: T): Promise<void> {
+    this.value = value;
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./Store";
+export * from "./JsonFileStore";
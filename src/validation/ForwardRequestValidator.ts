@@ -0,0 +1,317 @@
+import { BigNumber, BigNumberish, ethers } from "ethers";
+import { Forwarder } from "../../typechain-types";
+import { ForwarderExecutePayload } from "../client";
+
+/**
+ * Forwarder.execute / Forwarder.verify 의 revert 문자열입니다.
+ * {@link ForwardRequestRejection.code} 는 이 객체의 키와 1:1 로 대응합니다.
+ *
+ * `INVALID_SIGNATURE_*` 는 FWD 문자열이 아닌 OpenZeppelin ECDSA 의 custom error 이름입니다.
+ * - INVALID_SIGNATURE_LENGTH: 65 byte 가 아닌 서명
+ * - INVALID_SIGNATURE_S: s 값이 secp256k1n/2 보다 큰 서명
+ * - INVALID_SIGNATURE: ecrecover 가 주소를 복구하지 못하는 서명 (v 가 27 / 28 이 아닌 경우 등)
+ */
+export const FORWARDER_REVERT_REASONS = {
+  UNREGISTERED_DOMAIN: "FWD: unregistered domain sep.",
+  UNREGISTERED_TYPEHASH: "FWD: unregistered typehash",
+  INVALID_SIGNATURE_LENGTH: "ECDSAInvalidSignatureLength",
+  INVALID_SIGNATURE_S: "ECDSAInvalidSignatureS",
+  INVALID_SIGNATURE: "ECDSAInvalidSignature",
+  SIGNATURE_MISMATCH: "FWD: signature mismatch",
+  NONCE_MISMATCH: "FWD: nonce mismatch",
+  REQUEST_EXPIRED: "FWD: request expired",
+  INSUFFICIENT_GAS: "FWD: insufficient gas",
+} as const;
+
+export type ForwardRequestRejectionCode = keyof typeof FORWARDER_REVERT_REASONS;
+
+/**
+ * 검증 실패 사유입니다.
+ *
+ * @param code - 실패 코드 ({@link FORWARDER_REVERT_REASONS} 의 키)
+ * @param reason - 동일한 요청을 온체인에 제출했을 때 예상되는 revert 문자열
+ * @param message - 실패 원인에 대한 상세 설명
+ */
+export interface ForwardRequestRejection {
+  code: ForwardRequestRejectionCode;
+  reason: string;
+  message: string;
+}
+
+/**
+ * {@link ForwardRequestValidator.validate} 의 결과입니다.
+ *
+ * @param valid - 모든 검증을 통과했는지 여부
+ * @param rejections - 실패한 검증 목록 (Forwarder.execute 의 검사 순서)
+ * @param signer - 서명에서 복구된 주소 (ECDSA 가 revert 하는 서명이면 undefined)
+ */
+export interface ForwardRequestValidationResult {
+  valid: boolean;
+  rejections: ForwardRequestRejection[];
+  signer?: string;
+}
+
+/**
+ * 검증 옵션입니다.
+ *
+ * @param gasLimit - relayer 가 Forwarder.execute 트랜잭션에 지정할 gasLimit (기본값: 현재 block gasLimit)
+ * @param blockNumber - 요청이 실행될 것으로 예상되는 블록 넘버 (기본값: 최신 블록 + 1)
+ */
+export interface ForwardRequestValidationOptions {
+  gasLimit?: BigNumberish;
+  blockNumber?: number;
+}
+
+/**
+ * Forwarder.execute 에서 `gasleft()` 검사 이전까지 소비되는 가스의 보수적인 추정치입니다.
+ * (서명 검증, domain/typeHash 조회, nonce 갱신 포함 - BasePaymaster.FORWARDER_HUB_OVERHEAD 와 동일한 값)
+ */
+export const FORWARDER_EXECUTE_OVERHEAD = 50_000;
+
+/** value 가 있는 요청에 대해 Forwarder.execute 가 추가로 요구하는 가스 */
+const GAS_FOR_TRANSFER = 40_000;
+
+/** secp256k1n / 2 (OpenZeppelin ECDSA 가 허용하는 s 값의 상한) */
+const SECP256K1_HALF_N = BigNumber.from(
+  "0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0",
+);
+
+/**
+ * Forwarder._getEncoded 와 동일한 방식으로 요청을 인코딩합니다.
+ */
+export function encodeForwardRequest(
+  payload: Pick<
+    ForwarderExecutePayload,
+    "request" | "requestTypeHash" | "suffixData"
+  >,
+): string {
+  const { request, requestTypeHash, suffixData } = payload;
+
+  return ethers.utils.solidityPack(
+    [
+      "bytes32",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "uint256",
+      "bytes32",
+      "uint256",
+      "bytes",
+    ],
+    [
+      requestTypeHash,
+      BigNumber.from(request.from),
+      BigNumber.from(request.to),
+      request.value,
+      request.gas,
+      request.nonce,
+      ethers.utils.keccak256(request.data),
+      request.validUntil,
+      suffixData,
+    ],
+  );
+}
+
+/**
+ * Forwarder._verifySig 가 서명을 복구하는 digest 를 계산합니다.
+ */
+export function getForwardRequestDigest(
+  payload: Pick<
+    ForwarderExecutePayload,
+    "request" | "domainSeparator" | "requestTypeHash" | "suffixData"
+  >,
+): string {
+  return ethers.utils.keccak256(
+    ethers.utils.solidityPack(
+      ["bytes2", "bytes32", "bytes32"],
+      [
+        "0x1901",
+        payload.domainSeparator,
+        ethers.utils.keccak256(encodeForwardRequest(payload)),
+      ],
+    ),
+  );
+}
+
+/**
+ * Forwarder.execute / Forwarder.verify 의 모든 온체인 검사를 오프체인에서 재현하는 검증기입니다.
+ *
+ * relayer 는 트랜잭션을 제출하기 전에 이 검증기로 요청을 거절하여 가스를 낭비하지 않을 수 있습니다.
+ * (README 의 "Off Chain 검증" 참고)
+ *
+ * @example
+ * const validator = new ForwardRequestValidator(forwarder);
+ * const result = await validator.validate(client.toForwarderExecutePayload(signed));
+ * if (!result.valid) console.log(result.rejections.map((r) => r.reason));
+ */
+export class ForwardRequestValidator {
+  constructor(readonly forwarder: Forwarder) {}
+
+  async validate(
+    payload: ForwarderExecutePayload,
+    options: ForwardRequestValidationOptions = {},
+  ): Promise<ForwardRequestValidationResult> {
+    const { request } = payload;
+    const provider = this.forwarder.provider;
+
+    const [domainRegistered, typeHashRegistered, nonce, blockNumber, gasLimit] =
+      await Promise.all([
+        this.forwarder.domains(payload.domainSeparator),
+        this.forwarder.typeHashes(payload.requestTypeHash),
+        this.forwarder.getNonce(request.from),
+        options.blockNumber !== undefined
+          ? options.blockNumber
+          : provider.getBlockNumber().then((latest) => latest + 1),
+        options.gasLimit !== undefined
+          ? BigNumber.from(options.gasLimit)
+          : provider.getBlock("latest").then((block) => block.gasLimit),
+      ]);
+
+    const rejections: ForwardRequestRejection[] = [];
+    const reject = (code: ForwardRequestRejectionCode, message: string) =>
+      rejections.push({
+        code,
+        reason: FORWARDER_REVERT_REASONS[code],
+        message,
+      });
+
+    // #region _verifySig
+    if (!domainRegistered) {
+      reject(
+        "UNREGISTERED_DOMAIN",
+        `domain separator ${payload.domainSeparator} is not registered`,
+      );
+    }
+
+    if (!typeHashRegistered) {
+      reject(
+        "UNREGISTERED_TYPEHASH",
+        `request type hash ${payload.requestTypeHash} is not registered`,
+      );
+    }
+
+    const { signer, error } = this.recoverSigner(payload);
+
+    if (error !== undefined) {
+      reject(error.code, error.message);
+    } else if (signer === undefined) {
+      reject("INVALID_SIGNATURE", "signature does not recover an address");
+    } else if (signer.toLowerCase() !== request.from.toLowerCase()) {
+      reject(
+        "SIGNATURE_MISMATCH",
+        `signature recovered ${signer}, expected ${request.from}`,
+      );
+    }
+    // #endregion
+
+    if (!nonce.eq(request.nonce)) {
+      reject(
+        "NONCE_MISMATCH",
+        `forwarder nonce of ${request.from} is ${nonce}, request nonce is ${BigNumber.from(request.nonce)}`,
+      );
+    }
+
+    const validUntil = BigNumber.from(request.validUntil);
+
+    if (!validUntil.isZero() && validUntil.lte(blockNumber)) {
+      reject(
+        "REQUEST_EXPIRED",
+        `request is valid until block ${validUntil}, expected execution at block ${blockNumber}`,
+      );
+    }
+
+    const gasForTransfer = BigNumber.from(request.value).isZero()
+      ? 0
+      : GAS_FOR_TRANSFER;
+    const availableGas = gasLimit
+      .sub(this.intrinsicGas(payload))
+      .sub(FORWARDER_EXECUTE_OVERHEAD)
+      .mul(63)
+      .div(64);
+    const requiredGas = BigNumber.from(request.gas).add(gasForTransfer);
+
+    if (availableGas.lt(requiredGas)) {
+      reject(
+        "INSUFFICIENT_GAS",
+        `gas limit ${gasLimit} leaves ~${availableGas} gas for the call, request needs ${requiredGas}`,
+      );
+    }
+
+    return { valid: rejections.length === 0, rejections, signer };
+  }
+
+  /**
+   * OpenZeppelin ECDSA.recover 와 동일한 조건으로 서명자를 복구합니다.
+   * ECDSA 가 revert 하는 서명이면 해당 custom error 의 코드를 반환합니다.
+   */
+  private recoverSigner(payload: ForwarderExecutePayload): {
+    signer?: string;
+    error?: {
+      code:
+        | "INVALID_SIGNATURE_LENGTH"
+        | "INVALID_SIGNATURE_S"
+        | "INVALID_SIGNATURE";
+      message: string;
+    };
+  } {
+    const signature = ethers.utils.arrayify(payload.signature);
+
+    if (signature.length !== 65) {
+      return {
+        error: {
+          code: "INVALID_SIGNATURE_LENGTH",
+          message: `signature is ${signature.length} bytes, expected 65`,
+        },
+      };
+    }
+
+    const s = BigNumber.from(signature.slice(32, 64));
+    const v = signature[64];
+
+    if (s.gt(SECP256K1_HALF_N)) {
+      return {
+        error: {
+          code: "INVALID_SIGNATURE_S",
+          message: `signature s ${s.toHexString()} is greater than secp256k1n / 2`,
+        },
+      };
+    }
+
+    const invalid = {
+      error: {
+        code: "INVALID_SIGNATURE" as const,
+        message: `signature (v ${v}) does not recover an address`,
+      },
+    };
+
+    if (v !== 27 && v !== 28) {
+      return invalid;
+    }
+
+    try {
+      const signer = ethers.utils.recoverAddress(
+        getForwardRequestDigest(payload),
+        signature,
+      );
+      return signer === ethers.constants.AddressZero ? invalid : { signer };
+    } catch {
+      return invalid;
+    }
+  }
+
+  /** Forwarder.execute 호출 트랜잭션의 intrinsic gas (21000 + calldata 비용) */
+  private intrinsicGas(payload: ForwarderExecutePayload): number {
+    const calldata = ethers.utils.arrayify(
+      this.forwarder.interface.encodeFunctionData("execute", [
+        payload.request,
+        payload.domainSeparator,
+        payload.requestTypeHash,
+        payload.suffixData,
+        payload.signature,
+      ]),
+    );
+
+    return calldata.reduce((gas, byte) => gas + (byte === 0 ? 4 : 16), 21_000);
+  }
+}
@@ -0,0 +1,230 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  AllowlistPaymaster,
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+} from "../src/client";
+import { AllowlistPaymasterAdmin } from "../src/operator";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+describe("* Allowlist Paymaster ( Target / Selector / Sender ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+  let stranger: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+  let paymaster: AllowlistPaymaster;
+
+  let admin: AllowlistPaymasterAdmin;
+  let client: MetaTransactionClient;
+
+  const amount = ethers.utils.parseEther("1");
+
+  const transferData = () =>
+    clamCoin.interface.encodeFunctionData("transfer", [
+      relayManager.address,
+      amount,
+    ]);
+
+  /** signer 가 서명한 요청을 relayWorker 로 RelayHub.relayCall 하고 RelayHub 이벤트를 반환합니다. */
+  const relay = async (signer: Wallet, to: string, data: string) => {
+    const signed = await client.signRequest(
+      signer,
+      await client.buildRelayRequest(
+        // 거절되는 요청도 서명할 수 있도록 gas 를 추정하지 않습니다.
+        { from: signer.address, to, data, gas: 100_000 },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 0,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: paymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await paymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return receipt.logs
+      .filter((log) => log.address === relayHub.address)
+      .map((log) => relayHub.interface.parseLog(log));
+  };
+
+  /** TransactionRejectedByPaymaster 의 reason(revert data) 에 message 가 포함되어 있는지 확인합니다. */
+  const expectRejected = async (
+    events: Awaited<ReturnType<typeof relay>>,
+    message: string,
+  ) => {
+    const rejected = events.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.paymaster).to.equal(paymaster.address);
+    expect(rejected?.args.reason).to.include(
+      ethers.utils.hexlify(ethers.utils.toUtf8Bytes(message)).slice(2),
+    );
+    expect(
+      events.some((event) => event.name === "TransactionRelayed"),
+    ).to.equal(false);
+  };
+
+  before(async () => {
+    ({ owner, relayManager, relayWorker, relayHub, forwarder, clamCoin } =
+      await deployGsnFixture());
+
+    stranger = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    paymaster = await (await ethers.getContractFactory("AllowlistPaymaster"))
+      .connect(owner)
+      .deploy(relayHub.address, forwarder.address);
+    await paymaster.deployed();
+
+    await (
+      await owner.sendTransaction({
+        to: paymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    admin = new AllowlistPaymasterAdmin(paymaster.address, owner);
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+  });
+
+  describe("* Admin *", async () => {
+    it("applies a policy only once", async () => {
+      const policy = {
+        contracts: { [clamCoin.address]: ["transfer(address,uint256)"] },
+        senders: [owner.address],
+      };
+
+      expect(await admin.applyPolicy(policy)).to.have.length(4);
+
+      expect(await paymaster.allowedTargets(clamCoin.address)).to.equal(true);
+      expect(await paymaster.allMethodsAllowed(clamCoin.address)).to.equal(
+        false,
+      );
+      expect(
+        await paymaster.allowedMethods(
+          clamCoin.address,
+          clamCoin.interface.getSighash("transfer"),
+        ),
+      ).to.equal(true);
+      expect(await paymaster.allowedSenders(owner.address)).to.equal(true);
+      expect(await paymaster.senderAllowlistEnabled()).to.equal(true);
+
+      expect(await admin.applyPolicy(policy)).to.deep.equal([]);
+    });
+
+    it("rejects admin calls from a non-owner", async () => {
+      await expect(
+        paymaster.connect(relayManager).setTarget(stranger.address, true, true),
+      ).to.be.revertedWithCustomError(paymaster, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("* preRelayedCall *", async () => {
+    it("emits TransactionRelayed for an allowed target, method and sender", async () => {
+      const depositBefore = await relayHub.balanceOf(paymaster.address);
+
+      const events = await relay(owner, clamCoin.address, transferData());
+
+      const relayed = events.find(
+        (event) => event.name === "TransactionRelayed",
+      );
+
+      expect(relayed?.args.paymaster).to.equal(paymaster.address);
+      expect(relayed?.args.status).to.equal(0);
+      expect(await clamCoin.balanceOf(relayManager.address)).to.equal(amount);
+      expect(await relayHub.balanceOf(paymaster.address)).to.equal(
+        depositBefore.sub(relayed?.args.charge),
+      );
+    });
+
+    it("rejects a method that is not allowed", async () => {
+      const depositBefore = await relayHub.balanceOf(paymaster.address);
+
+      const events = await relay(
+        owner,
+        clamCoin.address,
+        clamCoin.interface.encodeFunctionData("approve", [
+          stranger.address,
+          amount,
+        ]),
+      );
+
+      await expectRejected(events, "method not allowed");
+      expect(await relayHub.balanceOf(paymaster.address)).to.equal(
+        depositBefore,
+      );
+    });
+
+    it("rejects a target that is not allowed", async () => {
+      const events = await relay(owner, stranger.address, transferData());
+
+      await expectRejected(events, "target not allowed");
+    });
+
+    it("rejects a sender that is not allowed", async () => {
+      const events = await relay(stranger, clamCoin.address, transferData());
+
+      await expectRejected(events, "sender not allowed");
+    });
+
+    it("accepts any sender once the sender allowlist is disabled", async () => {
+      await admin.setSenderAllowlistEnabled(false);
+
+      // stranger 는 CLAM 이 없으므로 대상 호출은 실패하지만 paymaster 는 가스비를 대납합니다.
+      const events = await relay(stranger, clamCoin.address, transferData());
+
+      const relayed = events.find(
+        (event) => event.name === "TransactionRelayed",
+      );
+      expect(relayed?.args.from).to.equal(stranger.address);
+    });
+  });
+});
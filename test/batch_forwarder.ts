@@ -0,0 +1,191 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  BatchForwarder,
+  ClamCoin,
+  Forwarder__factory,
+} from "../typechain-types";
+import { BatchCall, MetaTransactionClient } from "../src/client";
+
+const DOMAIN_NAME = "Trusted Relay Transaction";
+const DOMAIN_VERSION = "1";
+
+describe("* BatchForwarder atomic multi-call meta-transactions *", async () => {
+  let owner: Wallet;
+  let relayWorker: Wallet;
+
+  /** Native Token 이 없는 요청자 */
+  let holder: Wallet;
+  let spender: Wallet;
+  let recipients: Wallet[];
+
+  let batchForwarder: BatchForwarder;
+
+  /** 두 토큰 모두 BatchForwarder 를 trusted forwarder 로 신뢰합니다. */
+  let clamCoin: ClamCoin;
+  let otherCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+
+  const amount = ethers.utils.parseEther("1");
+
+  const transferCall = (token: ClamCoin, to: string, value = amount) => ({
+    to: token.address,
+    data: token.interface.encodeFunctionData("transfer", [to, value]),
+  });
+
+  /**
+   * holder 가 서명한 batch 요청을 relayWorker 로 BatchForwarder.execute 합니다.
+   *
+   * @returns Forwarder.execute 의 반환값 (sendBatch 성공 여부, revert 데이터)
+   */
+  const executeBatch = async (calls: BatchCall[]) => {
+    const payload = client.toForwarderExecutePayload(
+      await client.createSignedBatchRequest(holder, { calls, gas: 500_000 }),
+    );
+    const args = [
+      payload.request,
+      payload.domainSeparator,
+      payload.requestTypeHash,
+      payload.suffixData,
+      payload.signature,
+    ] as const;
+
+    const result = await batchForwarder
+      .connect(relayWorker)
+      .callStatic.execute(...args);
+    await (await batchForwarder.connect(relayWorker).execute(...args)).wait();
+
+    return result;
+  };
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    if (!operator.provider) {
+      throw new Error("provider is undefined");
+    }
+
+    owner = ethers.Wallet.createRandom().connect(operator.provider);
+    relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+    holder = ethers.Wallet.createRandom().connect(operator.provider);
+    spender = ethers.Wallet.createRandom().connect(operator.provider);
+    recipients = [0, 1, 2].map(() =>
+      ethers.Wallet.createRandom().connect(operator.provider!),
+    );
+
+    for (const wallet of [owner, relayWorker]) {
+      const sendNativeTx = await operator.sendTransaction({
+        to: wallet.address,
+        value: ethers.utils.parseEther("10"),
+      });
+      await sendNativeTx.wait();
+    }
+
+    batchForwarder = await (
+      await ethers.getContractFactory("BatchForwarder")
+    ).deploy();
+    await batchForwarder.deployed();
+    await (
+      await batchForwarder.registerDomainSeparator(DOMAIN_NAME, DOMAIN_VERSION)
+    ).wait();
+
+    const clamCoinFactory = (
+      await ethers.getContractFactory("ClamCoin")
+    ).connect(owner);
+
+    clamCoin = await clamCoinFactory.deploy(batchForwarder.address);
+    otherCoin = await clamCoinFactory.deploy(batchForwarder.address);
+
+    for (const token of [clamCoin, otherCoin]) {
+      await token.deployed();
+      await (await token.transfer(holder.address, amount.mul(10))).wait();
+    }
+
+    client = new MetaTransactionClient(
+      Forwarder__factory.connect(batchForwarder.address, operator.provider),
+      DOMAIN_NAME,
+      DOMAIN_VERSION,
+    );
+  });
+
+  it("builds a request targeting the BatchForwarder itself", async () => {
+    const calls = [transferCall(clamCoin, recipients[0].address)];
+    const request = await client.buildBatchRequest({
+      from: holder.address,
+      calls,
+    });
+
+    expect(request.message.to).to.equal(batchForwarder.address);
+    expect(request.message.data).to.equal(
+      batchForwarder.interface.encodeFunctionData("sendBatch", [
+        [clamCoin.address],
+        [calls[0].data],
+      ]),
+    );
+
+    await expect(
+      client.buildBatchRequest({ from: holder.address, calls: [] }),
+    ).to.be.rejectedWith("batch has no calls");
+  });
+
+  it("preserves _msgSender for each inner call (approve + transfers)", async () => {
+    const [success] = await executeBatch([
+      {
+        to: clamCoin.address,
+        data: clamCoin.interface.encodeFunctionData("approve", [
+          spender.address,
+          amount,
+        ]),
+      },
+      ...recipients.map((recipient) =>
+        transferCall(clamCoin, recipient.address),
+      ),
+      transferCall(otherCoin, recipients[0].address),
+    ]);
+
+    expect(success).to.equal(true);
+    expect(await clamCoin.allowance(holder.address, spender.address)).to.equal(
+      amount,
+    );
+
+    for (const recipient of recipients) {
+      expect(await clamCoin.balanceOf(recipient.address)).to.equal(amount);
+    }
+
+    expect(await clamCoin.balanceOf(holder.address)).to.equal(amount.mul(7));
+    expect(await otherCoin.balanceOf(holder.address)).to.equal(amount.mul(9));
+    expect(await otherCoin.balanceOf(recipients[0].address)).to.equal(amount);
+
+    // BatchForwarder 자신은 토큰을 보유하거나 승인받지 않습니다.
+    expect(await clamCoin.balanceOf(batchForwarder.address)).to.equal(0);
+    expect(await holder.getBalance()).to.equal(0);
+  });
+
+  it("reverts every inner call when one of them reverts", async () => {
+    const balance = await clamCoin.balanceOf(holder.address);
+    const otherBalance = await otherCoin.balanceOf(holder.address);
+    const nonce = await batchForwarder.getNonce(holder.address);
+
+    const [success, ret] = await executeBatch([
+      transferCall(clamCoin, recipients[1].address),
+      transferCall(otherCoin, recipients[1].address),
+      transferCall(clamCoin, recipients[2].address, balance),
+    ]);
+
+    expect(success).to.equal(false);
+    expect(clamCoin.interface.parseError(ret).name).to.equal(
+      "ERC20InsufficientBalance",
+    );
+
+    expect(await clamCoin.balanceOf(holder.address)).to.equal(balance);
+    expect(await otherCoin.balanceOf(holder.address)).to.equal(otherBalance);
+
+    // 실패한 요청도 nonce 는 소비되므로 같은 서명을 재사용할 수 없습니다.
+    expect(await batchForwarder.getNonce(holder.address)).to.equal(
+      nonce.add(1),
+    );
+  });
+});
@@ -0,0 +1,270 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import axios from "axios";
+import { ClamCoin, Forwarder } from "../typechain-types";
+import {
+  RECEIVE_WITH_AUTHORIZATION_TYPE_NAME,
+  TransferAuthorizationOptions,
+  buildCancelAuthorization,
+  buildTransferAuthorization,
+  signAuthorization,
+  toCancelAuthorizationArgs,
+  toTransferAuthorizationPayload,
+  toTransferWithAuthorizationArgs,
+} from "../src/client";
+import { AllowlistSponsorshipPolicy, TrustedRelayServer } from "../src/server";
+
+describe("* GasFreeERC20 EIP-3009 transfer with authorization *", async () => {
+  let owner: Wallet;
+  let relayWorker: Wallet;
+
+  /** Native Token 이 없는 CLAM 보유자 */
+  let holder: Wallet;
+  let recipient: Wallet;
+
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+
+  let server: TrustedRelayServer;
+  let relayUrl: string;
+
+  const amount = ethers.utils.parseEther("10");
+
+  const latestTimestamp = async () =>
+    (await ethers.provider.getBlock("latest")).timestamp;
+
+  /** holder 가 recipient 에게 amount 를 보내는 승인에 서명합니다. */
+  const signTransfer = async (options: TransferAuthorizationOptions = {}) =>
+    signAuthorization(
+      holder,
+      await buildTransferAuthorization(
+        clamCoin,
+        holder.address,
+        recipient.address,
+        amount,
+        options,
+      ),
+    );
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    if (!operator.provider) {
+      throw new Error("provider is undefined");
+    }
+
+    owner = ethers.Wallet.createRandom().connect(operator.provider);
+    relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+    holder = ethers.Wallet.createRandom().connect(operator.provider);
+    recipient = ethers.Wallet.createRandom().connect(operator.provider);
+
+    for (const wallet of [owner, relayWorker, recipient]) {
+      const sendNativeTx = await operator.sendTransaction({
+        to: wallet.address,
+        value: ethers.utils.parseEther("10"),
+      });
+      await sendNativeTx.wait();
+    }
+
+    forwarder = await (await ethers.getContractFactory("Forwarder")).deploy();
+    await forwarder.deployed();
+
+    clamCoin = await (await ethers.getContractFactory("ClamCoin"))
+      .connect(owner)
+      .deploy(forwarder.address);
+    await clamCoin.deployed();
+
+    await (await clamCoin.transfer(holder.address, amount.mul(10))).wait();
+
+    server = new TrustedRelayServer({
+      forwarder,
+      relayWorker,
+      policy: new AllowlistSponsorshipPolicy({
+        contracts: {
+          [clamCoin.address]: [
+            "transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)",
+          ],
+        },
+        senders: [holder.address],
+      }),
+    });
+
+    relayUrl = `http://127.0.0.1:${await server.listen(0)}`;
+  });
+
+  it("transfers with an authorization submitted by anyone", async () => {
+    const signed = await signTransfer();
+    const { nonce } = signed.authorization.message;
+
+    expect(await clamCoin.authorizationState(holder.address, nonce)).to.equal(
+      false,
+    );
+
+    await expect(
+      clamCoin
+        .connect(recipient)
+        .transferWithAuthorization(...toTransferWithAuthorizationArgs(signed)),
+    )
+      .to.emit(clamCoin, "AuthorizationUsed")
+      .withArgs(holder.address, nonce);
+
+    expect(await clamCoin.balanceOf(recipient.address)).to.equal(amount);
+    expect(await clamCoin.authorizationState(holder.address, nonce)).to.equal(
+      true,
+    );
+
+    await expect(
+      clamCoin.transferWithAuthorization(
+        ...toTransferWithAuthorizationArgs(signed),
+      ),
+    ).to.be.revertedWithCustomError(
+      clamCoin,
+      "ERC3009AuthorizationUsedOrCanceled",
+    );
+  });
+
+  it("rejects an authorization outside of its validity window", async () => {
+    const now = await latestTimestamp();
+
+    const notYetValid = await signTransfer({ validAfter: now + 3600 });
+    await expect(
+      clamCoin.transferWithAuthorization(
+        ...toTransferWithAuthorizationArgs(notYetValid),
+      ),
+    )
+      .to.be.revertedWithCustomError(
+        clamCoin,
+        "ERC3009AuthorizationNotYetValid",
+      )
+      .withArgs(now + 3600);
+
+    const expired = await signTransfer({ validBefore: now });
+    await expect(
+      clamCoin.transferWithAuthorization(
+        ...toTransferWithAuthorizationArgs(expired),
+      ),
+    )
+      .to.be.revertedWithCustomError(clamCoin, "ERC3009AuthorizationExpired")
+      .withArgs(now);
+  });
+
+  it("accepts receiveWithAuthorization only from the payee", async () => {
+    const signed = await signTransfer({
+      primaryType: RECEIVE_WITH_AUTHORIZATION_TYPE_NAME,
+    });
+    const balanceBefore = await clamCoin.balanceOf(recipient.address);
+
+    await expect(
+      clamCoin
+        .connect(owner)
+        .receiveWithAuthorization(...toTransferWithAuthorizationArgs(signed)),
+    )
+      .to.be.revertedWithCustomError(clamCoin, "ERC3009InvalidCaller")
+      .withArgs(owner.address, recipient.address);
+
+    // ReceiveWithAuthorization 서명은 transferWithAuthorization 에 사용할 수 없습니다.
+    await expect(
+      clamCoin.transferWithAuthorization(
+        ...toTransferWithAuthorizationArgs(signed),
+      ),
+    ).to.be.revertedWithCustomError(clamCoin, "ERC3009InvalidSigner");
+
+    await (
+      await clamCoin
+        .connect(recipient)
+        .receiveWithAuthorization(...toTransferWithAuthorizationArgs(signed))
+    ).wait();
+
+    expect(
+      (await clamCoin.balanceOf(recipient.address)).sub(balanceBefore),
+    ).to.equal(amount);
+    expect(() => toTransferAuthorizationPayload(signed)).to.throw(
+      "can be relayed",
+    );
+  });
+
+  it("cancels an unused authorization", async () => {
+    const signed = await signTransfer();
+    const { nonce } = signed.authorization.message;
+
+    const cancel = await signAuthorization(
+      holder,
+      await buildCancelAuthorization(clamCoin, holder.address, nonce),
+    );
+
+    await expect(
+      clamCoin.cancelAuthorization(...toCancelAuthorizationArgs(cancel)),
+    )
+      .to.emit(clamCoin, "AuthorizationCanceled")
+      .withArgs(holder.address, nonce);
+
+    await expect(
+      clamCoin.transferWithAuthorization(
+        ...toTransferWithAuthorizationArgs(signed),
+      ),
+    ).to.be.revertedWithCustomError(
+      clamCoin,
+      "ERC3009AuthorizationUsedOrCanceled",
+    );
+  });
+
+  it("relays a sponsored authorization through the trusted relay server", async () => {
+    const signed = await signTransfer();
+    const balanceBefore = await clamCoin.balanceOf(recipient.address);
+
+    const { data } = await axios.post(
+      `${relayUrl}/relayAuthorization`,
+      toTransferAuthorizationPayload(signed),
+    );
+
+    expect(data.error).to.equal(undefined);
+
+    const receipt = await ethers.provider.waitForTransaction(data.txHash);
+
+    expect(receipt.from).to.equal(relayWorker.address);
+    expect(receipt.to).to.equal(clamCoin.address);
+    expect(
+      (await clamCoin.balanceOf(recipient.address)).sub(balanceBefore),
+    ).to.equal(amount);
+    expect(await holder.getBalance()).to.equal(0);
+
+    // 이미 사용된 승인은 제출 전에 거절합니다.
+    const workerNonce = await relayWorker.getTransactionCount();
+    const { data: replayed } = await axios.post(
+      `${relayUrl}/relayAuthorization`,
+      toTransferAuthorizationPayload(signed),
+    );
+
+    expect(replayed.error).to.include("ERC3009AuthorizationUsedOrCanceled");
+    expect(await relayWorker.getTransactionCount()).to.equal(workerNonce);
+  });
+
+  it("rejects an authorization from a sender that is not sponsored", async () => {
+    await (await clamCoin.transfer(recipient.address, amount)).wait();
+
+    const signed = await signAuthorization(
+      recipient,
+      await buildTransferAuthorization(
+        clamCoin,
+        recipient.address,
+        holder.address,
+        amount,
+      ),
+    );
+
+    const { data } = await axios.post(
+      `${relayUrl}/relayAuthorization`,
+      toTransferAuthorizationPayload(signed),
+    );
+
+    expect(data.error).to.include(
+      `sender ${recipient.address} is not sponsored`,
+    );
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+});
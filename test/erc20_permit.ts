@@ -0,0 +1,252 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  buildPermit,
+  getDomainSeparator,
+  signPermit,
+  toPermitArgs,
+} from "../src/client";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+describe("* GasFreeERC20 EIP-2612 permit *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  /** Native Token 이 없는 CLAM 보유자 */
+  let holder: Wallet;
+
+  /** Native Token 이 없는 spender (permit 을 받아 transferFrom 하는 쪽) */
+  let spender: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+
+  const amount = ethers.utils.parseEther("10");
+
+  const latestTimestamp = async () =>
+    (await ethers.provider.getBlock("latest")).timestamp;
+
+  /** spender 가 서명한 ClamCoin 호출을 relayWorker 로 RelayHub.relayCall 합니다. (zeroPaymaster 대납) */
+  const relay = async (data: string) => {
+    const signed = await client.signRequest(
+      spender,
+      await client.buildRelayRequest(
+        { from: spender.address, to: clamCoin.address, data, gas: 200_000 },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 0,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: zeroPaymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await zeroPaymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return receipt.logs
+      .filter((log) => log.address === relayHub.address)
+      .map((log) => relayHub.interface.parseLog(log))
+      .find((event) => event.name === "TransactionRelayed");
+  };
+
+  before(async () => {
+    ({
+      owner,
+      relayManager,
+      relayWorker,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+      clamCoin,
+    } = await deployGsnFixture());
+
+    holder = ethers.Wallet.createRandom().connect(ethers.provider);
+    spender = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (await clamCoin.transfer(holder.address, amount.mul(10))).wait();
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+  });
+
+  it("exposes the EIP-712 domain of the token", async () => {
+    const permit = await buildPermit(
+      clamCoin,
+      holder.address,
+      spender.address,
+      amount,
+      0,
+    );
+
+    expect(permit.domain).to.deep.equal({
+      name: "ClamCoin",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: clamCoin.address,
+    });
+    expect(await clamCoin.DOMAIN_SEPARATOR()).to.equal(
+      getDomainSeparator(permit.domain),
+    );
+    expect(permit.message.nonce).to.equal(0);
+  });
+
+  it("combines a relayed permit with a relayed transferFrom", async () => {
+    const signedPermit = await signPermit(
+      holder,
+      await buildPermit(
+        clamCoin,
+        holder.address,
+        spender.address,
+        amount,
+        (await latestTimestamp()) + 3600,
+      ),
+    );
+
+    // permit 은 서명자를 서명에서 복원하므로 spender 의 메타 트랜잭션으로도 제출할 수 있습니다.
+    const permitted = await relay(
+      clamCoin.interface.encodeFunctionData(
+        "permit",
+        toPermitArgs(signedPermit),
+      ),
+    );
+    expect(permitted?.args.status).to.equal(0);
+    expect(await clamCoin.allowance(holder.address, spender.address)).to.equal(
+      amount,
+    );
+    expect(await clamCoin.nonces(holder.address)).to.equal(1);
+
+    const transferred = await relay(
+      clamCoin.interface.encodeFunctionData("transferFrom", [
+        holder.address,
+        spender.address,
+        amount,
+      ]),
+    );
+    expect(transferred?.args.status).to.equal(0);
+    expect(await clamCoin.balanceOf(spender.address)).to.equal(amount);
+    expect(await clamCoin.allowance(holder.address, spender.address)).to.equal(
+      0,
+    );
+
+    // holder 와 spender 모두 Native Token 을 사용하지 않았습니다.
+    expect(await holder.getBalance()).to.equal(0);
+    expect(await spender.getBalance()).to.equal(0);
+  });
+
+  it("rejects a replayed permit", async () => {
+    const signedPermit = await signPermit(
+      holder,
+      await buildPermit(
+        clamCoin,
+        holder.address,
+        spender.address,
+        amount,
+        (await latestTimestamp()) + 3600,
+      ),
+    );
+
+    await (await clamCoin.permit(...toPermitArgs(signedPermit))).wait();
+
+    await expect(
+      clamCoin.permit(...toPermitArgs(signedPermit)),
+    ).to.be.revertedWithCustomError(clamCoin, "ERC2612InvalidSigner");
+  });
+
+  it("rejects an expired permit", async () => {
+    const deadline = (await latestTimestamp()) - 1;
+    const signedPermit = await signPermit(
+      holder,
+      await buildPermit(
+        clamCoin,
+        holder.address,
+        spender.address,
+        amount,
+        deadline,
+      ),
+    );
+
+    await expect(clamCoin.permit(...toPermitArgs(signedPermit)))
+      .to.be.revertedWithCustomError(clamCoin, "ERC2612ExpiredSignature")
+      .withArgs(deadline);
+  });
+
+  it("rejects a permit signed by someone other than the owner", async () => {
+    const permit = await buildPermit(
+      clamCoin,
+      holder.address,
+      spender.address,
+      amount,
+      (await latestTimestamp()) + 3600,
+    );
+
+    await expect(signPermit(spender, permit)).to.be.rejectedWith(
+      "is not permit.owner",
+    );
+
+    const forged = await signPermit(spender, {
+      ...permit,
+      message: { ...permit.message, owner: spender.address },
+    });
+
+    await expect(
+      clamCoin.permit(
+        holder.address,
+        spender.address,
+        amount,
+        permit.message.deadline,
+        forged.v,
+        forged.r,
+        forged.s,
+      ),
+    ).to.be.revertedWithCustomError(clamCoin, "ERC2612InvalidSigner");
+  });
+});
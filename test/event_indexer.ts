@@ -0,0 +1,275 @@
+import { ethers, network } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  StakeManager,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+} from "../src/client";
+import { EventIndexer, IndexerState } from "../src/indexer";
+import { MemoryStore } from "../src/store";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+describe("* Event indexer ( RelayHub / StakeManager / Forwarder events ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+  let sender: Wallet;
+
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+
+  /** fixture 배포 이전 블록 (인덱싱 시작 블록) */
+  let fromBlock: number;
+
+  let store: MemoryStore<IndexerState>;
+  let indexer: EventIndexer;
+
+  /** store 를 공유하는 indexer */
+  const newIndexer = () =>
+    new EventIndexer({
+      relayHub,
+      forwarders: [forwarder.address],
+      store,
+      fromBlock,
+      confirmations: 0,
+    });
+
+  /** sender 가 owner 에게 CLAM 을 전송하는 요청을 relayWorker 로 RelayHub.relayCall 합니다. */
+  const relayTransfer = async (amount: BigNumber) => {
+    const signed = await client.signRequest(
+      sender,
+      await client.buildRelayRequest(
+        {
+          from: sender.address,
+          to: clamCoin.address,
+          data: clamCoin.interface.encodeFunctionData("transfer", [
+            owner.address,
+            amount,
+          ]),
+          gas: 100_000,
+        },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 10,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: zeroPaymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await zeroPaymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+
+    return (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+  };
+
+  before(async () => {
+    fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    ({
+      owner,
+      relayManager,
+      relayWorker,
+      stakeManager,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+      clamCoin,
+    } = await deployGsnFixture());
+
+    sender = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await clamCoin
+        .connect(owner)
+        .transfer(sender.address, ethers.utils.parseEther("100"))
+    ).wait();
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+    await (
+      await relayHub
+        .connect(relayManager)
+        .registerRelayServer(0, 10, "http://relay.test")
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+
+    await relayTransfer(ethers.utils.parseEther("1"));
+    await relayTransfer(ethers.utils.parseEther("2"));
+
+    store = new MemoryStore<IndexerState>();
+    indexer = newIndexer();
+  });
+
+  it("indexes decoded RelayHub, StakeManager and Forwarder events", async () => {
+    const result = await indexer.sync();
+
+    expect(result?.fromBlock).to.equal(fromBlock);
+    expect(result?.toBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const names = (await indexer.query()).map(({ name }) => name);
+
+    for (const name of [
+      "DomainRegistered",
+      "RequestTypeRegistered",
+      "StakeAdded",
+      "Deposited",
+      "RelayServerRegistered",
+      "TransactionRelayed",
+    ]) {
+      expect(names).to.include(name);
+    }
+
+    const [registered] = await indexer.query({
+      names: ["RelayServerRegistered"],
+      args: { relayManager: relayManager.address.toLowerCase() },
+    });
+    expect(registered.args.relayUrl).to.equal("http://relay.test");
+    expect(registered.args.pctRelayFee).to.equal("10");
+
+    const [staked] = await indexer.query({
+      contract: "StakeManager",
+      address: stakeManager.address,
+    });
+    expect(staked.name).to.equal("StakeAdded");
+    expect(staked.args.relayManager).to.equal(relayManager.address);
+  });
+
+  it("answers relayed calls from a sender and charges paid by a paymaster", async () => {
+    const calls = await indexer.getRelayedCalls(sender.address);
+
+    expect(calls.length).to.equal(2);
+    for (const { relayed } of calls) {
+      expect(relayed.args.from).to.equal(sender.address);
+      expect(relayed.args.relayWorker).to.equal(relayWorker.address);
+      // RelayCallStatus.OK
+      expect(relayed.args.status).to.equal(0);
+    }
+
+    const { charges, total } = await indexer.getPaymasterCharges(
+      zeroPaymaster.address,
+    );
+
+    expect(charges.length).to.equal(2);
+    expect(total).to.equal(
+      BigNumber.from(charges[0].args.charge as string).add(
+        charges[1].args.charge as string,
+      ),
+    );
+    expect(total).to.be.gt(0);
+    expect((await indexer.getPaymasterCharges(owner.address)).total).to.equal(
+      0,
+    );
+  });
+
+  it("resumes from the store and indexes only new blocks", async () => {
+    const indexedBlock = await indexer.getIndexedBlock();
+    const resumed = newIndexer();
+
+    expect(await resumed.sync()).to.equal(undefined);
+
+    await relayTransfer(ethers.utils.parseEther("3"));
+    const result = await resumed.sync();
+
+    expect(result?.fromBlock).to.equal(indexedBlock + 1);
+    expect(result?.added).to.be.gte(1);
+    expect((await resumed.getRelayedCalls(sender.address)).length).to.equal(3);
+  });
+
+  it("indexes blocks only after the confirmation depth", async () => {
+    const confirmed = new EventIndexer({
+      relayHub,
+      forwarders: [forwarder.address],
+      fromBlock,
+      confirmations: 3,
+    });
+
+    // 앞선 relay 호출들이 확정되도록 블록을 채굴합니다.
+    await network.provider.send("hardhat_mine", ["0x3"]);
+    await relayTransfer(ethers.utils.parseEther("4"));
+    const relayedBlock = await ethers.provider.getBlockNumber();
+
+    await confirmed.sync();
+    expect(await confirmed.getIndexedBlock()).to.equal(relayedBlock - 3);
+    expect((await confirmed.getRelayedCalls(sender.address)).length).to.equal(
+      3,
+    );
+
+    await network.provider.send("hardhat_mine", ["0x3"]);
+    await confirmed.sync();
+
+    expect(await confirmed.getIndexedBlock()).to.equal(relayedBlock);
+    expect((await confirmed.getRelayedCalls(sender.address)).length).to.equal(
+      4,
+    );
+  });
+
+  it("removes events of blocks dropped by a reorg", async () => {
+    const reorged = new EventIndexer({
+      relayHub,
+      forwarders: [forwarder.address],
+      fromBlock,
+      confirmations: 0,
+      maxBlockRange: 5,
+    });
+    await reorged.sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await relayTransfer(ethers.utils.parseEther("5"));
+    await reorged.sync();
+    expect((await reorged.getRelayedCalls(sender.address)).length).to.equal(5);
+
+    // 같은 높이에 relay 호출이 없는 다른 블록들이 채굴된 체인으로 바뀝니다.
+    await network.provider.send("evm_revert", [snapshot]);
+    await network.provider.send("hardhat_mine", ["0x2"]);
+
+    const result = await reorged.sync();
+
+    expect(result?.removed).to.be.gte(1);
+    expect((await reorged.getRelayedCalls(sender.address)).length).to.equal(4);
+    expect(await reorged.getIndexedBlock()).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import {
+  ClamCoin,
+  Forwarder,
+  Penalizer,
+  RelayHub,
+  StakeManager,
+  ZeroPaymaster,
+} from "../../typechain-types";
+import { GsnDeployer, GsnDeployment } from "../../src/deploy";
+import { GsnRelayServer, GsnRelayServerConfig } from "../../src/server";
+import { MemoryStore } from "../../src/store";
+import hardhatConfig from "../../deploy/config/hardhat.json";
+
+/**
+ * {@link deployGsnFixture} 로 배포 / 설정된 GSN 구성 요소입니다.
+ *
+ * - owner: ClamCoin 보유자이자 relayManager 의 stake 소유자
+ * - relayManager: owner 가 stake 하고 RelayHub 를 authorize 한 상태 (worker 미등록)
+ * - relayWorker: Native Token 만 충전된 상태
+ * - zeroPaymaster: RelayHub 에 1 ETH 가 예치된 상태
+ */
+export interface GsnFixture {
+  owner: Wallet;
+  relayManager: Wallet;
+  relayWorker: Wallet;
+  stakeManager: StakeManager;
+  penalizer: Penalizer;
+  relayHub: RelayHub;
+  forwarder: Forwarder;
+  zeroPaymaster: ZeroPaymaster;
+  clamCoin: ClamCoin;
+}
+
+/**
+ * GSN 컨트랙트를 배포하고 relayManager stake 까지 완료합니다.
+ *
+ * GSN 컨트랙트는 {@link GsnDeployer} 로 `deploy/config/hardhat.json` 설정에 따라 배포됩니다.
+ * RelayHub 는 OpenGSN 기본 설정의 가스 파라미터로 배포되어
+ * externalGasLimit 과 트랜잭션 gasLimit 이 같은 OpenGSN RelayClient / RelayServer 의 요청을 처리할 수 있습니다.
+ */
+export async function deployGsnFixture(): Promise<GsnFixture> {
+  const [operator] = await ethers.getSigners();
+
+  if (!operator.provider) {
+    throw new Error("provider is undefined");
+  }
+
+  const owner = ethers.Wallet.createRandom().connect(operator.provider);
+  const relayManager = ethers.Wallet.createRandom().connect(operator.provider);
+  const relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+
+  for (const wallet of [owner, relayManager, relayWorker]) {
+    const sendNativeTx = await operator.sendTransaction({
+      to: wallet.address,
+      value: ethers.utils.parseEther("10"),
+    });
+    await sendNativeTx.wait();
+  }
+
+  const { stakeManager, penalizer, relayHub, forwarder, zeroPaymaster } =
+    await new GsnDeployer({
+      signer: operator,
+      network: "hardhat",
+      config: hardhatConfig,
+      store: new MemoryStore<GsnDeployment>(),
+    }).deploy();
+
+  await (
+    await owner.sendTransaction({
+      to: zeroPaymaster.address,
+      value: ethers.utils.parseEther("1"),
+    })
+  ).wait();
+
+  const clamCoin = await (await ethers.getContractFactory("ClamCoin"))
+    .connect(owner)
+    .deploy(forwarder.address);
+  await clamCoin.deployed();
+
+  await stake({ owner, stakeManager, relayHub }, relayManager);
+
+  return {
+    owner,
+    relayManager,
+    relayWorker,
+    stakeManager,
+    penalizer,
+    relayHub,
+    forwarder,
+    zeroPaymaster,
+    clamCoin,
+  };
+}
+
+/** {@link stakeRelayManager} / {@link startGsnRelay} 에 필요한 {@link GsnFixture} 구성 요소 */
+export type StakeFixture = Pick<
+  GsnFixture,
+  "owner" | "stakeManager" | "relayHub"
+>;
+
+/**
+ * 새 relayManager 에 Native Token 을 충전하고 fixture 의 owner 로 stake / RelayHub authorize 합니다.
+ * (relayWorker 추가와 RelayHub 등록은 하지 않습니다)
+ */
+export async function stakeRelayManager(
+  fixture: StakeFixture,
+): Promise<Wallet> {
+  const relayManager = ethers.Wallet.createRandom().connect(ethers.provider);
+
+  await fund(relayManager);
+  await stake(fixture, relayManager);
+
+  return relayManager;
+}
+
+/**
+ * 새 relayManager 를 stake 하고, 새 relayWorker 로 {@link GsnRelayServer} 를 임의의 포트에서 시작 / 등록합니다.
+ *
+ * @param config - relayHub / relayManager / relayWorker 를 제외한 {@link GsnRelayServerConfig}
+ */
+export async function startGsnRelay(
+  fixture: StakeFixture,
+  config: Omit<
+    GsnRelayServerConfig,
+    "relayHub" | "relayManager" | "relayWorker"
+  > = {},
+): Promise<GsnRelayServer> {
+  const relayManager = await stakeRelayManager(fixture);
+  const relayWorker = ethers.Wallet.createRandom().connect(ethers.provider);
+
+  await fund(relayWorker);
+
+  const server = new GsnRelayServer({
+    ...config,
+    relayHub: fixture.relayHub,
+    relayManager,
+    relayWorker,
+  });
+  await server.listen(0);
+  await server.init();
+
+  return server;
+}
+
+/** hardhat 기본 계정으로 wallet 에 10 Native Token 을 전송합니다. */
+async function fund(wallet: Wallet): Promise<void> {
+  const [operator] = await ethers.getSigners();
+
+  await (
+    await operator.sendTransaction({
+      to: wallet.address,
+      value: ethers.utils.parseEther("10"),
+    })
+  ).wait();
+}
+
+/** owner 를 relayManager 의 stake 소유자로 설정하고 RelayHub 를 authorize 한 뒤 2 Native Token 을 stake 합니다. */
+async function stake(
+  { owner, stakeManager, relayHub }: StakeFixture,
+  relayManager: Wallet,
+): Promise<void> {
+  await (
+    await stakeManager.connect(relayManager).setRelayManagerOwner(owner.address)
+  ).wait();
+  await (
+    await stakeManager
+      .connect(owner)
+      .authorizeHubByOwner(relayManager.address, relayHub.address)
+  ).wait();
+  await (
+    await stakeManager
+      .connect(owner)
+      .stakeForRelayManager(relayManager.address, 0, {
+        value: ethers.utils.parseEther("2"),
+      })
+  ).wait();
+}
@@ -0,0 +1,342 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { ClamCoin, Forwarder } from "../typechain-types";
+import { expect } from "chai";
+import {
+  ForwarderExecutePayload,
+  MetaTransactionClient,
+  getEIP712MessageForRelayRequest,
+} from "../src/client";
+import {
+  FORWARDER_REVERT_REASONS,
+  ForwardRequestValidator,
+  encodeForwardRequest,
+} from "../src/validation";
+
+describe("* Off-chain ForwardRequest validation ( mirrors Forwarder.execute ) *", async () => {
+  /** 서명자 EOA (ClamCoin 보유자) */
+  let owner: Wallet;
+
+  /** Forwarder.execute 를 호출하는 relayer EOA */
+  let relayWorker: Wallet;
+
+  let forwarder: Forwarder;
+
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+
+  let validator: ForwardRequestValidator;
+
+  const transferData = () =>
+    clamCoin.interface.encodeFunctionData("transfer", [
+      relayWorker.address,
+      ethers.utils.parseEther("1"),
+    ]);
+
+  /** 동일한 요청을 온체인에서 callStatic 으로 실행합니다. */
+  const executeStatic = (
+    payload: ForwarderExecutePayload,
+    gasLimit: number = 1_000_000,
+  ) =>
+    forwarder
+      .connect(relayWorker)
+      .callStatic.execute(
+        payload.request,
+        payload.domainSeparator,
+        payload.requestTypeHash,
+        payload.suffixData,
+        payload.signature,
+        { gasLimit },
+      );
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    owner = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    relayWorker = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await operator.sendTransaction({
+        to: owner.address,
+        value: ethers.utils.parseEther("10"),
+      })
+    ).wait();
+
+    await (
+      await operator.sendTransaction({
+        to: relayWorker.address,
+        value: ethers.utils.parseEther("10"),
+      })
+    ).wait();
+
+    forwarder = await (await ethers.getContractFactory("Forwarder")).deploy();
+
+    await forwarder.deployed();
+
+    clamCoin = await (await ethers.getContractFactory("ClamCoin"))
+      .connect(owner)
+      .deploy(forwarder.address);
+
+    await clamCoin.deployed();
+
+    await (
+      await forwarder.registerDomainSeparator("Trusted Relay Transaction", "1")
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      "Trusted Relay Transaction",
+      "1",
+    );
+
+    validator = new ForwardRequestValidator(forwarder);
+  });
+
+  it("encodes requests exactly like Forwarder._getEncoded", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const payload = client.toForwarderExecutePayload(signed);
+
+    expect(encodeForwardRequest(payload)).to.equal(
+      await forwarder._getEncoded(
+        payload.request,
+        payload.requestTypeHash,
+        payload.suffixData,
+      ),
+    );
+  });
+
+  it("accepts a valid request", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const payload = client.toForwarderExecutePayload(signed);
+
+    const result = await validator.validate(payload, { gasLimit: 1_000_000 });
+
+    expect(result.valid).to.equal(true);
+    expect(result.signer).to.equal(owner.address);
+
+    const [success] = await executeStatic(payload);
+    expect(success).to.equal(true);
+  });
+
+  it("rejects an unregistered domain separator", async () => {
+    const otherClient = new MetaTransactionClient(forwarder, "Unknown", "1");
+    const signed = await otherClient.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const payload = otherClient.toForwarderExecutePayload(signed);
+
+    const result = await validator.validate(payload);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "UNREGISTERED_DOMAIN",
+    ]);
+    await expect(executeStatic(payload)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.UNREGISTERED_DOMAIN,
+    );
+  });
+
+  it("rejects an unregistered request type hash", async () => {
+    const forwardRequest = await client.buildRequest({
+      from: owner.address,
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const relayRequest = getEIP712MessageForRelayRequest(forwardRequest, {
+      gasPrice: 0,
+      pctRelayFee: 0,
+      baseRelayFee: 0,
+      relayWorker: relayWorker.address,
+      paymaster: ethers.constants.AddressZero,
+      forwarder: forwarder.address,
+      paymasterData: "0x",
+      clientId: 0,
+    });
+    const payload = client.toForwarderExecutePayload(
+      await client.signRequest(owner, relayRequest),
+    );
+
+    const result = await validator.validate(payload);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "UNREGISTERED_TYPEHASH",
+    ]);
+    await expect(executeStatic(payload)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.UNREGISTERED_TYPEHASH,
+    );
+  });
+
+  it("rejects a signature from another account", async () => {
+    const eip712Request = await client.buildRequest({
+      from: owner.address,
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const signature = await relayWorker._signTypedData(
+      eip712Request.domain,
+      eip712Request.types,
+      { ...eip712Request.message },
+    );
+    const payload = client.toForwarderExecutePayload({
+      eip712Request,
+      signature,
+    });
+
+    const result = await validator.validate(payload);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "SIGNATURE_MISMATCH",
+    ]);
+    expect(result.signer).to.equal(relayWorker.address);
+    await expect(executeStatic(payload)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.SIGNATURE_MISMATCH,
+    );
+  });
+
+  it("rejects a malleable (high-s) signature", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const { r, s, v } = ethers.utils.splitSignature(signed.signature);
+    const n = BigNumber.from(
+      "0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141",
+    );
+    const payload = client.toForwarderExecutePayload({
+      ...signed,
+      signature: ethers.utils.hexConcat([
+        r,
+        ethers.utils.hexZeroPad(n.sub(s).toHexString(), 32),
+        v === 27 ? "0x1c" : "0x1b",
+      ]),
+    });
+
+    const result = await validator.validate(payload);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "INVALID_SIGNATURE_S",
+    ]);
+    expect(result.rejections[0].reason).to.equal("ECDSAInvalidSignatureS");
+    expect(result.signer).to.equal(undefined);
+    await expect(executeStatic(payload))
+      .to.be.revertedWithCustomError(forwarder, "ECDSAInvalidSignatureS")
+      .withArgs(ethers.utils.hexZeroPad(n.sub(s).toHexString(), 32));
+  });
+
+  it("rejects signatures that ECDSA cannot recover with the matching error", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+    });
+    const { r, s, v } = ethers.utils.splitSignature(signed.signature);
+
+    const truncated = client.toForwarderExecutePayload({
+      ...signed,
+      signature: ethers.utils.hexConcat([r, s]),
+    });
+    const truncatedResult = await validator.validate(truncated);
+
+    expect(truncatedResult.rejections.map((r) => r.code)).to.deep.equal([
+      "INVALID_SIGNATURE_LENGTH",
+    ]);
+    expect(truncatedResult.rejections[0].reason).to.equal(
+      "ECDSAInvalidSignatureLength",
+    );
+    await expect(executeStatic(truncated))
+      .to.be.revertedWithCustomError(forwarder, "ECDSAInvalidSignatureLength")
+      .withArgs(64);
+
+    // v 가 27 / 28 이 아니면 ecrecover 가 address(0) 을 반환합니다.
+    const invalidV = client.toForwarderExecutePayload({
+      ...signed,
+      signature: ethers.utils.hexConcat([r, s, v === 27 ? "0x1d" : "0x1e"]),
+    });
+    const invalidVResult = await validator.validate(invalidV);
+
+    expect(invalidVResult.rejections.map((r) => r.code)).to.deep.equal([
+      "INVALID_SIGNATURE",
+    ]);
+    expect(invalidVResult.rejections[0].reason).to.equal(
+      "ECDSAInvalidSignature",
+    );
+    await expect(executeStatic(invalidV)).to.be.revertedWithCustomError(
+      forwarder,
+      "ECDSAInvalidSignature",
+    );
+  });
+
+  it("rejects a request whose nonce was already used", async () => {
+    const stale = client.toForwarderExecutePayload(
+      await client.createSignedRequest(owner, {
+        to: clamCoin.address,
+        data: transferData(),
+      }),
+    );
+
+    await (
+      await forwarder
+        .connect(relayWorker)
+        .execute(
+          stale.request,
+          stale.domainSeparator,
+          stale.requestTypeHash,
+          stale.suffixData,
+          stale.signature,
+        )
+    ).wait();
+
+    const result = await validator.validate(stale);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "NONCE_MISMATCH",
+    ]);
+    await expect(executeStatic(stale)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.NONCE_MISMATCH,
+    );
+  });
+
+  it("rejects an expired request", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+      validUntil: await ethers.provider.getBlockNumber(),
+    });
+    const payload = client.toForwarderExecutePayload(signed);
+
+    const result = await validator.validate(payload);
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "REQUEST_EXPIRED",
+    ]);
+    await expect(executeStatic(payload)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.REQUEST_EXPIRED,
+    );
+  });
+
+  it("rejects a request that cannot get its gas under the relayer gas limit", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(),
+      gas: 2_000_000,
+    });
+    const payload = client.toForwarderExecutePayload(signed);
+
+    const result = await validator.validate(payload, { gasLimit: 1_000_000 });
+
+    expect(result.rejections.map((r) => r.code)).to.deep.equal([
+      "INSUFFICIENT_GAS",
+    ]);
+    await expect(executeStatic(payload, 1_000_000)).to.be.revertedWith(
+      FORWARDER_REVERT_REASONS.INSUFFICIENT_GAS,
+    );
+  });
+});
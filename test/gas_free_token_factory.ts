@@ -0,0 +1,228 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  Forwarder,
+  GasFreeToken__factory,
+  GasFreeTokenFactory,
+  RelayHub,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  CreateTokenOptions,
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  GasFreeTokenFactoryClient,
+  MetaTransactionClient,
+} from "../src/client";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 토큰 배포를 포함하므로 다른 테스트보다 큰 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 8_000_000;
+
+describe("* GasFreeTokenFactory ( token creation by sponsored meta-transaction ) *", async () => {
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  /** Native Token 이 없는 토큰 생성자 */
+  let creator: Wallet;
+  let recipient: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let factory: GasFreeTokenFactory;
+
+  let client: MetaTransactionClient;
+  let factoryClient: GasFreeTokenFactoryClient;
+
+  const options: CreateTokenOptions = {
+    name: "Pearl Point",
+    symbol: "PRL",
+    initialSupply: ethers.utils.parseEther("1000000"),
+    salt: ethers.utils.formatBytes32String("pearl"),
+  };
+
+  /** signer 가 서명한 호출을 relayWorker 로 RelayHub.relayCall 합니다. (zeroPaymaster 대납) */
+  const relay = async (signer: Wallet, to: string, data: string) => {
+    const signed = await client.signRequest(
+      signer,
+      await client.buildRelayRequest(
+        { from: signer.address, to, data, gas: 5_000_000 },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 0,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: zeroPaymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await zeroPaymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return receipt.logs
+      .filter((log) => log.address === relayHub.address)
+      .map((log) => relayHub.interface.parseLog(log))
+      .find((event) => event.name === "TransactionRelayed");
+  };
+
+  before(async () => {
+    ({ relayManager, relayWorker, relayHub, forwarder, zeroPaymaster } =
+      await deployGsnFixture());
+
+    creator = ethers.Wallet.createRandom().connect(ethers.provider);
+    recipient = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    factory = await (
+      await ethers.getContractFactory("GasFreeTokenFactory")
+    ).deploy(forwarder.address);
+    await factory.deployed();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    factoryClient = new GasFreeTokenFactoryClient(factory);
+  });
+
+  it("predicts the token address off-chain and on-chain", async () => {
+    const predicted = await factoryClient.predictTokenAddress(
+      creator.address,
+      options,
+    );
+
+    expect(predicted).to.equal(
+      await factory.predictTokenAddress(
+        creator.address,
+        options.name,
+        options.symbol,
+        options.initialSupply,
+        options.salt,
+      ),
+    );
+
+    // salt 는 생성자 주소와 함께 사용되므로 다른 생성자는 같은 주소를 선점할 수 없습니다.
+    expect(
+      await factoryClient.predictTokenAddress(recipient.address, options),
+    ).to.not.equal(predicted);
+    expect(await factoryClient.findTokenCreated(predicted)).to.equal(undefined);
+  });
+
+  it("creates a token through the relay without native tokens", async () => {
+    const predicted = await factoryClient.predictTokenAddress(
+      creator.address,
+      options,
+    );
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    const relayed = await relay(
+      creator,
+      factory.address,
+      factoryClient.encodeCreateToken(options),
+    );
+    expect(relayed?.args.status).to.equal(0);
+
+    const created = await factoryClient.waitForTokenCreated(predicted, {
+      fromBlock,
+      pollIntervalMs: 10,
+    });
+
+    expect(created.creator).to.equal(creator.address);
+    expect(created.name).to.equal(options.name);
+    expect(created.symbol).to.equal(options.symbol);
+    expect(created.initialSupply).to.equal(options.initialSupply);
+    expect(await factory.isTokenFromFactory(predicted)).to.equal(true);
+
+    const token = GasFreeToken__factory.connect(predicted, ethers.provider);
+
+    expect(await token.name()).to.equal(options.name);
+    expect(await token.balanceOf(creator.address)).to.equal(
+      options.initialSupply,
+    );
+    expect(await token.trustedForwarder()).to.equal(forwarder.address);
+
+    // 관리 권한은 factory 가 아닌 생성자에게 있습니다.
+    const forwarderAdminRole = await token.FORWARDER_ADMIN_ROLE();
+    expect(await token.hasRole(forwarderAdminRole, creator.address)).to.equal(
+      true,
+    );
+    expect(await token.hasRole(forwarderAdminRole, factory.address)).to.equal(
+      false,
+    );
+    expect(await creator.getBalance()).to.equal(0);
+  });
+
+  it("lets the creator use the new token through the same relay", async () => {
+    const token = GasFreeToken__factory.connect(
+      await factoryClient.predictTokenAddress(creator.address, options),
+      ethers.provider,
+    );
+    const amount = ethers.utils.parseEther("10");
+
+    const relayed = await relay(
+      creator,
+      token.address,
+      token.interface.encodeFunctionData("transfer", [
+        recipient.address,
+        amount,
+      ]),
+    );
+
+    expect(relayed?.args.status).to.equal(0);
+    expect(await token.balanceOf(recipient.address)).to.equal(amount);
+  });
+
+  it("fails to create the same token twice", async () => {
+    const relayed = await relay(
+      creator,
+      factory.address,
+      factoryClient.encodeCreateToken(options),
+    );
+
+    // RelayCallStatus.RelayedCallFailed
+    expect(relayed?.args.status).to.equal(1);
+  });
+
+  it("gives up waiting for a token that is never created", async () => {
+    const predicted = await factoryClient.predictTokenAddress(creator.address, {
+      ...options,
+      salt: ethers.utils.formatBytes32String("never"),
+    });
+
+    await expect(
+      factoryClient.waitForTokenCreated(predicted, {
+        timeoutMs: 50,
+        pollIntervalMs: 10,
+      }),
+    ).to.be.rejectedWith(`token ${predicted} was not created`);
+  });
+});
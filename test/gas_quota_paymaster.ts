@@ -0,0 +1,273 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  GasQuotaPaymaster,
+  RelayHub,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  GasQuotaClient,
+  MetaTransactionClient,
+} from "../src/client";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+/** 하루 */
+const WINDOW_DURATION = 24 * 60 * 60;
+
+/** 사용량을 기록하는 단위 (GasQuotaPaymaster.BUCKETS = 24) */
+const BUCKET_DURATION = WINDOW_DURATION / 24;
+
+/** timestamp 에 기록된 사용량이 한도에서 빠지는 시각 (ms) */
+const releasedAt = (timestamp: number) =>
+  (timestamp -
+    (timestamp % BUCKET_DURATION) +
+    WINDOW_DURATION +
+    BUCKET_DURATION) *
+  1000;
+
+/** postRelayedCall 가스 사용량 추정값 */
+const GAS_USED_BY_POST = 30_000;
+
+describe("* Gas Quota Paymaster ( per-sender sponsored budget ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+  let paymaster: GasQuotaPaymaster;
+
+  let client: MetaTransactionClient;
+  let quotaClient: GasQuotaClient;
+
+  const quota = ethers.utils.parseEther("1");
+
+  /** owner 의 ClamCoin.transfer 요청을 relayWorker 로 RelayHub.relayCall 하고 영수증의 이벤트를 반환합니다. */
+  const relay = async () => {
+    const signed = await client.signRequest(
+      owner,
+      await client.buildRelayRequest(
+        // 거절되는 요청도 서명할 수 있도록 gas 를 추정하지 않습니다.
+        {
+          from: owner.address,
+          to: clamCoin.address,
+          data: clamCoin.interface.encodeFunctionData("transfer", [
+            relayManager.address,
+            1,
+          ]),
+          gas: 100_000,
+        },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 0,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: paymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await paymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return receipt.logs
+      .filter((log) =>
+        [relayHub.address, paymaster.address].includes(log.address),
+      )
+      .map((log) =>
+        log.address === relayHub.address
+          ? relayHub.interface.parseLog(log)
+          : paymaster.interface.parseLog(log),
+      );
+  };
+
+  before(async () => {
+    ({ owner, relayManager, relayWorker, relayHub, forwarder, clamCoin } =
+      await deployGsnFixture());
+
+    paymaster = await (await ethers.getContractFactory("GasQuotaPaymaster"))
+      .connect(owner)
+      .deploy(
+        relayHub.address,
+        forwarder.address,
+        quota,
+        WINDOW_DURATION,
+        GAS_USED_BY_POST,
+      );
+    await paymaster.deployed();
+
+    await (
+      await owner.sendTransaction({
+        to: paymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    quotaClient = new GasQuotaClient(paymaster.address, ethers.provider);
+  });
+
+  it("reports the full quota before the first request", async () => {
+    const gasQuota = await quotaClient.getQuota(owner.address);
+
+    expect(gasQuota.quota).to.equal(quota);
+    expect(gasQuota.used).to.equal(0);
+    expect(gasQuota.remaining).to.equal(quota);
+    expect(gasQuota.windowDuration).to.equal(WINDOW_DURATION);
+    expect(gasQuota.resetsAt).to.equal(undefined);
+  });
+
+  it("records the charge of a sponsored request", async () => {
+    const events = await relay();
+
+    const relayed = events.find((event) => event.name === "TransactionRelayed");
+    const quotaUsed = events.find((event) => event.name === "QuotaUsed");
+
+    expect(relayed?.args.status).to.equal(0);
+    expect(quotaUsed?.args.from).to.equal(owner.address);
+
+    const charge: BigNumber = quotaUsed?.args.charge;
+    const { timestamp } = await ethers.provider.getBlock("latest");
+
+    const gasQuota = await quotaClient.getQuota(owner.address);
+
+    expect(charge).to.be.gt(0);
+    expect(gasQuota.used).to.equal(charge);
+    expect(gasQuota.remaining).to.equal(quota.sub(charge));
+    expect(gasQuota.resetsAt?.getTime()).to.equal(releasedAt(timestamp));
+  });
+
+  it("rejects requests once the quota of the window is used up", async () => {
+    const { used } = await quotaClient.getQuota(owner.address);
+    await (await paymaster.setQuota(used, WINDOW_DURATION)).wait();
+
+    expect((await quotaClient.getQuota(owner.address)).remaining).to.equal(0);
+
+    const depositBefore = await relayHub.balanceOf(paymaster.address);
+    const events = await relay();
+
+    const rejected = events.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.reason).to.include(
+      ethers.utils
+        .hexlify(ethers.utils.toUtf8Bytes("gas quota exceeded"))
+        .slice(2),
+    );
+    expect(await relayHub.balanceOf(paymaster.address)).to.equal(depositBefore);
+  });
+
+  it("rejects a request whose maximum charge exceeds the remaining quota", async () => {
+    const { used } = await quotaClient.getQuota(owner.address);
+    await (await paymaster.setQuota(used.add(1), WINDOW_DURATION)).wait();
+
+    expect((await quotaClient.getQuota(owner.address)).remaining).to.equal(1);
+
+    const events = await relay();
+    const rejected = events.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.reason).to.include(
+      ethers.utils
+        .hexlify(ethers.utils.toUtf8Bytes("gas quota exceeded"))
+        .slice(2),
+    );
+    expect((await quotaClient.getQuota(owner.address)).used).to.equal(used);
+  });
+
+  it("releases each charge once it leaves the rolling window", async () => {
+    await (await paymaster.setQuota(quota, WINDOW_DURATION)).wait();
+
+    const first = await quotaClient.getQuota(owner.address);
+
+    await ethers.provider.send("evm_increaseTime", [WINDOW_DURATION / 2]);
+    const events = await relay();
+    const charge: BigNumber = events.find((event) => event.name === "QuotaUsed")
+      ?.args.charge;
+    const { timestamp } = await ethers.provider.getBlock("latest");
+
+    const second = await quotaClient.getQuota(owner.address);
+    expect(second.used).to.equal(first.used.add(charge));
+    expect(second.resetsAt).to.deep.equal(first.resetsAt);
+
+    // 첫 요청의 사용량만 빠집니다.
+    await ethers.provider.send("evm_setNextBlockTimestamp", [
+      (first.resetsAt?.getTime() ?? 0) / 1000,
+    ]);
+    await ethers.provider.send("evm_mine", []);
+
+    const third = await quotaClient.getQuota(owner.address);
+    expect(third.used).to.equal(charge);
+    expect(third.resetsAt?.getTime()).to.equal(releasedAt(timestamp));
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [
+      releasedAt(timestamp) / 1000,
+    ]);
+    await ethers.provider.send("evm_mine", []);
+
+    const released = await quotaClient.getQuota(owner.address);
+    expect(released.used).to.equal(0);
+    expect(released.remaining).to.equal(quota);
+    expect(released.resetsAt).to.equal(undefined);
+  });
+
+  it("rejects changing the window while usage is outstanding", async () => {
+    await relay();
+    const before = await quotaClient.getQuota(owner.address);
+
+    expect(before.used).to.be.gt(0);
+
+    await expect(
+      paymaster.setQuota(quota, WINDOW_DURATION * 2),
+    ).to.be.revertedWith("window duration cannot change");
+
+    // 기록된 사용량과 만료 시각은 그대로 유지됩니다.
+    expect(await quotaClient.getQuota(owner.address)).to.deep.equal(before);
+  });
+
+  it("rejects quota changes from a non-owner", async () => {
+    await expect(
+      paymaster.connect(relayManager).setQuota(0, WINDOW_DURATION),
+    ).to.be.revertedWithCustomError(paymaster, "OwnableUnauthorizedAccount");
+  });
+});
@@ -12,6 +12,9 @@ import {
   ZeroPaymaster,
 } from "../typechain-types";
 import { expect } from "chai";
+import { GsnDeployConfig, GsnDeployer, GsnDeployment } from "../src/deploy";
+import { MemoryStore } from "../src/store";
+import hardhatConfig from "../deploy/config/hardhat.json";
 
 describe("Deploy GSN Contract ", async () => {
   let owner: Wallet;
@@ -32,6 +35,10 @@ describe("Deploy GSN Contract ", async () => {
 
   let clamCoin: ClamCoin;
 
+  let deployer: GsnDeployer;
+
+  const store = new MemoryStore<GsnDeployment>();
+
   let domainHash: string = "";
   let domainValue: string = "";
 
@@ -48,55 +55,16 @@ describe("Deploy GSN Contract ", async () => {
 
     owner = ethers.Wallet.createRandom().connect(operator.provider);
 
-    const stakeManagerFactory = await ethers.getContractFactory("StakeManager");
-
-    const penalizerFactory = await ethers.getContractFactory("Penalizer");
-
-    const relayHubFactory = await ethers.getContractFactory("RelayHub");
-
-    const forwarderFactory = await ethers.getContractFactory("Forwarder");
-
-    const zeroPaymasterFactory =
-      await ethers.getContractFactory("ZeroPaymaster");
-
-    //MARK: deploy StakeManager
-    stakeManager = await stakeManagerFactory.deploy();
-
-    await stakeManager.deployed();
-
-    //MARK: deploy Penalizer
-    penalizer = await penalizerFactory.deploy();
+    //MARK: deploy StakeManager / Penalizer / RelayHub / Forwarder / Paymaster (deploy/config/hardhat.json)
+    deployer = new GsnDeployer({
+      signer: operator,
+      network: "hardhat",
+      config: hardhatConfig,
+      store,
+    });
 
-    await penalizer.deployed();
-
-    //MARK: deploy RelayHub
-    relayHub = await relayHubFactory.deploy(
-      stakeManager.address,
-      penalizer.address,
-      1,
-      BigNumber.from(300_000), //_gasReserve
-      BigNumber.from(30_000), // _postOverhead
-      BigNumber.from(10_000), // _gasOverhead
-      ethers.utils.parseEther("1000000"), // _maximumRecipientDeposit
-      BigNumber.from(0), // _minimumUnstakeDelay
-      ethers.utils.parseEther("0.1"), // _minimumStake
-      BigNumber.from(16), // _dataGasCostPerByte
-      BigNumber.from(120_000), // _externalCallDataCostOverhead
-    );
-    await relayHub.deployed();
-
-    //MARK: deploy Forwarder
-    forwarder = await forwarderFactory.deploy();
-
-    await forwarder.deployed();
-
-    //MARK: deploy Paymaster
-    zeroPaymaster = await zeroPaymasterFactory.deploy(
-      relayHub.address,
-      forwarder.address,
-    );
-
-    await zeroPaymaster.deployed();
+    ({ stakeManager, penalizer, relayHub, forwarder, zeroPaymaster } =
+      await deployer.deploy());
   });
 
   it("deployed StakeManager", async () => {
@@ -119,6 +87,69 @@ describe("Deploy GSN Contract ", async () => {
     expect(!!zeroPaymaster.address).equal(!!zeroPaymaster.address);
   });
 
+  it("deployed RelayHub with the network config", async () => {
+    const config: GsnDeployConfig = hardhatConfig;
+    const hubConfig = await relayHub.getConfiguration();
+
+    expect(hubConfig.gasReserve).to.equal(config.relayHub.gasReserve);
+    expect(hubConfig.postOverhead).to.equal(config.relayHub.postOverhead);
+    expect(hubConfig.gasOverhead).to.equal(config.relayHub.gasOverhead);
+    expect(hubConfig.minimumStake).to.equal(
+      ethers.utils.parseEther(config.relayHub.minimumStake),
+    );
+    expect(hubConfig.externalCallDataCostOverhead).to.equal(
+      config.relayHub.externalCallDataCostOverhead,
+    );
+    expect(await relayHub.stakeManager()).to.equal(stakeManager.address);
+    expect(await relayHub.penalizer()).to.equal(penalizer.address);
+  });
+
+  it("registered the domain separator and RelayRequest type", async () => {
+    const deployment = (await store.read())!;
+
+    expect(deployment.domain?.name).to.equal(
+      hardhatConfig.forwarder.domainName,
+    );
+    expect(await forwarder.domains(deployment.domain!.separator)).to.equal(
+      true,
+    );
+    expect(await forwarder.typeHashes(deployment.requestTypeHash!)).to.equal(
+      true,
+    );
+  });
+
+  it("skips already deployed contracts when re-run", async () => {
+    const [operator] = await ethers.getSigners();
+    const nonce = await operator.getTransactionCount();
+
+    const result = await deployer.deploy();
+
+    expect(result.deployed).to.deep.equal([]);
+    expect(result.relayHub.address).to.equal(relayHub.address);
+    expect(await operator.getTransactionCount()).to.equal(nonce);
+  });
+
+  it("redeploys dependents when the config changes", async () => {
+    const redeployer = new GsnDeployer({
+      signer: deployer.signer,
+      network: "hardhat",
+      config: {
+        ...hardhatConfig,
+        relayHub: { ...hardhatConfig.relayHub, gasReserve: 200_000 },
+      },
+      store: new MemoryStore((await store.read())!),
+    });
+
+    const result = await redeployer.deploy();
+
+    expect(result.deployed).to.deep.equal(["RelayHub", "ZeroPaymaster"]);
+    expect(result.stakeManager.address).to.equal(stakeManager.address);
+    expect(result.forwarder.address).to.equal(forwarder.address);
+    expect(await result.zeroPaymaster.getHubAddr()).to.equal(
+      result.relayHub.address,
+    );
+  });
+
   after(async () => {
     console.log("💎 StakeManager : ", stakeManager.address);
     console.log("💎 Penalizer : ", penalizer.address);
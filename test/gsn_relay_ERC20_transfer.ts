@@ -16,271 +16,21 @@ import {
   IRelayHub,
 } from "../typechain-types";
 import { expect } from "chai";
-
-/**
- * EIP-712 서명을 위한 구조체의 필드 정보를 정의하는 인터페이스입니다.
- *
- * 이 인터페이스는 `types` 객체를 정의할 때 사용되며, 각 필드는 EIP-712 메시지 구조에서 사용되는
- * Solidity 타입과 이름으로 구성됩니다.
- *
- * @param name - 서명 구조체의 필드 이름입니다. (Solidity 멤버 변수 이름과 일치)
- * @param type - 필드의 데이터 타입입니다. Solidity 타입이어야 합니다.
- *               예: "address", "uint256", "bytes32", "string" 등
- *
- * @example
- * const personType: MessageTypeProperty[] = [
- *   { name: "name", type: "string" },
- *   { name: "wallet", type: "address" }
- * ];
- */
-interface MessageTypeProperty {
-  name: string;
-  type: string;
-}
-
-/**
- * EIP-712 타입 정의 전체를 표현하는 인터페이스입니다.
- *
- * 이 객체는 EIP-712 구조화된 데이터 서명을 구성할 때 `types` 필드에 사용됩니다.
- * 각 키는 구조체 이름이며, 값은 해당 구조체의 필드 배열입니다.
- *
- * 예를 들어, `EIP712Domain`, `Person` 등의 구조체를 정의할 수 있습니다.
- *
- * @param [additionalProperties] {@link MessageTypeProperty} 배열로, 각 구조체의 필드를 정의합니다.
- *
- * @remarks * 구조체는 Forwarder 에 등록되어 있어야 합니다. {@link Forwarder.registerRequestType}
- * @example
- * const types: MessageTypes = {
- *   EIP712Domain: [
- *     { name: "name", type: "string" },
- *     { name: "version", type: "string" },
- *     { name: "chainId", type: "uint256" },
- *     { name: "verifyingContract", type: "address" }
- *   ],
- *   Person: [
- *     { name: "name", type: "string" },
- *     { name: "wallet", type: "address" }
- *   ],
- * };
- */
-interface MessageTypes {
-  /**
-   * `EIP712Domain` 구조체의 필드 배열을 값으로 갖습니다.
-   * 각 키는 EIP-712 메시지에 사용될 타입명입니다.
-   */
-  // EIP712Domain: MessageTypeProperty[];
-  /**
-   * 구조체 이름을 키로 하고, 해당 구조체의 필드 배열을 값으로 갖습니다.
-   * 각 키는 EIP-712 메시지에 사용될 타입명입니다.
-   */
-  [additionalProperties: string]: MessageTypeProperty[];
-}
-
-/**
- * EIP-712 도메인 구분자(Domain Separator)를 구성하는 인터페이스입니다.
- * 이 구조체는 EIP-712 메시지 서명의 `domain` 필드로 사용됩니다.
- *
- * 각 필드는 도메인 고유성을 보장하기 위한 요소이며,
- * 메시지 위조나 체인 간 충돌을 방지하는 데 사용됩니다.
- *
- * @see https://eips.ethereum.org/EIPS/eip-712
- *
- * @param name - 서명을 사용하는 애플리케이션 또는 프로토콜의 이름입니다.
- * @param version - 메시지 형식의 버전입니다.
- * @param chainId - 현재 서명이 유효한 체인 ID입니다. (예: 1은 Mainnet)
- * @param verifyingContract - 서명 메시지를 검증하는 스마트 컨트랙트 주소입니다.
- *
- * @remarks * 도메인은 Forwarder 에 등록되어 있어야 합니다. {@link Forwarder.registerDomainSeparator}
- * @example
- * const domain: EIP712Domain = {
- *   name: "MyDapp",
- *   version: "1",
- *   chainId: 1,
- *   verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
- * };
- */
-interface EIP712Domain {
-  name: string;
-  version: string;
-  chainId: number;
-  verifyingContract: string;
-}
-
-/**
- * EIP-712 메타트랜잭션 메시지의 구조를 나타내는 인터페이스입니다.
- * 이 구조는 Forwarder와 RelayHub 등에서 서명 검증 및 relayCall 호출에 사용됩니다.
- *
- * @param from - 트랜잭션을 의뢰한 사용자 지갑 주소 (서명자)
- * @param to - 호출 대상 스마트 컨트랙트 주소
- * @param value - 이더 전송량 (단위: wei), 보통 0
- * @param gas - 실행 시 소비할 최대 가스량 (hex string, 예: '0x5208')
- * @param nonce - forwarder에서 사용하는 사용자 nonce 값 (hex string)
- * @param data - 호출할 함수와 파라미터가 ABI 인코딩된 바이트 데이터
- * @param validUntil - 이 트랜잭션이 유효한 마지막 블록 타임스탬프 또는 블록 넘버 (hex string)
- *
- * @example
- * const message: Eip712Message = {
- *   from: "0x1234...abcd",
- *   to: "0xabcd...1234",
- *   value: BigNumber.from("0"),
- *   gas: "0x5208", // 21000
- *   nonce: "0x01",
- *   data: "0xabcdef...",
- *   validUntil: "0xffffffff"
- * };
- */
-interface Eip712Message {
-  from: string;
-  to: string;
-  value: BigNumber;
-  gas: string;
-  nonce: string;
-  data: string;
-  validUntil: string;
-}
-
-/**
- * EIP-712 형식의 전체 서명 요청 객체를 정의하는 인터페이스입니다.
- * 이 구조는 `eth_signTypedData_v4`나 GSN, Forwarder 등에서 서명 및 실행 요청의 표준 형식으로 사용됩니다.
- *
- * @param domain - {@link EIP712Domain} 메시지에 포함된 도메인 정보로, 체인 ID, verifying contract 등 도메인 고유성 식별자
- * @param types - {@link MessageTypes} 전체 타입 정의 집합으로, 각 구조체 이름과 그에 해당하는 필드 배열로 구성됨
- * @param primaryType - 최상위 구조체 타입 이름. 서명 시 사용되는 주 구조체 명칭 (예: "ForwardRequest")
- * @param message - {@link Eip712Message} 실제 서명 대상 메시지. from, to, data, gas 등 메타 트랜잭션의 실행 정보 포함
- *
- * @example
- * const request: Eip712Request = {
- *   domain: {
- *     name: "GSN Forwarder",
- *     version: "1",
- *     chainId: 5,
- *     verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
- *   },
- *   types: {
- *     EIP712Domain: [
- *       { name: "name", type: "string" },
- *       { name: "version", type: "string" },
- *       { name: "chainId", type: "uint256" },
- *       { name: "verifyingContract", type: "address" }
- *     ],
- *     ForwardRequest: [
- *       { name: "from", type: "address" },
- *       { name: "to", type: "address" },
- *       { name: "value", type: "uint256" },
- *       { name: "gas", type: "uint256" },
- *       { name: "nonce", type: "uint256" },
- *       { name: "data", type: "bytes" },
- *       { name: "validUntil", type: "uint256" }
- *     ]
- *   },
- *   primaryType: "ForwardRequest",
- *   message: {
- *     from: "0x1234...abcd",
- *     to: "0xabcd...1234",
- *     value: BigNumber.from(0),
- *     gas: "0x5208",
- *     nonce: "0x1",
- *     data: "0xabcdef...",
- *     validUntil: "0xffffffff"
- *   }
- * };
- */
-interface Eip712Request {
-  domain: EIP712Domain;
-  types: MessageTypes;
-  primaryType: string;
-  message: Eip712Message;
-}
-
-/**
- * 가스 프리 트랜잭션(Gasless Transaction)을 위한 EIP-712 서명 요청 객체를 생성하는 함수입니다.
- *
- * 이 함수는 Forwarder 컨트랙트와 RelayHub에 전달할 메타트랜잭션 서명을 위해 필요한
- * `domain`, `types`, `primaryType`, `message`를 포함한 `Eip712Request` 구조를 만듭니다.
- *
- * @param domainName - EIP-712 도메인 이름 (예: "GSN Forwarder")
- * @param domainVersion - 도메인 버전 (예: "1")
- * @param chainId - 체인 ID (예: 1, 5 등)
- * @param forwarderAddress - Forwarder 스마트 컨트랙트 주소 (도메인 내 verifyingContract 필드)
- * @param data - 호출할 함수 및 파라미터가 ABI 인코딩된 바이트 데이터 (hex string)
- * @param from - 서명자(트랜잭션 발신자) 지갑 주소
- * @param to - 호출 대상 스마트 컨트랙트 주소
- * @param gas - 트랜잭션에 허용할 최대 가스량 (BigNumber)
- * @param nonce - Forwarder에서 관리하는 사용자 nonce (BigNumber)
- * @param value - 전송할 NativeToken(ex: ETH, BNB, AVAX) 양, 기본값 0 (BigNumber, optional)
- *
- * @returns Eip712Request - {@link Eip712Request} EIP-712 메시지 서명 요청 전체 객체
- *
- * @example
- * const eip712Request = getEIP712MessageForGasFreeTransaction(
- *   "GSN Forwarder",
- *   "1",
- *   5,
- *   "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC",
- *   "0xabcdef...",
- *   "0x1234...abcd",
- *   "0xabcd...1234",
- *   BigNumber.from("210000"),
- *   BigNumber.from("1"),
- *   BigNumber.from("0")
- * );
- */
-function getEIP712MessageForGasFreeTransaction(
-  domainName: string,
-  domainVersion: string,
-  chainId: number,
-  forwarderAddress: string,
-  data: string,
-  from: string,
-  to: string,
-  gas: BigNumber,
-  nonce: BigNumber,
-  value?: BigNumber,
-): Eip712Request {
-  const types: MessageTypes = {
-    // EIP712Domain: [
-    //   { name: "name", type: "string" },
-    //   { name: "version", type: "string" },
-    //   { name: "chainId", type: "uint256" },
-    //   { name: "verifyingContract", type: "address" },
-    // ],
-    ForwardRequest: [
-      { name: "from", type: "address" },
-      { name: "to", type: "address" },
-      { name: "value", type: "uint256" },
-      { name: "gas", type: "uint256" },
-      { name: "nonce", type: "uint256" },
-      { name: "data", type: "bytes" },
-      { name: "validUntil", type: "uint256" },
-    ],
-  };
-
-  const message: Eip712Message = {
-    from: from,
-    to: to,
-    value: value ?? BigNumber.from(0),
-    gas: gas.toHexString(),
-    nonce: nonce.toHexString(),
-    data,
-    validUntil: String(
-      "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff",
-    ),
-  };
-
-  const result: Eip712Request = {
-    domain: {
-      name: domainName,
-      version: domainVersion,
-      chainId: chainId,
-      verifyingContract: forwarderAddress,
-    },
-    types: types,
-    primaryType: "ForwardRequest",
-    message: message,
-  };
-
-  return result;
-}
+import {
+  FORWARD_REQUEST_TYPES,
+  FORWARD_REQUEST_TYPE_NAME,
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RELAY_REQUEST_SUFFIX,
+  RELAY_REQUEST_TYPES,
+  RELAY_REQUEST_TYPE_NAME,
+  RelayData,
+  RelayCallStatus,
+  RelayDiscovery,
+  decodeRelayCallResult,
+  getRequestTypeHash,
+} from "../src/client";
 
 describe(`* ERC20.transfer executed by GSN Relay *`, async () => {
   /** GSN Contract의 최초 배포자이자 소유자가 될 EOA */
@@ -518,50 +268,26 @@ describe(`* ERC20.transfer executed by GSN Relay *`, async () => {
     it("2.register RequestType - Forwarder", async () => {
       // #region Forwarder - registerRequestType Transaction
 
-      const GENERIC_PARAMS =
-        "address from,address to,uint256 value,uint256 gas,uint256 nonce,bytes data,uint256 validUntil";
-
-      const RELAYDATA_TYPE =
-        "RelayData(uint256 gasPrice,uint256 pctRelayFee,uint256 baseRelayFee,address relayWorker,address paymaster,address forwarder,bytes paymasterData,uint256 clientId)";
-
-      const RELAY_REQUEST_NAME = "RelayRequest";
-
-      const RELAY_REQUEST_SUFFIX = `RelayData relayData)${RELAYDATA_TYPE}`;
+      const registerRequestTypeTx = await forwarder.registerRequestType(
+        RELAY_REQUEST_TYPE_NAME,
+        RELAY_REQUEST_SUFFIX,
+      );
 
-      const RELAY_REQUEST_TYPE = `${RELAY_REQUEST_NAME}(${GENERIC_PARAMS},RelayData relayData)${RELAYDATA_TYPE}`;
+      await registerRequestTypeTx.wait();
 
-      // const registerRequestTypeTx = await forwarder.registerRequestType(
-      //   RELAY_REQUEST_NAME,
-      //   RELAY_REQUEST_SUFFIX,
-      // );
+      const relayRequestTypeHash = getRequestTypeHash(
+        RELAY_REQUEST_TYPES,
+        RELAY_REQUEST_TYPE_NAME,
+      );
 
-      // const registerRequestTypeReceipt = await registerRequestTypeTx.wait();
-
-      // for (const log of registerRequestTypeReceipt.logs) {
-      //   const parsedLog = forwarder.interface.parseLog(log);
-      //   if (parsedLog.name === "RequestTypeRegistered") {
-      //     const typeHash = parsedLog.args.typeHash;
-      //     const typeStr = parsedLog.args.typeStr;
-      //     console.log("RequestTypeRegistered event found:");
-      //     console.log("typeHash:", typeHash);
-      //     console.log("typeName:", typeStr);
-      //   }
-      // }
-
-      const genericParams = `address from,address to,uint256 value,uint256 gas,uint256 nonce,bytes data,uint256 validUntil`;
-      const typeString = `ForwardRequest(${genericParams})`;
-      const typeStrToBytes = ethers.utils.toUtf8Bytes(typeString);
-      // console.log("typeString: ", typeString);
-      // console.log(`typeStrToBytes: `, typeStrToBytes);
-      const typeHash = ethers.utils.keccak256(typeStrToBytes);
-      // console.log(
-      //   "typeHash: ",
-      //   typeHash,
-      //   "/ forwarder registered: ",
-      //   await forwarder.typeHashes(typeHash),
-      // );
+      const typeHash = getRequestTypeHash(
+        FORWARD_REQUEST_TYPES,
+        FORWARD_REQUEST_TYPE_NAME,
+      );
 
       // #endregion
+      expect(await forwarder.typeHashes(relayRequestTypeHash)).to.equal(true);
+
       const forwardRequestTypeRegistered = await forwarder.typeHashes(typeHash);
       expect(forwardRequestTypeRegistered).to.equal(true);
     });
@@ -739,142 +465,199 @@ describe(`* ERC20.transfer executed by GSN Relay *`, async () => {
   });
 
   describe("Verifiability-based Relay System Test ( GSN Architecture ) ", async () => {
-    it("Test GasFree Transfer", async () => {
-      // console.log(
-      //   "======================================================================",
-      // );
-      // // console.log("fundReceipt:", fundReceipt);
-      // console.log(
-      //   "======================================================================",
-      // );
+    const amount = ethers.utils.parseEther("100");
 
-      const eoa = relayManager.address;
-      const amount = ethers.utils.parseEther("100");
+    let client: MetaTransactionClient;
+
+    /**
+     * relay 서버가 제시하는 RelayData (사용자 서명에 포함됨)
+     * relayWorker 와 수수료는 RelayHub 이벤트로 찾은 relayManager 의 등록 정보를 사용합니다.
+     */
+    const getRelayData = async (): Promise<RelayData> => {
+      const relay = (
+        await new RelayDiscovery({ relayHub }).getActiveRelays()
+      ).find(({ relayManager: manager }) => manager === relayManager.address)!;
+
+      return {
+        gasPrice: await relayManager.getGasPrice(),
+        pctRelayFee: relay.pctRelayFee,
+        baseRelayFee: relay.baseRelayFee,
+        relayWorker: relay.workers[0],
+        paymaster: zeroPaymaster.address,
+        forwarder: forwarder.address,
+        paymasterData: "0x",
+        clientId: 0,
+      };
+    };
+
+    /** owner 가 relayManager 에게 CLAM 을 전송하는 RelayRequest 를 생성 / 서명합니다. */
+    const signTransfer = async (relayData: RelayData) => {
       const data = clamCoin.interface.encodeFunctionData("transfer", [
-        //   owner.address,
-        eoa,
+        relayManager.address,
         amount,
       ]);
-      const gas = await clamCoin
-        .connect(owner)
-        .estimateGas.transfer(eoa, amount);
-      // const gas = BigNumber.from(200000);
-      const nonce = await forwarder.getNonce(owner.address);
-      const chainId = (await owner.provider?.getNetwork())?.chainId;
 
-      if (!chainId) {
-        throw new Error("Chain Id is undefined");
-      }
-
-      const eip712Request = getEIP712MessageForGasFreeTransaction(
-        "GSN Relayed Transaction",
-        "2",
-        chainId,
-        forwarder.address,
-        data,
-        owner.address,
-        clamCoin.address,
-        gas,
-        nonce,
-      );
-      console.log("eip712Request:", eip712Request);
-
-      // Sign request
-      const signature = await owner._signTypedData(
-        eip712Request.domain,
-        eip712Request.types,
-        {
-          ...eip712Request.message,
-        },
+      const eip712Request = await client.buildRelayRequest(
+        { from: owner.address, to: clamCoin.address, data },
+        relayData,
       );
 
-      const recovered = ethers.utils.verifyTypedData(
-        eip712Request.domain,
-        eip712Request.types,
-        {
-          ...eip712Request.message,
-        },
-        signature,
+      return client.signRequest(owner, eip712Request);
+    };
+
+    before(async () => {
+      client = new MetaTransactionClient(
+        forwarder,
+        GSN_DOMAIN_NAME,
+        GSN_DOMAIN_VERSION,
       );
+    });
 
-      console.log("recovered: ", recovered);
-      if (recovered.toLowerCase() !== owner.address.toLowerCase()) {
-        throw new Error("Invalid signature");
-      }
+    it("Test GasFree Transfer", async () => {
+      const signedRequest = await signTransfer(await getRelayData());
+      console.log("eip712Request:", signedRequest.eip712Request);
 
-      console.log(
-        `${owner.address} balanceOf ClaimCoin : `,
-        await clamCoin.balanceOf(owner.address),
-      );
+      const balanceBefore = await clamCoin.balanceOf(owner.address);
 
-      // RelayData 객체 (relay 서버에서 설정)
-      const relayData = {
-        gasPrice: await relayManager.getGasPrice(),
-        pctRelayFee: 0,
-        baseRelayFee: 0,
-        relayWorker: relayWorker.address,
-        paymaster: zeroPaymaster.address,
-        forwarder: forwarder.address,
-        paymasterData: "0x",
-        clientId: 0,
-      };
+      console.log(`${owner.address} balanceOf ClaimCoin : `, balanceBefore);
 
-      const relayRequest = {
-        request: {
-          from: eip712Request.message.from,
-          to: eip712Request.message.to,
-          value: eip712Request.message.value,
-          gas: eip712Request.message.gas,
-          nonce: eip712Request.message.nonce,
-          data: eip712Request.message.data,
-          validUntil: eip712Request.message.validUntil,
-        },
-        relayData: relayData,
-      };
+      const payload = client.toRelayCallPayload(signedRequest, {
+        maxAcceptanceBudget: BigNumber.from(500_000),
+        externalGasLimit: 5_000_000,
+      });
 
       console.log("domain registered ? ", await forwarder.domains(domainHash));
 
-      const relayExcuteTx = await relayHub.connect(relayWorker).relayCall(
-        BigNumber.from(500_000),
-        {
-          request: relayRequest.request,
-          relayData: relayRequest.relayData,
-        },
-        //   workerSignature,
-        signature,
-        "0x", // approvalData
-        //   500_000, // external Gas limit,
-        //   1_100_000,
-        5_000_000, // external Gas limit,
-        {
-          gasLimit: 4_900_000,
-        },
-      );
+      const relayExcuteTx = await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          {
+            gasLimit: 4_900_000,
+          },
+        );
 
       relayExcuteReceipt = await relayExcuteTx.wait();
 
       const event = relayExcuteReceipt.events?.find(
-        (e) => e.event === "TransactionRejectedByPaymaster",
+        (e) => e.event === "TransactionRelayed",
       );
-      if (!!event) {
-        // console.log(event?.args);
-        // console.log("Rejected Reason:", event?.args?.reason);
-      }
+
+      expect(!!event).to.equal(true);
+
+      const balanceAfter = await clamCoin.balanceOf(owner.address);
 
       console.log(
         `after ${owner.address} balanceOf ClaimCoin : `,
-        await clamCoin.balanceOf(owner.address),
+        balanceAfter,
       );
 
-      // console.log(typeString);
-      // console.log(typeHash2);
-      // console.log(typeHash);
+      expect(balanceBefore.sub(balanceAfter).eq(amount)).to.equal(true);
+    });
+
+    it("rejects relayCall when relayData fee is modified after signing", async () => {
+      const signedRequest = await signTransfer(await getRelayData());
+
+      const payload = client.toRelayCallPayload(signedRequest, {
+        maxAcceptanceBudget: BigNumber.from(500_000),
+        externalGasLimit: 5_000_000,
+      });
 
-      // console.log(await forwarder.typeHashes(typeHash));
-      // console.log(await forwarder.typeHashes(typeHash2));
+      const nonceBefore = await forwarder.getNonce(owner.address);
+
+      const receipt = await (
+        await relayHub.connect(relayWorker).relayCall(
+          payload.maxAcceptanceBudget,
+          {
+            ...payload.relayRequest,
+            relayData: { ...payload.relayRequest.relayData, pctRelayFee: 70 },
+          },
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: 4_900_000 },
+        )
+      ).wait();
+
+      const event = receipt.events?.find(
+        (e) => e.event === "TransactionRejectedByPaymaster",
+      );
+
+      expect(!!event).to.equal(true);
+
+      const result = decodeRelayCallResult(relayHub, receipt);
+
+      expect(result?.status).to.equal(RelayCallStatus.RejectedByForwarder);
+      expect(result?.failure?.source).to.equal("forwarder");
+      expect(result?.failure?.revert.message).to.equal(
+        "FWD: signature mismatch",
+      );
+      expect(
+        (await forwarder.getNonce(owner.address)).eq(nonceBefore),
+      ).to.equal(true);
+    });
+
+    it("rejects relayCall when paymaster is modified after signing", async () => {
+      const zeroPaymasterFactory =
+        await ethers.getContractFactory("ZeroPaymaster");
+
+      const otherPaymaster = await zeroPaymasterFactory.deploy(
+        relayHub.address,
+        forwarder.address,
+      );
+
+      await otherPaymaster.deployed();
+
+      await (
+        await owner.sendTransaction({
+          to: otherPaymaster.address,
+          value: ethers.utils.parseEther("1"),
+        })
+      ).wait();
+
+      const signedRequest = await signTransfer(await getRelayData());
+
+      const payload = client.toRelayCallPayload(signedRequest, {
+        maxAcceptanceBudget: BigNumber.from(500_000),
+        externalGasLimit: 5_000_000,
+      });
+
+      const balanceBefore = await clamCoin.balanceOf(owner.address);
+
+      const receipt = await (
+        await relayHub.connect(relayWorker).relayCall(
+          payload.maxAcceptanceBudget,
+          {
+            ...payload.relayRequest,
+            relayData: {
+              ...payload.relayRequest.relayData,
+              paymaster: otherPaymaster.address,
+            },
+          },
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: 4_900_000 },
+        )
+      ).wait();
+
+      const event = receipt.events?.find(
+        (e) => e.event === "TransactionRejectedByPaymaster",
+      );
 
-      // Simulate relayCall
-      await expect(!!relayExcuteReceipt).to.equal(!!relayExcuteReceipt);
+      expect(!!event).to.equal(true);
+      expect(event?.args?.paymaster).to.equal(otherPaymaster.address);
+      // 서명된 RelayData 와 달라 Forwarder 가 거절하며, 다른 paymaster 는 가스비를 지불하지 않습니다.
+      expect(
+        decodeRelayCallResult(relayHub, receipt)?.failure?.message,
+      ).to.equal("forwarder rejected the request: FWD: signature mismatch");
+      expect(
+        (await clamCoin.balanceOf(owner.address)).eq(balanceBefore),
+      ).to.equal(true);
     });
   });
 
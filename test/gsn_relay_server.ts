@@ -0,0 +1,229 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import { HttpClient } from "@opengsn/common/dist/HttpClient";
+import { HttpWrapper } from "@opengsn/common/dist/HttpWrapper";
+import { LoggerInterface } from "@opengsn/common/dist/LoggerInterface";
+import { PingResponse } from "@opengsn/common/dist/PingResponse";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RelayData,
+} from "../src/client";
+import { GsnRelayServer } from "../src/server";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** RelayClient 의 기본 maxRelayNonceGap */
+const MAX_RELAY_NONCE_GAP = 3;
+
+const silentLogger: LoggerInterface = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {},
+};
+
+describe("* GSN Relay Server ( OpenGSN HTTP API ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let clamCoin: ClamCoin;
+
+  let server: GsnRelayServer;
+  let relayUrl: string;
+
+  /** @opengsn/provider 의 RelayClient 가 Relay Server 와 통신할 때 사용하는 HTTP 클라이언트 */
+  const httpClient = new HttpClient(new HttpWrapper(), silentLogger);
+
+  let client: MetaTransactionClient;
+
+  const amount = ethers.utils.parseEther("100");
+
+  /** `/getaddr` 응답으로 RelayData 를 구성합니다. (RelayClient 와 동일) */
+  const getRelayData = (ping: PingResponse): RelayData => ({
+    gasPrice: ping.minGasPrice,
+    pctRelayFee: 0,
+    baseRelayFee: 0,
+    relayWorker: ping.relayWorkerAddress,
+    paymaster: zeroPaymaster.address,
+    forwarder: forwarder.address,
+    paymasterData: "0x",
+    clientId: 1,
+  });
+
+  /** owner 가 relayManager 에게 CLAM 을 전송하는 `/relay` 요청을 생성 / 서명합니다. */
+  const createRelayTransactionRequest = async (
+    ping: PingResponse,
+    relayData: RelayData = getRelayData(ping),
+  ) => {
+    const data = clamCoin.interface.encodeFunctionData("transfer", [
+      relayManager.address,
+      amount,
+    ]);
+
+    const signed = await client.signRequest(
+      owner,
+      await client.buildRelayRequest(
+        { from: owner.address, to: clamCoin.address, data },
+        relayData,
+      ),
+    );
+
+    return client.toRelayTransactionRequest(signed, {
+      relayHubAddress: ping.relayHubAddress,
+      relayMaxNonce:
+        (await relayWorker.getTransactionCount()) + MAX_RELAY_NONCE_GAP,
+    });
+  };
+
+  before(async () => {
+    ({
+      owner,
+      relayManager,
+      relayWorker,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+      clamCoin,
+    } = await deployGsnFixture());
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+  });
+
+  describe("* Relay Server Setup *", async () => {
+    it("1. listen - /getaddr is not ready before registration", async () => {
+      server = new GsnRelayServer({ relayHub, relayManager, relayWorker });
+
+      relayUrl = `http://127.0.0.1:${await server.listen(0)}`;
+
+      const ping = await httpClient.getPingResponse(relayUrl);
+      expect(ping.ready).to.equal(false);
+    });
+
+    it("2. init - register relayWorker and relay server to RelayHub", async () => {
+      await server.init();
+
+      const [registered] = await relayHub.queryFilter(
+        relayHub.filters.RelayServerRegistered(relayManager.address),
+      );
+      expect(registered.args.relayUrl).to.equal(relayUrl);
+
+      expect(await relayHub.workerToManager(relayWorker.address)).to.equal(
+        relayManager.address,
+      );
+    });
+
+    it("3. /getaddr returns PingResponse", async () => {
+      const ping = await httpClient.getPingResponse(relayUrl);
+
+      expect(ping.ready).to.equal(true);
+      expect(ping.relayHubAddress).to.equal(relayHub.address);
+      expect(ping.relayManagerAddress).to.equal(relayManager.address);
+      expect(ping.relayWorkerAddress).to.equal(relayWorker.address);
+      expect(ping.ownerAddress).to.equal(owner.address);
+      expect(ping.chainId).to.equal(
+        (await ethers.provider.getNetwork()).chainId.toString(),
+      );
+    });
+  });
+
+  describe("* /relay *", async () => {
+    it("relays ERC20.transfer and returns a signedTx accepted by RelayClient", async () => {
+      const ping = await httpClient.getPingResponse(relayUrl);
+      const request = await createRelayTransactionRequest(ping);
+
+      const balanceBefore = await clamCoin.balanceOf(owner.address);
+
+      const signedTx = await httpClient.relayTransaction(relayUrl, request);
+
+      // #region RelayedTransactionValidator.validateRelayResponse 와 동일한 검사
+      const tx = ethers.utils.parseTransaction(signedTx);
+
+      // legacy 트랜잭션 (type 필드 없음)
+      expect(tx.type).to.equal(null);
+      expect(tx.to).to.equal(relayHub.address);
+      expect(tx.from).to.equal(relayWorker.address);
+      expect(tx.nonce <= request.metadata.relayMaxNonce).to.equal(true);
+      expect(tx.data).to.equal(
+        relayHub.interface.encodeFunctionData("relayCall", [
+          ping.maxAcceptanceBudget,
+          request.relayRequest,
+          request.metadata.signature,
+          request.metadata.approvalData,
+          tx.gasLimit,
+        ]),
+      );
+      // #endregion
+
+      const receipt = await ethers.provider.waitForTransaction(tx.hash!);
+      const relayed = receipt.logs
+        .filter((log) => log.address === relayHub.address)
+        .map((log) => relayHub.interface.parseLog(log))
+        .find((log) => log.name === "TransactionRelayed");
+
+      expect(relayed?.args.status).to.equal(0);
+
+      const balanceAfter = await clamCoin.balanceOf(owner.address);
+      expect(balanceBefore.sub(balanceAfter).eq(amount)).to.equal(true);
+    });
+
+    it("rejects a request whose relayData is modified after signing", async () => {
+      const ping = await httpClient.getPingResponse(relayUrl);
+      const request = await createRelayTransactionRequest(ping);
+
+      request.relayRequest.relayData.baseRelayFee = "1";
+
+      const workerNonce = await relayWorker.getTransactionCount();
+
+      await expect(
+        httpClient.relayTransaction(relayUrl, request),
+      ).to.be.rejectedWith("signature");
+
+      expect(await relayWorker.getTransactionCount()).to.equal(workerNonce);
+    });
+
+    it("rejects a request for another relayWorker", async () => {
+      const ping = await httpClient.getPingResponse(relayUrl);
+      const request = await createRelayTransactionRequest(ping, {
+        ...getRelayData(ping),
+        relayWorker: relayManager.address,
+      });
+
+      await expect(
+        httpClient.relayTransaction(relayUrl, request),
+      ).to.be.rejectedWith("wrong worker address");
+    });
+
+    it("rejects a request below minGasPrice", async () => {
+      const ping = await httpClient.getPingResponse(relayUrl);
+      const request = await createRelayTransactionRequest(ping, {
+        ...getRelayData(ping),
+        gasPrice: BigNumber.from(ping.minGasPrice).sub(1),
+      });
+
+      await expect(
+        httpClient.relayTransaction(relayUrl, request),
+      ).to.be.rejectedWith("minGasPrice");
+    });
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+});
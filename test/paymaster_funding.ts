@@ -0,0 +1,228 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+} from "../src/client";
+import {
+  PaymasterBalanceReport,
+  PaymasterDepositManager,
+  PaymasterMonitor,
+} from "../src/operator";
+import { GsnRelayServer } from "../src/server";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+describe("* Paymaster Deposit Management & Monitoring *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+  let stranger: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let clamCoin: ClamCoin;
+
+  let depositManager: PaymasterDepositManager;
+
+  before(async () => {
+    ({
+      owner,
+      relayManager,
+      relayWorker,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+      clamCoin,
+    } = await deployGsnFixture());
+
+    stranger = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    // withdrawRelayHubDepositTo 는 paymaster owner 만 호출할 수 있습니다.
+    await (await zeroPaymaster.transferOwnership(owner.address)).wait();
+
+    depositManager = new PaymasterDepositManager({ relayHub, signer: owner });
+  });
+
+  describe("* Deposit / Withdraw *", async () => {
+    it("deposits via RelayHub.depositFor", async () => {
+      const balanceBefore = await relayHub.balanceOf(zeroPaymaster.address);
+
+      await depositManager.deposit(
+        zeroPaymaster.address,
+        ethers.utils.parseEther("0.5"),
+      );
+
+      expect(await relayHub.balanceOf(zeroPaymaster.address)).to.equal(
+        balanceBefore.add(ethers.utils.parseEther("0.5")),
+      );
+    });
+
+    it("rejects a deposit above maximumRecipientDeposit", async () => {
+      const { maximumRecipientDeposit } = await relayHub.getConfiguration();
+
+      await expect(
+        depositManager.deposit(
+          zeroPaymaster.address,
+          maximumRecipientDeposit.add(1),
+        ),
+      ).to.be.rejectedWith("exceeds maximumRecipientDeposit");
+    });
+
+    it("tops up only the missing amount", async () => {
+      const target = ethers.utils.parseEther("2");
+
+      expect(await depositManager.topUp(zeroPaymaster.address, target)).to.be.a(
+        "string",
+      );
+      expect(await relayHub.balanceOf(zeroPaymaster.address)).to.equal(target);
+
+      expect(
+        await depositManager.topUp(zeroPaymaster.address, target),
+      ).to.equal(undefined);
+    });
+
+    it("withdraws via BasePaymaster.withdrawRelayHubDepositTo", async () => {
+      const amount = ethers.utils.parseEther("0.3");
+      const balanceBefore = await relayHub.balanceOf(zeroPaymaster.address);
+
+      await depositManager.withdraw(
+        zeroPaymaster.address,
+        amount,
+        stranger.address,
+      );
+
+      expect(await stranger.getBalance()).to.equal(amount);
+      expect(await relayHub.balanceOf(zeroPaymaster.address)).to.equal(
+        balanceBefore.sub(amount),
+      );
+    });
+
+    it("rejects a withdrawal above the deposit", async () => {
+      const balance = await relayHub.balanceOf(zeroPaymaster.address);
+
+      await expect(
+        depositManager.withdraw(
+          zeroPaymaster.address,
+          balance.add(1),
+          stranger.address,
+        ),
+      ).to.be.rejectedWith("exceeds paymaster");
+    });
+  });
+
+  describe("* Monitor *", async () => {
+    let charges: BigNumber[];
+
+    before(async () => {
+      const server = new GsnRelayServer({
+        relayHub,
+        relayManager,
+        relayWorker,
+        url: "http://relay.example.com",
+      });
+      await server.init();
+
+      const client = new MetaTransactionClient(
+        forwarder,
+        GSN_DOMAIN_NAME,
+        GSN_DOMAIN_VERSION,
+      );
+      const ping = await server.ping();
+
+      // #region ERC20.transfer 를 2 회 relay 하여 TransactionRelayed 이벤트 생성
+      for (let i = 0; i < 2; i++) {
+        const signed = await client.signRequest(
+          owner,
+          await client.buildRelayRequest(
+            {
+              from: owner.address,
+              to: clamCoin.address,
+              data: clamCoin.interface.encodeFunctionData("transfer", [
+                stranger.address,
+                ethers.utils.parseEther("1"),
+              ]),
+            },
+            {
+              gasPrice: ping.minGasPrice,
+              pctRelayFee: 0,
+              baseRelayFee: 0,
+              relayWorker: relayWorker.address,
+              paymaster: zeroPaymaster.address,
+              forwarder: forwarder.address,
+              paymasterData: "0x",
+              clientId: 1,
+            },
+          ),
+        );
+
+        const { signedTx } = await server.relay(
+          client.toRelayTransactionRequest(signed, {
+            relayHubAddress: relayHub.address,
+            relayMaxNonce: (await relayWorker.getTransactionCount()) + 3,
+          }),
+        );
+        await ethers.provider.waitForTransaction(
+          ethers.utils.keccak256(signedTx),
+        );
+      }
+      // #endregion
+
+      charges = (
+        await relayHub.queryFilter(relayHub.filters.TransactionRelayed())
+      ).map((event) => event.args.charge);
+    });
+
+    it("reports balance, average charge and remaining calls", async () => {
+      const [report] = await new PaymasterMonitor({
+        relayHub,
+        paymasters: { [zeroPaymaster.address]: ethers.utils.parseEther("0.1") },
+      }).check();
+
+      const balance = await relayHub.balanceOf(zeroPaymaster.address);
+      const averageCharge = charges[0].add(charges[1]).div(2);
+
+      expect(charges.length).to.equal(2);
+      expect(report.balance).to.equal(balance);
+      expect(report.low).to.equal(false);
+      expect(report.sampleCount).to.equal(2);
+      expect(report.averageCharge).to.equal(averageCharge);
+      expect(report.remainingCalls).to.equal(
+        balance.div(averageCharge).toNumber(),
+      );
+    });
+
+    it("alerts when the deposit is below the threshold", async () => {
+      const alerts: PaymasterBalanceReport[] = [];
+
+      const reports = await new PaymasterMonitor({
+        relayHub,
+        paymasters: {
+          [zeroPaymaster.address]: ethers.utils.parseEther("100"),
+          [stranger.address]: 0,
+        },
+        onLowBalance: (report) => {
+          alerts.push(report);
+        },
+      }).check();
+
+      expect(alerts.map((alert) => alert.paymaster)).to.deep.equal([
+        zeroPaymaster.address,
+      ]);
+
+      // relay 이력이 없는 paymaster 는 평균을 계산하지 않습니다.
+      expect(reports[1].sampleCount).to.equal(0);
+      expect(reports[1].averageCharge).to.equal(undefined);
+      expect(reports[1].remainingCalls).to.equal(undefined);
+    });
+  });
+});
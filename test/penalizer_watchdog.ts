@@ -0,0 +1,348 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { ethers, network } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import { RelayHub, StakeManager } from "../typechain-types";
+import { PenalizerWatchdog, RelayManagerOnboarder } from "../src/operator";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+const LEGAL_GAS_LIMIT = 100_000;
+
+describe("* Penalizer watchdog ( repeated nonce / illegal transaction ) *", async () => {
+  let operator: SignerWithAddress;
+  let owner: Wallet;
+
+  /** RelayHub 에 relayCall 이 아닌 호출을 보내는 relayWorker 와 그 relayManager */
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  /** 같은 nonce 로 다른 트랜잭션에 서명하는 relayWorker 와 그 relayManager */
+  let otherManager: Wallet;
+  let otherWorker: Wallet;
+
+  /** commit / reveal 을 보내고 stake 보상을 받는 계정 */
+  let reporter: Wallet;
+
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+
+  let watchdog: PenalizerWatchdog;
+
+  /** relayCall 이 아닌 RelayHub 호출 (calldata 가 externalGasLimit 위치보다 길어 Penalizer 가 처벌할 수 있음) */
+  const illegalCall = () =>
+    relayHub.interface.encodeFunctionData("calculateCharge", [
+      100_000,
+      {
+        gasPrice: 1,
+        pctRelayFee: 0,
+        baseRelayFee: 0,
+        relayWorker: relayWorker.address,
+        paymaster: ethers.constants.AddressZero,
+        forwarder: ethers.constants.AddressZero,
+        paymasterData: "0x",
+        clientId: 0,
+      },
+    ]);
+
+  /** externalGasLimit 인자 (5번째) 만 gasLimit 으로 채운 relayCall calldata */
+  const legalRelayCall = () =>
+    ethers.utils.hexConcat([
+      relayHub.interface.getSighash("relayCall"),
+      ethers.utils.defaultAbiCoder.encode(
+        ["uint256", "uint256", "uint256", "uint256", "uint256"],
+        [0, 0, 0, 0, LEGAL_GAS_LIMIT],
+      ),
+    ]);
+
+  /**
+   * Penalizer 가 위반으로 보지 않는 relayCall (externalGasLimit 이 gasLimit 과 같음) 을 보냅니다.
+   * RelayHub 에서는 revert 되지만 nonce 는 사용됩니다.
+   */
+  const sendLegalRelayCall = async (worker: Wallet) => {
+    const signedTx = await worker.signTransaction(
+      await worker.populateTransaction({
+        to: relayHub.address,
+        data: legalRelayCall(),
+        gasLimit: LEGAL_GAS_LIMIT,
+      }),
+    );
+
+    // hardhat 은 revert 된 트랜잭션도 채굴하지만 전송 결과로 오류를 반환합니다.
+    await ethers.provider.sendTransaction(signedTx).catch(() => undefined);
+
+    return ethers.provider.getTransaction(ethers.utils.keccak256(signedTx));
+  };
+
+  /** Native Token 이 충전된 relayManager / relayWorker 를 stake 하고 등록합니다. */
+  const onboardRelay = async (url: string) => {
+    const wallets = Array.from({ length: 2 }, () =>
+      ethers.Wallet.createRandom().connect(ethers.provider),
+    );
+    const [manager, worker] = wallets;
+
+    for (const wallet of wallets) {
+      await (
+        await operator.sendTransaction({
+          to: wallet.address,
+          value: ethers.utils.parseEther("10"),
+        })
+      ).wait();
+    }
+    await new RelayManagerOnboarder({
+      relayHub,
+      relayManager: manager,
+      owner,
+      relayWorkers: [worker.address],
+      url,
+      stake: ethers.utils.parseEther("2"),
+    }).run();
+
+    return [manager, worker];
+  };
+
+  before(async () => {
+    [operator] = await ethers.getSigners();
+
+    ({ owner, relayManager, relayWorker, stakeManager, relayHub } =
+      await deployGsnFixture());
+
+    otherManager = ethers.Wallet.createRandom().connect(ethers.provider);
+    otherWorker = ethers.Wallet.createRandom().connect(ethers.provider);
+    reporter = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    for (const wallet of [owner, otherManager, otherWorker, reporter]) {
+      await (
+        await operator.sendTransaction({
+          to: wallet.address,
+          value: ethers.utils.parseEther("10"),
+        })
+      ).wait();
+    }
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+    await (
+      await relayHub
+        .connect(relayManager)
+        .registerRelayServer(0, 0, "http://relay.test")
+    ).wait();
+    await new RelayManagerOnboarder({
+      relayHub,
+      relayManager: otherManager,
+      owner,
+      relayWorkers: [otherWorker.address],
+      url: "http://other-relay.test",
+      stake: ethers.utils.parseEther("2"),
+    }).run();
+
+    watchdog = new PenalizerWatchdog({
+      relayHub,
+      reporter,
+      fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+    });
+  });
+
+  it("commits and reveals a penalization for a non-relayCall call to RelayHub", async () => {
+    // 등록되지 않은 계정의 RelayHub 호출은 위반이 아닙니다.
+    await (
+      await relayHub.connect(owner).depositFor(owner.address, { value: 1 })
+    ).wait();
+    // Penalizer 는 calldata 가 짧은 호출의 externalGasLimit 인자를 읽지 못해 처벌할 수 없습니다.
+    await (
+      await relayHub
+        .connect(relayWorker)
+        .depositFor(relayWorker.address, { value: 1 })
+    ).wait();
+    // relayCall selector 만 있는 잘린 호출도 watchdog 을 멈추지 않아야 합니다.
+    await relayWorker
+      .sendTransaction({
+        to: relayHub.address,
+        data: ethers.utils.hexConcat([
+          relayHub.interface.getSighash("relayCall"),
+          ethers.utils.hexZeroPad("0x01", 32),
+        ]),
+        gasLimit: 100_000,
+      })
+      .then((transaction) => transaction.wait())
+      .catch(() => undefined);
+
+    const skipped = await watchdog.poll();
+
+    expect(skipped.offences).to.deep.equal([]);
+    expect(skipped.errors).to.deep.equal([]);
+    expect(watchdog.getPenalizations()).to.deep.equal([]);
+
+    await (
+      await relayWorker.sendTransaction({
+        to: relayHub.address,
+        data: illegalCall(),
+      })
+    ).wait();
+
+    const detected = await watchdog.poll();
+
+    expect(detected.fromBlock).to.equal(skipped.toBlock! + 1);
+    expect(detected.offences.map(({ type }) => type)).to.deep.equal([
+      "illegal-transaction",
+    ]);
+    expect(detected.offences[0].relayManager).to.equal(relayManager.address);
+    expect(detected.revealed).to.deep.equal([]);
+
+    const [committed] = watchdog.getPenalizations();
+    expect(committed.status).to.equal("committed");
+    expect(committed.readyBlock).to.equal(
+      (await ethers.provider.getBlockNumber()) + 1,
+    );
+
+    // reveal 은 readyBlock 보다 뒤의 블록에 채굴되어야 합니다.
+    await network.provider.send("hardhat_mine", ["0x1"]);
+    const balanceBefore = await reporter.getBalance();
+    const { revealed } = await watchdog.poll();
+
+    expect(revealed.map(({ status }) => status)).to.deep.equal(["penalized"]);
+    expect(revealed[0].reward).to.equal(ethers.utils.parseEther("1"));
+    expect(await reporter.getBalance()).to.be.gt(balanceBefore);
+    expect((await stakeManager.stakes(relayManager.address)).stake).to.equal(0);
+  });
+
+  it("penalizes different transactions signed with the same nonce", async () => {
+    const sent = await sendLegalRelayCall(otherWorker);
+
+    expect((await watchdog.poll()).offences).to.deep.equal([]);
+
+    // gasPrice 만 다른 재전송은 위반이 아닙니다.
+    const replacement = await otherWorker.signTransaction({
+      type: 2,
+      chainId: sent.chainId,
+      nonce: sent.nonce,
+      to: sent.to,
+      value: sent.value,
+      data: sent.data,
+      gasLimit: sent.gasLimit,
+      maxFeePerGas: sent.maxFeePerGas!.mul(2),
+      maxPriorityFeePerGas: sent.maxPriorityFeePerGas!.mul(2),
+    });
+    expect(await watchdog.audit(replacement)).to.deep.equal([]);
+
+    const conflicting = await otherWorker.signTransaction({
+      type: 2,
+      chainId: sent.chainId,
+      nonce: sent.nonce,
+      to: sent.to,
+      value: 2,
+      data: sent.data,
+      gasLimit: sent.gasLimit,
+      maxFeePerGas: sent.maxFeePerGas,
+      maxPriorityFeePerGas: sent.maxPriorityFeePerGas,
+    });
+    const [offence] = await watchdog.audit(conflicting);
+
+    expect(offence.type).to.equal("repeated-nonce");
+    expect(offence.transactions.map(({ hash }) => hash)).to.deep.equal([
+      sent.hash,
+      ethers.utils.keccak256(conflicting),
+    ]);
+
+    await network.provider.send("hardhat_mine", ["0x1"]);
+    const { revealed } = await watchdog.poll();
+
+    expect(revealed.map(({ status }) => status)).to.deep.equal(["penalized"]);
+    expect(revealed[0].offence).to.equal(offence);
+    expect(revealed[0].reward).to.equal(ethers.utils.parseEther("1"));
+    expect((await stakeManager.stakes(otherManager.address)).stake).to.equal(0);
+  });
+
+  it("penalizes a relay worker transaction that is not sent to RelayHub", async () => {
+    const [transferManager, transferWorker] = await onboardRelay(
+      "http://transfer-relay.test",
+    );
+    const watching = new PenalizerWatchdog({
+      relayHub,
+      reporter,
+      fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+    });
+
+    const { transactionHash } = await (
+      await transferWorker.sendTransaction({ to: owner.address, value: 1 })
+    ).wait();
+
+    const { offences } = await watching.poll();
+
+    expect(offences.map(({ type }) => type)).to.deep.equal([
+      "illegal-transaction",
+    ]);
+    expect(offences[0].relayManager).to.equal(transferManager.address);
+    expect(offences[0].transactions[0].hash).to.equal(transactionHash);
+
+    await network.provider.send("hardhat_mine", ["0x1"]);
+    const { revealed } = await watching.poll();
+
+    expect(revealed.map(({ status }) => status)).to.deep.equal(["penalized"]);
+    expect((await stakeManager.stakes(transferManager.address)).stake).to.equal(
+      0,
+    );
+  });
+
+  it("stops watching relay workers of penalized relay managers", async () => {
+    await (
+      await relayWorker.sendTransaction({
+        to: relayHub.address,
+        data: illegalCall(),
+      })
+    ).wait();
+
+    expect((await watchdog.poll()).offences).to.deep.equal([]);
+    expect(
+      watchdog.getPenalizations().map(({ status }) => status),
+    ).to.deep.equal(["penalized", "penalized"]);
+  });
+
+  it("forgets transactions below the nonce retention window and old audited transactions", async () => {
+    const [thirdManager, thirdWorker] = await onboardRelay(
+      "http://third-relay.test",
+    );
+
+    const forgetful = new PenalizerWatchdog({
+      relayHub,
+      reporter,
+      fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+      nonceRetention: 1,
+      maxAuditedTransactions: 1,
+    });
+    const { chainId } = await ethers.provider.getNetwork();
+    const sign = (nonce: number, value: number) =>
+      thirdWorker.signTransaction({
+        type: 2,
+        chainId,
+        nonce,
+        to: relayHub.address,
+        value,
+        data: legalRelayCall(),
+        gasLimit: LEGAL_GAS_LIMIT,
+        maxFeePerGas: 1e9,
+        maxPriorityFeePerGas: 1,
+      });
+
+    for (let nonce = 0; nonce < 3; nonce++) {
+      await sendLegalRelayCall(thirdWorker);
+    }
+    expect((await forgetful.poll()).offences).to.deep.equal([]);
+
+    // 채굴된 nonce (3) 보다 nonceRetention 이상 작은 nonce 는 비교하지 않습니다.
+    expect(await forgetful.audit(await sign(0, 2))).to.deep.equal([]);
+
+    // audit 트랜잭션은 maxAuditedTransactions 개만 보관합니다.
+    expect(await forgetful.audit(await sign(10, 1))).to.deep.equal([]);
+    expect(await forgetful.audit(await sign(11, 1))).to.deep.equal([]);
+    expect(await forgetful.audit(await sign(10, 2))).to.deep.equal([]);
+
+    const [offence] = await forgetful.audit(await sign(2, 2));
+    expect(offence.type).to.equal("repeated-nonce");
+    expect(offence.relayManager).to.equal(thirdManager.address);
+  });
+});
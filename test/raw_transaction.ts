@@ -0,0 +1,268 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { ethers } from "hardhat";
+
+import { providers, Wallet } from "ethers";
+import { expect } from "chai";
+import { Penalizer, RelayHub } from "../typechain-types";
+import {
+  decodeTransaction,
+  getSignedRawTransaction,
+  isSamePenalizerPayload,
+  isTransactionTypeValid,
+  parseSignedRawTransaction,
+  SignedRawTransaction,
+  toSignedRawTransaction,
+} from "../src/operator";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+describe("* Raw transaction encoding ( Penalizer.decodeTransaction ) *", async () => {
+  let operator: SignerWithAddress;
+
+  /** RelayHub 에 등록되지 않은 서명자 (Penalizer 의 모든 검사를 통과하면 "Unknown relay worker" 로 revert) */
+  let signer: Wallet;
+  let otherSigner: Wallet;
+
+  let chainId: number;
+  let penalizer: Penalizer;
+  let relayHub: RelayHub;
+
+  /** Penalizer.decodeTransaction / isTransactionTypeValid 결과와 비교합니다. */
+  const expectSameDecoding = async (rawTransaction: string) => {
+    const decoded = decodeTransaction(rawTransaction);
+    const onChain = await penalizer.decodeTransaction(rawTransaction);
+
+    expect(decoded.nonce).to.equal(onChain.nonce);
+    expect(decoded.gasLimit).to.equal(onChain.gasLimit);
+    expect(decoded.to).to.equal(onChain.to);
+    expect(decoded.value).to.equal(onChain.value);
+    expect(decoded.data).to.equal(onChain.data);
+    expect(isTransactionTypeValid(rawTransaction)).to.equal(
+      await penalizer.isTransactionTypeValid(rawTransaction),
+    );
+  };
+
+  /** msg.sender 가 address(0) 인 eth_call 로 penalizeRepeatedNonce 를 시뮬레이션합니다. */
+  const penalizeRepeatedNonce = (
+    first: SignedRawTransaction,
+    second: SignedRawTransaction,
+  ) =>
+    penalizer
+      .connect(ethers.provider)
+      .callStatic.penalizeRepeatedNonce(
+        first.unsignedTx,
+        first.signature,
+        second.unsignedTx,
+        second.signature,
+        relayHub.address,
+        0,
+        { from: ethers.constants.AddressZero },
+      );
+
+  before(async () => {
+    [operator] = await ethers.getSigners();
+
+    ({ penalizer, relayHub } = await deployGsnFixture());
+
+    signer = ethers.Wallet.createRandom().connect(ethers.provider);
+    otherSigner = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await operator.sendTransaction({
+        to: signer.address,
+        value: ethers.utils.parseEther("10"),
+      })
+    ).wait();
+
+    ({ chainId } = await ethers.provider.getNetwork());
+  });
+
+  it("decodes legacy, type-1 and type-2 transactions like Penalizer", async () => {
+    const to = otherSigner.address;
+    const transactions: providers.TransactionRequest[] = [
+      // EIP-155
+      { type: 0, chainId, nonce: 0, gasPrice: 1, gasLimit: 21_000, to },
+      // EIP-155 이전 (v = 27 / 28)
+      { type: 0, chainId: 0, nonce: 1, gasPrice: 1, gasLimit: 21_000, to },
+      // 컨트랙트 생성 (to 는 address(0))
+      { type: 0, chainId, nonce: 2, gasPrice: 1, gasLimit: 1e6, data: "0x00" },
+      {
+        type: 1,
+        chainId,
+        nonce: 3,
+        gasPrice: 1,
+        gasLimit: 1e6,
+        to: ethers.constants.AddressZero,
+        data: "0x7f",
+        accessList: [{ address: to, storageKeys: [ethers.constants.HashZero] }],
+      },
+      {
+        type: 2,
+        chainId,
+        nonce: 2 ** 40,
+        maxFeePerGas: ethers.constants.MaxUint256,
+        maxPriorityFeePerGas: 1,
+        gasLimit: 30_000_000,
+        to,
+        value: ethers.constants.MaxUint256,
+        data: ethers.utils.hexlify(ethers.utils.randomBytes(1_000)),
+      },
+      { type: 2, chainId, nonce: 4, gasLimit: 1e6, data: "0x80" },
+    ];
+
+    for (const transaction of transactions) {
+      const evidence = parseSignedRawTransaction(
+        await signer.signTransaction(transaction),
+      );
+
+      expect(evidence.from).to.equal(signer.address);
+      expect(evidence.type).to.equal(transaction.type);
+      expect(evidence.decoded.nonce).to.equal(transaction.nonce);
+      expect(evidence.decoded.to).to.equal(
+        transaction.to ?? ethers.constants.AddressZero,
+      );
+      expect(evidence.decoded.data).to.equal(transaction.data ?? "0x");
+
+      await expectSameDecoding(evidence.unsignedTx);
+      await expectSameDecoding(evidence.raw);
+    }
+
+    for (const invalid of ["0x00", "0x03c0", "0x7f", "0xff"]) {
+      expect(isTransactionTypeValid(invalid)).to.equal(false);
+      expect(await penalizer.isTransactionTypeValid(invalid)).to.equal(false);
+    }
+  });
+
+  it("extracts signed transactions and their signing payloads from the node", async () => {
+    const to = otherSigner.address;
+    const sent = [
+      await signer.sendTransaction({ type: 0, to, value: 1 }),
+      await signer.sendTransaction({ type: 1, to, value: 2, accessList: [] }),
+      await signer.sendTransaction({ type: 2, to, data: "0x1234" }),
+      await signer.sendTransaction({ data: "0x00" }),
+    ];
+
+    for (const transaction of sent) {
+      await transaction.wait();
+
+      const evidence = await getSignedRawTransaction(
+        ethers.provider,
+        transaction.hash,
+      );
+
+      expect(evidence.hash).to.equal(transaction.hash);
+      expect(ethers.utils.keccak256(evidence.raw)).to.equal(transaction.hash);
+      expect(
+        ethers.utils.recoverAddress(
+          ethers.utils.keccak256(evidence.unsignedTx),
+          evidence.signature,
+        ),
+      ).to.equal(signer.address);
+      expect(evidence.decoded.value).to.equal(transaction.value);
+      expect(evidence.decoded.gasLimit).to.equal(transaction.gasLimit);
+
+      await expectSameDecoding(evidence.unsignedTx);
+    }
+
+    // 다시 직렬화한 트랜잭션이 원본과 다르면 증거로 사용하지 않습니다.
+    const mined = await ethers.provider.getTransaction(sent[0].hash);
+    expect(() =>
+      toSignedRawTransaction({ ...mined, value: mined.value.add(1) }),
+    ).to.throw("re-serialized transaction does not match");
+    expect(() =>
+      toSignedRawTransaction({ ...mined, from: otherSigner.address }),
+    ).to.throw(`is signed by ${signer.address}`);
+
+    await expect(
+      getSignedRawTransaction(ethers.provider, ethers.constants.HashZero),
+    ).to.be.rejectedWith("not found");
+  });
+
+  it("agrees with Penalizer on repeated nonce evidence", async () => {
+    const nonce = 1_000;
+    const sign = async (
+      wallet: Wallet,
+      transaction: providers.TransactionRequest,
+    ) =>
+      parseSignedRawTransaction(
+        await wallet.signTransaction({
+          type: 2,
+          chainId,
+          nonce,
+          gasLimit: 100_000,
+          ...(transaction.type === 0
+            ? { gasPrice: 1 }
+            : { maxFeePerGas: 2, maxPriorityFeePerGas: 1 }),
+          ...transaction,
+        }),
+      );
+
+    const original = await sign(signer, {
+      to: ethers.constants.AddressZero,
+      data: "0x1234",
+    });
+    const equal = [
+      // gasPrice 만 다른 재전송
+      await sign(signer, {
+        to: ethers.constants.AddressZero,
+        data: "0x1234",
+        maxFeePerGas: 20,
+        maxPriorityFeePerGas: 10,
+      }),
+      // 트랜잭션 타입만 다름
+      await sign(signer, {
+        type: 0,
+        to: ethers.constants.AddressZero,
+        data: "0x1234",
+      }),
+      // 컨트랙트 생성과 address(0) 호출은 Penalizer 에서 같은 내용입니다.
+      await sign(signer, { data: "0x1234" }),
+    ];
+    const different = [
+      await sign(signer, { to: ethers.constants.AddressZero, data: "0x12" }),
+      await sign(signer, {
+        to: ethers.constants.AddressZero,
+        data: "0x1234",
+        value: 1,
+      }),
+      await sign(signer, {
+        to: ethers.constants.AddressZero,
+        data: "0x1234",
+        gasLimit: 100_001,
+      }),
+      await sign(signer, { to: otherSigner.address, data: "0x1234" }),
+    ];
+
+    for (const evidence of equal) {
+      expect(
+        isSamePenalizerPayload(original.decoded, evidence.decoded),
+      ).to.equal(true);
+      await expect(
+        penalizeRepeatedNonce(original, evidence),
+      ).to.be.revertedWith("tx is equal");
+    }
+
+    // Penalizer 의 서명자 / nonce / 내용 검사를 모두 통과하고 RelayHub.penalize 에서 revert 합니다.
+    for (const evidence of different) {
+      expect(
+        isSamePenalizerPayload(original.decoded, evidence.decoded),
+      ).to.equal(false);
+      await expect(
+        penalizeRepeatedNonce(original, evidence),
+      ).to.be.revertedWith("Unknown relay worker");
+    }
+
+    await expect(
+      penalizeRepeatedNonce(
+        original,
+        await sign(otherSigner, { to: ethers.constants.AddressZero }),
+      ),
+    ).to.be.revertedWith("Different signer");
+    await expect(
+      penalizeRepeatedNonce(
+        original,
+        await sign(signer, { nonce: nonce + 1, to: otherSigner.address }),
+      ),
+    ).to.be.revertedWith("Different nonce");
+  });
+});
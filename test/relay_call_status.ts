@@ -0,0 +1,270 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  TokenPaymaster,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RelayCallStatus,
+  decodeRelayCallResult,
+  decodeRevertData,
+} from "../src/client";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+describe("* RelayCallStatus / revert data decoding *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+
+  /** 1 CLAM 을 보유한 요청자 */
+  let sender: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let tokenPaymaster: TokenPaymaster;
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+
+  /**
+   * sender 가 owner 에게 CLAM 을 전송하는 요청을 relayWorker 로 RelayHub.relayCall 합니다.
+   *
+   * @param tamper - 서명 이후 RelayData 를 바꾸어 제출합니다.
+   */
+  const relayTransfer = async (
+    amount: BigNumber,
+    paymaster: ZeroPaymaster | TokenPaymaster,
+    tamper = false,
+  ) => {
+    const signed = await client.signRequest(
+      sender,
+      await client.buildRelayRequest(
+        {
+          from: sender.address,
+          to: clamCoin.address,
+          data: clamCoin.interface.encodeFunctionData("transfer", [
+            owner.address,
+            amount,
+          ]),
+          gas: 100_000,
+        },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 10,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: paymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+    const payload = client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await paymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+    const relayRequest = tamper
+      ? {
+          ...payload.relayRequest,
+          relayData: { ...payload.relayRequest.relayData, pctRelayFee: 70 },
+        }
+      : payload.relayRequest;
+
+    return (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+  };
+
+  before(async () => {
+    ({
+      owner,
+      relayManager,
+      relayWorker,
+      relayHub,
+      forwarder,
+      zeroPaymaster,
+      clamCoin,
+    } = await deployGsnFixture());
+
+    sender = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await clamCoin
+        .connect(owner)
+        .transfer(sender.address, ethers.utils.parseEther("1"))
+    ).wait();
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    tokenPaymaster = await (await ethers.getContractFactory("TokenPaymaster"))
+      .connect(owner)
+      .deploy(
+        relayHub.address,
+        forwarder.address,
+        clamCoin.address,
+        ethers.utils.parseEther("2000"),
+        60_000,
+      );
+    await tokenPaymaster.deployed();
+    await (
+      await owner.sendTransaction({
+        to: tokenPaymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+  });
+
+  it("decodes Error(string), Panic(uint256) and project custom errors", async () => {
+    const error = decodeRevertData(
+      ethers.utils.hexConcat([
+        ethers.utils.id("Error(string)").slice(0, 10),
+        ethers.utils.defaultAbiCoder.encode(
+          ["string"],
+          ["FWD: nonce mismatch"],
+        ),
+      ]),
+    );
+    expect(error.name).to.equal("Error");
+    expect(error.message).to.equal("FWD: nonce mismatch");
+
+    const panic = decodeRevertData(
+      ethers.utils.hexConcat([
+        ethers.utils.id("Panic(uint256)").slice(0, 10),
+        ethers.utils.defaultAbiCoder.encode(["uint256"], [0x11]),
+      ]),
+    );
+    expect(panic.message).to.equal(
+      "panic 0x11 (arithmetic overflow or underflow)",
+    );
+
+    const allowance = decodeRevertData(
+      clamCoin.interface.encodeErrorResult("ERC20InsufficientAllowance", [
+        owner.address,
+        1,
+        2,
+      ]),
+    );
+    expect(allowance.name).to.equal("ERC20InsufficientAllowance");
+    expect(allowance.args).to.deep.equal({
+      spender: owner.address,
+      allowance: "1",
+      needed: "2",
+    });
+    expect(allowance.message).to.equal(
+      `ERC20InsufficientAllowance(spender: ${owner.address}, allowance: 1, needed: 2)`,
+    );
+
+    expect(decodeRevertData("0x").message).to.equal("reverted without reason");
+    expect(decodeRevertData("0x12345678").message).to.equal(
+      "unknown revert data 0x12345678",
+    );
+    // RelayHub 가 잘라낸 데이터처럼 인자를 디코딩할 수 없는 경우
+    expect(decodeRevertData(allowance.data.slice(0, 2 + 8 + 64)).name).to.equal(
+      undefined,
+    );
+  });
+
+  it("explains a recipient revert charged to the paymaster", async () => {
+    const receipt = await relayTransfer(
+      ethers.utils.parseEther("2"),
+      zeroPaymaster,
+    );
+    const result = decodeRelayCallResult(relayHub, receipt);
+
+    expect(result?.paymasterAccepted).to.equal(true);
+    expect(result?.status).to.equal(RelayCallStatus.RelayedCallFailed);
+    expect(result?.failure?.source).to.equal("recipient");
+    expect(result?.failure?.revert.name).to.equal("ERC20InsufficientBalance");
+    expect(result?.failure?.revert.args).to.deep.equal({
+      sender: sender.address,
+      balance: ethers.utils.parseEther("1").toString(),
+      needed: ethers.utils.parseEther("2").toString(),
+    });
+    expect(result?.failure?.message).to.equal(
+      `recipient call reverted: ERC20InsufficientBalance(sender: ${sender.address}, balance: ${ethers.utils.parseEther("1")}, needed: ${ethers.utils.parseEther("2")})`,
+    );
+
+    const ok = decodeRelayCallResult(
+      relayHub,
+      await relayTransfer(ethers.utils.parseEther("0.1"), zeroPaymaster),
+    );
+    expect(ok).to.deep.equal({
+      paymasterAccepted: true,
+      status: RelayCallStatus.OK,
+      failure: undefined,
+    });
+  });
+
+  it("separates forwarder rejections from paymaster rejections", async () => {
+    const forwarderRejected = decodeRelayCallResult(
+      relayHub,
+      await relayTransfer(ethers.utils.parseEther("0.1"), zeroPaymaster, true),
+    );
+
+    expect(forwarderRejected?.paymasterAccepted).to.equal(false);
+    expect(forwarderRejected?.status).to.equal(
+      RelayCallStatus.RejectedByForwarder,
+    );
+    expect(forwarderRejected?.failure?.source).to.equal("forwarder");
+    expect(forwarderRejected?.failure?.message).to.equal(
+      "forwarder rejected the request: FWD: signature mismatch",
+    );
+
+    // sender 가 TokenPaymaster 에 approve 하지 않았습니다.
+    const paymasterRejected = decodeRelayCallResult(
+      relayHub,
+      await relayTransfer(ethers.utils.parseEther("0.1"), tokenPaymaster),
+    );
+
+    expect(paymasterRejected?.paymasterAccepted).to.equal(false);
+    expect(paymasterRejected?.status).to.equal(
+      RelayCallStatus.RejectedByPreRelayed,
+    );
+    expect(paymasterRejected?.failure?.source).to.equal("paymaster");
+    expect(paymasterRejected?.failure?.message).to.equal(
+      "paymaster rejected in preRelayedCall: insufficient token allowance",
+    );
+  });
+
+  it("returns undefined for receipts without RelayHub events", async () => {
+    const receipt = await (
+      await clamCoin
+        .connect(owner)
+        .transfer(sender.address, ethers.utils.parseEther("1"))
+    ).wait();
+
+    expect(decodeRelayCallResult(relayHub, receipt)).to.equal(undefined);
+  });
+});
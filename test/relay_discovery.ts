@@ -0,0 +1,156 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import { RelayHub, StakeManager } from "../typechain-types";
+import { DiscoveredRelay, RelayDiscovery } from "../src/client";
+import { deployGsnFixture, stakeRelayManager } from "./fixtures/gsn";
+
+describe("* On-chain relay discovery ( RelayServerRegistered + RelayWorkersAdded ) *", async () => {
+  let operator: SignerWithAddress;
+  let owner: Wallet;
+
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+
+  /** RelayHub 배포 이후 블록 (이벤트 조회 시작 블록) */
+  let fromBlock: number;
+
+  let discovery: RelayDiscovery;
+
+  /** 두 번 등록하여 URL 과 수수료를 바꾸는 relayManager */
+  let updatedManager: Wallet;
+  let updatedWorkers: Wallet[];
+  /** RelayHub 승인이 해제되는 relayManager */
+  let unauthorizedManager: Wallet;
+  /** stake 가 unlock 되는 relayManager */
+  let unlockedManager: Wallet;
+
+  /** relayManager 를 stake 하고 relayWorker 를 추가한 뒤 url 로 등록합니다. */
+  const registerRelay = async (url: string, workerCount = 1) => {
+    const relayManager = await stakeRelayManager({
+      owner,
+      stakeManager,
+      relayHub,
+    });
+    const relayWorkers = [...Array(workerCount)].map(() =>
+      ethers.Wallet.createRandom(),
+    );
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers(relayWorkers.map(({ address }) => address))
+    ).wait();
+    await (
+      await relayHub.connect(relayManager).registerRelayServer(0, 10, url)
+    ).wait();
+
+    return { relayManager, relayWorkers };
+  };
+
+  const findRelay = (relays: DiscoveredRelay[], relayManager: Wallet) =>
+    relays.find((relay) => relay.relayManager === relayManager.address);
+
+  before(async () => {
+    [operator] = await ethers.getSigners();
+
+    ({ owner, stakeManager, relayHub } = await deployGsnFixture());
+    fromBlock = await ethers.provider.getBlockNumber();
+
+    // stake owner 가 여러 relayManager 의 stake 를 예치합니다.
+    await (
+      await operator.sendTransaction({
+        to: owner.address,
+        value: ethers.utils.parseEther("10"),
+      })
+    ).wait();
+
+    ({ relayManager: updatedManager, relayWorkers: updatedWorkers } =
+      await registerRelay("http://relay-a.test", 2));
+    ({ relayManager: unauthorizedManager } = await registerRelay(
+      "http://relay-b.test",
+    ));
+    ({ relayManager: unlockedManager } = await registerRelay(
+      "http://relay-c.test",
+    ));
+
+    // 이미 등록된 relayManager 의 재등록은 URL / 수수료만 바꿉니다.
+    await (
+      await relayHub
+        .connect(updatedManager)
+        .registerRelayServer(1_000, 20, "http://relay-a2.test")
+    ).wait();
+
+    discovery = new RelayDiscovery({ relayHub, fromBlock });
+  });
+
+  it("discovers registered relays with their latest url and workers", async () => {
+    const relays = await discovery.getActiveRelays();
+
+    expect(relays.map(({ url }) => url)).to.have.members([
+      "http://relay-a2.test",
+      "http://relay-b.test",
+      "http://relay-c.test",
+    ]);
+
+    const updated = findRelay(relays, updatedManager)!;
+
+    expect(updated.baseRelayFee).to.equal(1_000);
+    expect(updated.pctRelayFee).to.equal(20);
+    expect(updated.workers).to.have.members(
+      updatedWorkers.map(({ address }) => address),
+    );
+    expect(discovery.lastScannedBlock).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+  });
+
+  it("scans only blocks after the cached range", async () => {
+    expect(await discovery.scan()).to.equal(undefined);
+
+    const scannedToBlock = discovery.lastScannedBlock;
+    const { relayManager } = await registerRelay("http://relay-d.test");
+
+    expect(await discovery.scan()).to.deep.equal({
+      fromBlock: scannedToBlock + 1,
+      toBlock: await ethers.provider.getBlockNumber(),
+    });
+    expect(
+      findRelay(await discovery.getActiveRelays(), relayManager)?.url,
+    ).to.equal("http://relay-d.test");
+  });
+
+  it("drops managers whose hub authorization was removed or stake unlocked", async () => {
+    await (
+      await stakeManager
+        .connect(owner)
+        .unauthorizeHubByOwner(unauthorizedManager.address, relayHub.address)
+    ).wait();
+    await (
+      await stakeManager.connect(owner).unlockStake(unlockedManager.address)
+    ).wait();
+
+    const relays = await discovery.getActiveRelays();
+
+    expect(findRelay(relays, unauthorizedManager)).to.equal(undefined);
+    expect(findRelay(relays, unlockedManager)).to.equal(undefined);
+    expect(findRelay(relays, updatedManager)?.url).to.equal(
+      "http://relay-a2.test",
+    );
+  });
+
+  it("returns the same relays when scanning in small block ranges", async () => {
+    const chunked = new RelayDiscovery({
+      relayHub,
+      fromBlock,
+      maxBlockRange: 2,
+    });
+
+    expect(await chunked.getActiveRelays()).to.deep.equal(
+      await discovery.getActiveRelays(),
+    );
+  });
+});
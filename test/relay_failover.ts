@@ -0,0 +1,482 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { ethers, network } from "hardhat";
+
+import axios from "axios";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { BigNumber, providers, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  StakeManager,
+  TokenPaymaster,
+  VerifyingPaymaster,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  Eip712RelayMessage,
+  FailoverRelayClient,
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RelayCandidate,
+  RelayFailoverError,
+  RelaySelector,
+  SignedRequest,
+  getRegisteredRelays,
+} from "../src/client";
+import {
+  AllowlistSponsorshipPolicy,
+  GsnRelayServer,
+  SponsorApprovalService,
+} from "../src/server";
+import { deployGsnFixture, startGsnRelay } from "./fixtures/gsn";
+
+/** Relay 응답을 기다리는 시간 (응답하지 않는 Relay 의 시간 초과) */
+const REQUEST_TIMEOUT_MS = 2_000;
+
+/** 1 Native Token 당 2000 CLAM */
+const TOKENS_PER_NATIVE = ethers.utils.parseEther("2000");
+
+describe("* Relay failover ( re-signs RelayData for the next relay ) *", async () => {
+  let operator: SignerWithAddress;
+  let owner: Wallet;
+
+  /** CLAM 을 보유하고 TokenPaymaster 에 approve 한 요청자 */
+  let user: Wallet;
+  /** CLAM 이 없는 요청자 */
+  let stranger: Wallet;
+
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let tokenPaymaster: TokenPaymaster;
+  let verifyingPaymaster: VerifyingPaymaster;
+  let clamCoin: ClamCoin;
+
+  /** verifyingPaymaster 의 승인 서명을 발급하는 서비스 */
+  let approvals: SponsorApprovalService;
+
+  let client: MetaTransactionClient;
+  let selector: RelaySelector;
+  let failover: FailoverRelayClient;
+
+  /** 수수료가 없는 Relay */
+  let freeRelay: GsnRelayServer;
+  /** 건당 0.1 ETH 를 받는 Relay */
+  let priceyRelay: GsnRelayServer;
+
+  /** 응답하지 않는 HTTP 서버 */
+  const servers: Server[] = [];
+
+  /** relayManager 를 stake 하고 Relay Server 를 시작 / 등록합니다. */
+  const startRelay = (baseRelayFee: BigNumber) =>
+    startGsnRelay({ owner, stakeManager, relayHub }, { baseRelayFee });
+
+  /**
+   * `POST /relay` 에 응답하지 않는 서버를 시작합니다.
+   * relayTo 가 있으면 요청을 그 Relay 로 전달한 뒤에도 응답하지 않습니다. (제출 후 응답이 유실된 Relay)
+   */
+  const startSilentServer = async (relayTo?: string) => {
+    const server = createServer((req) => {
+      let body = "";
+
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (relayTo !== undefined) {
+          axios.post(`${relayTo}/relay`, JSON.parse(body)).catch(() => {});
+        }
+      });
+    });
+    servers.push(server);
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  /** paymaster 를 사용하는 Relay 후보를 수수료 순으로 조회합니다. */
+  const rankRelays = async (paymaster: string) => {
+    const { candidates } = await selector.rankRelays(
+      await getRegisteredRelays(relayHub),
+      {
+        gasEstimate: 100_000,
+        paymaster,
+        forwarder: forwarder.address,
+      },
+    );
+
+    return candidates;
+  };
+
+  const findCandidate = (
+    candidates: RelayCandidate[],
+    server: GsnRelayServer,
+  ) =>
+    candidates.find(
+      ({ relay }) => relay.relayManager === server.relayManager.address,
+    )!;
+
+  /** signer 가 recipient 에게 1 CLAM 을 전송하는 요청을 candidate 의 RelayData 로 서명합니다. */
+  const signTransfer = async (signer: Wallet, candidate: RelayCandidate) =>
+    client.signRequest(
+      signer,
+      await client.buildRelayRequest(
+        {
+          from: signer.address,
+          to: clamCoin.address,
+          data: clamCoin.interface.encodeFunctionData("transfer", [
+            operator.address,
+            ethers.utils.parseEther("1"),
+          ]),
+          gas: 100_000,
+        },
+        candidate.relayData,
+      ),
+    );
+
+  before(async () => {
+    [operator] = await ethers.getSigners();
+
+    ({ owner, stakeManager, relayHub, forwarder, zeroPaymaster, clamCoin } =
+      await deployGsnFixture());
+
+    user = ethers.Wallet.createRandom().connect(ethers.provider);
+    stranger = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    for (const wallet of [owner, user]) {
+      await (
+        await operator.sendTransaction({
+          to: wallet.address,
+          value: ethers.utils.parseEther("10"),
+        })
+      ).wait();
+    }
+
+    tokenPaymaster = await (await ethers.getContractFactory("TokenPaymaster"))
+      .connect(owner)
+      .deploy(
+        relayHub.address,
+        forwarder.address,
+        clamCoin.address,
+        TOKENS_PER_NATIVE,
+        60_000,
+      );
+    await tokenPaymaster.deployed();
+    await (
+      await owner.sendTransaction({
+        to: tokenPaymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    // 수수료가 없는 Relay 는 수 CLAM, 0.1 ETH 를 받는 Relay 는 200 CLAM 이상을 선결제해야 합니다.
+    await (
+      await clamCoin
+        .connect(owner)
+        .transfer(user.address, ethers.utils.parseEther("100"))
+    ).wait();
+    await (
+      await clamCoin
+        .connect(user)
+        .approve(tokenPaymaster.address, ethers.constants.MaxUint256)
+    ).wait();
+
+    const approver = ethers.Wallet.createRandom();
+
+    verifyingPaymaster = await (
+      await ethers.getContractFactory("VerifyingPaymaster")
+    )
+      .connect(owner)
+      .deploy(relayHub.address, forwarder.address, approver.address);
+    await verifyingPaymaster.deployed();
+    await (
+      await owner.sendTransaction({
+        to: verifyingPaymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    approvals = new SponsorApprovalService({
+      approver,
+      paymaster: verifyingPaymaster.address,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      policy: new AllowlistSponsorshipPolicy({
+        contracts: { [clamCoin.address]: ["transfer(address,uint256)"] },
+      }),
+    });
+
+    freeRelay = await startRelay(BigNumber.from(0));
+    priceyRelay = await startRelay(ethers.utils.parseEther("0.1"));
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    selector = new RelaySelector({ relayHub });
+    failover = new FailoverRelayClient({
+      client,
+      relayHub,
+      requestTimeoutMs: REQUEST_TIMEOUT_MS,
+    });
+  });
+
+  it("relays through the first relay that accepts the request", async () => {
+    const candidates = await rankRelays(zeroPaymaster.address);
+    const signed = await signTransfer(user, candidates[0]);
+
+    const result = await failover.relay(user, signed, candidates);
+
+    expect(result.signed).to.equal(signed);
+    expect(result.candidate).to.equal(candidates[0]);
+    expect(result.receipt.status).to.equal(1);
+    expect(result.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "relayed",
+    ]);
+  });
+
+  it("fails over from unreachable, silent and refusing relays", async () => {
+    const candidates = await rankRelays(zeroPaymaster.address);
+    const free = findCandidate(candidates, freeRelay);
+    const pricey = findCandidate(candidates, priceyRelay);
+
+    const offline = await startRelay(BigNumber.from(0));
+    const [offlineCandidate] = (await rankRelays(zeroPaymaster.address)).filter(
+      ({ relay }) => relay.relayManager === offline.relayManager.address,
+    );
+    await offline.close();
+
+    const ranked: RelayCandidate[] = [
+      offlineCandidate,
+      { ...free, relay: { ...free.relay, url: await startSilentServer() } },
+      // 등록된 수수료보다 낮은 수수료를 제시하여 Relay 가 거절합니다.
+      { ...pricey, relayData: { ...pricey.relayData, baseRelayFee: 0 } },
+      free,
+    ];
+    const signed = await signTransfer(user, ranked[0]);
+    const nonce = await forwarder.getNonce(user.address);
+
+    const result = await failover.relay(user, signed, ranked);
+
+    expect(result.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "unreachable",
+      "timeout",
+      "refused",
+      "relayed",
+    ]);
+    expect(result.attempts[2].reason).to.contain("baseRelayFee");
+    expect(result.signed.eip712Request.message.relayData.relayWorker).to.equal(
+      freeRelay.relayWorker.address,
+    );
+    expect(result.signed.eip712Request.message.nonce).to.equal(nonce);
+    expect(await forwarder.getNonce(user.address)).to.equal(nonce.add(1));
+  });
+
+  it("does not relay again when a silent relay already used the nonce", async () => {
+    const candidates = await rankRelays(zeroPaymaster.address);
+    const free = findCandidate(candidates, freeRelay);
+    const pricey = findCandidate(candidates, priceyRelay);
+
+    const ranked: RelayCandidate[] = [
+      {
+        ...free,
+        relay: { ...free.relay, url: await startSilentServer(free.relay.url) },
+      },
+      pricey,
+    ];
+    const signed = await signTransfer(user, ranked[0]);
+    const nonce = await forwarder.getNonce(user.address);
+
+    const error: RelayFailoverError = await failover
+      .relay(user, signed, ranked)
+      .then(
+        () => expect.fail("relayed twice"),
+        (error) => error,
+      );
+
+    expect(error).to.be.instanceOf(RelayFailoverError);
+    expect(error.message).to.contain(`nonce ${nonce} of ${user.address}`);
+    expect(error.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "timeout",
+    ]);
+    expect(await forwarder.getNonce(user.address)).to.equal(nonce.add(1));
+  });
+
+  it("fails over when the paymaster rejects only the relay's fee", async () => {
+    const candidates = await rankRelays(tokenPaymaster.address);
+    const free = findCandidate(candidates, freeRelay);
+    const pricey = findCandidate(candidates, priceyRelay);
+
+    // 비싼 Relay 를 먼저 시도하면 선결제할 CLAM 이 부족하여 paymaster 가 거절합니다.
+    const signed = await signTransfer(user, pricey);
+    const result = await failover.relay(user, signed, [pricey, free]);
+
+    expect(result.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "paymaster-rejected",
+      "relayed",
+    ]);
+    expect(result.attempts[0].reason).to.contain("insufficient token balance");
+    expect(result.candidate).to.equal(free);
+  });
+
+  it("simulates the next relay with its maxPossibleGas and moves on when the simulation fails", async () => {
+    /** gas 가 cap 보다 큰 eth_call 을 거부하는 노드 (공개 RPC 의 eth_call 가스 제한) */
+    const cappedFailover = (cap: number) =>
+      new FailoverRelayClient({
+        client,
+        relayHub: relayHub.connect(
+          new providers.Web3Provider(async (method, params) => {
+            if (
+              method === "eth_call" &&
+              BigNumber.from(params?.[0]?.gas ?? 0).gt(cap)
+            ) {
+              throw new Error(`eth_call gas exceeds ${cap}`);
+            }
+
+            return network.provider.send(method, params);
+          }),
+        ),
+        requestTimeoutMs: REQUEST_TIMEOUT_MS,
+      });
+
+    const candidates = await rankRelays(tokenPaymaster.address);
+    const free = findCandidate(candidates, freeRelay);
+    const pricey = findCandidate(candidates, priceyRelay);
+
+    // block gasLimit 보다 작고 maxPossibleGas 보다 큰 제한에서도 시뮬레이션으로 paymaster 거절을 확인합니다.
+    const error: RelayFailoverError = await cappedFailover(5_000_000)
+      .relay(stranger, await signTransfer(stranger, pricey), [pricey, free])
+      .then(
+        () => expect.fail("relayed a rejected request"),
+        (error) => error,
+      );
+
+    expect(error.message).to.contain(
+      "request rejected by paymaster regardless of relay",
+    );
+
+    // 시뮬레이션 자체가 실패하면 paymaster 거절로 보지 않고 다음 Relay 로 넘어갑니다.
+    const result = await cappedFailover(21_000).relay(
+      user,
+      await signTransfer(user, pricey),
+      [pricey, free],
+    );
+
+    expect(result.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "paymaster-rejected",
+      "relayed",
+    ]);
+    expect(result.candidate).to.equal(free);
+  });
+
+  it("stops when the paymaster rejects the request for every relay", async () => {
+    const candidates = await rankRelays(tokenPaymaster.address);
+    const signed = await signTransfer(stranger, candidates[0]);
+
+    const error: RelayFailoverError = await failover
+      .relay(stranger, signed, candidates)
+      .then(
+        () => expect.fail("relayed a rejected request"),
+        (error) => error,
+      );
+
+    expect(error.message).to.contain(
+      "request rejected by paymaster regardless of relay",
+    );
+    expect(error.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "paymaster-rejected",
+    ]);
+  });
+
+  it("requests a fresh approval for every relay it re-signs the request for", async () => {
+    const candidates = await rankRelays(verifyingPaymaster.address);
+    const free = findCandidate(candidates, freeRelay);
+    const pricey = findCandidate(candidates, priceyRelay);
+
+    const approvedWorkers: string[] = [];
+
+    /** 비싼 Relay 의 수수료는 후원하지 않으므로 승인 없이("0x") 보냅니다. */
+    const approve = async (signed: SignedRequest<Eip712RelayMessage>) => {
+      const { relayRequest } = client.toRelayCallPayload(signed, {
+        maxAcceptanceBudget: 0,
+        externalGasLimit: 0,
+      });
+      approvedWorkers.push(relayRequest.relayData.relayWorker);
+
+      if (BigNumber.from(relayRequest.relayData.baseRelayFee).gt(0)) {
+        return "0x";
+      }
+
+      const { timestamp } = await ethers.provider.getBlock("latest");
+
+      return (await approvals.approve(relayRequest, timestamp)).approvalData;
+    };
+
+    const signed = await signTransfer(user, pricey);
+
+    // approvalData 가 없으면 모든 Relay 에서 같은 이유로 거절됩니다.
+    const error: RelayFailoverError = await failover
+      .relay(user, signed, [pricey, free])
+      .then(
+        () => expect.fail("relayed without approval"),
+        (error) => error,
+      );
+
+    expect(error.message).to.contain(
+      "request rejected by paymaster regardless of relay",
+    );
+    expect(error.attempts[0].reason).to.contain("missing approval");
+
+    // Relay 마다 다시 서명된 요청에 대해 승인을 받아 시뮬레이션과 요청에 사용합니다.
+    const result = await failover.relay(user, signed, [pricey, free], {
+      approvalData: approve,
+    });
+
+    expect(approvedWorkers).to.deep.equal([
+      priceyRelay.relayWorker.address,
+      freeRelay.relayWorker.address,
+    ]);
+    expect(result.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "paymaster-rejected",
+      "relayed",
+    ]);
+    expect(result.candidate).to.equal(free);
+    expect(result.approvalData).to.not.equal("0x");
+    expect(result.receipt.status).to.equal(1);
+
+    // 같은 approvalData 는 모든 시도에 그대로 사용됩니다.
+    const next = await signTransfer(user, free);
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const { approvalData } = await approvals.approve(
+      client.toRelayCallPayload(next, {
+        maxAcceptanceBudget: 0,
+        externalGasLimit: 0,
+      }).relayRequest,
+      timestamp,
+    );
+
+    const fixed = await failover.relay(user, next, [free], { approvalData });
+
+    expect(fixed.approvalData).to.equal(approvalData);
+    expect(fixed.attempts.map(({ outcome }) => outcome)).to.deep.equal([
+      "relayed",
+    ]);
+  });
+
+  after(async () => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      server.close();
+    }
+
+    await freeRelay?.close();
+    await priceyRelay?.close();
+  });
+});
@@ -0,0 +1,204 @@
+import { ethers, network } from "hardhat";
+
+import { providers, Wallet } from "ethers";
+import { expect } from "chai";
+import { RelayHub, StakeManager } from "../typechain-types";
+import { RelayManagerOnboarder } from "../src/operator";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+describe("* Relay Manager Onboarding ( StakeManager + RelayHub ) *", async () => {
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+
+  const url = "http://relay.example.com";
+
+  /** Native Token 이 충전된 relayManager / owner / relayWorker 를 생성합니다. */
+  const createOperator = async () => {
+    const [operator] = await ethers.getSigners();
+    const wallets = [0, 1, 2].map(() =>
+      ethers.Wallet.createRandom().connect(ethers.provider),
+    );
+
+    for (const wallet of wallets.slice(0, 2)) {
+      await (
+        await operator.sendTransaction({
+          to: wallet.address,
+          value: ethers.utils.parseEther("3"),
+        })
+      ).wait();
+    }
+
+    const [relayManager, owner, relayWorker] = wallets;
+
+    return { relayManager, owner, relayWorker };
+  };
+
+  const onboarder = (
+    relayManager: Wallet,
+    owner: Wallet,
+    relayWorkers: string[],
+  ) =>
+    new RelayManagerOnboarder({
+      relayHub,
+      relayManager,
+      owner,
+      relayWorkers,
+      url,
+      stake: ethers.utils.parseEther("1"),
+    });
+
+  before(async () => {
+    ({ stakeManager, relayHub } = await deployGsnFixture());
+  });
+
+  it("performs every step for a new relay manager", async () => {
+    const { relayManager, owner, relayWorker } = await createOperator();
+
+    const steps = await onboarder(relayManager, owner, [
+      relayWorker.address,
+    ]).run();
+
+    expect(steps.map(({ status }) => status)).to.deep.equal([
+      "done",
+      "done",
+      "done",
+      "done",
+      "done",
+    ]);
+
+    expect(await relayHub.isRelayManagerStaked(relayManager.address)).to.equal(
+      true,
+    );
+    expect((await stakeManager.stakes(relayManager.address)).stake).to.equal(
+      ethers.utils.parseEther("1"),
+    );
+    expect(await relayHub.workerToManager(relayWorker.address)).to.equal(
+      relayManager.address,
+    );
+
+    const [registered] = await relayHub.queryFilter(
+      relayHub.filters.RelayServerRegistered(relayManager.address),
+    );
+    expect(registered.args.relayUrl).to.equal(url);
+  });
+
+  it("skips every step when re-run", async () => {
+    const { relayManager, owner, relayWorker } = await createOperator();
+
+    await onboarder(relayManager, owner, [relayWorker.address]).run();
+
+    const managerNonce = await relayManager.getTransactionCount();
+    const ownerNonce = await owner.getTransactionCount();
+
+    const steps = await onboarder(relayManager, owner, [
+      relayWorker.address,
+    ]).run();
+
+    expect(steps.every(({ status }) => status === "skipped")).to.equal(true);
+    expect(await relayManager.getTransactionCount()).to.equal(managerNonce);
+    expect(await owner.getTransactionCount()).to.equal(ownerNonce);
+  });
+
+  it("finds an earlier registration with block-bounded event queries", async () => {
+    const { relayManager, owner, relayWorker } = await createOperator();
+    const maxBlockRange = 5;
+
+    await onboarder(relayManager, owner, [relayWorker.address]).run();
+
+    // 등록 이후 블록이 더 생성되어도 등록 이벤트를 찾아야 합니다.
+    for (let i = 0; i < maxBlockRange * 2; i++) {
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    // eth_getLogs 의 블록 구간을 제한하는 노드
+    const limitedProvider = new providers.Web3Provider(
+      async (method: string, params?: any[]) => {
+        if (method === "eth_getLogs") {
+          const [{ fromBlock, toBlock }] = params ?? [{}];
+          const latest = Number(await network.provider.send("eth_blockNumber"));
+          const blockNumber = (tag?: string) =>
+            tag === undefined || tag === "latest" ? latest : Number(tag);
+
+          if (
+            blockNumber(toBlock) - blockNumber(fromBlock) + 1 >
+            maxBlockRange
+          ) {
+            throw new Error("block range is too wide");
+          }
+        }
+
+        return network.provider.send(method, params);
+      },
+    );
+
+    const steps = await new RelayManagerOnboarder({
+      relayHub: relayHub.connect(limitedProvider),
+      relayManager,
+      owner,
+      relayWorkers: [relayWorker.address],
+      url,
+      stake: ethers.utils.parseEther("1"),
+      maxBlockRange,
+    }).run();
+
+    expect(steps.every(({ status }) => status === "skipped")).to.equal(true);
+  });
+
+  it("resumes after a partial onboarding", async () => {
+    const { relayManager, owner, relayWorker } = await createOperator();
+
+    // #region 3 ~ 6 단계 일부만 수동으로 진행 (부족한 stake)
+    await (
+      await stakeManager
+        .connect(relayManager)
+        .setRelayManagerOwner(owner.address)
+    ).wait();
+    await (
+      await stakeManager
+        .connect(relayManager)
+        .authorizeHubByManager(relayHub.address)
+    ).wait();
+    await (
+      await stakeManager
+        .connect(owner)
+        .stakeForRelayManager(relayManager.address, 0, {
+          value: ethers.utils.parseEther("0.4"),
+        })
+    ).wait();
+    // #endregion
+
+    const steps = await onboarder(relayManager, owner, [
+      relayWorker.address,
+    ]).run();
+
+    expect(
+      Object.fromEntries(steps.map(({ step, status }) => [step, status])),
+    ).to.deep.equal({
+      setRelayManagerOwner: "skipped",
+      authorizeHub: "skipped",
+      stakeForRelayManager: "done",
+      addRelayWorkers: "done",
+      registerRelayServer: "done",
+    });
+    expect((await stakeManager.stakes(relayManager.address)).stake).to.equal(
+      ethers.utils.parseEther("1"),
+    );
+  });
+
+  it("rejects a relay worker that belongs to another manager", async () => {
+    const first = await createOperator();
+    const second = await createOperator();
+
+    await onboarder(first.relayManager, first.owner, [
+      first.relayWorker.address,
+    ]).run();
+
+    await expect(
+      onboarder(second.relayManager, second.owner, [
+        first.relayWorker.address,
+      ]).run(),
+    ).to.be.rejectedWith(
+      `relay worker ${first.relayWorker.address} belongs to another manager ${first.relayManager.address}`,
+    );
+  });
+});
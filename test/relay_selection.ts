@@ -0,0 +1,235 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import { ethers } from "hardhat";
+
+import { BigNumber, Wallet } from "ethers";
+import { expect } from "chai";
+import { HttpClient } from "@opengsn/common/dist/HttpClient";
+import { HttpWrapper } from "@opengsn/common/dist/HttpWrapper";
+import { LoggerInterface } from "@opengsn/common/dist/LoggerInterface";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  StakeManager,
+  ZeroPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RegisteredRelay,
+  RelaySelectionOptions,
+  RelaySelector,
+  getRegisteredRelays,
+} from "../src/client";
+import { GsnRelayServer } from "../src/server";
+import { deployGsnFixture, startGsnRelay } from "./fixtures/gsn";
+
+/** RelayClient 의 기본 maxRelayNonceGap */
+const MAX_RELAY_NONCE_GAP = 3;
+
+const silentLogger: LoggerInterface = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {},
+};
+
+describe("* Fee-aware relay selection ( RelayServerRegistered + /getaddr ) *", async () => {
+  let operator: SignerWithAddress;
+  let owner: Wallet;
+
+  let stakeManager: StakeManager;
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let zeroPaymaster: ZeroPaymaster;
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+  let selector: RelaySelector;
+
+  /** 모든 Relay 의 minGasPrice 이자 요청에 제시하는 gasPrice */
+  let gasPrice: BigNumber;
+
+  /** 고정 수수료만 받는 Relay (baseRelayFee = 100,000 gas 분량) */
+  let baseFeeRelay: GsnRelayServer;
+  /** 비율 수수료만 받는 Relay (pctRelayFee = 50%) */
+  let pctFeeRelay: GsnRelayServer;
+  /** 수수료가 없지만 등록 후 종료된 Relay */
+  let offlineRelay: GsnRelayServer;
+
+  let relays: RegisteredRelay[];
+
+  const httpClient = new HttpClient(new HttpWrapper(), silentLogger);
+
+  const selectionOptions = (gasEstimate: number): RelaySelectionOptions => ({
+    gasEstimate,
+    gasPrice,
+    paymaster: zeroPaymaster.address,
+    forwarder: forwarder.address,
+  });
+
+  /** relayManager 를 stake 하고 Relay Server 를 시작 / 등록합니다. */
+  const startRelay = (baseRelayFee: BigNumber, pctRelayFee: number) =>
+    startGsnRelay(
+      { owner, stakeManager, relayHub },
+      { baseRelayFee, pctRelayFee, minGasPrice: gasPrice },
+    );
+
+  const findRelay = (server: GsnRelayServer) =>
+    relays.find((relay) => relay.relayManager === server.relayManager.address)!;
+
+  before(async () => {
+    [operator] = await ethers.getSigners();
+
+    ({ owner, stakeManager, relayHub, forwarder, zeroPaymaster, clamCoin } =
+      await deployGsnFixture());
+
+    gasPrice = await ethers.provider.getGasPrice();
+
+    baseFeeRelay = await startRelay(gasPrice.mul(100_000), 0);
+    pctFeeRelay = await startRelay(BigNumber.from(0), 50);
+    offlineRelay = await startRelay(BigNumber.from(0), 0);
+    await offlineRelay.close();
+
+    relays = await getRegisteredRelays(relayHub);
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    selector = new RelaySelector({ relayHub, pingTimeoutMs: 1_000 });
+  });
+
+  it("reads the latest registration of each relay", async () => {
+    expect(relays.length).to.equal(3);
+    expect(findRelay(baseFeeRelay).baseRelayFee).to.equal(
+      gasPrice.mul(100_000),
+    );
+    expect(findRelay(pctFeeRelay).pctRelayFee).to.equal(50);
+  });
+
+  it("reads registrations in bounded block ranges", async () => {
+    const [offlineRegistration] = await relayHub.queryFilter(
+      relayHub.filters.RelayServerRegistered(offlineRelay.relayManager.address),
+    );
+
+    // 한 번에 1 블록씩 조회해도 같은 결과입니다.
+    expect(
+      await getRegisteredRelays(relayHub, { maxBlockRange: 1 }),
+    ).to.deep.equal(relays);
+
+    // toBlock 이후의 등록은 포함하지 않습니다.
+    const before = await getRegisteredRelays(relayHub, {
+      toBlock: offlineRegistration.blockNumber - 1,
+      maxBlockRange: 2,
+    });
+
+    expect(before.map(({ relayManager }) => relayManager)).to.deep.equal([
+      baseFeeRelay.relayManager.address,
+      pctFeeRelay.relayManager.address,
+    ]);
+    expect(
+      await getRegisteredRelays(relayHub, {
+        fromBlock: offlineRegistration.blockNumber,
+      }),
+    ).to.deep.equal([findRelay(offlineRelay)]);
+  });
+
+  it("ranks relays by the charge for the given gas estimate", async () => {
+    // 고정 수수료 = 100,000 gas 분량이므로 200,000 gas 를 기준으로 순위가 바뀝니다.
+    const small = await selector.rankRelays(relays, selectionOptions(100_000));
+    const large = await selector.rankRelays(
+      relays,
+      selectionOptions(1_000_000),
+    );
+
+    expect(small.candidates.map(({ relay }) => relay)).to.deep.equal([
+      findRelay(pctFeeRelay),
+      findRelay(baseFeeRelay),
+    ]);
+    expect(large.candidates.map(({ relay }) => relay)).to.deep.equal([
+      findRelay(baseFeeRelay),
+      findRelay(pctFeeRelay),
+    ]);
+
+    for (const { charge, relayData } of large.candidates) {
+      expect(charge).to.equal(
+        await relayHub.calculateCharge(1_000_000, relayData),
+      );
+    }
+  });
+
+  it("skips a registered relay that does not answer /getaddr", async () => {
+    const { unavailable } = await selector.rankRelays(
+      relays,
+      selectionOptions(100_000),
+    );
+
+    expect(unavailable.map(({ relay }) => relay)).to.deep.equal([
+      findRelay(offlineRelay),
+    ]);
+
+    await expect(
+      selector.selectRelay([findRelay(offlineRelay)], selectionOptions(1)),
+    ).to.be.rejectedWith("no available relay");
+  });
+
+  it("relays through the selected relay with its advertised fees", async () => {
+    const data = clamCoin.interface.encodeFunctionData("transfer", [
+      operator.address,
+      ethers.utils.parseEther("1"),
+    ]);
+    const gasEstimate = await ethers.provider.estimateGas({
+      from: forwarder.address,
+      to: clamCoin.address,
+      data: ethers.utils.hexConcat([data, owner.address]),
+    });
+
+    const selected = await selector.selectRelay(
+      relays,
+      selectionOptions(gasEstimate.toNumber()),
+    );
+
+    expect(selected.relay).to.deep.equal(findRelay(pctFeeRelay));
+    expect(selected.relayData.pctRelayFee).to.equal(50);
+    expect(selected.relayData.relayWorker).to.equal(
+      pctFeeRelay.relayWorker.address,
+    );
+
+    const signed = await client.signRequest(
+      owner,
+      await client.buildRelayRequest(
+        { from: owner.address, to: clamCoin.address, data },
+        selected.relayData,
+      ),
+    );
+    const signedTx = await httpClient.relayTransaction(
+      selected.relay.url,
+      client.toRelayTransactionRequest(signed, {
+        relayHubAddress: relayHub.address,
+        relayMaxNonce:
+          (await pctFeeRelay.relayWorker.getTransactionCount()) +
+          MAX_RELAY_NONCE_GAP,
+      }),
+    );
+
+    const receipt = await ethers.provider.waitForTransaction(
+      ethers.utils.parseTransaction(signedTx).hash!,
+    );
+    const relayed = receipt.logs
+      .filter((log) => log.address === relayHub.address)
+      .map((log) => relayHub.interface.parseLog(log))
+      .find((log) => log.name === "TransactionRelayed");
+
+    expect(relayed?.args.status).to.equal(0);
+    expect(relayed?.args.relayWorker).to.equal(pctFeeRelay.relayWorker.address);
+  });
+
+  after(async () => {
+    await baseFeeRelay?.close();
+    await pctFeeRelay?.close();
+  });
+});
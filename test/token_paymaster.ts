@@ -0,0 +1,310 @@
+import { ethers } from "hardhat";
+
+import { BigNumber, BigNumberish, Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  TokenPaymaster,
+} from "../typechain-types";
+import {
+  Eip712RelayMessage,
+  Eip712Request,
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  TokenPaymasterQuoter,
+} from "../src/client";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+/** 1 Native Token 당 2000 CLAM */
+const TOKENS_PER_NATIVE = ethers.utils.parseEther("2000");
+
+/** postRelayedCall 가스 사용량 추정값 */
+const GAS_USED_BY_POST = 60_000;
+
+describe("* Token Paymaster ( charges relayed calls in CLAM ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+  let stranger: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+  let paymaster: TokenPaymaster;
+
+  let client: MetaTransactionClient;
+  let quoter: TokenPaymasterQuoter;
+
+  const amount = ethers.utils.parseEther("1");
+
+  const transferData = () =>
+    clamCoin.interface.encodeFunctionData("transfer", [
+      relayManager.address,
+      amount,
+    ]);
+
+  /** signer 의 ClamCoin.transfer 요청을 서명 전 상태로 생성합니다. */
+  const buildRequest = async (signer: Wallet) =>
+    client.buildRelayRequest(
+      // 거절되는 요청도 서명할 수 있도록 gas 를 추정하지 않습니다.
+      {
+        from: signer.address,
+        to: clamCoin.address,
+        data: transferData(),
+        gas: 100_000,
+      },
+      {
+        gasPrice: await ethers.provider.getGasPrice(),
+        pctRelayFee: 10,
+        baseRelayFee: 0,
+        relayWorker: relayWorker.address,
+        paymaster: paymaster.address,
+        forwarder: forwarder.address,
+        paymasterData: "0x",
+        clientId: 1,
+      },
+    );
+
+  /** 요청에 서명하여 relayWorker 로 RelayHub.relayCall 하고 영수증의 이벤트를 반환합니다. */
+  const relay = async (
+    signer: Wallet,
+    eip712Request: Eip712Request<Eip712RelayMessage>,
+  ) => {
+    const payload = client.toRelayCallPayload(
+      await client.signRequest(signer, eip712Request),
+      {
+        maxAcceptanceBudget: (await paymaster.getGasAndDataLimits())
+          .acceptanceBudget,
+        externalGasLimit: EXTERNAL_GAS_LIMIT,
+      },
+    );
+
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          payload.approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return {
+      hubEvents: receipt.logs
+        .filter((log) => log.address === relayHub.address)
+        .map((log) => relayHub.interface.parseLog(log)),
+      paymasterEvents: receipt.logs
+        .filter((log) => log.address === paymaster.address)
+        .map((log) => paymaster.interface.parseLog(log)),
+    };
+  };
+
+  const approve = async (signer: Wallet, allowance: BigNumberish) =>
+    (
+      await clamCoin.connect(signer).approve(paymaster.address, allowance)
+    ).wait();
+
+  before(async () => {
+    ({ owner, relayManager, relayWorker, relayHub, forwarder, clamCoin } =
+      await deployGsnFixture());
+
+    stranger = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    await (
+      await owner.sendTransaction({
+        to: stranger.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    paymaster = await (await ethers.getContractFactory("TokenPaymaster"))
+      .connect(owner)
+      .deploy(
+        relayHub.address,
+        forwarder.address,
+        clamCoin.address,
+        TOKENS_PER_NATIVE,
+        GAS_USED_BY_POST,
+      );
+    await paymaster.deployed();
+
+    // RelayHub 예치금 1 ETH, 예치금 보충용 reserve 1 ETH
+    await (
+      await owner.sendTransaction({
+        to: paymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+    await (
+      await paymaster.depositReserve({ value: ethers.utils.parseEther("1") })
+    ).wait();
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    quoter = new TokenPaymasterQuoter(relayHub, paymaster.address);
+  });
+
+  it("quotes the maximum charge at the paymaster rate", async () => {
+    const quote = await quoter.quote(await buildRequest(owner));
+
+    expect(quote.tokenCharge).to.be.gt(0);
+    expect(quote.tokenCharge).to.equal(
+      quote.nativeCharge
+        .mul(TOKENS_PER_NATIVE)
+        .div(ethers.constants.WeiPerEther),
+    );
+  });
+
+  it("charges the sender in CLAM and replenishes the hub deposit", async () => {
+    const eip712Request = await buildRequest(owner);
+    const quote = await quoter.quote(eip712Request);
+
+    // 견적만큼만 approve 해도 preRelayedCall 의 선차감을 통과해야 합니다.
+    await approve(owner, quote.tokenCharge);
+
+    const senderBalanceBefore = await clamCoin.balanceOf(owner.address);
+    const depositBefore = await relayHub.balanceOf(paymaster.address);
+    const reserveBefore = await ethers.provider.getBalance(paymaster.address);
+
+    const { hubEvents, paymasterEvents } = await relay(owner, eip712Request);
+
+    const relayed = hubEvents.find(
+      (event) => event.name === "TransactionRelayed",
+    );
+    const charged = paymasterEvents.find(
+      (event) => event.name === "TokensCharged",
+    );
+
+    expect(relayed?.args.status).to.equal(0);
+    expect(charged?.args.from).to.equal(owner.address);
+
+    const nativeCharge: BigNumber = charged?.args.nativeCharge;
+    const tokenCharge: BigNumber = charged?.args.tokenCharge;
+
+    expect(tokenCharge).to.be.gt(0);
+    expect(tokenCharge).to.be.lte(quote.tokenCharge);
+    expect(tokenCharge).to.equal(
+      nativeCharge.mul(TOKENS_PER_NATIVE).div(ethers.constants.WeiPerEther),
+    );
+
+    // 요청자의 CLAM 은 전송량과 수수료만큼 줄고, 수수료는 paymaster 가 보유합니다.
+    expect(await clamCoin.balanceOf(owner.address)).to.equal(
+      senderBalanceBefore.sub(amount).sub(tokenCharge),
+    );
+    expect(await clamCoin.balanceOf(paymaster.address)).to.equal(tokenCharge);
+
+    // RelayHub 가 차감한 수수료만큼 reserve 에서 예치금을 보충합니다.
+    expect(await relayHub.balanceOf(paymaster.address)).to.equal(
+      depositBefore.sub(relayed?.args.charge).add(nativeCharge),
+    );
+    expect(await ethers.provider.getBalance(paymaster.address)).to.equal(
+      reserveBefore.sub(nativeCharge),
+    );
+  });
+
+  it("rejects a sender with insufficient allowance", async () => {
+    await approve(owner, 0);
+
+    const depositBefore = await relayHub.balanceOf(paymaster.address);
+    const { hubEvents } = await relay(owner, await buildRequest(owner));
+
+    const rejected = hubEvents.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.reason).to.include(
+      ethers.utils
+        .hexlify(ethers.utils.toUtf8Bytes("insufficient token allowance"))
+        .slice(2),
+    );
+    expect(await relayHub.balanceOf(paymaster.address)).to.equal(depositBefore);
+  });
+
+  it("rejects a sender with insufficient balance", async () => {
+    const eip712Request = await buildRequest(stranger);
+    await approve(stranger, (await quoter.quote(eip712Request)).tokenCharge);
+
+    const { hubEvents } = await relay(stranger, eip712Request);
+
+    const rejected = hubEvents.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.reason).to.include(
+      ethers.utils
+        .hexlify(ethers.utils.toUtf8Bytes("insufficient token balance"))
+        .slice(2),
+    );
+  });
+
+  it("keeps relaying but skips replenishing the hub deposit once the reserve is exhausted", async () => {
+    const eip712Request = await buildRequest(owner);
+    await approve(owner, (await quoter.quote(eip712Request)).tokenCharge);
+
+    // 예치금 보충에 필요한 양보다 적은 reserve 만 남깁니다.
+    const leftover = 1;
+    await (
+      await paymaster
+        .connect(owner)
+        .withdrawReserve(
+          (await ethers.provider.getBalance(paymaster.address)).sub(leftover),
+          owner.address,
+        )
+    ).wait();
+
+    const depositBefore = await relayHub.balanceOf(paymaster.address);
+    const senderBalanceBefore = await clamCoin.balanceOf(owner.address);
+
+    const { hubEvents, paymasterEvents } = await relay(owner, eip712Request);
+
+    const relayed = hubEvents.find(
+      (event) => event.name === "TransactionRelayed",
+    );
+    const charged = paymasterEvents.find(
+      (event) => event.name === "TokensCharged",
+    );
+    const skipped = paymasterEvents.find(
+      (event) => event.name === "DepositReplenishmentSkipped",
+    );
+
+    // 요청은 처리되고 요청자는 토큰으로 수수료를 냅니다.
+    expect(relayed?.args.status).to.equal(0);
+    expect(await clamCoin.balanceOf(owner.address)).to.equal(
+      senderBalanceBefore.sub(amount).sub(charged?.args.tokenCharge),
+    );
+
+    // RelayHub 예치금은 보충되지 않고 수수료만큼 줄어듭니다.
+    expect(skipped?.args.nativeCharge).to.equal(charged?.args.nativeCharge);
+    expect(skipped?.args.reserve).to.equal(leftover);
+    expect(await relayHub.balanceOf(paymaster.address)).to.equal(
+      depositBefore.sub(relayed?.args.charge),
+    );
+    expect(await ethers.provider.getBalance(paymaster.address)).to.equal(
+      leftover,
+    );
+  });
+
+  it("rejects rate changes from a non-owner", async () => {
+    await expect(
+      paymaster.connect(stranger).setRate(1),
+    ).to.be.revertedWithCustomError(paymaster, "OwnableUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,400 @@
+import { ethers, network } from "hardhat";
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { providers, Wallet } from "ethers";
+import { expect } from "chai";
+import { Penalizer } from "../typechain-types";
+import { ManagedTransaction, TransactionManager } from "../src/server";
+import { JsonFileStore } from "../src/store";
+
+/**
+ * 서명된 legacy 트랜잭션을 Penalizer 가 받는 (unsignedTx, signature) 로 분리합니다.
+ */
+function splitSignedTx(signedTx: string): {
+  unsignedTx: string;
+  signature: string;
+} {
+  const { nonce, gasPrice, gasLimit, to, value, data, chainId, r, s, v } =
+    ethers.utils.parseTransaction(signedTx);
+
+  return {
+    unsignedTx: ethers.utils.serializeTransaction({
+      nonce,
+      gasPrice,
+      gasLimit,
+      to,
+      value,
+      data,
+      chainId,
+    }),
+    signature: ethers.utils.joinSignature({ r: r!, s, v: v! }),
+  };
+}
+
+/**
+ * 브로드캐스트 실패를 흉내내는 provider 입니다.
+ *
+ * @param failBeforeSend - 다음 트랜잭션을 노드에 전달하지 않고 이 오류를 던집니다. (한 번)
+ * @param timeoutAfterSend - true 이면 다음 트랜잭션을 노드에 전달한 뒤 응답 대신 오류를 던집니다. (RPC timeout, 한 번)
+ */
+class UnreliableProvider extends providers.Web3Provider {
+  failBeforeSend?: Error;
+  timeoutAfterSend = false;
+
+  async sendTransaction(
+    signedTransaction: string | Promise<string>,
+  ): Promise<providers.TransactionResponse> {
+    const failure = this.failBeforeSend;
+    this.failBeforeSend = undefined;
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    const response = await super.sendTransaction(signedTransaction);
+
+    if (this.timeoutAfterSend) {
+      this.timeoutAfterSend = false;
+      throw new Error("timeout");
+    }
+
+    return response;
+  }
+}
+
+describe("* Relay Worker Transaction Manager *", async () => {
+  let relayWorker: Wallet;
+
+  let penalizer: Penalizer;
+
+  let storeDir: string;
+
+  /** 테스트 대상 호출 (penalizer.isTransactionTypeValid - view 함수) */
+  const payload = (data: string) => ({
+    to: penalizer.address,
+    data: penalizer.interface.encodeFunctionData("isTransactionTypeValid", [
+      data,
+    ]),
+    gasLimit: 100_000,
+  });
+
+  const mine = () => network.provider.send("evm_mine", []);
+
+  const setAutomine = (enabled: boolean) =>
+    network.provider.send("evm_setAutomine", [enabled]);
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    if (!operator.provider) {
+      throw new Error("provider is undefined");
+    }
+
+    relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+
+    const sendNativeTx = await operator.sendTransaction({
+      to: relayWorker.address,
+      value: ethers.utils.parseEther("10"),
+    });
+    await sendNativeTx.wait();
+
+    penalizer = await (await ethers.getContractFactory("Penalizer")).deploy();
+    await penalizer.deployed();
+
+    storeDir = mkdtempSync(join(tmpdir(), "tx-manager-"));
+  });
+
+  afterEach(async () => {
+    await setAutomine(true);
+  });
+
+  it("assigns sequential nonces to concurrent transactions", async () => {
+    const manager = new TransactionManager({ signer: relayWorker });
+    const gasPrice = await relayWorker.getGasPrice();
+    const firstNonce = await relayWorker.getTransactionCount();
+
+    await setAutomine(false);
+
+    const transactions = await Promise.all([
+      manager.send(payload("0x01"), gasPrice),
+      manager.send(payload("0x02"), gasPrice),
+      manager.send(payload("0x03"), gasPrice),
+    ]);
+
+    expect(transactions.map((transaction) => transaction.nonce)).to.deep.equal([
+      firstNonce,
+      firstNonce + 1,
+      firstNonce + 2,
+    ]);
+
+    await mine();
+
+    expect(await relayWorker.getTransactionCount()).to.equal(firstNonce + 3);
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it("persists pending transactions and never reuses their nonce after restart", async () => {
+    const store = new JsonFileStore<ManagedTransaction[]>(
+      join(storeDir, "restart.json"),
+    );
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    const first = await new TransactionManager({
+      signer: relayWorker,
+      store,
+    }).send(payload("0x01"), gasPrice);
+
+    const stored = await store.read();
+    expect(stored?.map((transaction) => transaction.nonce)).to.deep.equal([
+      first.nonce,
+    ]);
+
+    // 노드의 mempool 에서 사라져도 (노드 재시작 등) 저장소의 nonce 는 재사용하지 않습니다.
+    await network.provider.send("hardhat_dropTransaction", [first.hashes[0]]);
+
+    const restarted = new TransactionManager({ signer: relayWorker, store });
+
+    expect((await restarted.getPendingTransactions())[0].signedTx).to.equal(
+      first.signedTx,
+    );
+
+    const second = await restarted.send(payload("0x02"), gasPrice);
+    expect(second.nonce).to.equal(first.nonce + 1);
+
+    await restarted.rebroadcastPendingTransactions();
+    await mine();
+
+    expect(await relayWorker.getTransactionCount()).to.equal(second.nonce + 1);
+    expect(await restarted.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await store.read()).to.deep.equal([]);
+  });
+
+  it("replaces a stuck transaction only with the same payload and a higher gasPrice", async () => {
+    const manager = new TransactionManager({
+      signer: relayWorker,
+      stuckTimeoutMs: 0,
+    });
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    const original = await manager.send(payload("0x01"), gasPrice);
+    const [replacement] = await manager.bumpStuckTransactions();
+
+    expect(replacement.nonce).to.equal(original.nonce);
+    expect(replacement.hashes).to.deep.equal([
+      ...original.hashes,
+      ethers.utils.keccak256(replacement.signedTx),
+    ]);
+
+    const originalTx = ethers.utils.parseTransaction(original.signedTx);
+    const replacementTx = ethers.utils.parseTransaction(replacement.signedTx);
+
+    expect(replacementTx.gasPrice!.gt(originalTx.gasPrice!)).to.equal(true);
+    expect(replacementTx.to).to.equal(originalTx.to);
+    expect(replacementTx.data).to.equal(originalTx.data);
+    expect(replacementTx.gasLimit).to.equal(originalTx.gasLimit);
+    expect(replacementTx.value).to.equal(originalTx.value);
+
+    // #region Penalizer.penalizeRepeatedNonce 로 처벌할 수 없는 쌍인지 확인
+    const tx1 = splitSignedTx(original.signedTx);
+    const tx2 = splitSignedTx(replacement.signedTx);
+
+    await expect(
+      penalizer
+        .connect(ethers.provider)
+        .callStatic.penalizeRepeatedNonce(
+          tx1.unsignedTx,
+          tx1.signature,
+          tx2.unsignedTx,
+          tx2.signature,
+          ethers.constants.AddressZero,
+          0,
+          { from: ethers.constants.AddressZero },
+        ),
+    ).to.be.revertedWith("tx is equal");
+    // #endregion
+
+    await mine();
+
+    const receipt = await ethers.provider.getTransactionReceipt(
+      replacementTx.hash!,
+    );
+    expect(receipt.status).to.equal(1);
+    expect(await ethers.provider.getTransactionReceipt(originalTx.hash!)).to.be
+      .null;
+
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+  });
+
+  it("does not bump above maxGasPrice", async () => {
+    const gasPrice = await relayWorker.getGasPrice();
+    const manager = new TransactionManager({
+      signer: relayWorker,
+      stuckTimeoutMs: 0,
+      maxGasPrice: gasPrice,
+    });
+
+    await setAutomine(false);
+
+    await manager.send(payload("0x01"), gasPrice);
+
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+
+    await mine();
+  });
+
+  it("keeps the nonce of a transaction whose broadcast failed but reached the node", async () => {
+    const provider = new UnreliableProvider((method, params) =>
+      network.provider.send(method, params),
+    );
+    const manager = new TransactionManager({
+      signer: relayWorker.connect(provider),
+    });
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    provider.timeoutAfterSend = true;
+    await expect(manager.send(payload("0x01"), gasPrice)).to.be.rejectedWith(
+      "timeout",
+    );
+
+    const [broadcast] = await manager.getPendingTransactions();
+    const next = await manager.send(payload("0x02"), gasPrice);
+
+    expect(next.nonce).to.equal(broadcast.nonce + 1);
+
+    await mine();
+
+    expect(
+      (await ethers.provider.getTransactionReceipt(broadcast.hashes[0])).status,
+    ).to.equal(1);
+    expect(
+      (await ethers.provider.getTransactionReceipt(next.hashes[0])).status,
+    ).to.equal(1);
+    expect(await manager.getPendingTransactions()).to.have.length(2);
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it("keeps bumping the other stuck transactions when one was already mined", async () => {
+    const provider = new UnreliableProvider((method, params) =>
+      network.provider.send(method, params),
+    );
+    const manager = new TransactionManager({
+      signer: relayWorker.connect(provider),
+      stuckTimeoutMs: 0,
+    });
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    const first = await manager.send(payload("0x01"), gasPrice);
+    const second = await manager.send(payload("0x02"), gasPrice);
+
+    // 교체 직전에 원래 트랜잭션이 채굴된 경우 등
+    provider.failBeforeSend = new Error("nonce too low");
+    const bumped = await manager.bumpStuckTransactions();
+
+    expect(bumped.map(({ nonce }) => nonce)).to.deep.equal([second.nonce]);
+    expect(
+      (await manager.bumpStuckTransactions()).map(({ nonce }) => nonce),
+    ).to.deep.equal([first.nonce, second.nonce]);
+
+    await mine();
+
+    expect(await manager.getPendingTransactions()).to.have.length(2);
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it("reports a rejected replacement and keeps the last broadcast version", async () => {
+    const provider = new UnreliableProvider((method, params) =>
+      network.provider.send(method, params),
+    );
+    const manager = new TransactionManager({
+      signer: relayWorker.connect(provider),
+      stuckTimeoutMs: 0,
+    });
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    const first = await manager.send(payload("0x01"), gasPrice);
+    const second = await manager.send(payload("0x02"), gasPrice);
+
+    provider.failBeforeSend = new Error(
+      "insufficient funds for gas * price + value",
+    );
+    await expect(manager.bumpStuckTransactions()).to.be.rejectedWith(
+      "insufficient funds",
+    );
+
+    // 거부된 교체 트랜잭션의 gasPrice 는 기록하지 않고, 이후 nonce 도 교체하지 않습니다.
+    const [kept, untouched] = await manager.getPendingTransactions();
+
+    expect(kept.gasPrice).to.equal(first.gasPrice);
+    expect(kept.signedTx).to.equal(first.signedTx);
+    expect(kept.hashes).to.have.length(2);
+    expect(untouched).to.deep.equal(second);
+
+    expect(
+      (await manager.bumpStuckTransactions()).map(({ nonce }) => nonce),
+    ).to.deep.equal([first.nonce, second.nonce]);
+
+    await mine();
+
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  it("re-broadcasts the same payload for a nonce the node rejected", async () => {
+    const provider = new UnreliableProvider((method, params) =>
+      network.provider.send(method, params),
+    );
+    const manager = new TransactionManager({
+      signer: relayWorker.connect(provider),
+    });
+    const gasPrice = await relayWorker.getGasPrice();
+
+    await setAutomine(false);
+
+    provider.failBeforeSend = new Error(
+      "insufficient funds for gas * price + value",
+    );
+    await expect(manager.send(payload("0x01"), gasPrice)).to.be.rejectedWith(
+      "insufficient funds",
+    );
+
+    // 거부된 트랜잭션의 nonce 도 다른 내용으로 재사용하지 않습니다.
+    const [rejected] = await manager.getPendingTransactions();
+    const next = await manager.send(payload("0x02"), gasPrice);
+
+    expect(next.nonce).to.equal(rejected.nonce + 1);
+
+    await mine();
+
+    // 앞 nonce 가 비어 있으므로 다음 트랜잭션도 채굴되지 않습니다.
+    expect(await relayWorker.getTransactionCount()).to.equal(rejected.nonce);
+
+    await manager.rebroadcastPendingTransactions();
+    await mine();
+
+    expect(
+      (await ethers.provider.getTransactionReceipt(rejected.hashes[0])).status,
+    ).to.equal(1);
+    expect(await relayWorker.getTransactionCount()).to.equal(next.nonce + 1);
+    expect(await manager.bumpStuckTransactions()).to.deep.equal([]);
+    expect(await manager.getPendingTransactions()).to.deep.equal([]);
+  });
+
+  after(async () => {
+    rmSync(storeDir, { recursive: true, force: true });
+  });
+});
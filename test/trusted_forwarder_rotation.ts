@@ -0,0 +1,246 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import { ClamCoin, Forwarder } from "../typechain-types";
+import { MetaTransactionClient } from "../src/client";
+import { TrustedForwarderMigrator } from "../src/operator";
+
+const DOMAIN_NAME = "Trusted Relay Transaction";
+const DOMAIN_VERSION = "1";
+
+describe("* GasFreeERC20 rotatable trusted forwarders *", async () => {
+  /** ClamCoin 배포자 (DEFAULT_ADMIN_ROLE, FORWARDER_ADMIN_ROLE) */
+  let owner: Wallet;
+  let relayWorker: Wallet;
+
+  /** Native Token 이 없는 CLAM 보유자 */
+  let holder: Wallet;
+  let stranger: Wallet;
+
+  let oldForwarder: Forwarder;
+  let newForwarder: Forwarder;
+  let clamCoin: ClamCoin;
+
+  const amount = ethers.utils.parseEther("1");
+
+  const deployForwarder = async () => {
+    const forwarder = await (
+      await ethers.getContractFactory("Forwarder")
+    ).deploy();
+    await forwarder.deployed();
+    await (
+      await forwarder.registerDomainSeparator(DOMAIN_NAME, DOMAIN_VERSION)
+    ).wait();
+
+    return forwarder;
+  };
+
+  /**
+   * holder 의 `transfer(stranger, amount)` 를 forwarder 로 실행합니다.
+   *
+   * @returns Forwarder.execute 의 대상 호출 성공 여부
+   */
+  const forwardTransfer = async (forwarder: Forwarder) => {
+    const client = new MetaTransactionClient(
+      forwarder,
+      DOMAIN_NAME,
+      DOMAIN_VERSION,
+    );
+    const payload = client.toForwarderExecutePayload(
+      await client.createSignedRequest(holder, {
+        to: clamCoin.address,
+        data: clamCoin.interface.encodeFunctionData("transfer", [
+          stranger.address,
+          amount,
+        ]),
+        gas: 100_000,
+      }),
+    );
+
+    const args = [
+      payload.request,
+      payload.domainSeparator,
+      payload.requestTypeHash,
+      payload.suffixData,
+      payload.signature,
+    ] as const;
+
+    const [success] = await forwarder
+      .connect(relayWorker)
+      .callStatic.execute(...args);
+    await (await forwarder.connect(relayWorker).execute(...args)).wait();
+
+    return success;
+  };
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    if (!operator.provider) {
+      throw new Error("provider is undefined");
+    }
+
+    owner = ethers.Wallet.createRandom().connect(operator.provider);
+    relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+    holder = ethers.Wallet.createRandom().connect(operator.provider);
+    stranger = ethers.Wallet.createRandom().connect(operator.provider);
+
+    for (const wallet of [owner, relayWorker, stranger]) {
+      const sendNativeTx = await operator.sendTransaction({
+        to: wallet.address,
+        value: ethers.utils.parseEther("10"),
+      });
+      await sendNativeTx.wait();
+    }
+
+    oldForwarder = await deployForwarder();
+    newForwarder = await deployForwarder();
+
+    clamCoin = await (await ethers.getContractFactory("ClamCoin"))
+      .connect(owner)
+      .deploy(oldForwarder.address);
+    await clamCoin.deployed();
+
+    await (await clamCoin.transfer(holder.address, amount.mul(10))).wait();
+  });
+
+  it("trusts the constructor forwarder and grants the deployer the admin roles", async () => {
+    expect(await clamCoin.trustedForwarder()).to.equal(oldForwarder.address);
+    expect(await clamCoin.trustedForwarders()).to.deep.equal([
+      oldForwarder.address,
+    ]);
+    expect(await clamCoin.isTrustedForwarder(newForwarder.address)).to.equal(
+      false,
+    );
+    expect(
+      await clamCoin.hasRole(
+        await clamCoin.FORWARDER_ADMIN_ROLE(),
+        owner.address,
+      ),
+    ).to.equal(true);
+
+    expect(await forwardTransfer(oldForwarder)).to.equal(true);
+    expect(await clamCoin.balanceOf(stranger.address)).to.equal(amount);
+  });
+
+  it("allows only FORWARDER_ADMIN_ROLE to change the forwarders", async () => {
+    await expect(
+      clamCoin.connect(stranger).addTrustedForwarder(newForwarder.address),
+    ).to.be.revertedWithCustomError(
+      clamCoin,
+      "AccessControlUnauthorizedAccount",
+    );
+
+    await expect(
+      new TrustedForwarderMigrator(stranger).migrate(
+        [clamCoin.address],
+        newForwarder.address,
+      ),
+    ).to.be.rejectedWith("does not have FORWARDER_ADMIN_ROLE");
+  });
+
+  it("rejects adding a trusted forwarder twice and removing an unknown one", async () => {
+    await expect(clamCoin.addTrustedForwarder(oldForwarder.address))
+      .to.be.revertedWithCustomError(clamCoin, "GasFreeERC20InvalidForwarder")
+      .withArgs(oldForwarder.address);
+
+    await expect(clamCoin.removeTrustedForwarder(newForwarder.address))
+      .to.be.revertedWithCustomError(clamCoin, "GasFreeERC20UnknownForwarder")
+      .withArgs(newForwarder.address);
+  });
+
+  it("migrates the token to a new forwarder without redeploying", async () => {
+    const [result] = await new TrustedForwarderMigrator(owner).migrate(
+      [clamCoin.address],
+      newForwarder.address,
+    );
+
+    // 이전 Forwarder 를 제거하기 전에는 두 Forwarder 모두 사용할 수 있습니다.
+    expect(result.added).to.not.equal(undefined);
+    expect(result.removed).to.deep.equal([]);
+    expect(result.trustedForwarders).to.deep.equal([
+      oldForwarder.address,
+      newForwarder.address,
+    ]);
+    expect(await clamCoin.trustedForwarder()).to.equal(newForwarder.address);
+    expect(await forwardTransfer(oldForwarder)).to.equal(true);
+    expect(await forwardTransfer(newForwarder)).to.equal(true);
+
+    const [removal] = await new TrustedForwarderMigrator(owner).migrate(
+      [clamCoin.address],
+      newForwarder.address,
+      { removeOthers: true },
+    );
+
+    expect(removal.added).to.equal(undefined);
+    expect(removal.removed.map(({ forwarder }) => forwarder)).to.deep.equal([
+      oldForwarder.address,
+    ]);
+    expect(removal.trustedForwarders).to.deep.equal([newForwarder.address]);
+
+    const balanceBefore = await clamCoin.balanceOf(stranger.address);
+
+    // 제거된 Forwarder 는 sender 를 덧붙여도 Forwarder 자신으로 취급되어 전송에 실패합니다.
+    expect(await forwardTransfer(oldForwarder)).to.equal(false);
+    expect(await forwardTransfer(newForwarder)).to.equal(true);
+    expect(
+      (await clamCoin.balanceOf(stranger.address)).sub(balanceBefore),
+    ).to.equal(amount);
+  });
+
+  it("emits events when the forwarders change", async () => {
+    await expect(clamCoin.addTrustedForwarder(oldForwarder.address))
+      .to.emit(clamCoin, "TrustedForwarderAdded")
+      .withArgs(oldForwarder.address);
+    expect(await clamCoin.trustedForwarder()).to.equal(oldForwarder.address);
+
+    await expect(clamCoin.removeTrustedForwarder(oldForwarder.address))
+      .to.emit(clamCoin, "TrustedForwarderRemoved")
+      .withArgs(oldForwarder.address);
+    expect(await clamCoin.trustedForwarder()).to.equal(newForwarder.address);
+  });
+
+  it("falls back to the most recently added forwarder after removals", async () => {
+    const [a, b, c, d] = [
+      oldForwarder,
+      newForwarder,
+      await deployForwarder(),
+      await deployForwarder(),
+    ];
+    const token = await (await ethers.getContractFactory("ClamCoin"))
+      .connect(owner)
+      .deploy(a.address);
+    await token.deployed();
+
+    // a (constructor), b, c, d 순서로 추가합니다.
+    for (const forwarder of [b, c, d]) {
+      await (await token.addTrustedForwarder(forwarder.address)).wait();
+    }
+
+    // a 를 제거하면 EnumerableSet 은 마지막 d 를 a 자리로 옮겨 추가 순서와 달라집니다.
+    await (await token.removeTrustedForwarder(a.address)).wait();
+    expect(await token.trustedForwarders()).to.deep.equal([
+      d.address,
+      b.address,
+      c.address,
+    ]);
+    expect(await token.trustedForwarder()).to.equal(d.address);
+
+    await (await token.removeTrustedForwarder(d.address)).wait();
+    expect(await token.trustedForwarder()).to.equal(c.address);
+
+    // 다시 추가된 Forwarder 는 가장 최근 순서를 가집니다.
+    await (await token.addTrustedForwarder(a.address)).wait();
+    await (await token.removeTrustedForwarder(c.address)).wait();
+    expect(await token.trustedForwarder()).to.equal(a.address);
+
+    await (await token.removeTrustedForwarder(a.address)).wait();
+    expect(await token.trustedForwarder()).to.equal(b.address);
+
+    await (await token.removeTrustedForwarder(b.address)).wait();
+    expect(await token.trustedForwarder()).to.equal(
+      ethers.constants.AddressZero,
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { ethers } from "hardhat";
+
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import axios from "axios";
+import { ClamCoin, Forwarder } from "../typechain-types";
+import { MetaTransactionClient } from "../src/client";
+import { AllowlistSponsorshipPolicy, TrustedRelayServer } from "../src/server";
+
+describe("* Trusted Relay Server ( Forwarder Direct Call + Sponsorship Policy ) *", async () => {
+  let owner: Wallet;
+  let relayWorker: Wallet;
+  let stranger: Wallet;
+
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+
+  let client: MetaTransactionClient;
+  let server: TrustedRelayServer;
+  let relayUrl: string;
+
+  const amount = ethers.utils.parseEther("100");
+
+  /** 서명된 ForwardRequest 를 `/relay` 로 전송합니다. */
+  const postRelay = async (
+    signer: Wallet,
+    data: string,
+    options: { to?: string; gas?: number } = {},
+  ) => {
+    const signed = await client.createSignedRequest(signer, {
+      to: options.to ?? clamCoin.address,
+      data,
+      gas: options.gas,
+    });
+
+    const response = await axios.post(
+      `${relayUrl}/relay`,
+      client.toForwarderExecutePayload(signed),
+    );
+
+    return response.data as { txHash?: string; error?: string };
+  };
+
+  const transferData = (to: string) =>
+    clamCoin.interface.encodeFunctionData("transfer", [to, amount]);
+
+  before(async () => {
+    const [operator] = await ethers.getSigners();
+
+    if (!operator.provider) {
+      throw new Error("provider is undefined");
+    }
+
+    owner = ethers.Wallet.createRandom().connect(operator.provider);
+    relayWorker = ethers.Wallet.createRandom().connect(operator.provider);
+    stranger = ethers.Wallet.createRandom().connect(operator.provider);
+
+    for (const wallet of [owner, relayWorker]) {
+      const sendNativeTx = await operator.sendTransaction({
+        to: wallet.address,
+        value: ethers.utils.parseEther("10"),
+      });
+      await sendNativeTx.wait();
+    }
+
+    forwarder = await (await ethers.getContractFactory("Forwarder")).deploy();
+    await forwarder.deployed();
+
+    await (
+      await forwarder.registerDomainSeparator("Trusted Relay Transaction", "1")
+    ).wait();
+
+    clamCoin = await (await ethers.getContractFactory("ClamCoin"))
+      .connect(owner)
+      .deploy(forwarder.address);
+    await clamCoin.deployed();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      "Trusted Relay Transaction",
+      "1",
+    );
+
+    server = new TrustedRelayServer({
+      forwarder,
+      relayWorker,
+      policy: new AllowlistSponsorshipPolicy({
+        contracts: { [clamCoin.address]: ["transfer(address,uint256)"] },
+        senders: [owner.address],
+      }),
+    });
+
+    relayUrl = `http://127.0.0.1:${await server.listen(0)}`;
+  });
+
+  it("/getaddr returns relayWorker and forwarder", async () => {
+    const { data } = await axios.get(`${relayUrl}/getaddr`);
+
+    expect(data.relayWorkerAddress).to.equal(relayWorker.address);
+    expect(data.forwarderAddress).to.equal(forwarder.address);
+  });
+
+  it("relays a sponsored ERC20.transfer and returns the tx hash", async () => {
+    const balanceBefore = await clamCoin.balanceOf(owner.address);
+    const workerBalanceBefore = await relayWorker.getBalance();
+
+    const { txHash, error } = await postRelay(
+      owner,
+      transferData(stranger.address),
+    );
+
+    expect(error).to.equal(undefined);
+
+    const receipt = await ethers.provider.waitForTransaction(txHash!);
+
+    expect(receipt.from).to.equal(relayWorker.address);
+    expect(receipt.to).to.equal(forwarder.address);
+    expect(await clamCoin.balanceOf(stranger.address)).to.equal(amount);
+    expect(balanceBefore.sub(await clamCoin.balanceOf(owner.address))).to.equal(
+      amount,
+    );
+    expect((await relayWorker.getBalance()).lt(workerBalanceBefore)).to.equal(
+      true,
+    );
+  });
+
+  it("rejects a function that is not sponsored", async () => {
+    const { txHash, error } = await postRelay(
+      owner,
+      clamCoin.interface.encodeFunctionData("approve", [
+        stranger.address,
+        amount,
+      ]),
+    );
+
+    expect(txHash).to.equal(undefined);
+    expect(error).to.include("is not sponsored");
+  });
+
+  it("rejects a sender that is not sponsored", async () => {
+    const { error } = await postRelay(stranger, transferData(owner.address));
+
+    expect(error).to.include(`sender ${stranger.address} is not sponsored`);
+  });
+
+  it("rejects a contract that is not sponsored", async () => {
+    const { error } = await postRelay(owner, transferData(stranger.address), {
+      to: stranger.address,
+    });
+
+    expect(error).to.include(`contract ${stranger.address} is not sponsored`);
+  });
+
+  it("rejects a request whose signature does not match", async () => {
+    const signed = await client.createSignedRequest(owner, {
+      to: clamCoin.address,
+      data: transferData(stranger.address),
+    });
+    const payload = client.toForwarderExecutePayload(signed);
+
+    const workerNonce = await relayWorker.getTransactionCount();
+
+    const { data } = await axios.post(`${relayUrl}/relay`, {
+      ...payload,
+      request: { ...payload.request, data: transferData(owner.address) },
+    });
+
+    expect(data.error).to.include("signature recovered");
+    expect(await relayWorker.getTransactionCount()).to.equal(workerNonce);
+  });
+
+  it("rejects a sponsored call that would revert", async () => {
+    const { error } = await postRelay(
+      owner,
+      clamCoin.interface.encodeFunctionData("transfer", [
+        stranger.address,
+        (await clamCoin.balanceOf(owner.address)).add(1),
+      ]),
+      { gas: 100_000 },
+    );
+
+    expect(error).to.include("target call reverted");
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+});
@@ -0,0 +1,274 @@
+import { ethers } from "hardhat";
+
+import axios from "axios";
+import { Wallet } from "ethers";
+import { expect } from "chai";
+import {
+  ClamCoin,
+  Forwarder,
+  RelayHub,
+  VerifyingPaymaster,
+} from "../typechain-types";
+import {
+  GSN_DOMAIN_NAME,
+  GSN_DOMAIN_VERSION,
+  MetaTransactionClient,
+  RelayCallPayload,
+} from "../src/client";
+import {
+  AllowlistSponsorshipPolicy,
+  SponsorApprovalService,
+  getApprovalHash,
+} from "../src/server";
+import { deployGsnFixture } from "./fixtures/gsn";
+
+/** 트랜잭션 gasLimit 으로도 사용하는 relayCall externalGasLimit */
+const EXTERNAL_GAS_LIMIT = 1_000_000;
+
+describe("* Verifying Paymaster ( off-chain sponsor approval ) *", async () => {
+  let owner: Wallet;
+  let relayManager: Wallet;
+  let relayWorker: Wallet;
+  let approver: Wallet;
+
+  let relayHub: RelayHub;
+  let forwarder: Forwarder;
+  let clamCoin: ClamCoin;
+  let paymaster: VerifyingPaymaster;
+
+  let client: MetaTransactionClient;
+  let service: SponsorApprovalService;
+
+  /** owner 의 요청에 서명하여 approvalData 없이 relayCall 인자로 변환합니다. */
+  const buildPayload = async (
+    data = clamCoin.interface.encodeFunctionData("transfer", [
+      relayManager.address,
+      1,
+    ]),
+  ) => {
+    const signed = await client.signRequest(
+      owner,
+      await client.buildRelayRequest(
+        // 거절되는 요청도 서명할 수 있도록 gas 를 추정하지 않습니다.
+        { from: owner.address, to: clamCoin.address, data, gas: 100_000 },
+        {
+          gasPrice: await ethers.provider.getGasPrice(),
+          pctRelayFee: 0,
+          baseRelayFee: 0,
+          relayWorker: relayWorker.address,
+          paymaster: paymaster.address,
+          forwarder: forwarder.address,
+          paymasterData: "0x",
+          clientId: 1,
+        },
+      ),
+    );
+
+    return client.toRelayCallPayload(signed, {
+      maxAcceptanceBudget: (await paymaster.getGasAndDataLimits())
+        .acceptanceBudget,
+      externalGasLimit: EXTERNAL_GAS_LIMIT,
+    });
+  };
+
+  /** approvalData 와 함께 relayWorker 로 RelayHub.relayCall 하고 RelayHub 이벤트를 반환합니다. */
+  const relay = async (payload: RelayCallPayload, approvalData: string) => {
+    const receipt = await (
+      await relayHub
+        .connect(relayWorker)
+        .relayCall(
+          payload.maxAcceptanceBudget,
+          payload.relayRequest,
+          payload.signature,
+          approvalData,
+          payload.externalGasLimit,
+          { gasLimit: EXTERNAL_GAS_LIMIT },
+        )
+    ).wait();
+
+    return receipt.logs
+      .filter((log) => log.address === relayHub.address)
+      .map((log) => relayHub.interface.parseLog(log));
+  };
+
+  /** TransactionRejectedByPaymaster 의 reason(revert data) 에 message 가 포함되어 있는지 확인합니다. */
+  const expectRejected = (
+    events: Awaited<ReturnType<typeof relay>>,
+    message: string,
+  ) => {
+    const rejected = events.find(
+      (event) => event.name === "TransactionRejectedByPaymaster",
+    );
+
+    expect(rejected?.args.reason).to.include(
+      ethers.utils.hexlify(ethers.utils.toUtf8Bytes(message)).slice(2),
+    );
+  };
+
+  const latestTimestamp = async () =>
+    (await ethers.provider.getBlock("latest")).timestamp;
+
+  before(async () => {
+    ({ owner, relayManager, relayWorker, relayHub, forwarder, clamCoin } =
+      await deployGsnFixture());
+
+    approver = ethers.Wallet.createRandom();
+
+    paymaster = await (await ethers.getContractFactory("VerifyingPaymaster"))
+      .connect(owner)
+      .deploy(relayHub.address, forwarder.address, approver.address);
+    await paymaster.deployed();
+
+    await (
+      await owner.sendTransaction({
+        to: paymaster.address,
+        value: ethers.utils.parseEther("1"),
+      })
+    ).wait();
+
+    await (
+      await relayHub
+        .connect(relayManager)
+        .addRelayWorkers([relayWorker.address])
+    ).wait();
+
+    client = new MetaTransactionClient(
+      forwarder,
+      GSN_DOMAIN_NAME,
+      GSN_DOMAIN_VERSION,
+    );
+    service = new SponsorApprovalService({
+      approver,
+      paymaster: paymaster.address,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      policy: new AllowlistSponsorshipPolicy({
+        contracts: { [clamCoin.address]: ["transfer(address,uint256)"] },
+      }),
+    });
+  });
+
+  describe("* Approval Service *", async () => {
+    it("computes the same approval hash as the paymaster", async () => {
+      const { relayRequest } = await buildPayload();
+      const { chainId } = await ethers.provider.getNetwork();
+
+      expect(
+        getApprovalHash(chainId, paymaster.address, relayRequest, 1234),
+      ).to.equal(await paymaster.getApprovalHash(relayRequest, 1234));
+    });
+
+    it("refuses to approve a request rejected by the policy", async () => {
+      const { relayRequest } = await buildPayload(
+        clamCoin.interface.encodeFunctionData("approve", [
+          relayManager.address,
+          1,
+        ]),
+      );
+
+      await expect(service.approve(relayRequest)).to.be.rejectedWith(
+        "request is not sponsored",
+      );
+    });
+
+    it("issues approvals over HTTP", async () => {
+      const port = await service.listen(0);
+
+      try {
+        const { relayRequest } = await buildPayload();
+
+        const { data } = await axios.post(
+          `http://127.0.0.1:${port}/approve`,
+          relayRequest,
+        );
+
+        const [expiry, signature] = ethers.utils.defaultAbiCoder.decode(
+          ["uint256", "bytes"],
+          data.approvalData,
+        );
+
+        expect(expiry).to.equal(data.expiry);
+        expect(
+          ethers.utils.verifyMessage(
+            ethers.utils.arrayify(
+              await paymaster.getApprovalHash(relayRequest, expiry),
+            ),
+            signature,
+          ),
+        ).to.equal(approver.address);
+      } finally {
+        await service.close();
+      }
+    });
+  });
+
+  describe("* preRelayedCall *", async () => {
+    it("relays a request with a valid approval", async () => {
+      const payload = await buildPayload();
+      const { approvalData } = await service.approve(
+        payload.relayRequest,
+        await latestTimestamp(),
+      );
+
+      const events = await relay(payload, approvalData);
+
+      const relayed = events.find(
+        (event) => event.name === "TransactionRelayed",
+      );
+      expect(relayed?.args.paymaster).to.equal(paymaster.address);
+      expect(relayed?.args.status).to.equal(0);
+    });
+
+    it("rejects a request without approval", async () => {
+      expectRejected(
+        await relay(await buildPayload(), "0x"),
+        "missing approval",
+      );
+    });
+
+    it("rejects an expired approval", async () => {
+      const payload = await buildPayload();
+      const { approvalData } = await service.approve(
+        payload.relayRequest,
+        (await latestTimestamp()) - service.validForSeconds - 1,
+      );
+
+      expectRejected(await relay(payload, approvalData), "approval expired");
+    });
+
+    it("rejects an approval issued for another request", async () => {
+      const approved = await buildPayload();
+      const { approvalData } = await service.approve(
+        approved.relayRequest,
+        await latestTimestamp(),
+      );
+
+      // 같은 nonce 로 서명한 다른 요청 (전송량만 다름)
+      const tampered = await buildPayload(
+        clamCoin.interface.encodeFunctionData("transfer", [
+          relayManager.address,
+          2,
+        ]),
+      );
+
+      expectRejected(
+        await relay(tampered, approvalData),
+        "invalid approval signature",
+      );
+    });
+
+    it("rejects an approval signed by another key", async () => {
+      const payload = await buildPayload();
+      const { approvalData } = await new SponsorApprovalService({
+        approver: ethers.Wallet.createRandom(),
+        paymaster: paymaster.address,
+        chainId: service.chainId,
+        policy: service.policy,
+      }).approve(payload.relayRequest, await latestTimestamp());
+
+      expectRejected(
+        await relay(payload, approvalData),
+        "invalid approval signature",
+      );
+    });
+  });
+});